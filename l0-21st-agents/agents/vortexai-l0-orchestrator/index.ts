@@ -3,6 +3,9 @@ import { z } from 'zod';
 
 import type { L0Orchestrator as L0OrchestratorType, L0Response } from 'vortexai-l0/orchestrator';
 
+// Minimum gap between partial results while model tokens are arriving
+const PARTIAL_OUTPUT_INTERVAL_MS = 250;
+
 let orchestratorPromise: Promise<L0OrchestratorType> | null = null;
 
 async function getOrchestrator(): Promise<L0OrchestratorType> {
@@ -17,6 +20,12 @@ async function getOrchestrator(): Promise<L0OrchestratorType> {
 function formatL0Response(result: L0Response): string {
   const lines: string[] = [result.message];
 
+  const answer = typeof result.data === 'object' ? result.data.answer : undefined;
+  if (typeof answer === 'string' && answer) {
+    lines.push('');
+    lines.push(answer);
+  }
+
   if (result.workflow && result.workflow.length > 0) {
     lines.push('');
     lines.push('Workflow:');
@@ -62,6 +71,52 @@ function formatL0Response(result: L0Response): string {
   return lines.join('\n');
 }
 
+function formatProgress(steps: Map<string, string>, answer: string): string {
+  const lines = Array.from(steps.values());
+  if (answer) {
+    lines.push('');
+    lines.push(answer);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Relay query progress as partial tool results, ending with the full response
+ */
+async function* streamL0Query(
+  orchestrator: L0OrchestratorType,
+  query: string,
+  options: { project?: string; format: 'text' | 'json' | 'workflow' }
+): AsyncGenerator<string> {
+  const steps = new Map<string, string>();
+  let answer = '';
+  let lastPartial = 0;
+
+  for await (const event of orchestrator.queryStream(query, options)) {
+    switch (event.type) {
+      case 'intent':
+        steps.set('intent', `Routing to ${event.handler}`);
+        break;
+      case 'step:started':
+        steps.set(event.stepId, `… ${event.label}`);
+        break;
+      case 'step:finished':
+        steps.set(event.stepId, event.status === 'completed' ? `✓ ${event.label}` : `✗ ${event.label}: ${event.error}`);
+        break;
+      case 'token':
+        answer += event.text;
+        if (Date.now() - lastPartial < PARTIAL_OUTPUT_INTERVAL_MS) continue;
+        break;
+      case 'final':
+        yield options.format === 'json' ? JSON.stringify(event.response, null, 2) : formatL0Response(event.response);
+        return;
+    }
+
+    lastPartial = Date.now();
+    yield formatProgress(steps, answer);
+  }
+}
+
 export default agent({
   model: 'claude-sonnet-4-6',
   runtime: 'claude-code',
@@ -95,18 +150,15 @@ Execution behavior:
         project: z.string().optional(),
         format: z.enum(['text', 'json', 'workflow']).optional().default('text'),
       }),
-      execute: async ({ query, project, format }) => {
+      // Each yield is a preliminary result; the last one is the tool's final output
+      execute: async function* ({ query, project, format }) {
         const orchestrator = await getOrchestrator();
-        const result = await orchestrator.query(query, { project, format });
-
-        const text =
-          format === 'json'
-            ? JSON.stringify(result, null, 2)
-            : formatL0Response(result);
 
-        return {
-          content: [{ type: 'text', text }],
-        };
+        for await (const text of streamL0Query(orchestrator, query, { project, format })) {
+          yield {
+            content: [{ type: 'text', text }],
+          };
+        }
       },
     }),
   },
@@ -6,3 +6,9 @@ const result = await orchestrator.query('memory oauth implementation patterns');
 console.log(`L0 import: ok`);
 console.log(`L0 sample query: ${result.type}`);
 console.log(result.message);
+
+const events = [];
+for await (const event of orchestrator.queryStream('create viral TikTok campaign')) {
+  events.push(event.type);
+}
+console.log(`L0 stream: ${events.join(' → ')}`);
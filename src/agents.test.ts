@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { AgentRegistry, LocalAgent, createAgentStepHandler, type AgentTask } from './agents.js';
+import { L0Orchestrator } from './orchestrator.js';
+import { createPluginManager } from './plugins.js';
+import { WorkflowEngine, defineWorkflow } from './workflow.js';
+
+const task = (type: string, payload: Record<string, unknown> = {}): AgentTask => ({
+  id: `task-${type}`,
+  type,
+  payload,
+  priority: 1,
+  timestamp: new Date(),
+});
+
+const agent = (name: string, strengths: string[], costPerToken: number, speedRating: number, weaknesses: string[] = []) =>
+  new LocalAgent({ name, capabilities: { strengths, weaknesses, costPerToken, speedRating } });
+
+describe('AgentRegistry', () => {
+  it('should prefer specialists over generalists', () => {
+    const registry = new AgentRegistry([agent('generalist', ['*'], 0, 10), agent('writer', ['content'], 0.00002, 2)]);
+    expect(registry.selectBestAgent(task('content'))?.name).toBe('writer');
+    expect(registry.selectBestAgent(task('legal'))?.name).toBe('generalist');
+  });
+
+  it('should weigh speed against cost according to the strategy', () => {
+    const registry = new AgentRegistry([agent('fast', ['research'], 0.00003, 9), agent('cheap', ['research'], 0.000001, 3)]);
+    expect(registry.selectBestAgent(task('research'), { strategy: 'speed' })?.name).toBe('fast');
+    expect(registry.selectBestAgent(task('research'), { strategy: 'cost' })?.name).toBe('cheap');
+  });
+
+  it('should never pick an agent for a task listed as a weakness', () => {
+    const registry = new AgentRegistry([agent('any', ['*'], 0, 5, ['deploy'])]);
+    expect(registry.selectBestAgent(task('deploy'))).toBeUndefined();
+    expect(registry.selectBestAgent(task('research'), { exclude: ['any'] })).toBeUndefined();
+  });
+
+  it('should delegate to the selected agent and report who ran it', async () => {
+    const registry = new AgentRegistry([
+      new LocalAgent({
+        name: 'counter',
+        capabilities: { strengths: ['analytics'], weaknesses: [], costPerToken: 0, speedRating: 5 },
+        run: async (t) => ({ total: (t.payload.values as number[]).reduce((a, b) => a + b, 0) }),
+      }),
+    ]);
+
+    const result = await registry.delegateTask(task('analytics', { values: [1, 2, 3] }));
+    expect(result).toMatchObject({ agent: 'counter', output: { total: 6 } });
+    await expect(registry.delegateTask(task('deploy'))).rejects.toThrow(/No agent can handle "deploy"/);
+  });
+
+  it('should cover every task type used by the built-in workflows', async () => {
+    const registry = new AgentRegistry();
+    const orchestrator = new L0Orchestrator(createPluginManager(true));
+    const queries = ['viral campaign', 'create content', 'trending hashtags', 'do something', 'deploy app', 'debug crash', 'kpi metrics', 'team standup'];
+
+    for (const query of queries) {
+      const { workflowDefinition } = await orchestrator.query(query);
+      for (const assignment of registry.assign(workflowDefinition!.steps)) {
+        expect(assignment.agent, `${query}: ${assignment.taskType}`).not.toBe('unassigned');
+      }
+    }
+  });
+});
+
+describe('createAgentStepHandler', () => {
+  it('should delegate each workflow step as a task typed by its handler', async () => {
+    const seen: AgentTask[] = [];
+    const registry = new AgentRegistry([
+      new LocalAgent({
+        name: 'recorder',
+        capabilities: { strengths: ['*'], weaknesses: [], costPerToken: 0, speedRating: 5 },
+        run: async (t) => {
+          seen.push(t);
+          return { ok: true };
+        },
+      }),
+    ]);
+    const engine = new WorkflowEngine({ fallbackHandler: createAgentStepHandler(registry) });
+    const workflow = defineWorkflow('w', 'W', [
+      { id: 'research', label: 'Research', handler: 'research', inputs: { topic: '{{input.topic}}' }, outputs: ['notes'] },
+    ], { topic: 'eco' });
+
+    const run = await engine.run(workflow, { runId: 'run-1' });
+    expect(run.steps.research.outputs).toEqual({ ok: true });
+    expect(seen[0]).toMatchObject({ id: 'run-1:research', type: 'research', payload: { topic: 'eco', outputs: ['notes'] } });
+  });
+});
+
+describe('L0Orchestrator agent delegation', () => {
+  it('should report step assignments and run steps through the agents', async () => {
+    const orchestrator = new L0Orchestrator(createPluginManager(true));
+    const response = await orchestrator.query('create viral campaign');
+
+    expect(response.assignments?.map((a) => a.stepId)).toEqual(response.workflowDefinition?.steps.map((s) => s.id));
+    expect(response.assignments?.find((a) => a.stepId === 'research')?.agent).toBe('research');
+
+    const run = await orchestrator.runWorkflow(response.workflowDefinition!);
+    expect(run.steps.research.outputs?.agent).toBe('research');
+  });
+
+  it('should only run steps on the agents a query names', async () => {
+    const ran: string[] = [];
+    const agent = (name: string, speedRating: number) =>
+      new LocalAgent({
+        name,
+        capabilities: { strengths: ['*'], weaknesses: [], costPerToken: 0, speedRating },
+        run: async () => {
+          ran.push(name);
+          return { agent: name };
+        },
+      });
+    const orchestrator = new L0Orchestrator({
+      plugins: createPluginManager(true),
+      agents: new AgentRegistry([agent('fast', 10), agent('slow', 1)]),
+    });
+
+    const response = await orchestrator.query('create viral campaign', { agents: ['slow'] });
+    expect(response.assignments?.every((a) => a.agent === 'slow')).toBe(true);
+
+    const run = await orchestrator.runWorkflow(response.workflowDefinition!);
+    expect(run.status).toBe('completed');
+    expect(ran.length).toBeGreaterThan(0);
+    expect(ran).not.toContain('fast');
+  });
+});
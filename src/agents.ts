@@ -0,0 +1,323 @@
+/**
+ * VortexAI L0 Agents
+ *
+ * Typed agents with capability metadata and a registry that delegates tasks to the best match
+ * @module agents
+ */
+
+import type { StepHandler } from './workflow.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A unit of work handed to an agent
+ *
+ * `type` names the kind of work, such as `research` or `analytics`; workflow
+ * steps use their handler name as the task type.
+ */
+export interface AgentTask {
+  id: string;
+  type: string;
+  payload: Record<string, unknown>;
+  priority: number;
+  timestamp: Date;
+}
+
+/**
+ * What an agent is good at and what it costs to use
+ */
+export interface AgentCapability {
+  agent: string;
+  /** Task types this agent handles; `*` marks a generalist */
+  strengths: string[];
+  /** Task types this agent must not be given */
+  weaknesses: string[];
+  costPerToken: number;
+  /** Relative speed from 1 (slow) to 10 (fast) */
+  speedRating: number;
+}
+
+export interface Agent {
+  readonly name: string;
+  readonly description?: string;
+  readonly capabilities: AgentCapability;
+  execute(task: AgentTask, signal?: AbortSignal): Promise<Record<string, unknown>>;
+}
+
+export type AgentSelectionStrategy = 'balanced' | 'speed' | 'cost';
+
+export interface AgentSelectionOptions {
+  strategy?: AgentSelectionStrategy;
+  /** Agents to leave out, e.g. ones that already failed the task */
+  exclude?: string[];
+  /** Only consider these agents */
+  include?: string[];
+}
+
+export interface AgentDelegation {
+  agent: string;
+  task: AgentTask;
+  output: Record<string, unknown>;
+  durationMs: number;
+}
+
+/**
+ * The agent a workflow step would be delegated to
+ */
+export interface AgentAssignment {
+  stepId: string;
+  taskType: string;
+  agent: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const GENERALIST = '*';
+const MAX_SPEED_RATING = 10;
+// Exact strengths always rank ahead of generalists
+const SPECIALIST_BONUS = 1;
+
+// ============================================================================
+// Local Agent Class
+// ============================================================================
+
+/**
+ * Agent that runs in-process
+ *
+ * The default `run` fills each requested output with a description of the
+ * work, which keeps workflows runnable offline. Pass a real `run` function to
+ * call a model, an API or local tooling.
+ */
+export class LocalAgent implements Agent {
+  readonly name: string;
+  readonly description?: string;
+  readonly capabilities: AgentCapability;
+  private readonly run: (task: AgentTask, signal?: AbortSignal) => Promise<Record<string, unknown>>;
+
+  constructor(options: {
+    name: string;
+    description?: string;
+    capabilities: Omit<AgentCapability, 'agent'>;
+    run?: (task: AgentTask, signal?: AbortSignal) => Promise<Record<string, unknown>>;
+  }) {
+    this.name = options.name;
+    this.description = options.description;
+    this.capabilities = { agent: options.name, ...options.capabilities };
+    this.run = options.run || ((task) => this.describeWork(task));
+  }
+
+  execute(task: AgentTask, signal?: AbortSignal): Promise<Record<string, unknown>> {
+    return this.run(task, signal);
+  }
+
+  private async describeWork(task: AgentTask): Promise<Record<string, unknown>> {
+    const label = typeof task.payload.label === 'string' ? task.payload.label.replace(/^\W+/u, '').trim() : task.type;
+    const outputs: Record<string, unknown> = { summary: `${this.name}: ${label} completed`, agent: this.name };
+    const requested = Array.isArray(task.payload.outputs) ? (task.payload.outputs as string[]) : [];
+
+    for (const name of requested) {
+      outputs[name] = `${this.name} ${task.type} result (${name})`;
+    }
+    return outputs;
+  }
+}
+
+// ============================================================================
+// Built-in Agents
+// ============================================================================
+
+/**
+ * Offline agents covering every task type used by the built-in workflows
+ */
+export function createDefaultAgents(): Agent[] {
+  return [
+    new LocalAgent({
+      name: 'research',
+      description: 'Market research, competitor analysis and topic discovery',
+      capabilities: { strengths: ['research', 'data'], weaknesses: ['deploy'], costPerToken: 0.000005, speedRating: 6 },
+    }),
+    new LocalAgent({
+      name: 'creative',
+      description: 'Content themes, copy and visual concepts',
+      capabilities: { strengths: ['creative', 'content', 'design', 'seo'], weaknesses: ['deploy', 'security'], costPerToken: 0.000015, speedRating: 5 },
+    }),
+    new LocalAgent({
+      name: 'platform',
+      description: 'Platform-specific optimization and post scheduling',
+      capabilities: { strengths: ['scheduling', 'content'], weaknesses: [], costPerToken: 0.000003, speedRating: 8 },
+    }),
+    new LocalAgent({
+      name: 'analytics',
+      description: 'Metrics, trend analysis and reporting',
+      capabilities: { strengths: ['analytics', 'data', 'reporting', 'monitoring'], weaknesses: ['design'], costPerToken: 0.000004, speedRating: 7 },
+    }),
+    new LocalAgent({
+      name: 'developer',
+      description: 'Debugging, testing, builds and deployments',
+      capabilities: { strengths: ['code', 'debug', 'testing', 'build', 'deploy', 'security', 'monitoring'], weaknesses: ['design'], costPerToken: 0.00001, speedRating: 6 },
+    }),
+    new LocalAgent({
+      name: 'coordinator',
+      description: 'Planning, delegation and review; takes any task no specialist covers',
+      capabilities: { strengths: ['planning', 'coordination', 'review', GENERALIST], weaknesses: [], costPerToken: 0.000002, speedRating: 9 },
+    }),
+  ];
+}
+
+// ============================================================================
+// Agent Registry Class
+// ============================================================================
+
+/**
+ * Holds the available agents and picks one for each task
+ *
+ * @example
+ * ```typescript
+ * import { AgentRegistry, LocalAgent } from 'vortexai-l0';
+ *
+ * const registry = new AgentRegistry();
+ * registry.register(new LocalAgent({
+ *   name: 'copywriter',
+ *   capabilities: { strengths: ['content'], weaknesses: [], costPerToken: 0.00002, speedRating: 4 },
+ *   run: async (task) => ({ posts: await writePosts(task.payload) }),
+ * }));
+ *
+ * const result = await registry.delegateTask({ id: 't1', type: 'content', payload: {}, priority: 1, timestamp: new Date() });
+ * ```
+ */
+export class AgentRegistry {
+  private readonly agents: Map<string, Agent> = new Map();
+
+  /**
+   * @param agents - Initial agents (default: {@link createDefaultAgents})
+   */
+  constructor(agents: Agent[] = createDefaultAgents()) {
+    agents.forEach((agent) => this.register(agent));
+  }
+
+  // ==========================================================================
+  // Registration
+  // ==========================================================================
+
+  /**
+   * Register an agent, replacing any agent with the same name
+   */
+  register(agent: Agent): void {
+    this.agents.set(agent.name, agent);
+  }
+
+  unregister(name: string): boolean {
+    return this.agents.delete(name);
+  }
+
+  get(name: string): Agent | undefined {
+    return this.agents.get(name);
+  }
+
+  list(): Agent[] {
+    return Array.from(this.agents.values());
+  }
+
+  // ==========================================================================
+  // Selection & Delegation
+  // ==========================================================================
+
+  /**
+   * Pick the agent best suited to a task
+   *
+   * Agents listing the task type as a weakness are never chosen. Specialists
+   * rank ahead of generalists; within each group, the strategy weighs speed
+   * rating against cost per token.
+   *
+   * @returns The chosen agent, or undefined when no agent can take the task
+   */
+  selectBestAgent(task: Pick<AgentTask, 'type'>, options: AgentSelectionOptions = {}): Agent | undefined {
+    const exclude = new Set(options.exclude || []);
+    const include = options.include && new Set(options.include);
+    const candidates = this.list().filter(
+      ({ name, capabilities }) =>
+        !exclude.has(name) &&
+        (!include || include.has(name)) &&
+        !capabilities.weaknesses.includes(task.type) &&
+        (capabilities.strengths.includes(task.type) || capabilities.strengths.includes(GENERALIST))
+    );
+    if (candidates.length === 0) return undefined;
+
+    const maxCost = Math.max(...candidates.map((a) => a.capabilities.costPerToken));
+    const strategy = options.strategy || 'balanced';
+
+    const score = ({ capabilities }: Agent) => {
+      const speed = capabilities.speedRating / MAX_SPEED_RATING;
+      const cheapness = maxCost > 0 ? 1 - capabilities.costPerToken / maxCost : 1;
+      const fit = capabilities.strengths.includes(task.type) ? SPECIALIST_BONUS : 0;
+      const weights = strategy === 'speed' ? [0.8, 0.2] : strategy === 'cost' ? [0.2, 0.8] : [0.5, 0.5];
+
+      return fit + weights[0] * speed + weights[1] * cheapness;
+    };
+
+    return candidates.sort((a, b) => score(b) - score(a))[0];
+  }
+
+  /**
+   * Route a task to the best agent and run it
+   *
+   * @throws Error if no registered agent can take the task
+   */
+  async delegateTask(task: AgentTask, options: AgentSelectionOptions & { signal?: AbortSignal } = {}): Promise<AgentDelegation> {
+    const agent = this.selectBestAgent(task, options);
+    if (!agent) {
+      throw new Error(`No agent can handle "${task.type}" tasks`);
+    }
+
+    const started = Date.now();
+    const output = await agent.execute(task, options.signal);
+    return { agent: agent.name, task, output, durationMs: Date.now() - started };
+  }
+
+  /**
+   * Work out which agent each step of a workflow would go to
+   */
+  assign(steps: Array<{ id: string; handler: string }>, options: AgentSelectionOptions = {}): AgentAssignment[] {
+    return steps.map((step) => ({
+      stepId: step.id,
+      taskType: step.handler,
+      agent: this.selectBestAgent({ type: step.handler }, options)?.name || 'unassigned',
+    }));
+  }
+}
+
+// ============================================================================
+// Workflow Integration
+// ============================================================================
+
+/**
+ * Step handler that turns each workflow step into an agent task
+ *
+ * The task type is the step's handler name; the payload carries the resolved
+ * inputs, the step label, its declared outputs and upstream results. Steps
+ * of a workflow that names its agents only go to those agents.
+ */
+export function createAgentStepHandler(registry: AgentRegistry, options: AgentSelectionOptions = {}): StepHandler {
+  return async ({ runId, step, inputs, dependencies, agents, signal }) => {
+    const { output } = await registry.delegateTask(
+      {
+        id: `${runId}:${step.id}`,
+        type: step.handler,
+        payload: { ...inputs, label: step.label, outputs: step.outputs || [], dependencies },
+        priority: 0,
+        timestamp: new Date(),
+      },
+      { ...options, include: restrictAgents(options.include, agents), signal }
+    );
+    return output;
+  };
+}
+
+function restrictAgents(include: string[] | undefined, agents: string[] | undefined): string[] | undefined {
+  if (!agents) return include;
+  return include ? agents.filter((name) => include.includes(name)) : agents;
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { parseBrandProfile, rankForBrand, scoreRelevance, type BrandProfile } from './brand.js';
+import { L0Orchestrator } from './orchestrator.js';
+import { createPluginManager } from './plugins.js';
+
+const profile: BrandProfile = {
+  name: 'Evergreen Bottles',
+  keywords: ['sustainability', 'eco', 'zero waste'],
+  audience: ['millennials'],
+  tone: 'playful',
+  excludedTopics: ['politics'],
+};
+
+describe('scoreRelevance', () => {
+  it.each([
+    ['#SustainableLiving', 0.75, 'Matches keyword "sustainability"'],
+    ['#ecofriendly', 0.6, 'Contains keyword "eco"'],
+    ['#EcoFunMillennials', 1, 'Matches keyword "eco"; speaks to millennials; fits the playful tone'],
+    ['#ZeroCarbon', 0.19, 'Partly matches keyword "zero waste"'],
+    ['#GreenTech', 0, 'No brand keyword'],
+  ])('should score %s', (hashtag, relevanceScore, rationale) => {
+    expect(scoreRelevance(hashtag, profile)).toEqual({ relevanceScore, rationale, safe: true });
+  });
+
+  it('should flag excluded and unsafe topics', () => {
+    expect(scoreRelevance('#EcoPolitics', profile)).toEqual({ relevanceScore: 0, rationale: 'Touches excluded topic "politics"', safe: false });
+    expect(scoreRelevance('#SportsGambling', profile)).toMatchObject({ rationale: 'Brand-unsafe topic "gambling"', safe: false });
+    expect(scoreRelevance('#MassShooting', profile)).toMatchObject({ rationale: 'Brand-unsafe topic "mass shooting"', safe: false });
+  });
+
+  it.each(['#PhotoShooting', '#photoshooting', '#DrugstoreMakeup', '#Apolitical'])('should not flag %s as unsafe', (hashtag) => {
+    expect(scoreRelevance(hashtag, profile).safe).toBe(true);
+  });
+
+  it('should not match short or embedded terms', () => {
+    expect(scoreRelevance('#WhateverWednesday', { keywords: ['eco'] }).safe).toBe(true);
+    expect(scoreRelevance('#SmartHome', { keywords: ['art'] }).relevanceScore).toBe(0);
+  });
+});
+
+describe('rankForBrand', () => {
+  it('should rank by relevance and explain what was dropped', () => {
+    const trends = [{ hashtag: '#GreenTech' }, { hashtag: '#ecofriendly' }, { hashtag: '#EcoPolitics' }, { hashtag: '#ZeroWaste' }];
+
+    expect(rankForBrand(trends, profile)).toEqual({
+      ranked: [
+        { hashtag: '#ZeroWaste', relevanceScore: 0.75, rationale: 'Matches keyword "zero waste"' },
+        { hashtag: '#ecofriendly', relevanceScore: 0.6, rationale: 'Contains keyword "eco"' },
+      ],
+      filtered: [
+        { hashtag: '#GreenTech', reason: 'Relevance 0 is below 0.3: No brand keyword' },
+        { hashtag: '#EcoPolitics', reason: 'Touches excluded topic "politics"' },
+      ],
+    });
+  });
+
+  it('should honour the minimum relevance', () => {
+    const { ranked } = rankForBrand([{ hashtag: '#ecofriendly' }], { ...profile, minRelevance: 0.7 });
+    expect(ranked).toEqual([]);
+  });
+});
+
+describe('parseBrandProfile', () => {
+  it('should reject incomplete profiles', () => {
+    expect(() => parseBrandProfile({ keywords: [] })).toThrow('needs at least one keyword');
+    expect(() => parseBrandProfile({ keywords: ['eco'], audience: 'teens' }, 'brand')).toThrow('brand: audience must be a list of strings');
+    expect(() => parseBrandProfile({ keywords: ['eco'], minRelevance: 2 })).toThrow('minRelevance must be a number from 0 to 1');
+    expect(() => parseBrandProfile({ keywords: ['eco'], minRelevance: NaN })).toThrow('minRelevance must be a number from 0 to 1');
+    expect(() => parseBrandProfile({ keywords: ['eco'], minRelevance: null })).toThrow('minRelevance must be a number from 0 to 1');
+    expect(parseBrandProfile(profile)).toBe(profile);
+  });
+});
+
+describe('L0Orchestrator brand relevance', () => {
+  it('should score sample trends and filter the rest', async () => {
+    const orchestrator = new L0Orchestrator({ plugins: createPluginManager(true), brand: { ...profile, keywords: ['eco', 'zero waste'] } });
+    const response = await orchestrator.analyzeTrends('trends', { timeframe: '7d' });
+    const data = response.data as Record<string, any>;
+
+    expect(data.trendingHashtags.map((t: Record<string, unknown>) => [t.hashtag, t.relevanceScore, t.rationale])).toEqual([
+      ['#EcoFriendly', 0.75, 'Matches keyword "eco"'],
+      ['#ZeroWaste', 0.75, 'Matches keyword "zero waste"'],
+    ]);
+    expect(data.brand).toBe('Evergreen Bottles');
+    expect(data.filteredTrends.map((f: Record<string, unknown>) => f.hashtag)).toEqual(['#SustainableLiving', '#GreenTech']);
+    expect(data.recommendations[0]).toMatch(/^Lead with #EcoFriendly/);
+  });
+
+  it('should leave trends unscored without a brand profile', async () => {
+    const response = await new L0Orchestrator({ plugins: createPluginManager(true) }).analyzeTrends('trends');
+    const data = response.data as Record<string, any>;
+
+    expect(data.trendingHashtags[0].relevanceScore).toBeUndefined();
+    expect(data.filteredTrends).toBeUndefined();
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * VortexAI L0 Brand Relevance
+ *
+ * Scores trending hashtags against a brand profile and filters out the ones
+ * that are off-topic or unsafe for the brand
+ * @module brand
+ */
+
+import { stem } from './search.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * What the brand talks about, who to and how
+ */
+export interface BrandProfile {
+  name?: string;
+  /** Topics the brand wants to be seen with, e.g. `sustainability` */
+  keywords: string[];
+  /** Groups the brand speaks to, e.g. `millennials` */
+  audience?: string[];
+  /** Voice such as `playful`, `professional`, `inspirational` or `educational` */
+  tone?: string;
+  /** Topics the brand must never appear next to */
+  excludedTopics?: string[];
+  /** Trends scoring below this are dropped, 0-1 (default: 0.3) */
+  minRelevance?: number;
+}
+
+export interface RelevanceScore {
+  /** 0-1 */
+  relevanceScore: number;
+  rationale: string;
+  /** False when the hashtag touches an excluded or brand-unsafe topic */
+  safe: boolean;
+}
+
+export interface FilteredTrend {
+  hashtag: string;
+  reason: string;
+}
+
+export interface BrandRanking<T> {
+  /** Trends kept, most relevant first */
+  ranked: (T & { relevanceScore: number; rationale: string })[];
+  filtered: FilteredTrend[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_MIN_RELEVANCE = 0.3;
+
+/**
+ * Topics no brand profile needs to list to stay clear of
+ *
+ * Ambiguous words are listed as phrases, so `#PhotoShooting` stays safe
+ * while `#MassShooting` does not.
+ */
+export const DEFAULT_UNSAFE_TOPICS = [
+  'nsfw',
+  'porn',
+  'violence',
+  'mass shooting',
+  'school shooting',
+  'tragedy',
+  'hate',
+  'racism',
+  'scandal',
+  'drugs',
+  'gambling',
+];
+
+// Weights of the score components; a full keyword match alone scores 0.75
+const KEYWORD_WEIGHT = 0.75;
+const AUDIENCE_WEIGHT = 0.15;
+const TONE_WEIGHT = 0.1;
+// Match strengths for a term found as whole words, at a word edge, or partly
+const WORD_MATCH = 1;
+const EDGE_MATCH = 0.8;
+const PARTIAL_MATCH = 0.5;
+// Terms match at the start of a word from 3 letters and at the end from 4,
+// so `eco` matches `#ecofriendly` but `art` does not match `#SmartHome`
+const MIN_PREFIX_LENGTH = 3;
+const MIN_SUFFIX_LENGTH = 4;
+// Words sharing this many leading letters of their stems count as one word,
+// e.g. sustainable and sustainability
+const MIN_ROOT_LENGTH = 6;
+const MIN_ROOT_SHARE = 0.75;
+
+const TONE_TERMS: Record<string, string[]> = {
+  playful: ['fun', 'meme', 'challenge', 'funny', 'dance', 'friday'],
+  professional: ['tips', 'insights', 'industry', 'leadership', 'career', 'business'],
+  inspirational: ['motivation', 'goals', 'inspiration', 'mindset', 'wins', 'monday'],
+  educational: ['learn', 'tips', 'howto', 'tutorial', 'facts', 'explained'],
+};
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Words in a hashtag, splitting camel case, e.g. `#SustainableLiving` → sustainable, living
+ */
+function hashtagWords(hashtag: string): string[] {
+  return hashtag
+    .replace(/^#/, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function termWords(term: string): string[] {
+  return term.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function sameRoot(a: string, b: string): boolean {
+  const [x, y] = [stem(a), stem(b)];
+  if (x === y) return true;
+
+  let shared = 0;
+  while (shared < x.length && x[shared] === y[shared]) shared++;
+  return shared >= MIN_ROOT_LENGTH && shared >= MIN_ROOT_SHARE * Math.min(x.length, y.length);
+}
+
+/**
+ * How strongly a term appears in a hashtag's words, 0-1
+ *
+ * Whole words, or words with the same root, match fully. A term also
+ * matches at the start or end of a word (`eco` in `#ecofriendly`), and a
+ * phrase whose words are only partly present matches partly.
+ */
+function matchStrength(term: string, words: string[]): number {
+  const wanted = termWords(term);
+  if (wanted.length === 0) return 0;
+
+  const found = wanted.filter((word) => words.some((candidate) => sameRoot(word, candidate))).length;
+  if (found === wanted.length) return WORD_MATCH;
+
+  const compact = wanted.join('');
+  const atEdge = (word: string) =>
+    word !== compact &&
+    ((compact.length >= MIN_PREFIX_LENGTH && word.startsWith(compact)) || (compact.length >= MIN_SUFFIX_LENGTH && word.endsWith(compact)));
+  if (words.some(atEdge)) {
+    return EDGE_MATCH;
+  }
+  return (found / wanted.length) * PARTIAL_MATCH;
+}
+
+function bestMatch(terms: string[], words: string[]): { term?: string; strength: number } {
+  return terms.reduce<{ term?: string; strength: number }>(
+    (best, term) => {
+      const strength = matchStrength(term, words);
+      return strength > best.strength ? { term, strength } : best;
+    },
+    { strength: 0 }
+  );
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Score how well a hashtag fits a brand
+ *
+ * Keywords carry most of the score, with smaller boosts for naming the
+ * audience or fitting the tone. Excluded topics and
+ * {@link DEFAULT_UNSAFE_TOPICS} make a hashtag unsafe whatever its score.
+ * They must match whole words of the hashtag, so `drugs` flags
+ * `#DrugsAwareness` but not `#DrugstoreMakeup`.
+ *
+ * @example
+ * ```typescript
+ * scoreRelevance('#ecofriendly', { keywords: ['eco', 'sustainability'] });
+ * // { relevanceScore: 0.6, rationale: 'Contains keyword "eco"', safe: true }
+ * ```
+ */
+export function scoreRelevance(hashtag: string, profile: BrandProfile): RelevanceScore {
+  const words = hashtagWords(hashtag);
+
+  const excluded = bestMatch(profile.excludedTopics || [], words);
+  if (excluded.strength === WORD_MATCH) {
+    return { relevanceScore: 0, rationale: `Touches excluded topic "${excluded.term}"`, safe: false };
+  }
+  const unsafe = bestMatch(DEFAULT_UNSAFE_TOPICS, words);
+  if (unsafe.strength === WORD_MATCH) {
+    return { relevanceScore: 0, rationale: `Brand-unsafe topic "${unsafe.term}"`, safe: false };
+  }
+
+  const keyword = bestMatch(profile.keywords, words);
+  const audience = bestMatch(profile.audience || [], words);
+  const tone = profile.tone ? bestMatch(TONE_TERMS[profile.tone.toLowerCase()] || [profile.tone], words) : { strength: 0 };
+
+  const reasons: string[] = [];
+  if (keyword.strength === WORD_MATCH) reasons.push(`Matches keyword "${keyword.term}"`);
+  else if (keyword.strength === EDGE_MATCH) reasons.push(`Contains keyword "${keyword.term}"`);
+  else if (keyword.strength > 0) reasons.push(`Partly matches keyword "${keyword.term}"`);
+  else reasons.push('No brand keyword');
+  if (audience.strength >= EDGE_MATCH) reasons.push(`speaks to ${audience.term}`);
+  if (tone.strength >= EDGE_MATCH) reasons.push(`fits the ${profile.tone} tone`);
+
+  const score =
+    KEYWORD_WEIGHT * keyword.strength +
+    (audience.strength >= EDGE_MATCH ? AUDIENCE_WEIGHT : 0) +
+    (tone.strength >= EDGE_MATCH ? TONE_WEIGHT : 0);
+  return { relevanceScore: Math.round(Math.min(score, 1) * 100) / 100, rationale: reasons.join('; '), safe: true };
+}
+
+/**
+ * Score trends for a brand, dropping unsafe and low-relevance ones
+ *
+ * Kept trends are ordered by relevance; ties keep their original order.
+ */
+export function rankForBrand<T extends { hashtag: string }>(trends: T[], profile: BrandProfile): BrandRanking<T> {
+  const minRelevance = profile.minRelevance ?? DEFAULT_MIN_RELEVANCE;
+  const ranked: BrandRanking<T>['ranked'] = [];
+  const filtered: FilteredTrend[] = [];
+
+  for (const trend of trends) {
+    const { relevanceScore, rationale, safe } = scoreRelevance(trend.hashtag, profile);
+    if (!safe) {
+      filtered.push({ hashtag: trend.hashtag, reason: rationale });
+    } else if (relevanceScore < minRelevance) {
+      filtered.push({ hashtag: trend.hashtag, reason: `Relevance ${relevanceScore} is below ${minRelevance}: ${rationale}` });
+    } else {
+      ranked.push({ ...trend, relevanceScore, rationale });
+    }
+  }
+
+  return { ranked: ranked.sort((a, b) => b.relevanceScore - a.relevanceScore), filtered };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Check that a value read from storage is a usable brand profile
+ *
+ * @param source - Named in error messages, e.g. the config file path
+ * @throws Error describing the first invalid field
+ */
+export function parseBrandProfile(value: unknown, source: string = 'Brand profile'): BrandProfile {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${source} must be an object`);
+  }
+
+  const profile = value as Record<string, unknown>;
+  if (!isStringList(profile.keywords) || profile.keywords.length === 0) {
+    throw new Error(`${source} needs at least one keyword`);
+  }
+  for (const field of ['audience', 'excludedTopics'] as const) {
+    if (profile[field] !== undefined && !isStringList(profile[field])) {
+      throw new Error(`${source}: ${field} must be a list of strings`);
+    }
+  }
+  for (const field of ['name', 'tone'] as const) {
+    if (profile[field] !== undefined && typeof profile[field] !== 'string') {
+      throw new Error(`${source}: ${field} must be a string`);
+    }
+  }
+  const { minRelevance } = profile;
+  if (minRelevance !== undefined && (typeof minRelevance !== 'number' || !Number.isFinite(minRelevance) || minRelevance < 0 || minRelevance > 1)) {
+    throw new Error(`${source}: minRelevance must be a number from 0 to 1`);
+  }
+
+  return profile as unknown as BrandProfile;
+}
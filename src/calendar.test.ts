@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { defaultHolidays, generateCalendar, InMemoryCalendarStore, toCalendarCsv, toICalendar } from './calendar.js';
+import { JsonFileCalendarStore } from './node/json-file-calendar-store.js';
+
+describe('generateCalendar', () => {
+  it('should post on the themed weekdays, rotating formats', () => {
+    const calendar = generateCalendar({ startDate: '2026-11-02', durationDays: 7, platforms: ['Instagram'], holidays: [] });
+
+    expect(calendar).toMatchObject({ id: 'calendar-2026-11-02', startDate: '2026-11-02', endDate: '2026-11-08', cadence: 5 });
+    expect(calendar.entries.map((e) => [e.weekday, e.theme, e.format])).toEqual([
+      ['Monday', 'Monday Motivation', 'Reel'],
+      ['Tuesday', 'Tuesday Tips', 'Carousel'],
+      ['Wednesday', 'Wednesday Wins', 'Story'],
+      ['Thursday', 'Thursday Throwback', 'Reel'],
+      ['Friday', 'Friday Fun', 'Carousel'],
+    ]);
+  });
+
+  it('should spread a lower cadence and fill weekends for a higher one', () => {
+    const weekdays = (cadence: number) =>
+      generateCalendar({ startDate: '2026-11-02', durationDays: 7, platforms: ['LinkedIn'], cadence, holidays: [] }).entries.map((e) => e.weekday);
+
+    expect(weekdays(3)).toEqual(['Monday', 'Wednesday', 'Friday']);
+    expect(weekdays(1)).toEqual(['Monday']);
+    expect(weekdays(7).slice(5)).toEqual(['Saturday', 'Sunday']);
+  });
+
+  it('should replace weekly themes with holidays on every platform', () => {
+    const calendar = generateCalendar({ startDate: '2026-11-23', durationDays: 14, platforms: ['TikTok', 'LinkedIn'], cadence: 1 });
+    const holidays = calendar.entries.filter((e) => e.holiday).map((e) => [e.date, e.platform, e.theme]);
+
+    expect(holidays).toEqual([
+      ['2026-11-27', 'TikTok', 'Black Friday'],
+      ['2026-11-27', 'LinkedIn', 'Black Friday'],
+      ['2026-11-30', 'TikTok', 'Cyber Monday'],
+      ['2026-11-30', 'LinkedIn', 'Cyber Monday'],
+    ]);
+    expect(calendar.entries.filter((e) => !e.holiday).map((e) => e.date)).toEqual(['2026-11-23', '2026-11-23']);
+  });
+
+  it('should use custom themes and yearly holidays', () => {
+    const calendar = generateCalendar({
+      startDate: '2026-02-13',
+      durationDays: 2,
+      platforms: ['Twitter'],
+      themes: [{ weekday: 5, name: 'Feature Friday', idea: 'Product deep-dive' }],
+      holidays: [{ name: "Valentine's Day", date: '02-14' }],
+    });
+
+    expect(calendar.entries.map((e) => [e.theme, e.idea])).toEqual([
+      ['Feature Friday', 'Product deep-dive'],
+      ["Valentine's Day", "Valentine's Day content"],
+    ]);
+  });
+
+  it('should reject invalid input', () => {
+    expect(() => generateCalendar({ cadence: 8 })).toThrow('Cadence must be 1-7');
+    expect(() => generateCalendar({ durationDays: 0 })).toThrow('whole number of days');
+    expect(() => generateCalendar({ startDate: '2026-13-01' })).toThrow('Invalid start date');
+    expect(() => generateCalendar({ holidays: [{ name: 'Launch', date: 'soon' }] })).toThrow('Invalid date "soon"');
+  });
+
+  it('should date Black Friday and Cyber Monday from Thanksgiving', () => {
+    expect(defaultHolidays(2027).map((h) => h.date)).toEqual(['2027-10-31', '2027-11-26', '2027-11-29', '2027-12-25']);
+  });
+});
+
+describe('calendar export', () => {
+  const calendar = {
+    ...generateCalendar({ startDate: '2026-12-24', durationDays: 2, platforms: ['Instagram'], cadence: 5, id: 'xmas' }),
+    createdAt: '2026-10-19T09:30:00.000Z',
+  };
+
+  it('should write all-day iCalendar events', () => {
+    const ics = toICalendar(calendar);
+    const lines = ics.split('\r\n');
+
+    expect(lines.slice(0, 3)).toEqual(['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//VortexAI L0//Content Calendar//EN']);
+    expect(lines).toContain('UID:xmas-2@vortex-l0');
+    expect(lines).toContain('DTSTAMP:20261019T093000Z');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20261225');
+    expect(lines).toContain('DTEND;VALUE=DATE:20261226');
+    expect(lines).toContain('SUMMARY:[Instagram] Christmas');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines.every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(ics).toContain('DESCRIPTION:Gift guides\\, greetings and year-end thanks\\nFormat: Carousel');
+  });
+
+  it('should write quoted CSV rows', () => {
+    expect(toCalendarCsv(calendar).split('\r\n')).toEqual([
+      'date,weekday,platform,theme,idea,format,holiday',
+      '2026-12-24,Thursday,Instagram,Thursday Throwback,"Origin story, archive content or past launch",Reel,',
+      '2026-12-25,Friday,Instagram,Christmas,"Gift guides, greetings and year-end thanks",Carousel,Christmas',
+      '',
+    ]);
+  });
+});
+
+describe('calendar stores', () => {
+  it('should copy calendars in memory', async () => {
+    const store = new InMemoryCalendarStore();
+    const calendar = generateCalendar({ startDate: '2026-11-02', durationDays: 7 });
+    await store.save(calendar);
+    calendar.entries.length = 0;
+
+    expect((await store.get('calendar-2026-11-02'))?.entries).toHaveLength(15);
+  });
+
+  it('should persist calendars as JSON files', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'vortex-calendars-'));
+    try {
+      const store = new JsonFileCalendarStore({ dir });
+      await store.save(generateCalendar({ startDate: '2026-11-02', id: 'q4' }));
+
+      expect((await new JsonFileCalendarStore({ dir }).list()).map((c) => c.id)).toEqual(['q4']);
+      expect(await store.get('missing')).toBeUndefined();
+      await expect(store.get('../escape')).rejects.toThrow('Invalid calendar id');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * VortexAI L0 Content Calendar
+ *
+ * Builds dated content calendars from weekly themes, platforms, cadence and
+ * holidays, and exports them as iCalendar or CSV
+ * @module calendar
+ */
+
+import { DEFAULT_CAMPAIGN_PLATFORMS, platformFormats } from './campaign-planner.js';
+import { DAY_MS, parseStartDate, toDateString } from './dates.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Recurring theme for one day of the week
+ */
+export interface CalendarTheme {
+  /** 0 = Sunday … 6 = Saturday */
+  weekday: number;
+  name: string;
+  idea: string;
+}
+
+export interface CalendarHoliday {
+  name: string;
+  /** `YYYY-MM-DD`, or `MM-DD` for every year */
+  date: string;
+  idea?: string;
+}
+
+export interface CalendarRequest {
+  /** Display name (default: "Content calendar <start> to <end>") */
+  name?: string;
+  /** Calendar id (default: `calendar-<start>`) */
+  id?: string;
+  /** First day, as `YYYY-MM-DD` or a Date (default: today) */
+  startDate?: string | Date;
+  /** Length of the calendar (default: 28 days) */
+  durationDays?: number;
+  /** Canonical platform names (default: TikTok, Instagram and Twitter) */
+  platforms?: string[];
+  /** Posts per week on each platform, 1-7 (default: 5) */
+  cadence?: number;
+  /** Weekly themes (default: {@link DEFAULT_WEEKLY_THEMES}) */
+  themes?: CalendarTheme[];
+  /** Dates that replace the weekly theme (default: {@link defaultHolidays}; `[]` for none) */
+  holidays?: CalendarHoliday[];
+}
+
+export interface CalendarEntry {
+  /** `YYYY-MM-DD` */
+  date: string;
+  weekday: string;
+  platform: string;
+  theme: string;
+  idea: string;
+  format: string;
+  /** Set when a holiday replaced the weekly theme */
+  holiday?: string;
+}
+
+export interface ContentCalendar {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  platforms: string[];
+  cadence: number;
+  entries: CalendarEntry[];
+  createdAt: string;
+}
+
+/**
+ * Storage for generated calendars
+ */
+export interface CalendarStore {
+  get(id: string): Promise<ContentCalendar | undefined>;
+  save(calendar: ContentCalendar): Promise<void>;
+  /** All calendars, most recently created first */
+  list(): Promise<ContentCalendar[]>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_CALENDAR_DURATION_DAYS = 28;
+export const DEFAULT_CALENDAR_CADENCE = 5;
+
+/**
+ * The weekly framework from the Q4 content calendar memory
+ */
+export const DEFAULT_WEEKLY_THEMES: CalendarTheme[] = [
+  { weekday: 1, name: 'Monday Motivation', idea: 'Goal, quote or mission moment to start the week' },
+  { weekday: 2, name: 'Tuesday Tips', idea: 'How-to, tutorial or quick tip' },
+  { weekday: 3, name: 'Wednesday Wins', idea: 'Customer result, milestone or team win' },
+  { weekday: 4, name: 'Thursday Throwback', idea: 'Origin story, archive content or past launch' },
+  { weekday: 5, name: 'Friday Fun', idea: 'Behind the scenes, meme or light-hearted poll' },
+];
+
+// Used on posting days without a weekly theme
+const OPEN_THEME = { name: 'Community', idea: 'Reply, repost or feature user content' };
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ICS_LINE_OCTETS = 75;
+const CSV_COLUMNS: (keyof CalendarEntry)[] = ['date', 'weekday', 'platform', 'theme', 'idea', 'format', 'holiday'];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Holidays from the Q4 framework for one year
+ *
+ * Black Friday follows the fourth Thursday of November and Cyber Monday
+ * comes three days later.
+ */
+export function defaultHolidays(year: number): CalendarHoliday[] {
+  const firstOfNovember = new Date(Date.UTC(year, 10, 1)).getUTCDay();
+  const blackFriday = 1 + ((4 - firstOfNovember + 7) % 7) + 21 + 1;
+  const cyberMonday = new Date(Date.UTC(year, 10, blackFriday + 3));
+
+  return [
+    { name: 'Halloween', date: `${year}-10-31`, idea: 'Costumes, spooky twists or a themed giveaway' },
+    { name: 'Black Friday', date: `${year}-11-${String(blackFriday).padStart(2, '0')}`, idea: 'Deals, bundles and limited-time offers' },
+    { name: 'Cyber Monday', date: toDateString(cyberMonday), idea: 'Online-only offers and last-chance reminders' },
+    { name: 'Christmas', date: `${year}-12-25`, idea: 'Gift guides, greetings and year-end thanks' },
+  ];
+}
+
+/**
+ * Weekdays to post on for a cadence, spread over the themed days first
+ *
+ * A cadence of 3 with the default themes posts on Monday, Wednesday and Friday.
+ */
+function postingWeekdays(cadence: number, themes: CalendarTheme[]): Set<number> {
+  const themed = Array.from(new Set(themes.map((t) => t.weekday))).sort((a, b) => a - b);
+  if (cadence >= themed.length) {
+    const open = [1, 2, 3, 4, 5, 6, 0].filter((day) => !themed.includes(day));
+    return new Set([...themed, ...open.slice(0, cadence - themed.length)]);
+  }
+  if (cadence === 1) {
+    return new Set([themed[0]]);
+  }
+  return new Set(Array.from({ length: cadence }, (_, i) => themed[Math.round((i * (themed.length - 1)) / (cadence - 1))]));
+}
+
+function holidaysByDate(holidays: CalendarHoliday[], start: Date, end: Date): Map<string, CalendarHoliday> {
+  const byDate = new Map<string, CalendarHoliday>();
+  for (let year = start.getUTCFullYear(); year <= end.getUTCFullYear(); year++) {
+    for (const holiday of holidays) {
+      if (/^\d{4}-\d{2}-\d{2}$/.test(holiday.date)) {
+        byDate.set(holiday.date, holiday);
+      } else if (/^\d{2}-\d{2}$/.test(holiday.date)) {
+        byDate.set(`${year}-${holiday.date}`, holiday);
+      } else {
+        throw new Error(`Invalid date "${holiday.date}" for holiday ${holiday.name}: use YYYY-MM-DD or MM-DD`);
+      }
+    }
+  }
+  return byDate;
+}
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+/**
+ * Generate a content calendar
+ *
+ * Each platform posts `cadence` times a week on the themed days, with formats
+ * rotating through the platform's native formats. Holidays get an entry on
+ * every platform whether or not it is a posting day.
+ *
+ * @throws Error if the duration, cadence, start date or a holiday date is invalid
+ *
+ * @example
+ * ```typescript
+ * const calendar = generateCalendar({ startDate: '2026-11-02', platforms: ['Instagram', 'LinkedIn'], cadence: 3 });
+ * await writeFile('calendar.ics', toICalendar(calendar));
+ * ```
+ */
+export function generateCalendar(request: CalendarRequest = {}): ContentCalendar {
+  const durationDays = request.durationDays ?? DEFAULT_CALENDAR_DURATION_DAYS;
+  const cadence = request.cadence ?? DEFAULT_CALENDAR_CADENCE;
+  const platforms = request.platforms?.length ? Array.from(new Set(request.platforms)) : DEFAULT_CAMPAIGN_PLATFORMS;
+  const themes = request.themes || DEFAULT_WEEKLY_THEMES;
+
+  if (!Number.isInteger(durationDays) || durationDays < 1) {
+    throw new Error(`Calendar duration must be a whole number of days, got ${durationDays}`);
+  }
+  if (!Number.isInteger(cadence) || cadence < 1 || cadence > 7) {
+    throw new Error(`Cadence must be 1-7 posts per week, got ${cadence}`);
+  }
+
+  const start = parseStartDate(request.startDate);
+  const end = new Date(start.getTime() + (durationDays - 1) * DAY_MS);
+  const years = Array.from({ length: end.getUTCFullYear() - start.getUTCFullYear() + 1 }, (_, i) => start.getUTCFullYear() + i);
+  const holidays = holidaysByDate(request.holidays || years.flatMap(defaultHolidays), start, end);
+  const postingDays = postingWeekdays(cadence, themes);
+  const postCounts = new Map<string, number>();
+  const entries: CalendarEntry[] = [];
+
+  for (let day = 0; day < durationDays; day++) {
+    const date = new Date(start.getTime() + day * DAY_MS);
+    const dateString = toDateString(date);
+    const weekday = date.getUTCDay();
+    const holiday = holidays.get(dateString);
+    if (!holiday && !postingDays.has(weekday)) continue;
+
+    const theme = themes.find((t) => t.weekday === weekday) || OPEN_THEME;
+    for (const platform of platforms) {
+      const formats = platformFormats(platform);
+      const count = postCounts.get(platform) || 0;
+      postCounts.set(platform, count + 1);
+
+      entries.push({
+        date: dateString,
+        weekday: WEEKDAY_NAMES[weekday],
+        platform,
+        theme: holiday ? holiday.name : theme.name,
+        idea: holiday ? holiday.idea || `${holiday.name} content` : theme.idea,
+        format: formats[count % formats.length],
+        ...(holiday && { holiday: holiday.name }),
+      });
+    }
+  }
+
+  const startDate = toDateString(start);
+  const endDate = toDateString(end);
+  return {
+    id: request.id || `calendar-${startDate}`,
+    name: request.name || `Content calendar ${startDate} to ${endDate}`,
+    startDate,
+    endDate,
+    platforms,
+    cadence,
+    entries,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+function escapeICalText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets, continuing with a leading space (RFC 5545 §3.1)
+ */
+function foldICalLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines spend one octet on the leading space
+    if (octets + size > ICS_LINE_OCTETS - (parts.length > 0 ? 1 : 0)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function compactDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+/**
+ * Render a calendar as iCalendar (`.ics`) with one all-day event per entry
+ */
+export function toICalendar(calendar: ContentCalendar): string {
+  const stamp = calendar.createdAt.replace(/[-:]/g, '').replace(/\.\d+/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//VortexAI L0//Content Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeICalText(calendar.name)}`,
+  ];
+
+  calendar.entries.forEach((entry, index) => {
+    const next = toDateString(new Date(Date.parse(entry.date) + DAY_MS));
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${calendar.id}-${index + 1}@vortex-l0`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${compactDate(entry.date)}`,
+      `DTEND;VALUE=DATE:${compactDate(next)}`,
+      `SUMMARY:${escapeICalText(`[${entry.platform}] ${entry.theme}`)}`,
+      `DESCRIPTION:${escapeICalText(`${entry.idea}\nFormat: ${entry.format}`)}`,
+      `CATEGORIES:${escapeICalText(entry.platform)}`,
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Render a calendar as CSV with a header row
+ */
+export function toCalendarCsv(calendar: ContentCalendar): string {
+  const rows = calendar.entries.map((entry) => CSV_COLUMNS.map((column) => escapeCsvField(entry[column] || '')).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Calendar store held in memory, for tests and short-lived processes
+ */
+export class InMemoryCalendarStore implements CalendarStore {
+  private readonly calendars: Map<string, ContentCalendar> = new Map();
+
+  async get(id: string): Promise<ContentCalendar | undefined> {
+    const calendar = this.calendars.get(id);
+    return calendar && structuredClone(calendar);
+  }
+
+  async save(calendar: ContentCalendar): Promise<void> {
+    this.calendars.set(calendar.id, structuredClone(calendar));
+  }
+
+  async list(): Promise<ContentCalendar[]> {
+    return Array.from(this.calendars.values(), (c) => structuredClone(c)).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+}
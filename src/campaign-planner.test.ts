@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { detectCampaignType, formatCount, planCampaign } from './campaign-planner.js';
+import { InMemoryKnowledgeStore } from './knowledge-store.js';
+import { L0Orchestrator } from './orchestrator.js';
+import { createPluginManager } from './plugins.js';
+
+const request = {
+  objective: 'eco bottle product launch',
+  platforms: ['TikTok', 'Instagram', 'LinkedIn'],
+  budget: { amount: 8000, currency: 'USD' },
+  durationDays: 21,
+  startDate: '2026-11-02',
+  product: 'eco bottles',
+};
+
+describe('planCampaign', () => {
+  it('should fill the Campaign record', () => {
+    const campaign = planCampaign(request);
+
+    expect(campaign).toMatchObject({
+      id: 'eco-bottle-product-launch-2026-11-02',
+      title: 'Product Launch Campaign for eco bottles',
+      platforms: ['TikTok', 'Instagram', 'LinkedIn'],
+      budget: '$8,000',
+      duration: '21 days',
+    });
+    expect(campaign.kpis).toContain('impressions');
+    expect(campaign.plan).toMatchObject({ startDate: '2026-11-02', endDate: '2026-11-22', type: 'Product Launch Campaign' });
+  });
+
+  it('should split the budget by platform weight and keep the total', () => {
+    const { budgetSplit } = planCampaign(request).plan!;
+
+    expect(budgetSplit.map((b) => [b.platform, b.amount])).toEqual([
+      ['TikTok', 3000],
+      ['Instagram', 3000],
+      ['LinkedIn', 2000],
+    ]);
+    expect(planCampaign({ ...request, budget: { amount: 1000, currency: 'USD' } }).plan!.budgetSplit.reduce((sum, b) => sum + b.amount, 0)).toBe(1000);
+  });
+
+  it('should post at each platform cadence, moving through the phases', () => {
+    const { schedule, formats } = planCampaign(request).plan!;
+    const count = (platform: string) => schedule.filter((post) => post.platform === platform).length;
+
+    expect([count('TikTok'), count('Instagram'), count('LinkedIn')]).toEqual([15, 12, 9]);
+    expect(schedule[0]).toEqual({ day: 1, date: '2026-11-02', platform: 'TikTok', format: 'Short video', phase: 'awareness' });
+    expect(schedule.at(-1)).toMatchObject({ day: 20, date: '2026-11-21', phase: 'conversion' });
+    expect(formats.find((f) => f.platform === 'Instagram')?.formats).toEqual(['Reel', 'Carousel', 'Story']);
+  });
+
+  it('should estimate KPI targets from spend', () => {
+    const kpis = Object.fromEntries(planCampaign(request).plan!.kpiTargets.map((k) => [k.metric, k.target]));
+
+    // $3,000 / $10 CPM + $3,000 / $8 CPM + $2,000 / $30 CPM
+    expect(kpis.impressions).toBe(741667);
+    expect(kpis.engagement_rate).toBe(4.4);
+    expect(kpis.posts_published).toBe(36);
+  });
+
+  it('should apply defaults and reject invalid input', () => {
+    const campaign = planCampaign({ objective: 'viral push', startDate: '2026-01-01' });
+    expect(campaign).toMatchObject({ platforms: ['TikTok', 'Instagram', 'Twitter'], budget: '$5,000', duration: '14 days' });
+
+    expect(() => planCampaign({ ...request, durationDays: 0 })).toThrow('whole number of days');
+    expect(() => planCampaign({ ...request, startDate: '2026-02-30' })).toThrow('Invalid start date');
+  });
+
+  it('should name campaign types and counts', () => {
+    expect(detectCampaignType('a VIRAL idea').title).toBe('Viral Campaign Strategy');
+    expect(detectCampaignType('spring push').title).toBe('Social Media Campaign');
+    expect([formatCount(950), formatCount(741667), formatCount(1_250_000)]).toEqual(['950', '742K', '1.3M']);
+  });
+});
+
+describe('L0Orchestrator campaign planning', () => {
+  it('should save the plan to the campaign store', async () => {
+    const store = new InMemoryKnowledgeStore();
+    const orchestrator = new L0Orchestrator({ plugins: createPluginManager(true), store });
+
+    const response = await orchestrator.orchestrateCampaign('eco bottle product launch', { ...request, save: true });
+    const saved = await store.getCampaign('eco-bottle-product-launch-2026-11-02');
+
+    expect(saved?.plan?.schedule).toHaveLength(36);
+    expect(response.data).toMatchObject({
+      campaignId: saved?.id,
+      recommendedBudget: '$8,000',
+      expectedReach: '742K impressions',
+      startDate: '2026-11-02',
+    });
+    expect(response.workflowDefinition?.inputs).toMatchObject({ campaignId: saved?.id, durationDays: 21 });
+  });
+
+  it('should only save campaigns the request asks to save', async () => {
+    const store = new InMemoryKnowledgeStore();
+    const orchestrator = new L0Orchestrator({ plugins: createPluginManager(true), store });
+
+    const created = await orchestrator.query('create a TikTok campaign for eco bottles');
+    expect(created.data).toMatchObject({ saved: false });
+    expect(await store.listCampaigns()).toEqual([]);
+
+    const saved = await orchestrator.query('create and save a TikTok campaign for eco bottles');
+    expect(saved.data).toMatchObject({ saved: true });
+    expect((await store.listCampaigns()).map((c) => c.id)).toEqual([(saved.data as Record<string, unknown>).campaignId]);
+  });
+
+  it('should plan a campaign when the caller names the intent', async () => {
+    const orchestrator = new L0Orchestrator({ plugins: createPluginManager(true), store: new InMemoryKnowledgeStore() });
+
+    const response = await orchestrator.query('eco bottle launch', { intent: 'campaign', save: true, explain: true });
+
+    expect(response.intent?.name).toBe('campaign');
+    expect(response.explain?.winner.reason).toBe('campaign was requested explicitly');
+    expect(response.data).toMatchObject({ saved: true, campaignId: expect.stringMatching(/^eco-bottle-launch-/) });
+  });
+});
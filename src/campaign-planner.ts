@@ -0,0 +1,313 @@
+/**
+ * VortexAI L0 Campaign Planner
+ *
+ * Turns a campaign request into a dated plan: budget split, posting schedule, formats and KPI targets
+ * @module campaign-planner
+ */
+
+import type { Campaign } from './knowledge-store.js';
+import { formatBudget, type SessionBudget } from './session.js';
+import { DAY_MS, parseStartDate, toDateString } from './dates.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * What a campaign should achieve and with which resources
+ */
+export interface CampaignRequest {
+  objective: string;
+  /** Canonical platform names, e.g. `TikTok` (default: TikTok, Instagram and Twitter) */
+  platforms?: string[];
+  /** Total spend (default: $5,000) */
+  budget?: SessionBudget;
+  /** Length of the campaign (default: 14 days) */
+  durationDays?: number;
+  /** First day, as `YYYY-MM-DD` or a Date (default: today) */
+  startDate?: string | Date;
+  product?: string;
+  /** Campaign id (default: derived from the objective and start date) */
+  id?: string;
+}
+
+export interface PlatformBudget {
+  platform: string;
+  amount: number;
+  /** Fraction of the total, 0-1 */
+  share: number;
+}
+
+export interface PlatformFormats {
+  platform: string;
+  formats: string[];
+  postsPerWeek: number;
+}
+
+export interface ScheduledPost {
+  /** 1-based day of the campaign */
+  day: number;
+  /** `YYYY-MM-DD` */
+  date: string;
+  platform: string;
+  format: string;
+  phase: CampaignPhase;
+}
+
+export type CampaignPhase = 'awareness' | 'engagement' | 'conversion';
+
+export interface KpiTarget {
+  metric: string;
+  target: number;
+  unit: 'count' | 'percent';
+}
+
+/**
+ * Planning detail attached to a {@link Campaign}
+ */
+export interface CampaignPlan {
+  objective: string;
+  type: string;
+  product?: string;
+  startDate: string;
+  endDate: string;
+  durationDays: number;
+  totalBudget: SessionBudget;
+  budgetSplit: PlatformBudget[];
+  formats: PlatformFormats[];
+  schedule: ScheduledPost[];
+  kpiTargets: KpiTarget[];
+}
+
+interface PlatformProfile {
+  /** Relative share of the budget */
+  weight: number;
+  formats: string[];
+  postsPerWeek: number;
+  /** Cost per thousand impressions */
+  cpm: number;
+  engagementRate: number;
+}
+
+interface CampaignType {
+  keyword: string;
+  title: string;
+  strategy: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_CAMPAIGN_PLATFORMS = ['TikTok', 'Instagram', 'Twitter'];
+export const DEFAULT_CAMPAIGN_BUDGET: SessionBudget = { amount: 5000, currency: 'USD' };
+export const DEFAULT_CAMPAIGN_DURATION_DAYS = 14;
+
+const MAX_ID_SLUG_LENGTH = 40;
+const CLICK_THROUGH_RATE = 0.008;
+const CONVERSION_RATE = 0.03;
+// Opening and closing fractions of the campaign given to awareness and conversion posts
+const AWARENESS_PHASE = 0.25;
+const CONVERSION_PHASE = 0.2;
+
+const PLATFORM_PROFILES: Record<string, PlatformProfile> = {
+  TikTok: { weight: 3, formats: ['Short video', 'Duet or Stitch', 'LIVE session'], postsPerWeek: 5, cpm: 10, engagementRate: 0.06 },
+  Instagram: { weight: 3, formats: ['Reel', 'Carousel', 'Story'], postsPerWeek: 4, cpm: 8, engagementRate: 0.035 },
+  Twitter: { weight: 1.5, formats: ['Thread', 'Image post', 'Poll'], postsPerWeek: 7, cpm: 6.5, engagementRate: 0.015 },
+  LinkedIn: { weight: 2, formats: ['Document carousel', 'Article', 'Text post'], postsPerWeek: 3, cpm: 30, engagementRate: 0.02 },
+  YouTube: { weight: 2.5, formats: ['Short', 'Long-form video', 'Community post'], postsPerWeek: 2, cpm: 9, engagementRate: 0.04 },
+  Facebook: { weight: 2, formats: ['Reel', 'Link post', 'Event'], postsPerWeek: 4, cpm: 7, engagementRate: 0.01 },
+  Pinterest: { weight: 1, formats: ['Idea Pin', 'Standard Pin'], postsPerWeek: 5, cpm: 4, engagementRate: 0.01 },
+  Threads: { weight: 1, formats: ['Text post', 'Image post'], postsPerWeek: 5, cpm: 5, engagementRate: 0.02 },
+  Snapchat: { weight: 1, formats: ['Spotlight', 'Story'], postsPerWeek: 5, cpm: 3, engagementRate: 0.02 },
+  Reddit: { weight: 1, formats: ['Community post', 'AMA'], postsPerWeek: 2, cpm: 3.5, engagementRate: 0.03 },
+};
+
+// Used for platforms without a profile
+const GENERIC_PROFILE: PlatformProfile = { weight: 1, formats: ['Post'], postsPerWeek: 3, cpm: 8, engagementRate: 0.02 };
+
+const CAMPAIGN_TYPES: CampaignType[] = [
+  { keyword: 'viral', title: 'Viral Campaign Strategy', strategy: 'Trend-led short video, creator collaborations and shareable hooks' },
+  { keyword: 'product launch', title: 'Product Launch Campaign', strategy: 'Teasers, launch-day reveal, demos and early-adopter offers' },
+  { keyword: 'brand awareness', title: 'Brand Awareness Campaign', strategy: 'Consistent storytelling, broad-reach placements and brand-safe partnerships' },
+  { keyword: 'engagement', title: 'Engagement-Focused Campaign', strategy: 'Conversation starters, polls, user-generated content and community replies' },
+];
+
+const GENERIC_CAMPAIGN: CampaignType = {
+  keyword: '',
+  title: 'Social Media Campaign',
+  strategy: 'Platform-native content on a steady cadence, tuned weekly against KPIs',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Campaign type named in a request, e.g. `viral` → Viral Campaign Strategy
+ */
+export function detectCampaignType(text: string): { title: string; strategy: string } {
+  const lower = text.toLowerCase();
+  const { title, strategy } = CAMPAIGN_TYPES.find((type) => lower.includes(type.keyword)) || GENERIC_CAMPAIGN;
+  return { title, strategy };
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, MAX_ID_SLUG_LENGTH).replace(/-$/, '');
+}
+
+function profileFor(platform: string): PlatformProfile {
+  return PLATFORM_PROFILES[platform] || GENERIC_PROFILE;
+}
+
+/**
+ * Native post formats for a platform, most effective first
+ */
+export function platformFormats(platform: string): string[] {
+  return [...profileFor(platform).formats];
+}
+
+/**
+ * Compact count, e.g. `450K` or `1.2M`
+ */
+export function formatCount(value: number): string {
+  if (value >= 1_000_000) return `${Math.round(value / 100_000) / 10}M`;
+  if (value >= 1_000) return `${Math.round(value / 1_000)}K`;
+  return String(Math.round(value));
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Split a budget by platform weight, in whole currency units that add up to the total
+ */
+function splitBudget(total: SessionBudget, platforms: string[]): PlatformBudget[] {
+  const totalWeight = platforms.reduce((sum, p) => sum + profileFor(p).weight, 0);
+  let allocated = 0;
+
+  return platforms.map((platform, index) => {
+    const amount = index === platforms.length - 1
+      ? total.amount - allocated
+      : Math.round((total.amount * profileFor(platform).weight) / totalWeight);
+    allocated += amount;
+    return { platform, amount, share: Math.round((amount / total.amount) * 1000) / 1000 };
+  });
+}
+
+function phaseOf(dayIndex: number, durationDays: number): CampaignPhase {
+  const progress = dayIndex / durationDays;
+  if (progress < AWARENESS_PHASE) return 'awareness';
+  if (progress >= 1 - CONVERSION_PHASE) return 'conversion';
+  return 'engagement';
+}
+
+/**
+ * Spread each platform's weekly cadence evenly over the campaign
+ */
+function buildSchedule(platforms: string[], start: Date, durationDays: number): ScheduledPost[] {
+  const schedule: ScheduledPost[] = [];
+  const postCounts = new Map<string, number>();
+
+  for (let day = 0; day < durationDays; day++) {
+    const date = toDateString(new Date(start.getTime() + day * DAY_MS));
+
+    for (const platform of platforms) {
+      const { postsPerWeek, formats } = profileFor(platform);
+      // A post goes out whenever the running cadence reaches a new whole number, starting on day one
+      if (Math.ceil(((day + 1) * postsPerWeek) / 7) === Math.ceil((day * postsPerWeek) / 7)) continue;
+
+      const count = postCounts.get(platform) || 0;
+      postCounts.set(platform, count + 1);
+      schedule.push({ day: day + 1, date, platform, format: formats[count % formats.length], phase: phaseOf(day, durationDays) });
+    }
+  }
+
+  return schedule;
+}
+
+function buildKpiTargets(split: PlatformBudget[], schedule: ScheduledPost[]): KpiTarget[] {
+  const impressions = split.reduce((sum, { platform, amount }) => sum + (amount / profileFor(platform).cpm) * 1000, 0);
+  const engagements = split.reduce(
+    (sum, { platform, amount }) => sum + (amount / profileFor(platform).cpm) * 1000 * profileFor(platform).engagementRate,
+    0
+  );
+  const clicks = impressions * CLICK_THROUGH_RATE;
+
+  return [
+    { metric: 'impressions', target: Math.round(impressions), unit: 'count' },
+    { metric: 'engagements', target: Math.round(engagements), unit: 'count' },
+    { metric: 'engagement_rate', target: impressions > 0 ? Math.round((engagements / impressions) * 1000) / 10 : 0, unit: 'percent' },
+    { metric: 'link_clicks', target: Math.round(clicks), unit: 'count' },
+    { metric: 'conversions', target: Math.round(clicks * CONVERSION_RATE), unit: 'count' },
+    { metric: 'posts_published', target: schedule.length, unit: 'count' },
+  ];
+}
+
+/**
+ * Plan a campaign
+ *
+ * The budget is split by each platform's typical reach per dollar, posts are
+ * spread across the duration at each platform's usual cadence, moving from
+ * awareness through engagement to conversion, and KPI targets are estimated
+ * from the spend.
+ *
+ * @throws Error if the duration, budget or start date is invalid
+ *
+ * @example
+ * ```typescript
+ * const campaign = planCampaign({
+ *   objective: 'eco bottle product launch',
+ *   platforms: ['TikTok', 'Instagram'],
+ *   budget: { amount: 8000, currency: 'USD' },
+ *   durationDays: 21,
+ *   startDate: '2026-11-02',
+ * });
+ * await store.saveCampaign(campaign);
+ * ```
+ */
+export function planCampaign(request: CampaignRequest): Campaign {
+  const durationDays = request.durationDays ?? DEFAULT_CAMPAIGN_DURATION_DAYS;
+  const budget = request.budget || DEFAULT_CAMPAIGN_BUDGET;
+  const platforms = request.platforms?.length ? Array.from(new Set(request.platforms)) : DEFAULT_CAMPAIGN_PLATFORMS;
+
+  if (!Number.isInteger(durationDays) || durationDays < 1) {
+    throw new Error(`Campaign duration must be a whole number of days, got ${durationDays}`);
+  }
+  if (!(budget.amount > 0)) {
+    throw new Error(`Campaign budget must be positive, got ${budget.amount}`);
+  }
+
+  const start = parseStartDate(request.startDate);
+  const startDate = toDateString(start);
+  const type = detectCampaignType(request.objective);
+  const budgetSplit = splitBudget(budget, platforms);
+  const schedule = buildSchedule(platforms, start, durationDays);
+  const kpiTargets = buildKpiTargets(budgetSplit, schedule);
+
+  const plan: CampaignPlan = {
+    objective: request.objective,
+    type: type.title,
+    ...(request.product && { product: request.product }),
+    startDate,
+    endDate: toDateString(new Date(start.getTime() + (durationDays - 1) * DAY_MS)),
+    durationDays,
+    totalBudget: budget,
+    budgetSplit,
+    formats: platforms.map((platform) => ({ platform, formats: profileFor(platform).formats, postsPerWeek: profileFor(platform).postsPerWeek })),
+    schedule,
+    kpiTargets,
+  };
+
+  return {
+    id: request.id || `${slugify(request.objective) || 'campaign'}-${startDate}`,
+    title: `${type.title}${request.product ? ` for ${request.product}` : ''}`,
+    strategy: type.strategy,
+    platforms,
+    budget: formatBudget(budget),
+    duration: `${durationDays} day${durationDays === 1 ? '' : 's'}`,
+    kpis: kpiTargets.map((kpi) => kpi.metric),
+    plan,
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { ChatInputBuffer, completeChatInput, parseSlashCommand } from './chat.js';
+
+const sources = { triggers: ['remember', 'recall', 'social media', 'schedule post'], sessions: ['launch', 'q4'] };
+
+describe('parseSlashCommand', () => {
+  it('should split a command from its arguments', () => {
+    expect(parseSlashCommand('  /Format json ')).toEqual({ name: 'format', args: ['json'] });
+    expect(parseSlashCommand('/plugins')).toEqual({ name: 'plugins', args: [] });
+  });
+
+  it('should treat other lines as queries', () => {
+    expect(parseSlashCommand('create campaign /w tiktok')).toBeUndefined();
+    expect(parseSlashCommand('/')).toBeUndefined();
+  });
+});
+
+describe('ChatInputBuffer', () => {
+  it('should return single lines immediately', () => {
+    expect(new ChatInputBuffer().push('  plan a launch ')).toBe('plan a launch');
+  });
+
+  it('should join lines ending in a backslash', () => {
+    const buffer = new ChatInputBuffer();
+    expect(buffer.push('plan a launch \\')).toBeUndefined();
+    expect(buffer.pending).toBe(true);
+    expect(buffer.push('for our eco bottles')).toBe('plan a launch\nfor our eco bottles');
+    expect(buffer.pending).toBe(false);
+  });
+
+  it('should collect a fenced block verbatim', () => {
+    const buffer = new ChatInputBuffer();
+    expect(buffer.push('"""')).toBeUndefined();
+    expect(buffer.push('brief:')).toBeUndefined();
+    expect(buffer.push('  - ends with \\')).toBeUndefined();
+    expect(buffer.push('"""')).toBe('brief:\n  - ends with \\');
+  });
+
+  it('should drop partial input on reset', () => {
+    const buffer = new ChatInputBuffer();
+    buffer.push('"""');
+    buffer.push('half');
+    buffer.reset();
+    expect(buffer.push('fresh')).toBe('fresh');
+  });
+});
+
+describe('completeChatInput', () => {
+  it('should complete slash commands and their arguments', () => {
+    expect(completeChatInput('/pl', sources)).toEqual([['/plugins'], '/pl']);
+    expect(completeChatInput('/format j', sources)).toEqual([['json'], 'j']);
+    expect(completeChatInput('/session ', sources)).toEqual([['launch', 'new', 'q4'], '']);
+  });
+
+  it('should complete the last words to plugin triggers', () => {
+    expect(completeChatInput('please re', sources)).toEqual([['recall', 'remember'], 're']);
+    expect(completeChatInput('plan our Social me', sources)).toEqual([['social media'], 'Social me']);
+  });
+
+  it('should offer nothing when no trigger matches', () => {
+    expect(completeChatInput('plan a launch', sources)).toEqual([[], 'plan a launch']);
+    expect(completeChatInput('plan ', sources)).toEqual([[], 'plan ']);
+  });
+});
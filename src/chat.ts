@@ -0,0 +1,182 @@
+/**
+ * VortexAI L0 Chat Input
+ *
+ * Line handling for the interactive REPL: slash commands, multi-line input and tab completion
+ * @module chat
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type ChatFormat = 'text' | 'json';
+
+export interface SlashCommand {
+  name: string;
+  args: string[];
+}
+
+export interface SlashCommandInfo {
+  usage: string;
+  description: string;
+}
+
+/**
+ * Words offered by {@link completeChatInput}
+ */
+export interface ChatCompletionSources {
+  /** Plugin triggers, e.g. `remember` or `social media` */
+  triggers: string[];
+  /** Known session ids, offered after `/session ` */
+  sessions?: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const CHAT_FORMATS: ChatFormat[] = ['text', 'json'];
+
+export const SLASH_COMMANDS: Record<string, SlashCommandInfo> = {
+  help: { usage: '/help', description: 'Show slash commands and input tips' },
+  plugins: { usage: '/plugins', description: 'List plugins and their triggers' },
+  session: { usage: '/session [new|<id>]', description: 'Show the current session, start a new one or switch' },
+  format: { usage: '/format <text|json>', description: 'Change how responses are printed' },
+  explain: { usage: '/explain', description: 'Toggle the routing explanation after each response' },
+  history: { usage: '/history', description: 'Show the turns in this session' },
+  exit: { usage: '/exit', description: 'Leave the chat (Ctrl+D also works)' },
+};
+
+const CONTINUATION = '\\';
+const BLOCK_FENCE = '"""';
+
+// ============================================================================
+// Slash Commands
+// ============================================================================
+
+/**
+ * Split a `/command arg ...` line
+ *
+ * @returns The command, or undefined if the line is a query
+ */
+export function parseSlashCommand(line: string): SlashCommand | undefined {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('/') || trimmed.length === 1) return undefined;
+
+  const [name, ...args] = trimmed.slice(1).split(/\s+/);
+  return { name: name.toLowerCase(), args };
+}
+
+// ============================================================================
+// Multi-line Input
+// ============================================================================
+
+/**
+ * Collects input that spans several lines
+ *
+ * A line ending in `\` continues on the next line. A line holding only `"""`
+ * opens a block that runs until the next `"""`, for pasting longer briefs.
+ *
+ * @example
+ * ```typescript
+ * const buffer = new ChatInputBuffer();
+ * buffer.push('plan a launch \\'); // undefined, waiting for more
+ * buffer.push('for our eco bottles'); // 'plan a launch\nfor our eco bottles'
+ * ```
+ */
+export class ChatInputBuffer {
+  private lines: string[] = [];
+  private inBlock = false;
+
+  /**
+   * Whether earlier lines are waiting for the rest of the input
+   */
+  get pending(): boolean {
+    return this.inBlock || this.lines.length > 0;
+  }
+
+  /**
+   * Add a line of input
+   *
+   * @returns The complete input once it ends, otherwise undefined
+   */
+  push(line: string): string | undefined {
+    if (line.trim() === BLOCK_FENCE) {
+      if (!this.inBlock) {
+        this.inBlock = true;
+        return undefined;
+      }
+      return this.flush();
+    }
+
+    if (this.inBlock) {
+      this.lines.push(line);
+      return undefined;
+    }
+
+    if (line.endsWith(CONTINUATION)) {
+      this.lines.push(line.slice(0, -CONTINUATION.length).trimEnd());
+      return undefined;
+    }
+
+    this.lines.push(line);
+    return this.flush();
+  }
+
+  /**
+   * Drop any partial input
+   */
+  reset(): void {
+    this.lines = [];
+    this.inBlock = false;
+  }
+
+  private flush(): string {
+    const input = this.lines.join('\n').trim();
+    this.reset();
+    return input;
+  }
+}
+
+// ============================================================================
+// Tab Completion
+// ============================================================================
+
+function startingWith(candidates: string[], prefix: string): string[] {
+  const lower = prefix.toLowerCase();
+  return Array.from(new Set(candidates.filter((c) => c.toLowerCase().startsWith(lower)))).sort();
+}
+
+/**
+ * Complete the end of a line, in the `[completions, replacedText]` form readline expects
+ *
+ * Slash commands and their arguments complete after `/`. Elsewhere the last
+ * words complete to plugin triggers, including multi-word triggers such as
+ * `social media`.
+ */
+export function completeChatInput(line: string, sources: ChatCompletionSources): [string[], string] {
+  if (line.startsWith('/')) {
+    const command = line.match(/^\/(\S*)$/);
+    if (command) {
+      return [startingWith(Object.keys(SLASH_COMMANDS).map((name) => `/${name}`), line), line];
+    }
+
+    const [, name, arg] = line.match(/^\/(\S+)\s+(\S*)$/) || [];
+    const args = name === 'format' ? CHAT_FORMATS : name === 'session' ? ['new', ...(sources.sessions || [])] : [];
+    return [startingWith(args, arg || ''), arg || ''];
+  }
+
+  const words = line.split(' ');
+  // Try the longest tail first so "social me" completes to "social media"
+  for (let count = words.length; count > 0; count--) {
+    const tail = words.slice(-count).join(' ');
+    if (!tail.trim()) continue;
+
+    const matches = startingWith(sources.triggers, tail);
+    if (matches.length > 0) {
+      return [matches, tail];
+    }
+  }
+
+  return [[], line];
+}
@@ -6,6 +6,12 @@ import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import chalk from 'chalk';
 import { l0Commands } from './commands/l0.js';
+import { runsCommands } from './commands/runs.js';
+import { queueCommands } from './commands/queue.js';
+import { chatCommands } from './commands/chat.js';
+import { automateCommands } from './commands/automate.js';
+import { calendarCommands } from './commands/calendar.js';
+import { calendarStore, l0Orchestrator, pluginManager } from './commands/runtime.js';
 
 // ============================================================================
 // Configuration
@@ -31,8 +37,6 @@ const CLI_NAME = 'vortex';
 const CLI_ALIASES = ['vortexai', 'l0', 'vxai', 'lzero'];
 const CLI_DESCRIPTION = '🌪️  VortexAI L0 - Universal Work Orchestrator';
 const VORTEX_EMOJI = '🌪️';
-const DEFAULT_CAMPAIGN_DURATION = '7';
-const DEFAULT_PLATFORMS = 'all';
 const SEPARATOR = '═'.repeat(70);
 
 // ============================================================================
@@ -50,6 +54,21 @@ program
 // Add L0 Commands (Real-World Orchestration)
 l0Commands(program);
 
+// Workflow run history
+runsCommands(program, l0Orchestrator.getRunHistory());
+
+// Agent task queue
+queueCommands(program, l0Orchestrator.getTaskQueue());
+
+// Interactive REPL
+chatCommands(program);
+
+// Top-level campaign and automate shortcuts
+automateCommands(program);
+
+// Content calendars
+calendarCommands(program, calendarStore);
+
 // ============================================================================
 // Command Definitions
 // ============================================================================
@@ -95,72 +114,6 @@ program
     console.log('• Code Snippet & Memory Retrieval');
   });
 
-program
-  .command('campaign')
-  .description('Social media campaign orchestration')
-  .argument('<objective>', 'Campaign objective')
-  .option('-p, --platform <platforms>', 'Target platforms (comma-separated)', DEFAULT_PLATFORMS)
-  .option('-d, --duration <days>', 'Campaign duration in days', DEFAULT_CAMPAIGN_DURATION)
-  .option('--budget <amount>', 'Campaign budget')
-  .action((objective: string, options: { platform: string; duration: string; budget?: string }) => {
-    console.log('🎯 Campaign Orchestration');
-    console.log('=========================');
-    console.log('Objective:', objective);
-    console.log('Platforms:', options.platform);
-    console.log('Duration:', `${options.duration} days`);
-    if (options.budget) {
-      console.log('Budget:', options.budget);
-    }
-    console.log('');
-    console.log('🤖 Delegating to specialized agents:');
-    console.log('  • Research Agent: Analyzing market trends...');
-    console.log('  • Content Agent: Creating post variations...');
-    console.log('  • Strategy Agent: Optimizing posting schedule...');
-    console.log('  • Analytics Agent: Setting up tracking...');
-    console.log('');
-    console.log('💡 Use "vortex l0 orchestrate" for dynamic delegation');
-  });
-
-program
-  .command('automate')
-  .description('Natural language orchestration interface')
-  .argument('<request>', 'Natural language request')
-  .option('--agents <list>', 'Specify agents to use')
-  .option('--format <type>', 'Output format (interactive, json, report)', 'interactive')
-  .action((request: string, options: { agents?: string; format: string }) => {
-    console.log('🧠 L0 Orchestrating:', chalk.cyan(request));
-    console.log('');
-
-    // Simulate orchestration logic
-    const lowerRequest = request.toLowerCase();
-    const isSocialRequest = lowerRequest.includes('social') || lowerRequest.includes('campaign');
-    const isContentRequest = lowerRequest.includes('content') || lowerRequest.includes('create');
-
-    if (isSocialRequest) {
-      console.log('🎯 Social Media Campaign detected');
-      console.log('📋 Workflow Plan:');
-      console.log('  1. Market research & competitor analysis');
-      console.log('  2. Content strategy & hashtag research');
-      console.log('  3. Visual content creation');
-      console.log('  4. Post scheduling & automation');
-      console.log('  5. Performance tracking & optimization');
-    } else if (isContentRequest) {
-      console.log('📝 Content Creation detected');
-      console.log('📋 Workflow Plan:');
-      console.log('  1. Topic research & trend analysis');
-      console.log('  2. Content outline & structure');
-      console.log('  3. Draft creation with SEO optimization');
-      console.log('  4. Review & revision cycles');
-      console.log('  5. Publication & distribution');
-    } else {
-      console.log('🤖 General Orchestration');
-      console.log('📋 Analyzing request and delegating to appropriate agents...');
-    }
-
-    console.log('');
-    console.log('💫 L0 orchestrates. You achieve.');
-  });
-
 program
   .command('help')
   .description('Show detailed help and examples')
@@ -174,6 +127,7 @@ program
     console.log('• vortex l0 "create viral campaign for eco-friendly product"');
     console.log('• vortex campaign "increase brand awareness for millennials"');
     console.log('• vortex automate "research trending topics and create 10 posts"');
+    console.log('• vortex calendar generate --start 2026-11-02 --cadence 3');
     console.log('');
     console.log('🧠 Development & Memory:');
     console.log('• vortex l0 code "floating notification component"');
@@ -185,6 +139,9 @@ program
     console.log('• vortex automate "create weekly performance report"');
     console.log('• vortex automate "optimize content calendar for Q4"');
     console.log('');
+    console.log('💬 Conversation:');
+    console.log('• vortex chat         - Interactive session with history and tab completion');
+    console.log('');
     console.log('🔧 Configuration:');
     console.log('• vortex init         - Initialize workspace');
     console.log('• vortex status       - Check orchestrator status');
@@ -224,6 +181,8 @@ if (process.argv.length === 2) {
   console.log(chalk.white('  vortex l0 code "floating notification component"'));
   console.log(chalk.white('  vortex l0 memory "oauth implementation patterns"'));
   console.log(chalk.white('  vortex l0 help "react best practices"'));
+  console.log('\n💬 Interactive:');
+  console.log(chalk.white('  vortex chat'));
   console.log('\n⚙️  Quick Start:');
   console.log(chalk.white('  vortex init'));
   console.log(chalk.white('  vortex status'));
@@ -235,4 +194,7 @@ if (process.argv.length === 2) {
 // Parse CLI Arguments
 // ============================================================================
 
-program.parse();
\ No newline at end of file
+await program.parseAsync();
+
+// Let plugins close connections and timers so the process can exit
+await pluginManager.dispose();
\ No newline at end of file
@@ -0,0 +1,176 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import type { L0QueryOptions } from '../orchestrator.js';
+import { renderReport } from '../report.js';
+import type { SessionBudget } from '../session.js';
+import { displayExplanation, displayL0Response, streamQuery } from './l0.js';
+import { l0Orchestrator } from './runtime.js';
+import { ALL_PLATFORMS, parseBudgetOption, parseDuration, parsePlatforms, splitList } from './options.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_CAMPAIGN_DURATION = '7';
+const OUTPUT_STYLES = ['interactive', 'json', 'report'] as const;
+
+type OutputStyle = (typeof OUTPUT_STYLES)[number];
+
+// ============================================================================
+// Command Options Interfaces
+// ============================================================================
+
+interface CampaignOptions {
+  platform: string;
+  duration: string;
+  budget?: string;
+  format: string;
+  save?: boolean;
+  explain?: boolean;
+}
+
+interface AutomateOptions {
+  agents?: string;
+  format: string;
+  explain?: boolean;
+}
+
+/**
+ * Campaign options after validation
+ */
+interface CampaignRequestParameters {
+  /** Undefined means every default platform */
+  platforms?: string[];
+  durationDays: number;
+  budget?: SessionBudget;
+  format: OutputStyle;
+}
+
+interface AutomateRequestParameters {
+  /** Undefined means any registered agent */
+  agents?: string[];
+  format: OutputStyle;
+}
+
+// ============================================================================
+// Option Parsing
+// ============================================================================
+
+function parseOutputStyle(format: string): OutputStyle {
+  if (!OUTPUT_STYLES.includes(format as OutputStyle)) {
+    throw new Error(`Unknown format "${format}". Use one of: ${OUTPUT_STYLES.join(', ')}`);
+  }
+  return format as OutputStyle;
+}
+
+function parseCampaignOptions(options: CampaignOptions): CampaignRequestParameters {
+  return {
+    platforms: parsePlatforms(options.platform),
+    durationDays: parseDuration(options.duration),
+    ...(options.budget && { budget: parseBudgetOption(options.budget) }),
+    format: parseOutputStyle(options.format),
+  };
+}
+
+function parseAutomateOptions(options: AutomateOptions): AutomateRequestParameters {
+  const agents = options.agents ? splitList(options.agents) : [];
+  return {
+    ...(agents.length > 0 && { agents }),
+    format: parseOutputStyle(options.format),
+  };
+}
+
+// ============================================================================
+// Display Functions
+// ============================================================================
+
+/**
+ * Send a request to the orchestrator and print the response in the chosen style
+ */
+async function deliver(request: string, options: L0QueryOptions, format: OutputStyle): Promise<void> {
+  if (format === 'interactive') {
+    const { response, answerShown } = await streamQuery(request, options);
+    displayL0Response(response, { answerShown });
+    if (response.explain) {
+      displayExplanation(response.explain);
+    }
+    return;
+  }
+
+  const response = await l0Orchestrator.query(request, options);
+  console.log(format === 'json' ? JSON.stringify(response, null, 2) : renderReport(response, request));
+}
+
+// ============================================================================
+// Command Registration
+// ============================================================================
+
+/**
+ * Register the top-level `campaign` and `automate` commands
+ *
+ * Both route through the orchestrator, so plugins, sessions and the
+ * configured model apply exactly as they do for `vortex l0 ask`.
+ *
+ * @param program - Commander.js program instance
+ */
+export const automateCommands = (program: Command): void => {
+  program
+    .command('campaign')
+    .description('Social media campaign orchestration')
+    .argument('<objective>', 'Campaign objective')
+    .option('-p, --platform <platforms>', 'Target platforms (comma-separated)', ALL_PLATFORMS)
+    .option('-d, --duration <days>', 'Campaign duration in days', DEFAULT_CAMPAIGN_DURATION)
+    .option('--budget <amount>', 'Campaign budget, e.g. 5000, $5k or 2500 EUR')
+    .option('--format <type>', `Output format (${OUTPUT_STYLES.join(', ')})`, 'interactive')
+    .option('--save', 'Save the plan to the campaign store')
+    .option('--explain', 'Show how the request was routed')
+    .action(async (objective: string, options: CampaignOptions) => {
+      try {
+        const params = parseCampaignOptions(options);
+        await deliver(
+          objective,
+          {
+            intent: 'campaign',
+            entities: {
+              ...(params.platforms && { platforms: params.platforms }),
+              ...(params.budget && { budget: params.budget }),
+            },
+            durationDays: params.durationDays,
+            ...(options.save && { save: true }),
+            explain: options.explain,
+          },
+          params.format
+        );
+      } catch (error) {
+        handleError('Campaign orchestration failed', error);
+      }
+    });
+
+  program
+    .command('automate')
+    .description('Natural language orchestration interface')
+    .argument('<request>', 'Natural language request')
+    .option('--agents <list>', 'Only delegate to these agents (comma-separated)')
+    .option('--format <type>', `Output format (${OUTPUT_STYLES.join(', ')})`, 'interactive')
+    .option('--explain', 'Show how the request was routed')
+    .action(async (request: string, options: AutomateOptions) => {
+      try {
+        const params = parseAutomateOptions(options);
+        await deliver(request, { agents: params.agents, explain: options.explain }, params.format);
+      } catch (error) {
+        handleError('Orchestration failed', error);
+      }
+    });
+};
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+function handleError(context: string, error: unknown): void {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(chalk.red(`❌ ${context}:`), errorMessage);
+  process.exitCode = 1;
+}
+
+export default automateCommands;
@@ -0,0 +1,181 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { DEFAULT_MIN_RELEVANCE, parseBrandProfile, scoreRelevance, type BrandProfile } from '../brand.js';
+import { getConfigPath, readWorkspaceConfig, writeWorkspaceConfig } from '../node/workspace-config.js';
+import { splitList } from './options.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SEPARATOR_LENGTH = 55;
+
+// ============================================================================
+// Command Options Interfaces
+// ============================================================================
+
+interface SetOptions {
+  name?: string;
+  keywords?: string;
+  audience?: string;
+  tone?: string;
+  exclude?: string;
+  minRelevance?: string;
+}
+
+// ============================================================================
+// Display Functions
+// ============================================================================
+
+function displayBrandProfile(profile: BrandProfile): void {
+  console.log(chalk.magenta.bold(`\n🏷️  ${profile.name || 'Brand profile'}`));
+  console.log(chalk.gray('═'.repeat(SEPARATOR_LENGTH)));
+  console.log(`${chalk.bold('Keywords:')} ${profile.keywords.join(', ')}`);
+  console.log(`${chalk.bold('Audience:')} ${profile.audience?.join(', ') || chalk.gray('not set')}`);
+  console.log(`${chalk.bold('Tone:')} ${profile.tone || chalk.gray('not set')}`);
+  console.log(`${chalk.bold('Excluded topics:')} ${profile.excludedTopics?.join(', ') || chalk.gray('none')}`);
+  console.log(`${chalk.bold('Minimum relevance:')} ${profile.minRelevance ?? DEFAULT_MIN_RELEVANCE}`);
+  console.log('');
+}
+
+/**
+ * Read the saved profile, or undefined when none is set
+ */
+function readBrandProfile(): BrandProfile | undefined {
+  const { brand } = readWorkspaceConfig();
+  return brand === undefined ? undefined : parseBrandProfile(brand, `brand in ${getConfigPath()}`);
+}
+
+/**
+ * @throws Error unless the value is a number from 0 to 1
+ */
+function parseMinRelevance(value: string): number {
+  const score = Number(value);
+  if (value.trim() === '' || !Number.isFinite(score) || score < 0 || score > 1) {
+    throw new Error(`--min-relevance must be a number from 0 to 1, got "${value}"`);
+  }
+  return score;
+}
+
+function requireBrandProfile(): BrandProfile {
+  const profile = readBrandProfile();
+  if (!profile) {
+    throw new Error('No brand profile yet. Try: vortex l0 brand set --keywords "sustainability,eco"');
+  }
+  return profile;
+}
+
+// ============================================================================
+// Command Registration
+// ============================================================================
+
+/**
+ * Register `brand` commands for the brand profile trends are scored against
+ *
+ * The profile is kept in the `brand` section of the workspace config.
+ *
+ * @param parent - Command to attach the `brand` group to
+ */
+export const brandCommands = (parent: Command): void => {
+  const brandCmd = parent
+    .command('brand')
+    .description('Manage the brand profile used to score trend relevance');
+
+  brandCmd
+    .command('show')
+    .description('Show the brand profile')
+    .option('--json', 'Output as JSON')
+    .action((options: { json?: boolean }) => {
+      try {
+        const profile = requireBrandProfile();
+        if (options.json) {
+          console.log(JSON.stringify(profile, null, 2));
+        } else {
+          displayBrandProfile(profile);
+        }
+      } catch (error) {
+        handleError('Could not show brand profile', error);
+      }
+    });
+
+  brandCmd
+    .command('set')
+    .description('Create or update the brand profile; list options replace the saved list')
+    .option('-n, --name <name>', 'brand name')
+    .option('-k, --keywords <list>', 'topics the brand wants to be seen with (comma-separated)')
+    .option('-a, --audience <list>', 'groups the brand speaks to (comma-separated)')
+    .option('-t, --tone <tone>', 'voice: playful, professional, inspirational, educational or your own word')
+    .option('-x, --exclude <list>', 'topics the brand must never appear next to (comma-separated)')
+    .option('--min-relevance <score>', `drop trends scoring below this, 0-1 (default: ${DEFAULT_MIN_RELEVANCE})`)
+    .action(async (options: SetOptions) => {
+      try {
+        const config = readWorkspaceConfig();
+        const current = (config.brand || {}) as Partial<BrandProfile>;
+        const profile = parseBrandProfile({
+          ...current,
+          ...(options.name !== undefined && { name: options.name }),
+          ...(options.keywords !== undefined && { keywords: splitList(options.keywords) }),
+          ...(options.audience !== undefined && { audience: splitList(options.audience) }),
+          ...(options.tone !== undefined && { tone: options.tone }),
+          ...(options.exclude !== undefined && { excludedTopics: splitList(options.exclude) }),
+          ...(options.minRelevance !== undefined && { minRelevance: parseMinRelevance(options.minRelevance) }),
+        });
+
+        await writeWorkspaceConfig({ ...config, brand: profile });
+        console.log(chalk.green(`✅ Saved brand profile to ${getConfigPath()}`));
+        displayBrandProfile(profile);
+      } catch (error) {
+        handleError('Could not save brand profile', error);
+      }
+    });
+
+  brandCmd
+    .command('clear')
+    .description('Remove the brand profile; trends are no longer scored')
+    .action(async () => {
+      try {
+        const { brand, ...config } = readWorkspaceConfig();
+        if (brand === undefined) {
+          console.log(chalk.gray('No brand profile to remove'));
+          return;
+        }
+        await writeWorkspaceConfig(config);
+        console.log(chalk.green('✅ Removed brand profile'));
+      } catch (error) {
+        handleError('Could not remove brand profile', error);
+      }
+    });
+
+  brandCmd
+    .command('score <hashtags...>')
+    .description('Score hashtags against the brand profile')
+    .action((hashtags: string[]) => {
+      try {
+        const profile = requireBrandProfile();
+        const minRelevance = profile.minRelevance ?? DEFAULT_MIN_RELEVANCE;
+
+        console.log('');
+        for (const hashtag of hashtags) {
+          const { relevanceScore, rationale, safe } = scoreRelevance(hashtag, profile);
+          const kept = safe && relevanceScore >= minRelevance;
+          const score = (kept ? chalk.green : chalk.red)(relevanceScore.toFixed(2));
+          console.log(`${score}  ${chalk.bold(hashtag)} ${chalk.gray(rationale)}${kept ? '' : chalk.red(' (filtered)')}`);
+        }
+        console.log('');
+      } catch (error) {
+        handleError('Could not score hashtags', error);
+      }
+    });
+};
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+function handleError(context: string, error: unknown): void {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(chalk.red(`❌ ${context}:`), errorMessage);
+  process.exitCode = 1;
+}
+
+export default brandCommands;
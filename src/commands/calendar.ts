@@ -0,0 +1,248 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { readFile, writeFile } from 'fs/promises';
+import { extname } from 'path';
+import {
+  DEFAULT_CALENDAR_CADENCE,
+  DEFAULT_CALENDAR_DURATION_DAYS,
+  generateCalendar,
+  toCalendarCsv,
+  toICalendar,
+  type CalendarStore,
+  type CalendarTheme,
+  type ContentCalendar,
+} from '../calendar.js';
+import { ALL_PLATFORMS, parseDateOption, parseDuration, parsePlatforms } from './options.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SEPARATOR_LENGTH = 55;
+const VORTEX_EMOJI = '🌪️';
+const EXPORT_FORMATS = ['ics', 'csv'] as const;
+
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// ============================================================================
+// Command Options Interfaces
+// ============================================================================
+
+interface GenerateOptions {
+  start?: string;
+  days: string;
+  platforms: string;
+  cadence: string;
+  themes?: string;
+  holidays: boolean;
+  name?: string;
+  id?: string;
+  json?: boolean;
+}
+
+interface ExportOptions {
+  format?: string;
+  output?: string;
+}
+
+// ============================================================================
+// Option Parsing
+// ============================================================================
+
+function parseCadence(value: string): number {
+  const cadence = Number(value);
+  if (!Number.isInteger(cadence) || cadence < 1 || cadence > 7) {
+    throw new Error(`Cadence must be 1-7 posts per week, got "${value}"`);
+  }
+  return cadence;
+}
+
+/**
+ * Read weekly themes from a JSON file holding `[{ weekday, name, idea }]`
+ */
+async function readThemes(file: string): Promise<CalendarTheme[]> {
+  const themes: unknown = JSON.parse(await readFile(file, 'utf8'));
+  const valid =
+    Array.isArray(themes) &&
+    themes.every(
+      (t) => Number.isInteger(t?.weekday) && t.weekday >= 0 && t.weekday <= 6 && typeof t.name === 'string' && typeof t.idea === 'string'
+    );
+  if (!valid) {
+    throw new Error(`${file} must hold a list of { "weekday": 0-6, "name": "...", "idea": "..." } themes`);
+  }
+  return themes as CalendarTheme[];
+}
+
+function parseExportFormat(options: ExportOptions): ExportFormat {
+  const format = options.format || (options.output && extname(options.output).slice(1).toLowerCase()) || 'ics';
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw new Error(`Unknown export format "${format}". Use one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+  return format as ExportFormat;
+}
+
+// ============================================================================
+// Display Functions
+// ============================================================================
+
+function displayCalendarSummary(calendar: ContentCalendar): void {
+  const holidays = new Set(calendar.entries.flatMap((e) => (e.holiday ? [e.holiday] : [])));
+
+  console.log(`${chalk.bold(calendar.id)} ${calendar.name}`);
+  console.log(
+    `  ${chalk.dim(`${calendar.startDate} → ${calendar.endDate} · ${calendar.platforms.join(', ')} · ${calendar.cadence}/week · ${calendar.entries.length} posts`)}`
+  );
+  if (holidays.size > 0) {
+    console.log(`  ${chalk.yellow(`Holidays: ${Array.from(holidays).join(', ')}`)}`);
+  }
+}
+
+function displayCalendar(calendar: ContentCalendar): void {
+  console.log(chalk.magenta.bold(`\n📅 ${calendar.name}`) + chalk.gray(` (${calendar.id})`));
+  console.log(chalk.gray('═'.repeat(SEPARATOR_LENGTH)));
+
+  let currentDate = '';
+  for (const entry of calendar.entries) {
+    if (entry.date !== currentDate) {
+      currentDate = entry.date;
+      const theme = entry.holiday ? chalk.yellow(`🎉 ${entry.theme}`) : chalk.cyan(entry.theme);
+      console.log(`\n${chalk.bold(`${entry.weekday.slice(0, 3)} ${entry.date}`)}  ${theme}`);
+      console.log(chalk.gray(`  ${entry.idea}`));
+    }
+    console.log(`  • ${entry.platform.padEnd(10)} ${entry.format}`);
+  }
+  console.log('');
+}
+
+// ============================================================================
+// Command Registration
+// ============================================================================
+
+/**
+ * Register `calendar` commands for generating and exporting content calendars
+ *
+ * @param program - Commander.js program instance
+ * @param store - Store generated calendars are saved to
+ */
+export const calendarCommands = (program: Command, store: CalendarStore): void => {
+  const calendarCmd = program
+    .command('calendar')
+    .description('Generate, view and export content calendars');
+
+  calendarCmd
+    .command('generate')
+    .description('Build a dated calendar from weekly themes, platforms, cadence and holidays')
+    .option('-s, --start <date>', 'first day, YYYY-MM-DD (default: today)')
+    .option('-d, --days <count>', 'number of days to cover', String(DEFAULT_CALENDAR_DURATION_DAYS))
+    .option('-p, --platforms <list>', 'platforms (comma-separated)', ALL_PLATFORMS)
+    .option('-c, --cadence <posts>', 'posts per week on each platform (1-7)', String(DEFAULT_CALENDAR_CADENCE))
+    .option('--themes <file>', 'JSON file of weekly themes (default: Monday Motivation … Friday Fun)')
+    .option('--no-holidays', 'skip Halloween, Black Friday, Cyber Monday and Christmas')
+    .option('-n, --name <name>', 'calendar name')
+    .option('--id <id>', 'calendar id (default: calendar-<start>)')
+    .option('--json', 'Output as JSON')
+    .action(async (options: GenerateOptions) => {
+      try {
+        const calendar = generateCalendar({
+          ...(options.start && { startDate: parseDateOption(options.start) }),
+          durationDays: parseDuration(options.days),
+          platforms: parsePlatforms(options.platforms),
+          cadence: parseCadence(options.cadence),
+          ...(options.themes && { themes: await readThemes(options.themes) }),
+          ...(!options.holidays && { holidays: [] }),
+          name: options.name,
+          id: options.id,
+        });
+        await store.save(calendar);
+
+        if (options.json) {
+          console.log(JSON.stringify(calendar, null, 2));
+          return;
+        }
+
+        console.log(chalk.green(`✅ Saved calendar ${chalk.bold(calendar.id)}`));
+        displayCalendarSummary(calendar);
+        console.log(chalk.gray(`\nView it with: vortex calendar show ${calendar.id}`));
+        console.log(chalk.gray(`Export it with: vortex calendar export ${calendar.id} --format ics`));
+      } catch (error) {
+        handleError('Could not generate calendar', error);
+      }
+    });
+
+  calendarCmd
+    .command('show [id]')
+    .description('Show a calendar day by day, or list saved calendars')
+    .option('--json', 'Output as JSON')
+    .action(async (id: string | undefined, options: { json?: boolean }) => {
+      try {
+        if (id) {
+          const calendar = await store.get(id);
+          if (!calendar) {
+            throw new Error(`Calendar "${id}" not found`);
+          }
+          if (options.json) {
+            console.log(JSON.stringify(calendar, null, 2));
+          } else {
+            displayCalendar(calendar);
+          }
+          return;
+        }
+
+        const calendars = await store.list();
+        if (options.json) {
+          console.log(JSON.stringify(calendars.map(({ entries, ...summary }) => ({ ...summary, posts: entries.length })), null, 2));
+          return;
+        }
+
+        console.log(chalk.magenta.bold(`\n${VORTEX_EMOJI}  Content Calendars`));
+        console.log(chalk.gray('═'.repeat(SEPARATOR_LENGTH)));
+        if (calendars.length === 0) {
+          console.log(chalk.gray('\nNo calendars yet. Try: vortex calendar generate --start 2026-11-02\n'));
+          return;
+        }
+        console.log('');
+        calendars.forEach(displayCalendarSummary);
+        console.log('');
+      } catch (error) {
+        handleError('Could not show calendar', error);
+      }
+    });
+
+  calendarCmd
+    .command('export <id>')
+    .description('Export a calendar as iCalendar (.ics) or CSV')
+    .option('-f, --format <type>', `export format (${EXPORT_FORMATS.join(', ')}; default: from --output, else ics)`)
+    .option('-o, --output <file>', 'write to a file instead of stdout')
+    .action(async (id: string, options: ExportOptions) => {
+      try {
+        const format = parseExportFormat(options);
+        const calendar = await store.get(id);
+        if (!calendar) {
+          throw new Error(`Calendar "${id}" not found`);
+        }
+
+        const content = format === 'ics' ? toICalendar(calendar) : toCalendarCsv(calendar);
+        if (!options.output) {
+          process.stdout.write(content);
+          return;
+        }
+
+        await writeFile(options.output, content, 'utf8');
+        console.log(chalk.green(`✅ Exported ${calendar.entries.length} entries to ${options.output}`));
+      } catch (error) {
+        handleError('Could not export calendar', error);
+      }
+    });
+};
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+function handleError(context: string, error: unknown): void {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(chalk.red(`❌ ${context}:`), errorMessage);
+  process.exitCode = 1;
+}
+
+export default calendarCommands;
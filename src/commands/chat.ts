@@ -0,0 +1,310 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { createInterface, type Interface } from 'readline';
+import {
+  CHAT_FORMATS,
+  ChatInputBuffer,
+  SLASH_COMMANDS,
+  completeChatInput,
+  parseSlashCommand,
+  type ChatFormat,
+  type SlashCommand,
+} from '../chat.js';
+import type { L0QueryOptions } from '../orchestrator.js';
+import { pluginManager } from '../plugins.js';
+import { workspacePath } from '../node/workspace.js';
+import { displayExplanation, displayL0Response, displaySession, displaySessionSummary, streamQuery } from './l0.js';
+import { l0Orchestrator } from './runtime.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SEPARATOR_LENGTH = 55;
+const VORTEX_EMOJI = '🌪️';
+const HISTORY_FILE = 'chat-history';
+const HISTORY_SIZE = 500;
+const PROMPT = chalk.magenta('l0> ');
+const CONTINUATION_PROMPT = chalk.gray('... ');
+
+// ============================================================================
+// Command Options Interfaces
+// ============================================================================
+
+interface ChatOptions {
+  session?: string;
+  format: string;
+  explain?: boolean;
+}
+
+interface ChatState {
+  sessionId: string;
+  format: ChatFormat;
+  explain: boolean;
+  /** Session ids offered by tab completion, refreshed after each turn */
+  knownSessions: string[];
+}
+
+// ============================================================================
+// Display Functions
+// ============================================================================
+
+function displayWelcome(state: ChatState): void {
+  console.log(chalk.magenta.bold(`\n${VORTEX_EMOJI}  VortexAI L0 Chat`));
+  console.log(chalk.gray('═'.repeat(SEPARATOR_LENGTH)));
+  console.log(chalk.gray(`Session ${chalk.cyan(state.sessionId)} · format ${state.format}`));
+  console.log(chalk.gray('Type a request, /help for commands, Tab to complete, Ctrl+D to leave.\n'));
+}
+
+function displayHelp(): void {
+  console.log(chalk.bold('\nSlash commands'));
+  const width = Math.max(...Object.values(SLASH_COMMANDS).map((c) => c.usage.length));
+  Object.values(SLASH_COMMANDS).forEach(({ usage, description }) => {
+    console.log(`  ${chalk.cyan(usage.padEnd(width))}  ${description}`);
+  });
+
+  console.log(chalk.bold('\nMulti-line input'));
+  console.log(`  End a line with ${chalk.cyan('\\')} to continue it, or wrap a block in ${chalk.cyan('"""')} lines.`);
+  console.log('');
+}
+
+function displayPlugins(): void {
+  const plugins = pluginManager.listDetailed();
+  if (plugins.length === 0) {
+    console.log(chalk.yellow('No plugins registered'));
+    return;
+  }
+
+  console.log('');
+  plugins.forEach((plugin) => {
+    const status = plugin.enabled ? chalk.green('●') : chalk.gray('○');
+    console.log(`${status} ${chalk.bold(plugin.name)} ${chalk.gray(plugin.triggers.join(', '))}`);
+  });
+  console.log('');
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Read saved input history, most recent first as readline expects
+ */
+function loadHistory(path: string): string[] {
+  try {
+    return readFileSync(path, 'utf8').split('\n').filter(Boolean).slice(-HISTORY_SIZE).reverse();
+  } catch {
+    return [];
+  }
+}
+
+function saveHistory(path: string, history: string[]): void {
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, [...history].reverse().join('\n') + '\n', 'utf8');
+  } catch {
+    // History is a convenience; an unwritable workspace should not end the chat
+  }
+}
+
+function parseFormat(format: string): ChatFormat {
+  if (!CHAT_FORMATS.includes(format as ChatFormat)) {
+    throw new Error(`Unknown format "${format}". Use one of: ${CHAT_FORMATS.join(', ')}`);
+  }
+  return format as ChatFormat;
+}
+
+async function refreshSessions(state: ChatState): Promise<void> {
+  state.knownSessions = (await l0Orchestrator.listSessions()).map((s) => s.id);
+}
+
+/**
+ * Route one request through the orchestrator within the chat's session
+ */
+async function ask(query: string, state: ChatState): Promise<void> {
+  const options: L0QueryOptions = { session: state.sessionId, explain: state.explain };
+
+  if (state.format === 'json') {
+    console.log(JSON.stringify(await l0Orchestrator.query(query, options), null, 2));
+    return;
+  }
+
+  const { response, answerShown } = await streamQuery(query, options);
+  displayL0Response(response, { answerShown });
+  if (response.explain) {
+    displayExplanation(response.explain);
+  }
+}
+
+/**
+ * Run a slash command
+ *
+ * @returns False when the chat should end
+ */
+async function runSlashCommand({ name, args }: SlashCommand, state: ChatState): Promise<boolean> {
+  switch (name) {
+    case 'help':
+      displayHelp();
+      return true;
+    case 'plugins':
+      displayPlugins();
+      return true;
+    case 'format':
+      if (args.length === 0) {
+        console.log(chalk.gray(`Format: ${state.format}`));
+        return true;
+      }
+      state.format = parseFormat(args[0]);
+      console.log(chalk.green(`✓ Responses will be printed as ${state.format}`));
+      return true;
+    case 'explain':
+      state.explain = !state.explain;
+      console.log(chalk.green(`✓ Routing explanation ${state.explain ? 'on' : 'off'}`));
+      return true;
+    case 'session': {
+      if (args[0] === 'new') {
+        state.sessionId = (await l0Orchestrator.startSession()).id;
+        console.log(chalk.green(`✓ Started session ${state.sessionId}`));
+      } else if (args[0]) {
+        const session = await l0Orchestrator.getSession(args[0]);
+        state.sessionId = args[0];
+        console.log(chalk.green(session ? `✓ Resumed session ${args[0]} (${session.turns.length} turns)` : `✓ Started session ${args[0]}`));
+      } else {
+        const session = await l0Orchestrator.getSession(state.sessionId);
+        displaySessionSummary({ id: state.sessionId, turns: session?.turns.length || 0, entities: session?.entities || {} });
+      }
+      await refreshSessions(state);
+      return true;
+    }
+    case 'history': {
+      const session = await l0Orchestrator.getSession(state.sessionId);
+      if (!session) {
+        console.log(chalk.gray('No turns yet'));
+        return true;
+      }
+      displaySession(session);
+      return true;
+    }
+    case 'exit':
+    case 'quit':
+      return false;
+    default:
+      throw new Error(`Unknown command "/${name}". Type /help for the list`);
+  }
+}
+
+/**
+ * Read lines until the user leaves, routing each complete input
+ */
+async function runChat(rl: Interface, state: ChatState): Promise<void> {
+  const buffer = new ChatInputBuffer();
+
+  rl.on('SIGINT', () => {
+    // Ctrl+C abandons a half-typed multi-line input before it leaves the chat
+    if (!buffer.pending) {
+      rl.close();
+      return;
+    }
+    buffer.reset();
+    process.stdout.write('\n');
+    rl.setPrompt(PROMPT);
+    rl.prompt();
+  });
+
+  rl.setPrompt(PROMPT);
+  rl.prompt();
+
+  for await (const line of rl) {
+    const input = buffer.push(line);
+    if (input === undefined) {
+      rl.setPrompt(CONTINUATION_PROMPT);
+      rl.prompt();
+      continue;
+    }
+
+    try {
+      const command = parseSlashCommand(input);
+      if (command && !(await runSlashCommand(command, state))) {
+        break;
+      }
+      if (!command && input) {
+        await ask(input, state);
+        await refreshSessions(state);
+      }
+    } catch (error) {
+      // Report and keep the conversation going
+      handleError(parseSlashCommand(input) ? 'Command failed' : 'L0 Orchestration Error', error);
+    }
+
+    rl.setPrompt(PROMPT);
+    rl.prompt();
+  }
+
+  rl.close();
+}
+
+// ============================================================================
+// Command Registration
+// ============================================================================
+
+/**
+ * Register the interactive chat command
+ *
+ * @param program - Commander.js program instance
+ */
+export const chatCommands = (program: Command): void => {
+  program
+    .command('chat')
+    .description('Talk to L0 interactively, keeping context between turns')
+    .option('-s, --session <id>', 'resume a session instead of starting a new one')
+    .option('-f, --format <type>', `response format (${CHAT_FORMATS.join(', ')})`, 'text')
+    .option('--explain', 'show how each request was routed')
+    .action(async (options: ChatOptions) => {
+      try {
+        const state: ChatState = {
+          sessionId: options.session || (await l0Orchestrator.startSession()).id,
+          format: parseFormat(options.format),
+          explain: Boolean(options.explain),
+          knownSessions: [],
+        };
+        await refreshSessions(state);
+
+        const historyPath = workspacePath(HISTORY_FILE);
+        const rl = createInterface({
+          input: process.stdin,
+          output: process.stdout,
+          history: loadHistory(historyPath),
+          historySize: HISTORY_SIZE,
+          completer: (line: string) =>
+            completeChatInput(line, {
+              triggers: pluginManager
+                .listDetailed()
+                .filter((p) => p.enabled)
+                .flatMap((p) => pluginManager.get(p.name)?.triggers.filter((t): t is string => typeof t === 'string') || []),
+              sessions: state.knownSessions,
+            }),
+        });
+        rl.on('history', (history: string[]) => saveHistory(historyPath, history));
+
+        displayWelcome(state);
+        await runChat(rl, state);
+        console.log(chalk.gray(`\nSession saved. Resume with: vortex chat --session ${state.sessionId}`));
+      } catch (error) {
+        handleError('Chat failed', error);
+        process.exitCode = 1;
+      }
+    });
+};
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+function handleError(context: string, error: unknown): void {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(chalk.red(`❌ ${context}:`), errorMessage);
+}
+
+export default chatCommands;
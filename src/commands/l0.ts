@@ -4,8 +4,22 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import boxen from 'boxen';
 import clipboardy from 'clipboardy';
-import { L0Orchestrator, L0Response } from '../orchestrator.js';
-import { pluginManager } from '../plugins.js';
+import type { L0QueryOptions, L0Response, L0RoutingExplanation, L0SessionSummary } from '../orchestrator.js';
+import { describeTrigger, parsePluginConfigValue, resolvePluginConfig, type L0Plugin } from '../plugins.js';
+import { extractEntities, formatBudget, type Session, type SessionBudget, type SessionEntities } from '../session.js';
+import type { KpiTarget, PlatformBudget, PlatformFormats, ScheduledPost } from '../campaign-planner.js';
+import type { FilteredTrend } from '../brand.js';
+import { formatLastUsed } from '../snippets.js';
+import { snippetCommands } from './snippet.js';
+import { brandCommands } from './brand.js';
+import { displayWorkflowEvent } from './runs.js';
+import { knowledgeStore, l0Orchestrator, pluginLoadReport, pluginManager } from './runtime.js';
+import { installPlugin, linkPlugin, uninstallPlugin, type LoadedPlugin } from '../node/plugin-loader.js';
+import { readWorkspaceConfig, writeWorkspaceConfig } from '../node/workspace-config.js';
+import { FileTrendProvider } from '../node/file-trend-provider.js';
+import { createMockTrendServer } from '../node/mock-trend-server.js';
+import { SampleTrendProvider } from '../trends.js';
+import { parseBudgetOption, parseDateOption, parseDuration, parsePlatforms } from './options.js';
 
 // ============================================================================
 // Constants
@@ -16,12 +30,10 @@ const BOX_MAX_WIDTH = 80;
 const BOX_PADDING = 4;
 const SEPARATOR_LENGTH = 55;
 const VORTEX_EMOJI = '🌪️';
-
-// ============================================================================
-// Orchestrator Instance
-// ============================================================================
-
-const l0Orchestrator = new L0Orchestrator();
+// Schedule days shown before the rest is summarized
+const SCHEDULE_PREVIEW_DAYS = 7;
+// Port the mock trend server listens on unless told otherwise
+const MOCK_TREND_PORT = 4319;
 
 // ============================================================================
 // Display Functions
@@ -31,13 +43,20 @@ const l0Orchestrator = new L0Orchestrator();
  * Display L0 response in a formatted CLI output
  *
  * @param response - The L0 response to display
+ * @param options.answerShown - Skip the model answer, e.g. after streaming it
  */
-function displayL0Response(response: L0Response): void {
+export function displayL0Response(response: L0Response, options: { answerShown?: boolean } = {}): void {
   console.log('\n' + chalk.magenta.bold(`${VORTEX_EMOJI}  L0:`), response.message);
 
+  displayPluginAttempts(response);
   displayCodeSnippet(response);
+  if (!options.answerShown) {
+    displayAnswer(response);
+  }
   displayWorkflow(response);
   displayAgents(response);
+  displayCampaignPlan(response);
+  displayTrends(response);
   displayData(response);
   displayRelated(response);
   displayDashboardUrl(response);
@@ -45,6 +64,16 @@ function displayL0Response(response: L0Response): void {
   console.log('');
 }
 
+/**
+ * Note plugins that failed or declined before the answer was found
+ */
+function displayPluginAttempts(response: L0Response): void {
+  for (const { plugin, status, reason } of response.attribution || []) {
+    if (status === 'answered') continue;
+    console.log(chalk.yellow(`⚠️  Plugin "${plugin}" ${status}${reason ? `: ${reason}` : ''}`));
+  }
+}
+
 /**
  * Display code snippet with metadata
  */
@@ -68,7 +97,7 @@ function displayCodeSnippet(response: L0Response): void {
   );
 
   if (data) {
-    console.log(chalk.gray(`Last used: ${data.lastUsed} | Project: ${data.project}`));
+    console.log(chalk.gray(`Last used: ${formatLastUsed(String(data.lastUsed))} | Project: ${data.project}`));
     console.log(chalk.cyan(`Tags: ${(data.tags as string[]).join(', ')}`));
   }
 
@@ -77,6 +106,74 @@ function displayCodeSnippet(response: L0Response): void {
   }
 }
 
+/**
+ * Display the model's answer to a general request
+ */
+function displayAnswer(response: L0Response): void {
+  const data = typeof response.data === 'object' ? response.data : undefined;
+  if (typeof data?.answerError === 'string') {
+    console.log(chalk.yellow(`⚠️  ${data.model} could not answer: ${data.answerError}`));
+  }
+  if (typeof data?.answer !== 'string' || !data.answer) return;
+
+  console.log(
+    boxen(data.answer, {
+      title: String(data.model),
+      padding: 1,
+      borderColor: 'cyan',
+      borderStyle: 'round',
+    })
+  );
+}
+
+/**
+ * Render query progress as it arrives
+ *
+ * @returns The final response and whether model tokens were already printed
+ */
+export async function streamQuery(query: string, options: L0QueryOptions): Promise<{ response: L0Response; answerShown: boolean }> {
+  let response: L0Response | undefined;
+  let midLine = false;
+  let answerShown = false;
+
+  for await (const event of l0Orchestrator.queryStream(query, options)) {
+    switch (event.type) {
+      case 'intent': {
+        const confidence = event.intent.name === 'general' ? '' : ` (${Math.round(event.intent.confidence * 100)}% confidence)`;
+        console.log(chalk.gray(`\n↳ ${event.intent.name} → ${event.handler}${confidence}`));
+        break;
+      }
+      case 'step:started':
+        console.log(chalk.cyan(`  ▶ ${event.label}`));
+        break;
+      case 'token':
+        if (!midLine) {
+          process.stdout.write('\n');
+          midLine = true;
+        }
+        process.stdout.write(event.text);
+        answerShown = true;
+        break;
+      case 'step:finished':
+        if (midLine) {
+          process.stdout.write('\n\n');
+          midLine = false;
+        }
+        console.log(
+          event.status === 'completed'
+            ? chalk.green(`  ✔ ${event.label}`) + chalk.gray(` ${event.durationMs}ms`)
+            : chalk.red(`  ✖ ${event.label}: ${event.error}`)
+        );
+        break;
+      case 'final':
+        response = event.response;
+        break;
+    }
+  }
+
+  return { response: response!, answerShown };
+}
+
 /**
  * Display workflow steps
  */
@@ -85,7 +182,9 @@ function displayWorkflow(response: L0Response): void {
 
   console.log(chalk.blue.bold('\n📋 Orchestration Workflow:'));
   response.workflow.forEach((step, index) => {
-    console.log(`  ${index + 1}. ${step}`);
+    const assignment = response.assignments?.[index];
+    const agent = assignment ? chalk.gray(` → ${assignment.agent} agent`) : '';
+    console.log(`  ${index + 1}. ${step}${agent}`);
   });
 }
 
@@ -101,6 +200,88 @@ function displayAgents(response: L0Response): void {
   });
 }
 
+/**
+ * Display the budget split, KPI targets and posting schedule of a planned campaign
+ */
+function displayCampaignPlan(response: L0Response): void {
+  const data = typeof response.data === 'object' ? response.data : undefined;
+  if (!data?.budgetSplit) return;
+
+  const split = data.budgetSplit as PlatformBudget[];
+  const formats = data.formats as PlatformFormats[];
+  const kpis = data.kpiTargets as KpiTarget[];
+  const schedule = data.schedule as ScheduledPost[];
+  const { currency } = data.totalBudget as SessionBudget;
+
+  console.log(
+    chalk.yellow.bold('\n💰 Budget Split') + chalk.gray(` (${data.recommendedBudget} over ${data.estimatedDuration}, ${data.startDate} → ${data.endDate})`)
+  );
+  printTable(
+    ['Platform', 'Budget', 'Share', 'Posts/week', 'Formats'],
+    split.map(({ platform, amount, share }) => {
+      const platformFormats = formats.find((f) => f.platform === platform);
+      return [
+        platform,
+        formatBudget({ amount, currency }),
+        `${Math.round(share * 100)}%`,
+        String(platformFormats?.postsPerWeek ?? '-'),
+        platformFormats?.formats.join(', ') || '-',
+      ];
+    })
+  );
+
+  console.log(chalk.yellow.bold('\n🎯 KPI Targets'));
+  kpis.forEach(({ metric, target, unit }) => {
+    console.log(`  • ${metric.replace(/_/g, ' ')}: ${unit === 'percent' ? `${target}%` : target.toLocaleString('en-US')}`);
+  });
+
+  const saved = data.saved ? `saved as ${data.campaignId}` : 'not saved';
+  console.log(chalk.yellow.bold('\n📅 Posting Schedule') + chalk.gray(` (${schedule.length} posts, ${saved})`));
+  const days = Array.from(new Set(schedule.map((post) => post.day)));
+  days.slice(0, SCHEDULE_PREVIEW_DAYS).forEach((day) => {
+    const posts = schedule.filter((post) => post.day === day);
+    console.log(`  ${chalk.cyan(posts[0].date)} ${chalk.gray(posts[0].phase.padEnd(10))} ${posts.map((p) => `${p.platform}: ${p.format}`).join(' · ')}`);
+  });
+  if (days.length > SCHEDULE_PREVIEW_DAYS) {
+    const more = days.length - SCHEDULE_PREVIEW_DAYS;
+    console.log(chalk.gray(`  … ${more} more posting day${more === 1 ? '' : 's'} (use --format json for the full schedule)`));
+  }
+}
+
+/**
+ * Display trending hashtags with volume and growth
+ */
+function displayTrends(response: L0Response): void {
+  const data = typeof response.data === 'object' ? response.data : undefined;
+  if (!Array.isArray(data?.trendingHashtags)) return;
+
+  type TrendRow = { hashtag: string; volume: string; growth: string; platforms: string[]; relevanceScore?: number; rationale?: string };
+  const trends = data.trendingHashtags as TrendRow[];
+  const filtered = (data.filteredTrends as FilteredTrend[] | undefined) || [];
+  const scored = data.brand !== undefined;
+  const brand = scored ? `, scored for ${data.brand}` : '';
+
+  console.log(chalk.yellow.bold('\n📈 Trending Hashtags') + chalk.gray(` (${data.analysisTime}, source: ${data.source}${brand})`));
+  if (trends.length > 0) {
+    printTable(
+      ['Hashtag', 'Volume', 'Growth', 'Platforms', ...(scored ? ['Relevance', 'Why'] : [])],
+      trends.map((t) => [
+        t.hashtag,
+        t.volume,
+        t.growth,
+        t.platforms.join(', '),
+        ...(scored ? [String(t.relevanceScore ?? '-'), t.rationale || ''] : []),
+      ])
+    );
+  }
+  if (filtered.length > 0) {
+    console.log(chalk.gray(`\n  Filtered out: ${filtered.map((f) => `${f.hashtag} (${f.reason})`).join('; ')}`));
+  }
+
+  console.log(chalk.yellow.bold('\n💡 Recommendations'));
+  (data.recommendations as string[]).forEach((recommendation) => console.log(`  • ${recommendation}`));
+}
+
 /**
  * Display data payload
  */
@@ -136,10 +317,107 @@ function displayDashboardUrl(response: L0Response): void {
   console.log(chalk.gray(`🔗 View in dashboard: https://dashboard.vortexai.com${response.dashboardUrl}`));
 }
 
+/**
+ * Display the session a response was recorded in
+ */
+export function displaySessionSummary(summary: L0SessionSummary): void {
+  const entities = formatEntities(summary.entities);
+  console.log(
+    chalk.gray(`💬 Session ${chalk.cyan(summary.id)} · turn ${summary.turns}`) + (entities ? chalk.gray(` · ${entities}`) : '')
+  );
+  console.log('');
+}
+
+/**
+ * Display one session's turns
+ */
+export function displaySession(session: Session): void {
+  console.log(chalk.magenta.bold(`\n💬 Session ${session.id}`));
+  console.log(chalk.gray('═'.repeat(SEPARATOR_LENGTH)));
+  console.log(`${chalk.bold('Started:')} ${new Date(session.createdAt).toLocaleString()}`);
+  console.log(`${chalk.bold('Entities:')} ${formatEntities(session.entities) || chalk.gray('none')}`);
+
+  if (session.turns.length === 0) {
+    console.log(chalk.gray('\nNo turns yet'));
+  }
+  session.turns.forEach((turn, index) => {
+    console.log(`\n${chalk.cyan(`${index + 1}.`)} ${turn.query}`);
+    if (turn.resolvedQuery) {
+      console.log(chalk.gray(`   read as: ${turn.resolvedQuery}`));
+    }
+    console.log(`   ${chalk.gray(`${turn.intent} →`)} ${turn.message}`);
+  });
+  console.log('');
+}
+
+/**
+ * Display the routing trace produced by `--explain` as tables
+ */
+export function displayExplanation(explain: L0RoutingExplanation): void {
+  console.log(chalk.magenta.bold('\n🧭 Routing explanation'));
+  console.log(chalk.gray('═'.repeat(SEPARATOR_LENGTH)));
+
+  console.log(chalk.bold('\nIntent rules'));
+  printTable(
+    ['Intent', 'Score', 'Matched', 'Missing'],
+    explain.rules.map((rule) => [rule.intent, String(rule.score), rule.matched.join(', ') || '-', rule.missing.join(', ') || '-'])
+  );
+
+  console.log(chalk.bold('\nPlugin triggers'));
+  printTable(
+    ['Plugin', 'Enabled', 'Priority', 'Score', 'Matched triggers'],
+    explain.plugins.map((plugin) => [
+      plugin.plugin,
+      plugin.enabled ? 'yes' : 'no',
+      String(plugin.priority),
+      String(Math.round(plugin.intentScore * 1000) / 1000),
+      plugin.triggers.filter((t) => t.matched).map((t) => t.trigger).join(', ') || '-',
+    ])
+  );
+
+  console.log(chalk.bold('\nCandidates') + chalk.gray(` (minimum score ${explain.minScore})`));
+  if (explain.candidates.length === 0) {
+    console.log(chalk.gray('  none'));
+  } else {
+    printTable(
+      ['Intent', 'Score', 'Confidence'],
+      explain.candidates.map((c) => [c.intent, String(Math.round(c.score * 1000) / 1000), `${Math.round(c.confidence * 100)}%`])
+    );
+  }
+
+  console.log(`\n${chalk.green.bold('Winner:')} ${explain.winner.intent} → ${chalk.cyan(explain.winner.handler)}`);
+  console.log(chalk.gray(explain.winner.reason));
+  console.log('');
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+/**
+ * Print rows as left-aligned columns sized to their widest cell
+ */
+function printTable(headers: string[], rows: string[][]): void {
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map((row) => row[i].length)));
+  const format = (cells: string[]) => '  ' + cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+  console.log(chalk.gray(format(headers)));
+  rows.forEach((row) => console.log(format(row)));
+}
+
+/**
+ * Summarize resolved entities on one line, e.g. `platforms: Instagram · budget: $5,000`
+ */
+function formatEntities(entities: SessionEntities): string {
+  return [
+    entities.platforms && `platforms: ${entities.platforms.join(', ')}`,
+    entities.budget && `budget: ${formatBudget(entities.budget)}`,
+    entities.product && `product: ${entities.product}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
 /**
  * Calculate optimal box width for content
  */
@@ -167,9 +445,17 @@ function copyToClipboard(content: string): void {
 interface QueryOptions {
   project?: string;
   format: 'text' | 'json' | 'workflow';
+  explain?: boolean;
+  run?: boolean;
+  stream: boolean;
+  session?: string;
   [key: string]: unknown;
 }
 
+interface SessionsOptions {
+  json?: boolean;
+}
+
 interface CodeOptions {
   language?: string;
   copy: boolean;
@@ -184,11 +470,73 @@ interface CampaignOptions {
   platforms?: string;
   budget?: string;
   duration?: string;
+  start?: string;
+  save?: boolean;
+  format: 'text' | 'json';
 }
 
 interface TrendsOptions {
   timeframe: string;
   location: string;
+  format: 'text' | 'json';
+}
+
+interface ServeMockOptions {
+  port: string;
+  host: string;
+}
+
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Port must be a whole number from 0 to 65535, got "${value}"`);
+  }
+  return port;
+}
+
+/**
+ * Display a plugin's config, with its schema when it declares one
+ *
+ * @param saved - Settings saved in the workspace config
+ */
+function displayPluginConfig(plugin: L0Plugin, saved: Record<string, unknown>): void {
+  const schema = plugin.configSchema || {};
+  const keys = Array.from(new Set([...Object.keys(schema), ...Object.keys(saved)]));
+
+  console.log(chalk.magenta.bold(`\n${VORTEX_EMOJI}  Config: ${plugin.metadata.name}`));
+  console.log(chalk.gray('═'.repeat(SEPARATOR_LENGTH)));
+  if (keys.length === 0) {
+    console.log(chalk.gray('\nNo settings. Try: vortex l0 plugins config <name> set key=value\n'));
+    return;
+  }
+
+  console.log('');
+  for (const key of keys) {
+    const field = schema[key];
+    const value = key in saved ? saved[key] : field?.default;
+    const shown = value === undefined ? chalk.gray('not set') : field?.secret ? '••••••••' : String(value);
+    const origin = value !== undefined && !(key in saved) ? chalk.gray(' (default)') : '';
+    const type = field ? chalk.gray(` ${field.type}${field.required ? ', required' : ''}`) : '';
+    console.log(`${chalk.bold(key)}${type}: ${shown}${origin}`);
+    if (field?.description) {
+      console.log(`  ${chalk.dim(field.description)}`);
+    }
+  }
+
+  try {
+    resolvePluginConfig(plugin, saved);
+  } catch (error) {
+    console.log(chalk.yellow(`\n⚠️  ${error instanceof Error ? error.message : String(error)}`));
+  }
+  console.log('');
+}
+
+/**
+ * Display a plugin that was just installed or linked
+ */
+function displayInstalledPlugin(action: string, { manifest, plugin }: LoadedPlugin): void {
+  console.log(chalk.green(`✅ ${action} plugin "${plugin.metadata.name}" v${plugin.metadata.version} (${manifest.name})`));
+  console.log(`  ${chalk.cyan('Triggers:')} ${plugin.triggers.map(describeTrigger).join(', ')}`);
 }
 
 // ============================================================================
@@ -228,19 +576,93 @@ export const l0Commands = (program: Command): void => {
     .description('Ask L0 to orchestrate any workflow')
     .option('-p, --project <name>', 'scope to specific project')
     .option('-f, --format <type>', 'output format (text, json, workflow)', 'text')
+    .option('--explain', 'show how the query was routed')
+    .option('--run', 'execute the returned workflow')
+    .option('--no-stream', 'wait for the complete response instead of showing progress')
+    .option('-s, --session <id>', 'continue a conversation, keeping earlier turns as context')
     .action(async (query: string, options: QueryOptions) => {
       try {
-        const response = await l0Orchestrator.query(query, options);
         if (options.format === 'json') {
-          console.log(JSON.stringify(response, null, 2));
-        } else {
-          displayL0Response(response);
+          const response = await l0Orchestrator.query(query, options);
+          const run = options.run && response.workflowDefinition
+            ? await l0Orchestrator.runWorkflow(response.workflowDefinition)
+            : undefined;
+          console.log(JSON.stringify(run ? { ...response, run } : response, null, 2));
+          return;
+        }
+
+        const { response, answerShown } = options.stream
+          ? await streamQuery(query, options)
+          : { response: await l0Orchestrator.query(query, options), answerShown: false };
+
+        displayL0Response(response, { answerShown });
+        if (response.session) {
+          displaySessionSummary(response.session);
+        }
+        if (response.explain) {
+          displayExplanation(response.explain);
+        }
+
+        if (options.run) {
+          const definition = response.workflowDefinition;
+          if (!definition) {
+            console.log(chalk.yellow('This response has no workflow to run'));
+            return;
+          }
+
+          const run = await l0Orchestrator.runWorkflow(definition, {
+            onEvent: (event) => displayWorkflowEvent(event, definition),
+          });
+          if (run.status !== 'completed') {
+            process.exitCode = 1;
+          }
         }
       } catch (error) {
         handleError('L0 Orchestration Error', error);
       }
     });
 
+  l0Cmd
+    .command('sessions [id]')
+    .description('List conversation sessions, or show one')
+    .option('--json', 'Output as JSON')
+    .action(async (id: string | undefined, options: SessionsOptions) => {
+      try {
+        if (id) {
+          const session = await l0Orchestrator.getSession(id);
+          if (!session) {
+            throw new Error(`Session "${id}" not found`);
+          }
+          if (options.json) {
+            console.log(JSON.stringify(session, null, 2));
+            return;
+          }
+          displaySession(session);
+          return;
+        }
+
+        const sessions = await l0Orchestrator.listSessions();
+        if (options.json) {
+          console.log(JSON.stringify(sessions, null, 2));
+          return;
+        }
+        if (sessions.length === 0) {
+          console.log(chalk.yellow('No sessions yet. Start one with: vortex l0 ask "<query>" --session <id>'));
+          return;
+        }
+
+        console.log(chalk.magenta.bold(`\n💬 Sessions`));
+        console.log(chalk.gray('═'.repeat(SEPARATOR_LENGTH)));
+        printTable(
+          ['Id', 'Turns', 'Last active', 'Last query'],
+          sessions.map((s) => [s.id, String(s.turns.length), new Date(s.updatedAt).toLocaleString(), s.lastTurn?.query || '-'])
+        );
+        console.log('');
+      } catch (error) {
+        handleError('Session lookup failed', error);
+      }
+    });
+
   l0Cmd
     .command('code <description>')
     .description('Get code snippets from L0 memory')
@@ -274,32 +696,73 @@ export const l0Commands = (program: Command): void => {
     .description('Orchestrate social media campaign')
     .option('-p, --platforms <list>', 'target platforms (comma-separated)')
     .option('-b, --budget <amount>', 'campaign budget')
-    .option('-d, --duration <days>', 'campaign duration')
+    .option('-d, --duration <days>', 'campaign duration in days')
+    .option('-s, --start <date>', 'first day of the campaign (YYYY-MM-DD, default: today)')
+    .option('--save', 'save the plan to the campaign store')
+    .option('-f, --format <type>', 'output format (text, json)', 'text')
     .action(async (objective: string, options: CampaignOptions) => {
       try {
-        const query = `social media campaign: ${objective}`;
-        const response = await l0Orchestrator.orchestrateCampaign(query);
+        const response = await l0Orchestrator.orchestrateCampaign(objective, {
+          ...extractEntities(objective),
+          ...(options.platforms && { platforms: parsePlatforms(options.platforms) }),
+          ...(options.budget && { budget: parseBudgetOption(options.budget) }),
+          ...(options.duration && { durationDays: parseDuration(options.duration) }),
+          ...(options.start && { startDate: parseDateOption(options.start) }),
+          ...(options.save && { save: true }),
+        });
+
+        if (options.format === 'json') {
+          console.log(JSON.stringify(response, null, 2));
+          return;
+        }
         displayL0Response(response);
       } catch (error) {
         handleError('Campaign orchestration failed', error);
       }
     });
 
-  l0Cmd
+  const trendsCmd = l0Cmd
     .command('trends [platform]')
     .description('Analyze trending topics and hashtags')
     .option('-t, --timeframe <period>', 'analysis timeframe (24h, 7d, 30d)', '24h')
-    .option('-l, --location <loc>', 'geographic location', 'global')
+    .option('-l, --location <loc>', 'geographic location, e.g. US', 'global')
+    .option('-f, --format <type>', 'output format (text, json)', 'text')
     .action(async (platform = 'all', options: TrendsOptions) => {
       try {
         const query = `analyze trends for ${platform} platform`;
-        const response = await l0Orchestrator.analyzeTrends(query);
+        const response = await l0Orchestrator.analyzeTrends(query, { platform, timeframe: options.timeframe, location: options.location });
+
+        if (options.format === 'json') {
+          console.log(JSON.stringify(response, null, 2));
+          return;
+        }
         displayL0Response(response);
       } catch (error) {
         handleError('Trend analysis failed', error);
       }
     });
 
+  trendsCmd
+    .command('serve-mock [file]')
+    .description('Serve trend snapshots over HTTP for VORTEX_TRENDS_SOURCE, from a CSV or JSON file or sample data')
+    .option('-p, --port <port>', 'port to listen on', String(MOCK_TREND_PORT))
+    .option('--host <host>', 'interface to listen on', '127.0.0.1')
+    .action((file: string | undefined, options: ServeMockOptions) => {
+      try {
+        const provider = file ? new FileTrendProvider({ path: file }) : new SampleTrendProvider();
+        const port = parsePort(options.port);
+        const server = createMockTrendServer(provider);
+        server.on('error', (error) => handleError('Mock trend server failed', error));
+        server.listen(port, options.host, () => {
+          const url = `http://${options.host}:${port}`;
+          console.log(chalk.green(`✅ Serving ${provider.name} trends at ${url}/trends`));
+          console.log(chalk.gray(`   Point L0 at it with VORTEX_TRENDS_SOURCE=${url}. Press Ctrl+C to stop.`));
+        });
+      } catch (error) {
+        handleError('Mock trend server failed', error);
+      }
+    });
+
   l0Cmd
     .command('help <topic>')
     .description('Get help and guidance from L0')
@@ -312,7 +775,15 @@ export const l0Commands = (program: Command): void => {
       }
     });
 
+  // Snippet library commands
+  snippetCommands(l0Cmd, knowledgeStore);
+  brandCommands(l0Cmd);
+
   // Plugin management commands
+  const pluginSources = new Map(
+    pluginLoadReport.loaded.map(({ plugin, source }) => [plugin.metadata.name, `${source.kind} (${source.spec})`])
+  );
+
   const pluginsCmd = l0Cmd
     .command('plugins')
     .description('Manage L0 plugins and extensions');
@@ -343,6 +814,10 @@ export const l0Commands = (program: Command): void => {
         console.log(`${status} ${chalk.bold(plugin.name)} ${chalk.gray(`v${plugin.version}`)}`);
         console.log(`  ${chalk.dim(plugin.description)}`);
         console.log(`  ${chalk.cyan('Triggers:')} ${plugin.triggers.join(', ')}`);
+        const source = pluginSources.get(plugin.name);
+        if (source) {
+          console.log(`  ${chalk.cyan('Source:')} ${source}`);
+        }
         console.log('');
       });
     });
@@ -358,7 +833,7 @@ export const l0Commands = (program: Command): void => {
         process.exit(1);
       }
 
-      const { metadata, triggers, priority } = plugin;
+      const { metadata, triggers } = plugin;
 
       console.log(chalk.magenta.bold(`\n${VORTEX_EMOJI}  Plugin: ${metadata.name}`));
       console.log(chalk.gray('═'.repeat(SEPARATOR_LENGTH)));
@@ -370,34 +845,193 @@ export const l0Commands = (program: Command): void => {
       if (metadata.keywords?.length) {
         console.log(`${chalk.bold('Keywords:')} ${metadata.keywords.join(', ')}`);
       }
-      console.log(`${chalk.bold('Priority:')} ${priority || 0}`);
-      console.log(`${chalk.bold('Triggers:')} ${triggers.join(', ')}`);
+      const priority = pluginManager.getPriority(name);
+      const override = priority !== (plugin.priority || 0) ? chalk.gray(` (default ${plugin.priority || 0})`) : '';
+      console.log(`${chalk.bold('Priority:')} ${priority}${override}`);
+      console.log(`${chalk.bold('Triggers:')} ${triggers.map(describeTrigger).join(', ')}`);
+      console.log(`${chalk.bold('Source:')} ${pluginSources.get(name) || 'built-in'}`);
       console.log('');
     });
 
   pluginsCmd
     .command('enable <name>')
     .description('Enable a plugin')
-    .action((name: string) => {
-      if (pluginManager.setEnabled(name, true)) {
-        console.log(chalk.green(`✅ Plugin "${name}" enabled`));
-      } else {
-        console.error(chalk.red(`Plugin "${name}" not found`));
+    .action(async (name: string) => {
+      try {
+        if (await pluginManager.enable(name)) {
+          await savePluginState();
+          console.log(chalk.green(`✅ Plugin "${name}" enabled`));
+        } else {
+          console.error(chalk.red(`Plugin "${name}" not found`));
+        }
+      } catch (error) {
+        handleError('Could not enable plugin', error);
       }
     });
 
   pluginsCmd
     .command('disable <name>')
     .description('Disable a plugin')
-    .action((name: string) => {
-      if (pluginManager.setEnabled(name, false)) {
-        console.log(chalk.yellow(`⏸️  Plugin "${name}" disabled`));
-      } else {
-        console.error(chalk.red(`Plugin "${name}" not found`));
+    .action(async (name: string) => {
+      try {
+        if (await pluginManager.disable(name)) {
+          await savePluginState();
+          console.log(chalk.yellow(`⏸️  Plugin "${name}" disabled`));
+        } else {
+          console.error(chalk.red(`Plugin "${name}" not found`));
+        }
+      } catch (error) {
+        handleError('Could not disable plugin', error);
+      }
+    });
+
+  pluginsCmd
+    .command('priority <name> <priority>')
+    .description('Override a plugin\'s priority; "default" restores its own')
+    .action(async (name: string, value: string) => {
+      try {
+        const priority = value === 'default' ? undefined : Number(value);
+        if (priority !== undefined && !Number.isFinite(priority)) {
+          throw new Error(`Priority must be a number or "default", got "${value}"`);
+        }
+
+        if (pluginManager.setPriority(name, priority)) {
+          await savePluginState();
+          console.log(chalk.green(`✅ Plugin "${name}" priority is now ${pluginManager.getPriority(name)}`));
+        } else {
+          console.error(chalk.red(`Plugin "${name}" not found`));
+        }
+      } catch (error) {
+        handleError('Could not set plugin priority', error);
+      }
+    });
+
+  pluginsCmd
+    .command('config <name> [action] [settings...]')
+    .description('Show a plugin\'s config, or change it: set key=value..., unset key...')
+    .option('--json', 'Output as JSON')
+    .action(async (name: string, action: string = 'show', settings: string[], options: { json?: boolean }) => {
+      try {
+        const plugin = pluginManager.get(name);
+        if (!plugin) {
+          throw new Error(`Plugin "${name}" not found`);
+        }
+
+        if (!['show', 'set', 'unset'].includes(action)) {
+          throw new Error(`Unknown action "${action}". Use show, set or unset`);
+        }
+
+        if (action !== 'show') {
+          if (settings.length === 0) {
+            throw new Error(`Nothing to ${action}. Try: vortex l0 plugins config ${name} set key=value`);
+          }
+
+          const next = pluginManager.getSettings(name);
+          if (action === 'set') {
+            for (const entry of settings) {
+              const separator = entry.indexOf('=');
+              if (separator <= 0) {
+                throw new Error(`Expected key=value, got "${entry}"`);
+              }
+              const key = entry.slice(0, separator);
+              next[key] = parsePluginConfigValue(plugin, key, entry.slice(separator + 1));
+            }
+          } else {
+            settings.forEach((key) => delete next[key]);
+          }
+
+          await pluginManager.configure(name, next);
+          await savePluginState();
+          console.log(chalk.green(`✅ Saved config for plugin "${name}"`));
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(pluginManager.getSettings(name), null, 2));
+        } else {
+          displayPluginConfig(plugin, pluginManager.getSettings(name));
+        }
+      } catch (error) {
+        handleError('Plugin config failed', error);
+      }
+    });
+
+  pluginsCmd
+    .command('health [name]')
+    .description('Run plugin health checks')
+    .option('--json', 'Output as JSON')
+    .action(async (name: string | undefined, options: { json?: boolean }) => {
+      try {
+        if (name && !pluginManager.has(name)) {
+          throw new Error(`Plugin "${name}" not found`);
+        }
+
+        const reports = await pluginManager.checkHealth(name);
+        if (options.json) {
+          console.log(JSON.stringify(reports, null, 2));
+          return;
+        }
+
+        console.log('');
+        for (const report of reports) {
+          const status = report.healthy ? chalk.green('●') : chalk.red('●');
+          const disabled = report.enabled ? '' : chalk.gray(' (disabled)');
+          console.log(`${status} ${chalk.bold(report.plugin)}${disabled} ${chalk.gray(report.message || '')}`);
+        }
+        console.log('');
+      } catch (error) {
+        handleError('Plugin health check failed', error);
+      }
+    });
+
+  pluginsCmd
+    .command('install <package>')
+    .description('Install a plugin package from npm into ~/.vortex/plugins')
+    .action(async (spec: string) => {
+      try {
+        console.log(chalk.gray(`Installing ${spec}...`));
+        displayInstalledPlugin('Installed', await installPlugin(spec));
+      } catch (error) {
+        handleError('Plugin install failed', error);
+      }
+    });
+
+  pluginsCmd
+    .command('link <path>')
+    .description('Link a local plugin directory into ~/.vortex/plugins for development')
+    .action(async (path: string) => {
+      try {
+        displayInstalledPlugin('Linked', await linkPlugin(path));
+      } catch (error) {
+        handleError('Plugin link failed', error);
+      }
+    });
+
+  pluginsCmd
+    .command('uninstall <name>')
+    .description('Remove an installed or linked plugin from ~/.vortex/plugins')
+    .action(async (name: string) => {
+      try {
+        await uninstallPlugin(name);
+        console.log(chalk.green(`✅ Plugin "${name}" removed`));
+      } catch (error) {
+        handleError('Plugin uninstall failed', error);
       }
     });
 };
 
+// ============================================================================
+// Plugin State
+// ============================================================================
+
+/**
+ * Write the plugin manager's state to the workspace config so it applies to later commands
+ */
+async function savePluginState(): Promise<void> {
+  const pluginState = pluginManager.getState();
+  // Undefined drops the section from the file once every plugin is back to its defaults
+  await writeWorkspaceConfig({ ...readWorkspaceConfig(), pluginState: Object.keys(pluginState).length > 0 ? pluginState : undefined });
+}
+
 // ============================================================================
 // Error Handling
 // ============================================================================
@@ -0,0 +1,76 @@
+import { normalizePlatform, parseBudget, type SessionBudget } from '../session.js';
+import { parseDateString } from '../dates.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ALL_PLATFORMS = 'all';
+
+// ============================================================================
+// Option Parsing
+// ============================================================================
+
+/**
+ * Split a comma-separated option value
+ */
+export function splitList(list: string): string[] {
+  return list.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a comma-separated platform list into canonical names
+ *
+ * @returns Undefined for `all` or an empty list, meaning the default platforms
+ * @throws Error naming the first unknown platform
+ */
+export function parsePlatforms(list: string): string[] | undefined {
+  const names = splitList(list);
+  if (names.length === 0 || names.some((name) => name.toLowerCase() === ALL_PLATFORMS)) {
+    return undefined;
+  }
+
+  return Array.from(
+    new Set(
+      names.map((name) => {
+        const platform = normalizePlatform(name);
+        if (!platform) {
+          throw new Error(`Unknown platform "${name}"`);
+        }
+        return platform;
+      })
+    )
+  );
+}
+
+/**
+ * @throws Error unless the value is a positive whole number of days
+ */
+export function parseDuration(days: string): number {
+  const value = Number(days);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`Duration must be a whole number of days, got "${days}"`);
+  }
+  return value;
+}
+
+/**
+ * @throws Error unless the value is a positive amount such as `5000`, `$5k` or `2500 EUR`
+ */
+export function parseBudgetOption(amount: string): SessionBudget {
+  const budget = parseBudget(amount);
+  if (!budget || !(budget.amount > 0)) {
+    throw new Error(`Budget must be an amount such as 5000, $5k or 2500 EUR, got "${amount}"`);
+  }
+  return budget;
+}
+
+/**
+ * @throws Error unless the value is a real `YYYY-MM-DD` date
+ */
+export function parseDateOption(date: string): string {
+  if (!parseDateString(date)) {
+    throw new Error(`Dates must look like 2026-11-02, got "${date}"`);
+  }
+  return date;
+}
@@ -0,0 +1,277 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import type { QueuedTask, QueuedTaskStatus, TaskQueue, TaskQueueEvent } from '../task-queue.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SEPARATOR_LENGTH = 55;
+const VORTEX_EMOJI = '🌪️';
+const QUEUE_STATUSES: QueuedTaskStatus[] = ['queued', 'running', 'completed', 'cancelled', 'dead'];
+
+const STATUS_COLORS: Record<QueuedTaskStatus, (text: string) => string> = {
+  queued: chalk.gray,
+  running: chalk.cyan,
+  completed: chalk.green,
+  cancelled: chalk.yellow,
+  dead: chalk.red,
+};
+
+// ============================================================================
+// Command Options Interfaces
+// ============================================================================
+
+interface AddOptions {
+  payload?: string;
+  priority: string;
+  maxAttempts?: string;
+}
+
+interface ListOptions {
+  status?: string;
+  json?: boolean;
+}
+
+interface ClearOptions {
+  dead?: boolean;
+}
+
+// ============================================================================
+// Display Functions
+// ============================================================================
+
+function displayTask(task: QueuedTask): void {
+  const agent = task.agent ? ` → ${task.agent}` : '';
+  console.log(`${chalk.bold(task.id)} ${STATUS_COLORS[task.status](task.status)} ${task.type}${chalk.gray(agent)}`);
+  console.log(`  ${chalk.dim(`priority ${task.priority} · attempt ${task.attempts}/${task.maxAttempts} · queued ${task.enqueuedAt}`)}`);
+  if (task.error) {
+    console.log(chalk.red(`  ${task.error}`));
+  }
+}
+
+function displayQueueEvent(event: TaskQueueEvent): void {
+  const { task } = event;
+  const label = `${task.type} ${chalk.gray(`(${task.id})`)}`;
+
+  switch (event.type) {
+    case 'task:started':
+      console.log(chalk.cyan(`  ▶ ${label}`) + chalk.gray(` → ${task.agent}, attempt ${task.attempts}/${task.maxAttempts}`));
+      break;
+    case 'task:completed':
+      console.log(chalk.green(`  ✔ ${label}`));
+      break;
+    case 'task:retrying':
+      console.log(chalk.yellow(`  ↻ ${label}: ${task.error}`) + chalk.gray(` retrying in ${event.delayMs}ms`));
+      break;
+    case 'task:dead':
+      console.log(chalk.red(`  ✖ ${label}: ${task.error}`) + chalk.gray(' moved to dead letters'));
+      break;
+    case 'task:cancelled':
+      console.log(chalk.yellow(`  ⏹ ${label} cancelled`));
+      break;
+  }
+}
+
+function parseStatus(value: string | undefined): QueuedTaskStatus | undefined {
+  if (value === undefined) return undefined;
+  if (!QUEUE_STATUSES.includes(value as QueuedTaskStatus)) {
+    throw new Error(`Unknown status "${value}". Use one of: ${QUEUE_STATUSES.join(', ')}`);
+  }
+  return value as QueuedTaskStatus;
+}
+
+function parsePayload(value: string | undefined): Record<string, unknown> {
+  if (!value) return {};
+  try {
+    const payload = JSON.parse(value);
+    if (payload && typeof payload === 'object' && !Array.isArray(payload)) {
+      return payload;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new Error('--payload must be a JSON object');
+}
+
+// ============================================================================
+// Command Registration
+// ============================================================================
+
+/**
+ * Register `queue` commands for queueing and processing agent tasks
+ *
+ * @param program - Commander.js program instance
+ * @param queue - Task queue backed by the workspace queue store
+ */
+export const queueCommands = (program: Command, queue: TaskQueue): void => {
+  const queueCmd = program
+    .command('queue')
+    .description('Queue agent tasks and work through them by priority');
+
+  queueCmd
+    .command('add <type>')
+    .description('Queue a task for the best-matching agent')
+    .option('-p, --payload <json>', 'task payload as a JSON object')
+    .option('--priority <number>', 'higher runs first', '0')
+    .option('--max-attempts <count>', 'attempts before the task is dead-lettered')
+    .action(async (type: string, options: AddOptions) => {
+      try {
+        await queue.restore();
+        const id = queue.queueTask({
+          type,
+          payload: parsePayload(options.payload),
+          priority: parseInt(options.priority, 10) || 0,
+          maxAttempts: options.maxAttempts ? parseInt(options.maxAttempts, 10) : undefined,
+        });
+        await queue.flush();
+        console.log(chalk.green(`✅ Queued ${type} task ${chalk.bold(id)}`));
+      } catch (error) {
+        handleError('Could not queue task', error);
+      }
+    });
+
+  queueCmd
+    .command('list')
+    .alias('ls')
+    .description('List tasks in priority order')
+    .option('-s, --status <status>', `filter by status (${QUEUE_STATUSES.join(', ')})`)
+    .option('--json', 'Output as JSON')
+    .action(async (options: ListOptions) => {
+      try {
+        await queue.restore();
+        const tasks = queue.list(parseStatus(options.status));
+
+        if (options.json) {
+          console.log(JSON.stringify(tasks, null, 2));
+          return;
+        }
+
+        console.log(chalk.magenta.bold(`\n${VORTEX_EMOJI}  Task Queue`));
+        console.log(chalk.gray('═'.repeat(SEPARATOR_LENGTH)));
+
+        if (tasks.length === 0) {
+          console.log(chalk.gray('\nNo tasks. Try: vortex queue add research --payload \'{"topic":"eco packaging"}\'\n'));
+          return;
+        }
+
+        console.log('');
+        tasks.forEach(displayTask);
+        console.log('');
+      } catch (error) {
+        handleError('Could not list tasks', error);
+      }
+    });
+
+  queueCmd
+    .command('process')
+    .description('Run queued tasks until none are left')
+    .action(async () => {
+      try {
+        await queue.restore();
+        console.log(chalk.magenta.bold(`\n⚙️  Processing ${queue.list('queued').length} queued task(s)`));
+        await queue.processQueue({ onEvent: displayQueueEvent });
+
+        const dead = queue.deadLetters().length;
+        console.log(chalk.bold('\nDone.') + (dead > 0 ? chalk.red(` ${dead} task(s) in dead letters`) : ''));
+        if (dead > 0) {
+          process.exitCode = 1;
+        }
+      } catch (error) {
+        handleError('Could not process queue', error);
+      }
+    });
+
+  queueCmd
+    .command('cancel <id>')
+    .description('Cancel a queued or running task')
+    .action(async (id: string) => {
+      try {
+        await queue.restore();
+        const task = queue.get(id);
+        if (!task) {
+          throw new Error(`Task "${id}" not found`);
+        }
+
+        if (queue.cancel(id)) {
+          await queue.flush();
+          console.log(chalk.yellow(`⏹️  Task ${id} cancelled`));
+        } else {
+          console.log(chalk.gray(`Task ${id} already ${task.status}; nothing to cancel`));
+        }
+      } catch (error) {
+        handleError('Could not cancel task', error);
+      }
+    });
+
+  queueCmd
+    .command('dead')
+    .description('List tasks that ran out of attempts or had no agent')
+    .option('--json', 'Output as JSON')
+    .action(async (options: { json?: boolean }) => {
+      try {
+        await queue.restore();
+        const tasks = queue.deadLetters();
+
+        if (options.json) {
+          console.log(JSON.stringify(tasks, null, 2));
+          return;
+        }
+
+        console.log(chalk.red.bold(`\n${VORTEX_EMOJI}  Dead Letters (${tasks.length})`));
+        console.log(chalk.gray('═'.repeat(SEPARATOR_LENGTH)));
+        console.log('');
+        tasks.forEach(displayTask);
+        if (tasks.length > 0) {
+          console.log(chalk.gray('\nRequeue with: vortex queue retry <id>'));
+        }
+        console.log('');
+      } catch (error) {
+        handleError('Could not list dead letters', error);
+      }
+    });
+
+  queueCmd
+    .command('retry <id>')
+    .description('Move a dead-lettered task back into the queue')
+    .action(async (id: string) => {
+      try {
+        await queue.restore();
+        if (!queue.retryDeadLetter(id)) {
+          throw new Error(`Task "${id}" is not in dead letters`);
+        }
+        await queue.flush();
+        console.log(chalk.green(`↻ Task ${id} queued again`));
+      } catch (error) {
+        handleError('Could not retry task', error);
+      }
+    });
+
+  queueCmd
+    .command('clear')
+    .description('Remove completed and cancelled tasks')
+    .option('--dead', 'also remove dead letters')
+    .action(async (options: ClearOptions) => {
+      try {
+        await queue.restore();
+        const statuses: QueuedTaskStatus[] = options.dead ? ['completed', 'cancelled', 'dead'] : ['completed', 'cancelled'];
+        const removed = queue.clear(statuses);
+        await queue.flush();
+        console.log(chalk.green(`🧹 Removed ${removed} task(s)`));
+      } catch (error) {
+        handleError('Could not clear queue', error);
+      }
+    });
+};
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+function handleError(context: string, error: unknown): void {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(chalk.red(`❌ ${context}:`), errorMessage);
+  process.exitCode = 1;
+}
+
+export default queueCommands;
@@ -0,0 +1,231 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import type { RunHistory, RunRecord } from '../run-history.js';
+import type { StepStatus, WorkflowDefinition, WorkflowEvent, WorkflowStatus } from '../workflow.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SEPARATOR_LENGTH = 55;
+const VORTEX_EMOJI = '🌪️';
+const DEFAULT_LIST_LIMIT = '20';
+
+const STATUS_COLORS: Record<WorkflowStatus | StepStatus, (text: string) => string> = {
+  pending: chalk.gray,
+  running: chalk.cyan,
+  completed: chalk.green,
+  failed: chalk.red,
+  skipped: chalk.yellow,
+  cancelled: chalk.yellow,
+};
+
+// ============================================================================
+// Command Options Interfaces
+// ============================================================================
+
+interface ListOptions {
+  status?: string;
+  limit: string;
+  json?: boolean;
+}
+
+// ============================================================================
+// Display Functions
+// ============================================================================
+
+/**
+ * Print a workflow progress event as a single line
+ */
+export function displayWorkflowEvent(event: WorkflowEvent, definition: WorkflowDefinition): void {
+  const label = (stepId: string) => definition.steps.find((s) => s.id === stepId)?.label || stepId;
+
+  switch (event.type) {
+    case 'workflow:started': {
+      const verb = event.resumedSteps ? 'Resuming' : 'Running';
+      console.log(chalk.magenta.bold(`\n⚙️  ${verb} ${definition.name}`) + chalk.gray(` (${event.runId})`));
+      event.resumedSteps?.forEach((stepId) => console.log(chalk.gray(`  ✔ ${label(stepId)} (already completed)`)));
+      break;
+    }
+    case 'step:started':
+      console.log(chalk.cyan(`  ▶ ${label(event.stepId)}`));
+      break;
+    case 'step:completed':
+      console.log(chalk.green(`  ✔ ${label(event.stepId)}`) + chalk.gray(` ${event.durationMs}ms`));
+      break;
+    case 'step:failed':
+      console.log(chalk.red(`  ✖ ${label(event.stepId)}: ${event.error}`));
+      break;
+    case 'step:skipped':
+      console.log(chalk.yellow(`  ⏭ ${label(event.stepId)}`) + chalk.gray(` ${event.reason}`));
+      break;
+    case 'workflow:finished':
+      console.log(STATUS_COLORS[event.status](chalk.bold(`\nWorkflow ${event.status}`)));
+      break;
+  }
+}
+
+function formatDuration(record: RunRecord): string {
+  const end = record.run.finishedAt ? Date.parse(record.run.finishedAt) : Date.parse(record.updatedAt);
+  const ms = end - Date.parse(record.run.startedAt);
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function countCompleted(record: RunRecord): string {
+  const states = Object.values(record.run.steps);
+  return `${states.filter((s) => s.status === 'completed').length}/${states.length}`;
+}
+
+function displayRun(record: RunRecord): void {
+  const { run, definition } = record;
+
+  console.log(chalk.magenta.bold(`\n⚙️  ${run.name}`) + chalk.gray(` (${run.id})`));
+  console.log(chalk.gray('═'.repeat(SEPARATOR_LENGTH)));
+  console.log(`${chalk.bold('Status:')} ${STATUS_COLORS[run.status](run.status)}`);
+  console.log(`${chalk.bold('Workflow:')} ${run.workflowId}`);
+  console.log(`${chalk.bold('Started:')} ${run.startedAt}`);
+  if (run.resumedAt) console.log(`${chalk.bold('Resumed:')} ${run.resumedAt}`);
+  if (run.finishedAt) console.log(`${chalk.bold('Finished:')} ${run.finishedAt}`);
+  console.log(`${chalk.bold('Inputs:')} ${JSON.stringify(run.inputs)}`);
+
+  console.log(chalk.bold('\nSteps'));
+  for (const step of definition.steps) {
+    const state = run.steps[step.id];
+    const timing = state.durationMs !== undefined ? chalk.gray(` ${state.durationMs}ms`) : '';
+    console.log(`  ${STATUS_COLORS[state.status](state.status.padEnd(9))} ${step.label}${timing}`);
+    if (state.error) {
+      console.log(chalk.red(`            ${state.error}`));
+    }
+    if (state.outputs && Object.keys(state.outputs).length > 0) {
+      console.log(chalk.dim(`            outputs: ${Object.keys(state.outputs).join(', ')}`));
+    }
+  }
+  console.log('');
+}
+
+// ============================================================================
+// Command Registration
+// ============================================================================
+
+/**
+ * Register `runs` commands for inspecting and controlling workflow runs
+ *
+ * @param program - Commander.js program instance
+ * @param history - Run history backed by the workspace run store
+ */
+export const runsCommands = (program: Command, history: RunHistory): void => {
+  const runsCmd = program
+    .command('runs')
+    .description('Inspect, resume and cancel workflow runs');
+
+  runsCmd
+    .command('list')
+    .alias('ls')
+    .description('List recent workflow runs')
+    .option('-s, --status <status>', 'filter by status (running, completed, failed, cancelled)')
+    .option('-n, --limit <count>', 'maximum runs to show', DEFAULT_LIST_LIMIT)
+    .option('--json', 'Output as JSON')
+    .action(async (options: ListOptions) => {
+      try {
+        const records = (await history.list())
+          .filter((r) => !options.status || r.run.status === options.status)
+          .slice(0, parseInt(options.limit, 10) || undefined);
+
+        if (options.json) {
+          console.log(JSON.stringify(records.map((r) => r.run), null, 2));
+          return;
+        }
+
+        console.log(chalk.magenta.bold(`\n${VORTEX_EMOJI}  Workflow Runs`));
+        console.log(chalk.gray('═'.repeat(SEPARATOR_LENGTH)));
+
+        if (records.length === 0) {
+          console.log(chalk.gray('\nNo runs recorded yet. Try: vortex l0 ask "create campaign" --run\n'));
+          return;
+        }
+
+        console.log('');
+        records.forEach((r) => {
+          console.log(`${chalk.bold(r.run.id)} ${STATUS_COLORS[r.run.status](r.run.status)} ${r.run.name}`);
+          console.log(`  ${chalk.dim(`${countCompleted(r)} steps · ${formatDuration(r)} · started ${r.run.startedAt}`)}`);
+        });
+        console.log('');
+      } catch (error) {
+        handleError('Could not list runs', error);
+      }
+    });
+
+  runsCmd
+    .command('show <id>')
+    .description('Show a run with per-step status, timings and errors')
+    .option('--json', 'Output as JSON')
+    .action(async (id: string, options: { json?: boolean }) => {
+      try {
+        const record = await history.get(id);
+        if (!record) {
+          throw new Error(`Run "${id}" not found`);
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(record, null, 2));
+        } else {
+          displayRun(record);
+        }
+      } catch (error) {
+        handleError('Could not show run', error);
+      }
+    });
+
+  runsCmd
+    .command('resume <id>')
+    .description('Continue a run from its last completed step')
+    .action(async (id: string) => {
+      try {
+        const record = await history.get(id);
+        if (!record) {
+          throw new Error(`Run "${id}" not found`);
+        }
+
+        const run = await history.resume(id, {
+          onEvent: (event) => displayWorkflowEvent(event, record.definition),
+        });
+        if (run.status !== 'completed') {
+          process.exitCode = 1;
+        }
+      } catch (error) {
+        handleError('Could not resume run', error);
+      }
+    });
+
+  runsCmd
+    .command('cancel <id>')
+    .description('Cancel a pending or running run')
+    .action(async (id: string) => {
+      try {
+        const record = await history.cancel(id);
+        if (!record) {
+          throw new Error(`Run "${id}" not found`);
+        }
+
+        if (record.run.status === 'cancelled') {
+          console.log(chalk.yellow(`⏹️  Run ${id} cancelled`));
+        } else {
+          console.log(chalk.gray(`Run ${id} already ${record.run.status}; nothing to cancel`));
+        }
+      } catch (error) {
+        handleError('Could not cancel run', error);
+      }
+    });
+};
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+function handleError(context: string, error: unknown): void {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(chalk.red(`❌ ${context}:`), errorMessage);
+  process.exitCode = 1;
+}
+
+export default runsCommands;
@@ -0,0 +1,135 @@
+/**
+ * Shared CLI runtime
+ *
+ * Orchestrator and stores used by every command group, backed by the workspace
+ * @module commands/runtime
+ */
+
+import chalk from 'chalk';
+import { L0Orchestrator } from '../orchestrator.js';
+import { createPluginManager, parsePluginState, type PluginState } from '../plugins.js';
+import { FIXTURE_KNOWLEDGE } from '../knowledge-fixtures.js';
+import { JsonFileKnowledgeStore } from '../node/json-file-store.js';
+import { JsonlRunStore } from '../node/jsonl-run-store.js';
+import { JsonFileTaskQueueStore } from '../node/json-file-queue-store.js';
+import { JsonFileSessionStore } from '../node/json-file-session-store.js';
+import { JsonFileCalendarStore } from '../node/json-file-calendar-store.js';
+import { FileTrendProvider } from '../node/file-trend-provider.js';
+import { loadPlugins, type PluginLoadReport } from '../node/plugin-loader.js';
+import { getConfigPath, readWorkspaceConfig, resolveLLMConfig, resolveTrendSource } from '../node/workspace-config.js';
+import { createLLMProvider, type LLMProvider } from '../llm.js';
+import { HttpTrendProvider, type TrendProvider } from '../trends.js';
+import { parseBrandProfile, type BrandProfile } from '../brand.js';
+
+/**
+ * Build the configured LLM provider
+ *
+ * A broken config should not take down commands that never call a model,
+ * so problems are reported and the CLI carries on without a provider.
+ */
+function loadLLMProvider(): LLMProvider | undefined {
+  try {
+    const config = resolveLLMConfig(readWorkspaceConfig());
+    return config ? createLLMProvider(config) : undefined;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(chalk.yellow(`⚠️  LLM provider disabled: ${message}`));
+    return undefined;
+  }
+}
+
+/**
+ * Build the trend provider from `trends.source` or `VORTEX_TRENDS_SOURCE`
+ *
+ * URLs are fetched over HTTP and anything else is read as a CSV or JSON
+ * file. Without a source, trends come from sample data.
+ */
+function loadTrendProvider(): TrendProvider | undefined {
+  try {
+    const source = resolveTrendSource(readWorkspaceConfig());
+    if (!source) return undefined;
+    return /^https?:\/\//i.test(source) ? new HttpTrendProvider({ baseUrl: source }) : new FileTrendProvider({ path: source });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(chalk.yellow(`⚠️  Trend source disabled: ${message}`));
+    return undefined;
+  }
+}
+
+/**
+ * Read the brand profile trends are scored against
+ */
+function loadBrandProfile(): BrandProfile | undefined {
+  try {
+    const { brand } = readWorkspaceConfig();
+    return brand === undefined ? undefined : parseBrandProfile(brand, `brand in ${getConfigPath()}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(chalk.yellow(`⚠️  Brand profile ignored: ${message}`));
+    return undefined;
+  }
+}
+
+/**
+ * Read saved plugin state: enabled flags, priority overrides and settings
+ */
+function loadPluginState(): Record<string, PluginState> | undefined {
+  try {
+    const { pluginState } = readWorkspaceConfig();
+    return pluginState === undefined ? undefined : parsePluginState(pluginState, `pluginState in ${getConfigPath()}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(chalk.yellow(`⚠️  Plugin state ignored: ${message}`));
+    return undefined;
+  }
+}
+
+/**
+ * Register third-party plugins from the config, `node_modules` and `~/.vortex/plugins`
+ *
+ * Plugins that fail to load are reported and skipped.
+ */
+async function loadWorkspacePlugins(): Promise<PluginLoadReport> {
+  try {
+    const report = await loadPlugins(pluginManager, { config: readWorkspaceConfig() });
+    for (const { source, error } of report.failed) {
+      console.error(chalk.yellow(`⚠️  Plugin ${source.spec} skipped: ${error}`));
+    }
+    return report;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(chalk.yellow(`⚠️  Plugins not loaded: ${message}`));
+    return { loaded: [], failed: [] };
+  }
+}
+
+export const llmProvider = loadLLMProvider();
+
+export const trendProvider = loadTrendProvider();
+
+export const brandProfile = loadBrandProfile();
+
+export const pluginManager = createPluginManager({ state: loadPluginState() });
+
+export const pluginLoadReport = await loadWorkspacePlugins();
+
+export const knowledgeStore = new JsonFileKnowledgeStore({ seed: FIXTURE_KNOWLEDGE });
+
+export const runStore = new JsonlRunStore();
+
+export const queueStore = new JsonFileTaskQueueStore();
+
+export const sessionStore = new JsonFileSessionStore();
+
+export const calendarStore = new JsonFileCalendarStore();
+
+export const l0Orchestrator = new L0Orchestrator({
+  plugins: pluginManager,
+  store: knowledgeStore,
+  runStore,
+  queue: { store: queueStore },
+  llm: llmProvider,
+  sessions: sessionStore,
+  trends: trendProvider,
+  brand: brandProfile,
+});
@@ -0,0 +1,268 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+import type { CodeSnippet, KnowledgeStore } from '../knowledge-store.js';
+import { createSnippet, formatLastUsed, inferTags, markSnippetUsed } from '../snippets.js';
+import { splitList } from './options.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SEPARATOR_LENGTH = 55;
+const VORTEX_EMOJI = '🌪️';
+
+// ============================================================================
+// Command Options Interfaces
+// ============================================================================
+
+interface SnippetMetadataOptions {
+  title?: string;
+  language?: string;
+  tags?: string;
+  project?: string;
+}
+
+interface AddOptions extends SnippetMetadataOptions {
+  id?: string;
+  force?: boolean;
+}
+
+interface EditOptions extends SnippetMetadataOptions {
+  file?: string;
+  stdin?: boolean;
+}
+
+interface ListOptions {
+  project?: string;
+  language?: string;
+  json?: boolean;
+}
+
+// ============================================================================
+// Input Helpers
+// ============================================================================
+
+/**
+ * Read all of stdin as UTF-8 text
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Read snippet content from a file path, or from stdin when no path is given
+ */
+async function readSnippetContent(file?: string): Promise<string> {
+  if (file) {
+    return readFile(file, 'utf8');
+  }
+
+  if (process.stdin.isTTY) {
+    throw new Error('Provide a file path or pipe the snippet on stdin');
+  }
+  return readStdin();
+}
+
+function parseTags(tags?: string): string[] | undefined {
+  if (!tags) return undefined;
+  return splitList(tags.toLowerCase());
+}
+
+// ============================================================================
+// Display Functions
+// ============================================================================
+
+function displaySnippet(snippet: CodeSnippet): void {
+  console.log(chalk.magenta.bold(`\n📝 ${snippet.title}`) + chalk.gray(` (${snippet.id})`));
+  console.log(chalk.gray(`Language: ${snippet.language} | Project: ${snippet.project} | Last used: ${formatLastUsed(snippet.lastUsed)}`));
+  if (snippet.tags.length > 0) {
+    console.log(chalk.cyan(`Tags: ${snippet.tags.join(', ')}`));
+  }
+  console.log('');
+  console.log(snippet.content);
+  console.log('');
+}
+
+// ============================================================================
+// Command Registration
+// ============================================================================
+
+/**
+ * Register `snippet` commands for managing the local snippet library
+ *
+ * @param parent - Command to attach the `snippet` group to
+ * @param store - Knowledge store snippets are read from and written to
+ */
+export const snippetCommands = (parent: Command, store: KnowledgeStore): void => {
+  const snippetCmd = parent
+    .command('snippet')
+    .alias('snippets')
+    .description('Manage code snippets in your local library');
+
+  snippetCmd
+    .command('add [file]')
+    .description('Add a snippet from a file or stdin')
+    .option('-t, --title <title>', 'snippet title (default: derived from file name or first line)')
+    .option('-l, --language <lang>', 'language (default: detected)')
+    .option('--tags <list>', 'comma-separated tags (default: inferred)')
+    .option('-p, --project <name>', 'project name (default: current directory)')
+    .option('--id <id>', 'explicit snippet id')
+    .option('--force', 'replace the snippet that already has this id')
+    .action(async (file: string | undefined, options: AddOptions) => {
+      try {
+        const content = await readSnippetContent(file);
+        if (!content.trim()) {
+          throw new Error('Snippet content is empty');
+        }
+
+        const existing = await store.listSnippets();
+        if (options.id && !options.force && existing.some((s) => s.id === options.id)) {
+          throw new Error(`Snippet "${options.id}" already exists. Use --force to replace it`);
+        }
+        const snippet = createSnippet(
+          {
+            content: content.replace(/\s+$/, ''),
+            filename: file,
+            title: options.title,
+            language: options.language,
+            tags: parseTags(options.tags),
+            project: options.project || basename(process.cwd()),
+            id: options.id,
+          },
+          existing.map((s) => s.id)
+        );
+
+        await store.saveSnippet(snippet);
+        console.log(chalk.green(`✅ Saved snippet "${snippet.title}" as ${chalk.bold(snippet.id)}`));
+        console.log(chalk.gray(`Language: ${snippet.language} | Tags: ${snippet.tags.join(', ') || 'none'}`));
+      } catch (error) {
+        handleError('Could not add snippet', error);
+      }
+    });
+
+  snippetCmd
+    .command('edit <id>')
+    .description('Update snippet metadata or content')
+    .option('-t, --title <title>', 'new title')
+    .option('-l, --language <lang>', 'new language')
+    .option('--tags <list>', 'replace tags (comma-separated)')
+    .option('-p, --project <name>', 'new project name')
+    .option('-f, --file <path>', 'replace content with the contents of a file')
+    .option('--stdin', 'replace content with stdin')
+    .action(async (id: string, options: EditOptions) => {
+      try {
+        const snippet = await store.getSnippet(id);
+        if (!snippet) {
+          throw new Error(`Snippet "${id}" not found`);
+        }
+
+        const content = options.file || options.stdin ? await readSnippetContent(options.file) : snippet.content;
+        const title = options.title || snippet.title;
+        const language = options.language || snippet.language;
+
+        const updated: CodeSnippet = {
+          ...snippet,
+          title,
+          language,
+          content: content.replace(/\s+$/, ''),
+          project: options.project || snippet.project,
+          tags: parseTags(options.tags) || (options.title ? inferTags(title, language) : snippet.tags),
+        };
+
+        await store.saveSnippet(updated);
+        console.log(chalk.green(`✅ Updated snippet ${chalk.bold(id)}`));
+      } catch (error) {
+        handleError('Could not edit snippet', error);
+      }
+    });
+
+  snippetCmd
+    .command('rm <id>')
+    .alias('remove')
+    .description('Delete a snippet')
+    .action(async (id: string) => {
+      try {
+        if (await store.deleteSnippet(id)) {
+          console.log(chalk.yellow(`🗑️  Deleted snippet ${id}`));
+        } else {
+          console.error(chalk.red(`Snippet "${id}" not found`));
+          process.exitCode = 1;
+        }
+      } catch (error) {
+        handleError('Could not delete snippet', error);
+      }
+    });
+
+  snippetCmd
+    .command('list')
+    .alias('ls')
+    .description('List snippets in the library')
+    .option('-p, --project <name>', 'filter by project')
+    .option('-l, --language <lang>', 'filter by language')
+    .option('--json', 'Output as JSON')
+    .action(async (options: ListOptions) => {
+      try {
+        const snippets = (await store.listSnippets())
+          .filter((s) => !options.project || s.project === options.project)
+          .filter((s) => !options.language || s.language === options.language)
+          .sort((a, b) => Date.parse(b.lastUsed) - Date.parse(a.lastUsed));
+
+        if (options.json) {
+          console.log(JSON.stringify(snippets, null, 2));
+          return;
+        }
+
+        console.log(chalk.magenta.bold(`\n${VORTEX_EMOJI}  Snippet Library`));
+        console.log(chalk.gray('═'.repeat(SEPARATOR_LENGTH)));
+        console.log(`\n📦 ${chalk.bold(`${snippets.length} snippets`)}\n`);
+
+        snippets.forEach((s) => {
+          console.log(`${chalk.bold(s.id)} ${chalk.gray(`[${s.language}]`)} ${s.title}`);
+          console.log(`  ${chalk.dim(`${s.project} · used ${formatLastUsed(s.lastUsed)}`)}`);
+        });
+        console.log('');
+      } catch (error) {
+        handleError('Could not list snippets', error);
+      }
+    });
+
+  snippetCmd
+    .command('show <id>')
+    .description('Show a snippet')
+    .option('--json', 'Output as JSON')
+    .action(async (id: string, options: { json?: boolean }) => {
+      try {
+        const snippet = await store.getSnippet(id);
+        if (!snippet) {
+          throw new Error(`Snippet "${id}" not found`);
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(snippet, null, 2));
+        } else {
+          displaySnippet(snippet);
+        }
+        await markSnippetUsed(store, snippet);
+      } catch (error) {
+        handleError('Could not show snippet', error);
+      }
+    });
+};
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+function handleError(context: string, error: unknown): void {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(chalk.red(`❌ ${context}:`), errorMessage);
+  process.exitCode = 1;
+}
+
+export default snippetCommands;
@@ -0,0 +1,48 @@
+/**
+ * VortexAI L0 Dates
+ *
+ * Calendar-day helpers shared by campaign plans, content calendars and the CLI.
+ * Days are UTC midnights written as `YYYY-MM-DD`.
+ * @module dates
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Day of a date as `YYYY-MM-DD`
+ */
+export function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Read a `YYYY-MM-DD` day
+ *
+ * @returns UTC midnight of the day, or undefined unless the text is a real date
+ */
+export function parseDateString(text: string): Date | undefined {
+  const match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = match && new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date && toDateString(date) === text ? date : undefined;
+}
+
+/**
+ * First day of a plan, from a `YYYY-MM-DD` string or the local day of a `Date`
+ *
+ * @param start - Start day (default: today)
+ * @throws Error unless the string is a real `YYYY-MM-DD` date
+ */
+export function parseStartDate(start: string | Date | undefined): Date {
+  if (start instanceof Date) {
+    return new Date(Date.UTC(start.getFullYear(), start.getMonth(), start.getDate()));
+  }
+  if (start === undefined) {
+    return parseStartDate(new Date());
+  }
+
+  const date = parseDateString(start);
+  if (!date) {
+    throw new Error(`Invalid start date "${start}": use YYYY-MM-DD`);
+  }
+  return date;
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DECOMPOSITION_SCHEMA,
+  criticalPathMinutes,
+  decomposeTask,
+  decompositionToWorkflow,
+  formatEffort,
+  parseDecomposition,
+} from './decomposition.js';
+import { MockLLMProvider } from './llm.js';
+import { L0Orchestrator } from './orchestrator.js';
+import { createPluginManager } from './plugins.js';
+
+const plan = {
+  summary: 'Community Manager Onboarding',
+  complexity: 'Medium',
+  subtasks: [
+    { id: 'audit-docs', title: 'Audit existing onboarding docs', role: 'research', dependencies: [], effortMinutes: 30 },
+    { id: 'tone-guide', title: 'Draft a brand tone guide', role: 'Content', dependencies: ['audit-docs'], effortMinutes: 60 },
+    { id: 'metrics', title: 'Define 30-day success metrics', role: 'analytics', dependencies: ['audit-docs'], effortMinutes: 20 },
+    { id: 'review', title: 'Review the onboarding pack', role: 'review', dependencies: ['tone-guide', 'metrics'], effortMinutes: 15 },
+  ],
+};
+
+describe('parseDecomposition', () => {
+  it('should accept a valid plan, including one wrapped in a code fence', () => {
+    const result = parseDecomposition('```json\n' + JSON.stringify(plan) + '\n```');
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.decomposition.summary).toBe('Community Manager Onboarding');
+    expect(result.decomposition.subtasks[1]).toEqual({
+      id: 'tone-guide',
+      title: 'Draft a brand tone guide',
+      role: 'content',
+      dependencies: ['audit-docs'],
+      effortMinutes: 60,
+    });
+  });
+
+  it.each([
+    ['not json', 'not valid JSON'],
+    ['{}', 'no subtasks'],
+    [JSON.stringify({ subtasks: [{ id: 'Bad Id', title: 't', role: 'r', dependencies: [], effortMinutes: 5 }] }), 'invalid id'],
+    [JSON.stringify({ subtasks: [{ id: 'a', title: 't', role: 'r', dependencies: [], effortMinutes: 0 }] }), 'invalid effort'],
+    [JSON.stringify({ subtasks: [{ id: 'a', title: 't', role: 'r', dependencies: ['ghost'], effortMinutes: 5 }] }), 'unknown step "ghost"'],
+    [
+      JSON.stringify({
+        subtasks: [
+          { id: 'a', title: 't', role: 'r', dependencies: ['b'], effortMinutes: 5 },
+          { id: 'b', title: 't', role: 'r', dependencies: ['a'], effortMinutes: 5 },
+        ],
+      }),
+      'cycle',
+    ],
+  ])('should reject %s', (content, error) => {
+    const result = parseDecomposition(content);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toContain(error);
+  });
+
+  it('should derive complexity from the critical path when missing', () => {
+    const result = parseDecomposition(JSON.stringify({ ...plan, complexity: undefined }));
+    expect(result.ok && result.decomposition.complexity).toBe('Medium');
+  });
+});
+
+describe('decomposition helpers', () => {
+  it('should measure the longest dependency chain and format effort', () => {
+    const result = parseDecomposition(JSON.stringify(plan));
+    if (!result.ok) throw new Error(result.error);
+
+    expect(criticalPathMinutes(result.decomposition.subtasks)).toBe(105);
+    expect([formatEffort(45), formatEffort(60), formatEffort(105)]).toEqual(['45 minutes', '1 hour', '2 hours']);
+  });
+
+  it('should turn subtasks into a workflow that passes results downstream', () => {
+    const result = parseDecomposition(JSON.stringify(plan));
+    if (!result.ok) throw new Error(result.error);
+
+    const workflow = decompositionToWorkflow(result.decomposition, 'onboard community managers');
+    expect(workflow.inputs).toEqual({ request: 'onboard community managers' });
+    expect(workflow.steps[3]).toMatchObject({
+      id: 'review',
+      handler: 'review',
+      dependencies: ['tone-guide', 'metrics'],
+      inputs: { request: '{{input.request}}', 'tone-guide': '{{tone-guide.result}}', metrics: '{{metrics.result}}' },
+    });
+  });
+
+  it('should request structured output listing the available roles', async () => {
+    const llm = new MockLLMProvider([{ responseFormat: 'json', content: JSON.stringify(plan) }]);
+    const result = await decomposeTask(llm, 'onboard community managers', { roles: ['research', 'content'] });
+
+    expect(result.ok).toBe(true);
+    expect(llm.requests[0]).toMatchObject({ responseFormat: 'json', responseSchema: DECOMPOSITION_SCHEMA });
+    expect(llm.requests[0].messages[0].content).toContain('Available roles: research, content.');
+  });
+});
+
+describe('L0Orchestrator general decomposition', () => {
+  it('should build a workflow tailored to the request', async () => {
+    const llm = new MockLLMProvider([{ match: 'onboard', responseFormat: 'json', content: JSON.stringify(plan) }]);
+    const orchestrator = new L0Orchestrator({ plugins: createPluginManager(true), llm });
+
+    const response = await orchestrator.query('onboard new community managers');
+    expect(response.message).toContain('Community Manager Onboarding');
+    expect(response.workflow).toEqual(plan.subtasks.map((t) => t.title));
+    expect(response.data).toMatchObject({ complexity: 'Medium', estimatedTime: '2 hours', totalEffort: '2 hours', planner: 'model' });
+    expect(response.assignments?.map((a) => a.agent)).toEqual(['research', 'platform', 'analytics', 'coordinator']);
+    expect(response.agents).toContain('Analytics Agent: Define 30-day success metrics');
+
+    const run = await orchestrator.runWorkflow(response.workflowDefinition!);
+    expect(run.status).toBe('completed');
+  });
+
+  it('should fall back to the template when the plan is invalid', async () => {
+    const llm = new MockLLMProvider([{ responseFormat: 'json', content: '{"subtasks": [' }]);
+    const response = await new L0Orchestrator({ plugins: createPluginManager(true), llm }).query('onboard new community managers');
+
+    expect(response.workflowDefinition?.steps.map((s) => s.id)).toEqual(['analyze', 'delegate', 'execute', 'aggregate', 'quality']);
+    expect(response.data).toMatchObject({ planner: 'template', plannerError: 'Reply is not valid JSON', complexity: 'Medium' });
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * VortexAI L0 Task Decomposition
+ *
+ * Breaks a free-form request into dependent subtasks with a chat model and turns them into a workflow
+ * @module decomposition
+ */
+
+import type { LLMMessage, LLMProvider, LLMResponseSchema } from './llm.js';
+import { defineWorkflow, type WorkflowDefinition } from './workflow.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type TaskComplexity = 'Low' | 'Medium' | 'High';
+
+export interface DecomposedSubtask {
+  /** Short slug, unique within the decomposition; becomes the workflow step id */
+  id: string;
+  title: string;
+  description?: string;
+  /** Agent role, used as the workflow step handler and agent task type */
+  role: string;
+  /** Ids of subtasks that must finish first */
+  dependencies: string[];
+  effortMinutes: number;
+}
+
+export interface TaskDecomposition {
+  summary: string;
+  complexity: TaskComplexity;
+  subtasks: DecomposedSubtask[];
+}
+
+export type DecompositionResult =
+  | { ok: true; decomposition: TaskDecomposition }
+  | { ok: false; error: string };
+
+export interface DecomposeOptions {
+  /** Roles the model may assign; listed in the prompt and schema */
+  roles?: string[];
+  /** Earlier conversation turns, placed before the request */
+  history?: LLMMessage[];
+  signal?: AbortSignal;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_SUBTASKS = 12;
+const COMPLEXITIES: TaskComplexity[] = ['Low', 'Medium', 'High'];
+const STEP_ID_PATTERN = /^[a-z][a-z0-9-]*$/;
+// Critical-path thresholds used when the model leaves complexity out
+const LOW_COMPLEXITY_MINUTES = 60;
+const HIGH_COMPLEXITY_MINUTES = 240;
+
+/**
+ * Structured-output schema the model's plan must follow
+ */
+export const DECOMPOSITION_SCHEMA: LLMResponseSchema = {
+  name: 'task_decomposition',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['summary', 'complexity', 'subtasks'],
+    properties: {
+      summary: { type: 'string', description: 'One-line name for the overall plan' },
+      complexity: { type: 'string', enum: COMPLEXITIES },
+      subtasks: {
+        type: 'array',
+        minItems: 1,
+        maxItems: MAX_SUBTASKS,
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['id', 'title', 'role', 'dependencies', 'effortMinutes'],
+          properties: {
+            id: { type: 'string', pattern: STEP_ID_PATTERN.source },
+            title: { type: 'string' },
+            description: { type: 'string' },
+            role: { type: 'string' },
+            dependencies: { type: 'array', items: { type: 'string' } },
+            effortMinutes: { type: 'integer', minimum: 1 },
+          },
+        },
+      },
+    },
+  },
+};
+
+const SYSTEM_PROMPT = [
+  'You plan work for VortexAI L0, which delegates subtasks to specialist agents.',
+  'Break the request into concrete subtasks. Give each a short kebab-case id, a title, the agent role best suited to it,',
+  'the ids of subtasks it depends on, and an effort estimate in minutes.',
+  'Subtasks without a dependency between them run in parallel, so only list real dependencies.',
+].join(' ');
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Length of the longest dependency chain, weighted by effort
+ */
+export function criticalPathMinutes(subtasks: DecomposedSubtask[]): number {
+  const byId = new Map(subtasks.map((t) => [t.id, t]));
+  const finish = new Map<string, number>();
+
+  const finishTime = (task: DecomposedSubtask): number => {
+    if (!finish.has(task.id)) {
+      const start = Math.max(0, ...task.dependencies.map((id) => finishTime(byId.get(id)!)));
+      finish.set(task.id, start + task.effortMinutes);
+    }
+    return finish.get(task.id)!;
+  };
+
+  return Math.max(0, ...subtasks.map(finishTime));
+}
+
+/**
+ * Human-readable duration, e.g. `45 minutes` or `2.5 hours`
+ */
+export function formatEffort(minutes: number): string {
+  if (minutes < 60) return `${minutes} minutes`;
+  const hours = Math.round((minutes / 60) * 2) / 2;
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+}
+
+/**
+ * Validate a model reply against {@link DECOMPOSITION_SCHEMA}
+ *
+ * Also rejects dependencies on unknown subtasks and dependency cycles, which
+ * a schema cannot express.
+ */
+export function parseDecomposition(content: string): DecompositionResult {
+  let raw: unknown;
+  try {
+    // Tolerate replies wrapped in a Markdown code fence
+    raw = JSON.parse(content.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    return { ok: false, error: 'Reply is not valid JSON' };
+  }
+
+  if (!isRecord(raw) || !Array.isArray(raw.subtasks) || raw.subtasks.length === 0) {
+    return { ok: false, error: 'Reply has no subtasks' };
+  }
+  if (raw.subtasks.length > MAX_SUBTASKS) {
+    return { ok: false, error: `Reply has more than ${MAX_SUBTASKS} subtasks` };
+  }
+
+  const subtasks: DecomposedSubtask[] = [];
+  for (const [index, item] of raw.subtasks.entries()) {
+    const where = `Subtask ${index + 1}`;
+    if (!isRecord(item)) return { ok: false, error: `${where} is not an object` };
+
+    const { id, title, description, role, dependencies = [], effortMinutes } = item;
+    if (typeof id !== 'string' || !STEP_ID_PATTERN.test(id)) return { ok: false, error: `${where} has an invalid id` };
+    if (typeof title !== 'string' || !title.trim()) return { ok: false, error: `${where} has no title` };
+    if (typeof role !== 'string' || !role.trim()) return { ok: false, error: `${where} has no role` };
+    if (!Array.isArray(dependencies) || !dependencies.every((d) => typeof d === 'string')) {
+      return { ok: false, error: `${where} has invalid dependencies` };
+    }
+    if (typeof effortMinutes !== 'number' || !(effortMinutes > 0)) {
+      return { ok: false, error: `${where} has an invalid effort estimate` };
+    }
+
+    subtasks.push({
+      id,
+      title: title.trim(),
+      ...(typeof description === 'string' && description.trim() && { description: description.trim() }),
+      role: role.trim().toLowerCase(),
+      dependencies,
+      effortMinutes: Math.round(effortMinutes),
+    });
+  }
+
+  try {
+    // Reuse workflow validation for duplicate ids, unknown dependencies and cycles
+    decompositionToWorkflow({ summary: '', complexity: 'Medium', subtasks }, '');
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const minutes = criticalPathMinutes(subtasks);
+  const complexity = COMPLEXITIES.includes(raw.complexity as TaskComplexity)
+    ? (raw.complexity as TaskComplexity)
+    : minutes < LOW_COMPLEXITY_MINUTES ? 'Low' : minutes < HIGH_COMPLEXITY_MINUTES ? 'Medium' : 'High';
+  const summary = typeof raw.summary === 'string' && raw.summary.trim() ? raw.summary.trim() : 'General Orchestration';
+
+  return { ok: true, decomposition: { summary, complexity, subtasks } };
+}
+
+// ============================================================================
+// Workflow Conversion
+// ============================================================================
+
+/**
+ * Turn a decomposition into an executable workflow
+ *
+ * Each subtask becomes a step handled by its role. Root steps receive the
+ * request; later steps receive the results of the steps they depend on.
+ *
+ * @throws Error if dependencies are unknown or form a cycle
+ */
+export function decompositionToWorkflow(decomposition: TaskDecomposition, request: string): WorkflowDefinition {
+  return defineWorkflow(
+    'general',
+    decomposition.summary,
+    decomposition.subtasks.map((task) => ({
+      id: task.id,
+      label: task.title,
+      handler: task.role,
+      inputs: {
+        request: '{{input.request}}',
+        ...Object.fromEntries(task.dependencies.map((id) => [id, `{{${id}.result}}`])),
+      },
+      outputs: ['result'],
+      ...(task.dependencies.length > 0 && { dependencies: task.dependencies }),
+    })),
+    { request }
+  );
+}
+
+// ============================================================================
+// Model Call
+// ============================================================================
+
+/**
+ * Ask a model to break a request into subtasks
+ *
+ * Never throws for bad model output; the result says why the plan was
+ * rejected so callers can fall back to a template.
+ *
+ * @example
+ * ```typescript
+ * const result = await decomposeTask(llm, 'migrate the blog to a static site', { roles: ['developer', 'content'] });
+ * if (result.ok) console.log(decompositionToWorkflow(result.decomposition, request));
+ * ```
+ */
+export async function decomposeTask(llm: LLMProvider, request: string, options: DecomposeOptions = {}): Promise<DecompositionResult> {
+  const roles = options.roles?.length ? `\nAvailable roles: ${options.roles.join(', ')}.` : '';
+
+  const response = await llm.chat({
+    messages: [
+      { role: 'system', content: SYSTEM_PROMPT + roles },
+      ...(options.history || []),
+      { role: 'user', content: request },
+    ],
+    responseFormat: 'json',
+    responseSchema: DECOMPOSITION_SCHEMA,
+    temperature: 0,
+    signal: options.signal,
+  });
+
+  return parseDecomposition(response.content);
+}
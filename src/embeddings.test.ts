@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { HashedNgramEmbedder, VectorIndex, cosineSimilarity, hybridRank, type Embedder } from './embeddings.js';
+import { L0Orchestrator } from './orchestrator.js';
+import { createFixtureKnowledgeStore } from './knowledge-fixtures.js';
+
+describe('HashedNgramEmbedder', () => {
+  const embedder = new HashedNgramEmbedder();
+
+  it('should produce deterministic unit vectors of the configured size', async () => {
+    const [a, b] = await embedder.embed(['floating card', 'floating card']);
+    expect(a).toHaveLength(512);
+    expect(a).toEqual(b);
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+  });
+
+  it('should place words sharing roots closer than unrelated words', async () => {
+    const [notify, notification, budget] = await embedder.embed(['notify', 'notification', 'budget']);
+    expect(cosineSimilarity(notify, notification)).toBeGreaterThan(cosineSimilarity(notify, budget));
+  });
+});
+
+describe('VectorIndex', () => {
+  it('should only re-embed documents whose text changed', async () => {
+    const calls: string[][] = [];
+    const counting: Embedder = {
+      name: 'counting',
+      dimensions: 512,
+      embed: async (texts) => {
+        calls.push(texts);
+        return new HashedNgramEmbedder().embed(texts);
+      },
+    };
+    const index = new VectorIndex(counting);
+
+    await index.sync([{ id: 'a', text: 'alpha' }, { id: 'b', text: 'beta' }]);
+    await index.sync([{ id: 'a', text: 'alpha' }, { id: 'b', text: 'beta v2' }]);
+    await index.sync([{ id: 'b', text: 'beta v2' }]);
+
+    expect(calls).toEqual([['alpha', 'beta'], ['beta v2']]);
+    expect(index.size).toBe(1);
+  });
+});
+
+describe('hybridRank', () => {
+  it('should blend normalized keyword scores with semantic scores', () => {
+    const results = hybridRank(
+      [{ id: 'a', score: 4 }, { id: 'b', score: 2 }],
+      [{ id: 'a', score: 0.2 }, { id: 'b', score: 0.9 }, { id: 'c', score: 0.5 }, { id: 'd', score: 0.1 }],
+      { semanticWeight: 0.5 }
+    );
+
+    expect(results.map((r) => r.id)).toEqual(['b', 'a', 'c']);
+    expect(results[1]).toMatchObject({ keywordScore: 1, semanticScore: 0.2, score: 0.6 });
+  });
+});
+
+describe('semantic search in the orchestrator', () => {
+  it('should find snippets without any keyword overlap', async () => {
+    const orchestrator = new L0Orchestrator({ store: createFixtureKnowledgeStore() });
+    const response = await orchestrator.findCode('analysing');
+
+    expect((response.data as Record<string, unknown>).title).toBe('Trending Topics Analyzer');
+    expect(response.matches?.[0].keywordScore).toBe(0);
+  });
+
+  it('should fall back to keyword-only ranking when the embedder is disabled', async () => {
+    const orchestrator = new L0Orchestrator({ store: createFixtureKnowledgeStore(), embedder: null });
+    const response = await orchestrator.findCode('analysing');
+
+    expect(response.code).toBeUndefined();
+  });
+});
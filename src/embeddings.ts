@@ -0,0 +1,256 @@
+/**
+ * VortexAI L0 Semantic Search
+ *
+ * Pluggable embedders, a vector index and hybrid keyword/semantic ranking
+ * @module embeddings
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Turns text into fixed-length vectors
+ *
+ * Implementations may call a remote model; the built-in
+ * {@link HashedNgramEmbedder} runs fully offline.
+ */
+export interface Embedder {
+  readonly name: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface HashedNgramEmbedderOptions {
+  /** Vector length (default: 512) */
+  dimensions?: number;
+  /** Character n-gram sizes taken from each word (default: [3, 4]) */
+  ngramSizes?: number[];
+}
+
+export interface VectorSearchResult {
+  id: string;
+  score: number;
+}
+
+export interface HybridResult {
+  id: string;
+  /** Combined score in the range 0..1 */
+  score: number;
+  keywordScore: number;
+  semanticScore: number;
+}
+
+export interface HybridOptions {
+  /** Share of the final score taken from semantic similarity (default: 0.35) */
+  semanticWeight?: number;
+  /** Semantic-only hits below this similarity are dropped (default: 0.25) */
+  minSimilarity?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_DIMENSIONS = 512;
+const DEFAULT_NGRAM_SIZES = [3, 4];
+const WORD_FEATURE_WEIGHT = 2;
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+export const DEFAULT_SEMANTIC_WEIGHT = 0.35;
+export const DEFAULT_MIN_SIMILARITY = 0.25;
+
+// ============================================================================
+// Vector Math
+// ============================================================================
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hash(text: string): number {
+  let h = FNV_OFFSET;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, FNV_PRIME);
+  }
+  return h >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return length === 0 ? vector : vector.map((v) => v / length);
+}
+
+/**
+ * Cosine similarity of two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// ============================================================================
+// Hashed N-gram Embedder
+// ============================================================================
+
+/**
+ * Offline embedder based on the hashing trick
+ *
+ * Each word contributes itself plus its character n-grams (with boundary
+ * markers), hashed into a fixed number of buckets. Words that share roots,
+ * such as "notify" and "notification", end up close together without any
+ * model or network access.
+ */
+export class HashedNgramEmbedder implements Embedder {
+  readonly name = 'hashed-ngram';
+  readonly dimensions: number;
+  private readonly ngramSizes: number[];
+
+  constructor(options: HashedNgramEmbedderOptions = {}) {
+    this.dimensions = options.dimensions || DEFAULT_DIMENSIONS;
+    this.ngramSizes = options.ngramSizes || DEFAULT_NGRAM_SIZES;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  /**
+   * Embed one text synchronously, for callers that cannot await
+   */
+  embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().split(/[^a-z0-9]+/).filter((w) => w.length > 1);
+
+    for (const word of words) {
+      this.addFeature(vector, `w:${word}`, WORD_FEATURE_WEIGHT);
+
+      const padded = `<${word}>`;
+      for (const size of this.ngramSizes) {
+        for (let i = 0; i + size <= padded.length; i++) {
+          this.addFeature(vector, padded.slice(i, i + size), 1);
+        }
+      }
+    }
+
+    return normalize(vector);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const h = hash(feature);
+    // Use the top bit as a sign so collisions tend to cancel rather than accumulate
+    const sign = h & 0x80000000 ? -1 : 1;
+    vector[h % this.dimensions] += sign * weight;
+  }
+}
+
+// ============================================================================
+// Vector Index Class
+// ============================================================================
+
+/**
+ * In-memory vector index that only re-embeds documents whose text changed
+ *
+ * @example
+ * ```typescript
+ * import { VectorIndex, HashedNgramEmbedder } from 'vortexai-l0';
+ *
+ * const index = new VectorIndex(new HashedNgramEmbedder());
+ * await index.sync([{ id: 'card', text: 'Floating notification card' }]);
+ * const results = await index.search('notifications');
+ * ```
+ */
+export class VectorIndex {
+  private readonly entries: Map<string, { text: string; vector: number[] }> = new Map();
+
+  constructor(private readonly embedder: Embedder) {}
+
+  /**
+   * Make the index contain exactly the given documents
+   *
+   * Unchanged documents keep their cached vectors; removed ones are dropped.
+   */
+  async sync(documents: Array<{ id: string; text: string }>): Promise<void> {
+    const ids = new Set(documents.map((d) => d.id));
+    for (const id of this.entries.keys()) {
+      if (!ids.has(id)) this.entries.delete(id);
+    }
+
+    const stale = documents.filter((d) => this.entries.get(d.id)?.text !== d.text);
+    if (stale.length === 0) return;
+
+    const vectors = await this.embedder.embed(stale.map((d) => d.text));
+    stale.forEach((d, i) => this.entries.set(d.id, { text: d.text, vector: vectors[i] }));
+  }
+
+  /**
+   * Rank indexed documents by cosine similarity to a query
+   */
+  async search(query: string, limit?: number): Promise<VectorSearchResult[]> {
+    if (this.entries.size === 0 || !query.trim()) return [];
+
+    const [queryVector] = await this.embedder.embed([query]);
+    const results = Array.from(this.entries.entries())
+      .map(([id, { vector }]) => ({ id, score: cosineSimilarity(queryVector, vector) }))
+      .sort((a, b) => b.score - a.score);
+
+    return limit ? results.slice(0, limit) : results;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// ============================================================================
+// Hybrid Ranking
+// ============================================================================
+
+/**
+ * Merge keyword (BM25) and semantic results into one ranking
+ *
+ * Keyword scores are normalized against the best keyword hit so both signals
+ * share a 0..1 scale. Documents only found semantically must clear
+ * `minSimilarity` to be included.
+ */
+export function hybridRank(
+  keywordResults: Array<{ id: string; score: number }>,
+  semanticResults: VectorSearchResult[],
+  options: HybridOptions = {}
+): HybridResult[] {
+  const semanticWeight = options.semanticWeight ?? DEFAULT_SEMANTIC_WEIGHT;
+  const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+
+  const maxKeyword = keywordResults.reduce((max, r) => Math.max(max, r.score), 0);
+  const keyword = new Map(keywordResults.map((r) => [r.id, maxKeyword > 0 ? r.score / maxKeyword : 0]));
+  const semantic = new Map(semanticResults.map((r) => [r.id, Math.max(0, r.score)]));
+
+  const ids = new Set([...keyword.keys(), ...semantic.keys()]);
+  const results: HybridResult[] = [];
+
+  for (const id of ids) {
+    const keywordScore = keyword.get(id) || 0;
+    const semanticScore = semantic.get(id) || 0;
+
+    if (keywordScore === 0 && semanticScore < minSimilarity) continue;
+
+    results.push({
+      id,
+      score: (1 - semanticWeight) * keywordScore + semanticWeight * semanticScore,
+      keywordScore,
+      semanticScore,
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score);
+}
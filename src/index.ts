@@ -1,6 +1,290 @@
 // Browser-safe entrypoint: re-export programmatic APIs only
-export { L0Orchestrator, orchestrator, type L0Response, type L0QueryOptions } from './orchestrator.js';
-export { PluginManager, pluginManager, createPluginManager, type L0Plugin, type PluginMetadata } from './plugins.js';
+export {
+  L0Orchestrator,
+  orchestrator,
+  type L0Response,
+  type L0QueryOptions,
+  type L0OrchestratorOptions,
+  type L0Match,
+  type L0ResponseIntent,
+  type L0RoutingExplanation,
+  type L0StreamEvent,
+  type L0SessionSummary,
+  type CampaignParameters,
+} from './orchestrator.js';
+export {
+  PluginManager,
+  pluginManager,
+  createPluginManager,
+  checkPluginContract,
+  parsePluginState,
+  resolvePluginConfig,
+  parsePluginConfigValue,
+  describeTrigger,
+  mentions,
+  ngramKeywordSimilarity,
+  decline,
+  type L0Plugin,
+  type PluginDecline,
+  type PluginExecutionMode,
+  type PluginExecuteOptions,
+  type PluginAttribution,
+  type PluginTrigger,
+  type TriggerSpec,
+  type SemanticMatchOptions,
+  type PluginContext,
+  type PluginMetadata,
+  type PluginMatch,
+  type PluginState,
+  type PluginConfigSchema,
+  type PluginConfigField,
+  type PluginConfigValue,
+  type PluginHealth,
+  type PluginHealthReport,
+  type PluginScoreTrace,
+  type TriggerTrace,
+} from './plugins.js';
+
+// Intent classification - configurable routing across built-in intents and plugins
+export {
+  IntentClassifier,
+  DEFAULT_INTENT_RULES,
+  type BuiltinIntent,
+  type IntentRule,
+  type RankedIntent,
+  type IntentClassification,
+  type IntentClassifierOptions,
+  type ClassifyOptions,
+  type IntentTrace,
+  type RuleTrace,
+} from './intents.js';
+
+// Knowledge storage - snippets, memories and campaigns
+export {
+  InMemoryKnowledgeStore,
+  type KnowledgeStore,
+  type KnowledgeData,
+  type CodeSnippet,
+  type Memory,
+  type Campaign,
+} from './knowledge-store.js';
+export { FIXTURE_KNOWLEDGE, createFixtureKnowledgeStore } from './knowledge-fixtures.js';
+
+// Full-text search - BM25 ranking used by findCode and searchMemories
+export { SearchIndex, tokenize, stem, type SearchIndexOptions, type SearchResult } from './search.js';
+
+// Semantic search - pluggable embedders and hybrid keyword/vector ranking
+export {
+  HashedNgramEmbedder,
+  VectorIndex,
+  hybridRank,
+  cosineSimilarity,
+  type Embedder,
+  type HybridOptions,
+  type HybridResult,
+} from './embeddings.js';
+
+// Workflow engine - executable workflow definitions run as a dependency graph
+export {
+  WorkflowEngine,
+  defineWorkflow,
+  sequentialWorkflow,
+  validateWorkflow,
+  workflowLabels,
+  resolveStepInputs,
+  simulatedStepHandler,
+  snapshotRun,
+  type WorkflowDefinition,
+  type WorkflowStep,
+  type WorkflowRun,
+  type WorkflowRunOptions,
+  type WorkflowEvent,
+  type WorkflowEngineOptions,
+  type WorkflowStatus,
+  type StepStatus,
+  type StepState,
+  type StepContext,
+  type StepHandler,
+} from './workflow.js';
+
+// Agents - capability-based delegation of workflow steps
+export {
+  AgentRegistry,
+  LocalAgent,
+  createDefaultAgents,
+  createAgentStepHandler,
+  type Agent,
+  type AgentTask,
+  type AgentCapability,
+  type AgentAssignment,
+  type AgentDelegation,
+  type AgentSelectionOptions,
+  type AgentSelectionStrategy,
+} from './agents.js';
+
+// Run history - recorded workflow runs that can be resumed or cancelled
+export { RunHistory, InMemoryRunStore, type RunRecord, type RunStore } from './run-history.js';
+
+// Task queue - prioritized agent tasks with concurrency caps, retries and dead-lettering
+export {
+  TaskQueue,
+  backoffDelay,
+  type QueuedTask,
+  type QueuedTaskStatus,
+  type QueueTaskInput,
+  type TaskQueueEvent,
+  type TaskQueueStore,
+  type TaskQueueOptions,
+  type BackoffOptions,
+  type ProcessQueueOptions,
+} from './task-queue.js';
+
+// LLM providers - chat, streaming and tool calls over OpenAI-compatible, Anthropic or mock backends
+export {
+  OpenAICompatibleProvider,
+  AnthropicProvider,
+  MockLLMProvider,
+  createLLMProvider,
+  LLM_PROVIDERS,
+  type LLMProvider,
+  type LLMProviderName,
+  type LLMConfig,
+  type LLMMessage,
+  type LLMRole,
+  type LLMTool,
+  type LLMToolCall,
+  type LLMChatRequest,
+  type LLMChatResponse,
+  type LLMStreamChunk,
+  type LLMFinishReason,
+  type LLMUsage,
+  type LLMResponseSchema,
+  type HttpProviderOptions,
+  type MockLLMFixture,
+} from './llm.js';
+
+// Task decomposition - model-planned subtasks turned into workflows
+export {
+  decomposeTask,
+  parseDecomposition,
+  decompositionToWorkflow,
+  criticalPathMinutes,
+  formatEffort,
+  DECOMPOSITION_SCHEMA,
+  type TaskDecomposition,
+  type DecomposedSubtask,
+  type DecompositionResult,
+  type DecomposeOptions,
+  type TaskComplexity,
+} from './decomposition.js';
+
+// Sessions - multi-turn conversations with resolved entities
+export {
+  Session,
+  InMemorySessionStore,
+  extractEntities,
+  formatBudget,
+  parseBudget,
+  normalizePlatform,
+  type SessionData,
+  type SessionTurn,
+  type SessionEntities,
+  type SessionBudget,
+  type SessionStore,
+} from './session.js';
+
+// Reports - Markdown rendering of responses
+export { renderReport } from './report.js';
+
+// Campaign planning - budget split, schedule, formats and KPI targets
+export {
+  planCampaign,
+  detectCampaignType,
+  platformFormats,
+  formatCount,
+  DEFAULT_CAMPAIGN_PLATFORMS,
+  DEFAULT_CAMPAIGN_BUDGET,
+  DEFAULT_CAMPAIGN_DURATION_DAYS,
+  type CampaignRequest,
+  type CampaignPlan,
+  type CampaignPhase,
+  type PlatformBudget,
+  type PlatformFormats,
+  type ScheduledPost,
+  type KpiTarget,
+} from './campaign-planner.js';
+
+// Content calendars - dated entries from weekly themes, cadence and holidays, with iCal and CSV export
+export {
+  generateCalendar,
+  defaultHolidays,
+  toICalendar,
+  toCalendarCsv,
+  InMemoryCalendarStore,
+  DEFAULT_WEEKLY_THEMES,
+  DEFAULT_CALENDAR_CADENCE,
+  DEFAULT_CALENDAR_DURATION_DAYS,
+  type CalendarRequest,
+  type CalendarTheme,
+  type CalendarHoliday,
+  type CalendarEntry,
+  type ContentCalendar,
+  type CalendarStore,
+} from './calendar.js';
+
+// Trend data - pluggable providers with volume and growth computed across snapshots
+export {
+  fetchTrends,
+  computeTrends,
+  resolveTrendQuery,
+  extractTrendQuery,
+  parseTimeframe,
+  formatGrowth,
+  parseTrendSnapshots,
+  parseTrendCsv,
+  parseTrendJson,
+  sampleTrendSnapshots,
+  StaticTrendProvider,
+  HttpTrendProvider,
+  SampleTrendProvider,
+  DEFAULT_TREND_TIMEFRAME,
+  ALL_TREND_PLATFORMS,
+  GLOBAL_LOCATION,
+  type TrendProvider,
+  type TrendQuery,
+  type ResolvedTrendQuery,
+  type TrendSnapshot,
+  type TrendStat,
+  type TrendReport,
+  type FetchTrendsOptions,
+  type HttpTrendProviderOptions,
+} from './trends.js';
+
+// Brand relevance - trends scored against a brand profile, with off-brand and unsafe topics filtered
+export {
+  scoreRelevance,
+  rankForBrand,
+  parseBrandProfile,
+  DEFAULT_MIN_RELEVANCE,
+  DEFAULT_UNSAFE_TOPICS,
+  type BrandProfile,
+  type RelevanceScore,
+  type FilteredTrend,
+  type BrandRanking,
+} from './brand.js';
+
+// Chat input - slash commands, multi-line input and completion for REPLs
+export {
+  ChatInputBuffer,
+  parseSlashCommand,
+  completeChatInput,
+  SLASH_COMMANDS,
+  CHAT_FORMATS,
+  type ChatFormat,
+  type SlashCommand,
+  type SlashCommandInfo,
+  type ChatCompletionSources,
+} from './chat.js';
 
 // Memory Services Plugin - lean integration with LanOnasis MaaS
 export {
@@ -8,4 +292,4 @@ export {
   memoryAPI,
   configureMemoryPlugin,
   type MemoryPluginConfig,
-} from './memory-plugin.js';
\ No newline at end of file
+} from './memory-plugin.js';
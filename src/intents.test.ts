@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { IntentClassifier, DEFAULT_INTENT_RULES, keywordPattern } from './intents.js';
+import { createPluginManager } from './plugins.js';
+import { L0Orchestrator } from './orchestrator.js';
+
+describe('keywordPattern', () => {
+  it('should match whole words with common inflections', () => {
+    expect(keywordPattern('trend').test('trending topics')).toBe(true);
+    expect(keywordPattern('hashtag').test('top hashtags')).toBe(true);
+    expect(keywordPattern('code').test('decode this')).toBe(false);
+    expect(keywordPattern('social media').test('social   media plan')).toBe(true);
+  });
+});
+
+describe('IntentClassifier', () => {
+  const classifier = new IntentClassifier();
+  const plugins = createPluginManager(true);
+
+  it('should prefer a specific intent over generic "how to" phrasing', () => {
+    const { best } = classifier.classify('how to write code', plugins);
+    expect(best?.intent).toBe('code');
+  });
+
+  it('should let plugins compete with built-in intents', () => {
+    const { best, intents } = classifier.classify('weekly analytics report', plugins);
+    expect(best?.intent).toBe('plugin:analytics');
+    expect(best?.plugin).toBe('analytics');
+    expect(intents.map((i) => i.intent)).toContain('trends');
+  });
+
+  it('should rank every candidate with confidences summing to one', () => {
+    const { intents } = classifier.classify('help me debug this code', plugins);
+    expect(intents.length).toBeGreaterThan(1);
+    expect(intents.reduce((sum, i) => sum + i.confidence, 0)).toBeCloseTo(1);
+    expect(intents[0].score).toBeGreaterThanOrEqual(intents[1].score);
+  });
+
+  it('should return no best intent when nothing matches', () => {
+    const { best, intents } = classifier.classify('do something', plugins);
+    expect(best).toBeUndefined();
+    expect(intents).toEqual([]);
+  });
+
+  it('should require every keyword listed in requires', () => {
+    expect(classifier.classify('content calendar').best).toBeUndefined();
+    expect(classifier.classify('create content').best?.intent).toBe('content');
+  });
+
+  it('should ignore disabled plugins', () => {
+    const manager = createPluginManager(true);
+    manager.setEnabled('analytics', false);
+    expect(classifier.classify('weekly analytics report', manager).best?.intent).toBe('trends');
+  });
+
+  it('should accept custom routing rules', () => {
+    const custom = new IntentClassifier({
+      rules: [...DEFAULT_INTENT_RULES, { intent: 'code', keywords: { hook: 3 } }],
+    });
+    expect(custom.classify('react hook for debouncing').best?.intent).toBe('code');
+  });
+
+  it('should only include a trace when requested', () => {
+    expect(classifier.classify('find code').trace).toBeUndefined();
+
+    const { trace } = classifier.classify('create content', createPluginManager(true), { trace: true });
+    expect(trace?.minScore).toBe(1);
+    expect(trace?.rules).toHaveLength(DEFAULT_INTENT_RULES.length);
+    expect(trace?.rules.find((r) => r.intent === 'content' && r.score > 0)?.matched).toEqual(['content', 'create']);
+    expect(trace?.rules.find((r) => r.missing.includes('strategy'))?.score).toBe(0);
+  });
+
+  it('should trace every plugin, including disabled and non-matching ones', () => {
+    const manager = createPluginManager(true);
+    manager.setEnabled('analytics', false);
+
+    const { trace } = classifier.classify('analytics dashboard', manager, { trace: true });
+    const analytics = trace?.plugins.find((p) => p.plugin === 'analytics');
+    expect(trace?.plugins).toHaveLength(manager.count);
+    expect(analytics).toMatchObject({ enabled: false, intentScore: 0 });
+    expect(analytics?.triggers.some((t) => t.matched)).toBe(true);
+  });
+});
+
+describe('L0Orchestrator intent routing', () => {
+  const orchestrator = new L0Orchestrator(createPluginManager(true));
+
+  it('should expose the chosen intent on the response', async () => {
+    const response = await orchestrator.query('analyze trending hashtags');
+    expect(response.intent).toMatchObject({ name: 'trends', confidence: 1 });
+    expect(response.intent?.score).toBeGreaterThan(0);
+  });
+
+  it('should route analytics queries to the analytics plugin', async () => {
+    const response = await orchestrator.query('build an analytics report');
+    expect(response.intent?.plugin).toBe('analytics');
+    expect(response.message).toContain('Analytics');
+  });
+
+  it('should report general when no intent matches', async () => {
+    const response = await orchestrator.query('do something');
+    expect(response.intent).toEqual({ name: 'general', score: 0, confidence: 0 });
+  });
+
+  it('should attach a routing explanation when asked', async () => {
+    const response = await orchestrator.query('find react code snippet', { explain: true });
+    expect(response.explain?.winner).toMatchObject({ intent: 'code', handler: 'findCode' });
+    expect(response.explain?.winner.reason).toContain('code scored 6');
+    expect(response.explain?.candidates[0].intent).toBe('code');
+  });
+
+  it('should explain fallback to general orchestration', async () => {
+    const response = await orchestrator.query('do something', { explain: true });
+    expect(response.explain?.winner).toMatchObject({ intent: 'general', handler: 'orchestrateGeneral' });
+    expect(response.explain?.winner.reason).toContain('minimum score of 1');
+  });
+
+  it('should omit the explanation by default', async () => {
+    expect((await orchestrator.query('find react code snippet')).explain).toBeUndefined();
+  });
+
+  describe('when a plugin does not answer', () => {
+    const createPlugins = () => {
+      const plugins = createPluginManager(false);
+      plugins.register({
+        metadata: { name: 'flaky', version: '1.0.0', description: 'Flaky' },
+        triggers: ['release'],
+        priority: 50,
+        handler: async () => {
+          throw new Error('backend down');
+        },
+      });
+      plugins.register({
+        metadata: { name: 'steady', version: '1.0.0', description: 'Steady' },
+        triggers: ['release'],
+        priority: 10,
+        handler: async () => ({ message: 'Released', type: 'orchestration' }),
+      });
+      plugins.register({
+        metadata: { name: 'silent', version: '1.0.0', description: 'Silent' },
+        triggers: ['react', 'code', 'snippet'],
+        priority: 100,
+        handler: async () => null as never,
+      });
+      return plugins;
+    };
+
+    it('should fall back to the next-ranked plugin and report each attempt', async () => {
+      const response = await new L0Orchestrator(createPlugins()).query('cut a release', { explain: true });
+
+      expect(response.message).toBe('Released');
+      expect(response.intent?.plugin).toBe('flaky');
+      expect(response.attribution?.map((a) => [a.plugin, a.status, a.reason])).toEqual([
+        ['flaky', 'failed', 'backend down'],
+        ['steady', 'answered', undefined],
+      ]);
+      expect(response.explain?.winner).toMatchObject({ intent: 'plugin:steady', handler: 'plugin:steady' });
+      expect(response.explain?.winner.reason).toContain('did not answer; fell back to plugin:steady');
+    });
+
+    it('should try the next matching plugin when the winner returns null', async () => {
+      const plugins = createPlugins();
+      plugins.register({
+        metadata: { name: 'empty', version: '1.0.0', description: 'Empty' },
+        triggers: ['release'],
+        priority: 100,
+        handler: async () => null as never,
+      });
+      const response = await new L0Orchestrator({ plugins, pluginExecution: { mode: 'fallback' } }).query('cut a release');
+
+      expect(response.message).toBe('Released');
+      expect(response.attribution?.map((a) => a.status)).toEqual(['declined', 'failed', 'answered']);
+    });
+
+    it('should fall through to the next built-in candidate', async () => {
+      const response = await new L0Orchestrator(createPlugins()).query('find react code snippet', { explain: true });
+
+      expect(response.type).toBe('snippet');
+      expect(response.attribution).toEqual([{ plugin: 'silent', status: 'declined', durationMs: expect.any(Number) }]);
+      expect(response.explain?.winner).toMatchObject({ intent: 'code', handler: 'findCode' });
+    });
+
+    it('should merge plugin answers in fan-out mode', async () => {
+      const plugins = createPlugins();
+      plugins.register({
+        metadata: { name: 'notes', version: '1.0.0', description: 'Notes' },
+        triggers: ['release'],
+        handler: async () => ({ message: 'Noted', type: 'context' }),
+      });
+      const response = await new L0Orchestrator({ plugins, pluginExecution: { mode: 'fanout' } }).query('cut a release');
+
+      expect(response.message).toBe('[steady] Released\n\n[notes] Noted');
+      expect(response.attribution?.map((a) => a.status)).toEqual(['failed', 'answered', 'answered']);
+    });
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * VortexAI L0 Intent Classification
+ *
+ * Scores built-in intents and plugins together to route orchestrator queries
+ * @module intents
+ */
+
+import type { PluginManager, PluginScoreTrace } from './plugins.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type BuiltinIntent = 'help' | 'code' | 'memory' | 'campaign' | 'content' | 'trends';
+
+/**
+ * Keyword rule contributing to a built-in intent's score
+ *
+ * Each keyword matches as a whole word or phrase, allowing common inflections
+ * ("trend" matches "trends" and "trending"). When several rules target the
+ * same intent, the best-scoring rule wins.
+ */
+export interface IntentRule {
+  intent: BuiltinIntent;
+  /** Keyword or phrase to weight */
+  keywords: Record<string, number>;
+  /** Keywords that must all be present for the rule to apply */
+  requires?: string[];
+}
+
+export interface RankedIntent {
+  /** Built-in intent name, or `plugin:<name>` for plugins */
+  intent: string;
+  kind: 'builtin' | 'plugin';
+  plugin?: string;
+  score: number;
+  /** Share of the total score across all candidates, 0..1 */
+  confidence: number;
+  matched: string[];
+}
+
+export interface IntentClassification {
+  query: string;
+  /** Every candidate that scored above zero, best first */
+  intents: RankedIntent[];
+  /** Winning candidate, or undefined when nothing cleared `minScore` */
+  best?: RankedIntent;
+  /** Detailed scoring breakdown, present when requested with `{ trace: true }` */
+  trace?: IntentTrace;
+}
+
+/**
+ * How one routing rule scored against a query
+ */
+export interface RuleTrace {
+  intent: BuiltinIntent;
+  score: number;
+  matched: string[];
+  /** Required keywords missing from the query; the rule scores 0 when any are missing */
+  missing: string[];
+}
+
+/**
+ * Every check made while classifying a query
+ */
+export interface IntentTrace {
+  minScore: number;
+  rules: RuleTrace[];
+  plugins: Array<PluginScoreTrace & { intentScore: number }>;
+}
+
+export interface ClassifyOptions {
+  /** Include a full {@link IntentTrace} in the result */
+  trace?: boolean;
+}
+
+export interface IntentClassifierOptions {
+  /** Routing rules (default: {@link DEFAULT_INTENT_RULES}) */
+  rules?: IntentRule[];
+  /** Score added per matched plugin trigger (default: 2) */
+  pluginTriggerWeight?: number;
+  /** Plugin priority is scaled by this factor and capped at `maxPriorityBonus` (default: 0.005) */
+  pluginPriorityScale?: number;
+  maxPriorityBonus?: number;
+  /** Candidates scoring below this are ignored and the query falls through to general orchestration (default: 1) */
+  minScore?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_INTENT_RULES: IntentRule[] = [
+  { intent: 'help', keywords: { help: 3, 'how to': 1, 'how do i': 1, guide: 1, explain: 1 } },
+  { intent: 'code', keywords: { code: 3, snippet: 3, component: 1, function: 1 } },
+  { intent: 'memory', keywords: { memory: 3, memories: 3, notes: 3, meeting: 2 } },
+  { intent: 'campaign', keywords: { campaign: 3, 'social media': 3, viral: 2 } },
+  { intent: 'content', keywords: { content: 2, create: 1 }, requires: ['content', 'create'] },
+  { intent: 'content', keywords: { content: 2, strategy: 1 }, requires: ['content', 'strategy'] },
+  { intent: 'trends', keywords: { trend: 3, hashtag: 3, analytics: 1 } },
+];
+
+const DEFAULT_PLUGIN_TRIGGER_WEIGHT = 2;
+const DEFAULT_PLUGIN_PRIORITY_SCALE = 0.005;
+const DEFAULT_MAX_PRIORITY_BONUS = 0.5;
+const DEFAULT_MIN_SCORE = 1;
+const INFLECTION_SUFFIX = '(?:s|es|ed|ing|er|ers)?';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build a whole-word matcher for a keyword or phrase that tolerates common inflections
+ */
+export function keywordPattern(keyword: string): RegExp {
+  const words = keyword.trim().toLowerCase().split(/\s+/).map(escapeRegExp);
+  return new RegExp(`\\b${words.join('\\s+')}${INFLECTION_SUFFIX}\\b`, 'i');
+}
+
+// ============================================================================
+// Intent Classifier Class
+// ============================================================================
+
+/**
+ * Ranks every built-in intent and every enabled plugin for a query
+ *
+ * @example
+ * ```typescript
+ * import { IntentClassifier, DEFAULT_INTENT_RULES } from 'vortexai-l0';
+ *
+ * const classifier = new IntentClassifier({
+ *   rules: [...DEFAULT_INTENT_RULES, { intent: 'code', keywords: { hook: 2 } }],
+ * });
+ * const { best } = classifier.classify('react hook for debouncing', pluginManager);
+ * ```
+ */
+export class IntentClassifier {
+  private readonly rules: Array<IntentRule & { patterns: Map<string, RegExp> }>;
+  private readonly pluginTriggerWeight: number;
+  private readonly pluginPriorityScale: number;
+  private readonly maxPriorityBonus: number;
+  private readonly minScore: number;
+
+  constructor(options: IntentClassifierOptions = {}) {
+    this.rules = (options.rules || DEFAULT_INTENT_RULES).map((rule) => ({
+      ...rule,
+      patterns: new Map(
+        [...Object.keys(rule.keywords), ...(rule.requires || [])].map((k) => [k, keywordPattern(k)])
+      ),
+    }));
+    this.pluginTriggerWeight = options.pluginTriggerWeight ?? DEFAULT_PLUGIN_TRIGGER_WEIGHT;
+    this.pluginPriorityScale = options.pluginPriorityScale ?? DEFAULT_PLUGIN_PRIORITY_SCALE;
+    this.maxPriorityBonus = options.maxPriorityBonus ?? DEFAULT_MAX_PRIORITY_BONUS;
+    this.minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+  }
+
+  /**
+   * Classify a query
+   *
+   * @param query - Natural language query
+   * @param plugins - Plugin manager whose enabled plugins compete with built-in intents
+   * @param options - Set `trace` to include every rule and plugin check in the result
+   */
+  classify(query: string, plugins?: PluginManager, options: ClassifyOptions = {}): IntentClassification {
+    const ruleTraces = this.traceRules(query);
+    const candidates = [...this.bestPerIntent(ruleTraces), ...(plugins ? this.scorePlugins(query, plugins) : [])]
+      .filter((c) => c.score >= this.minScore)
+      .sort((a, b) => b.score - a.score);
+
+    const total = candidates.reduce((sum, c) => sum + c.score, 0);
+    const intents = candidates.map((c) => ({ ...c, confidence: total > 0 ? c.score / total : 0 }));
+    const classification: IntentClassification = { query, intents, best: intents[0] };
+
+    if (options.trace) {
+      classification.trace = {
+        minScore: this.minScore,
+        rules: ruleTraces,
+        plugins: plugins
+          ? plugins.explainScores(query).map((p) => ({
+              ...p,
+              intentScore: p.score > 0 ? this.pluginIntentScore(p.triggers.filter((t) => t.matched && !t.negative).length, p.priority) : 0,
+            }))
+          : [],
+      };
+    }
+
+    return classification;
+  }
+
+  // ==========================================================================
+  // Scoring
+  // ==========================================================================
+
+  private traceRules(query: string): RuleTrace[] {
+    return this.rules.map((rule) => {
+      const missing = (rule.requires || []).filter((k) => !rule.patterns.get(k)!.test(query));
+      const matched = Object.keys(rule.keywords).filter((k) => rule.patterns.get(k)!.test(query));
+      const score = missing.length > 0 ? 0 : matched.reduce((sum, k) => sum + rule.keywords[k], 0);
+
+      return { intent: rule.intent, score, matched, missing };
+    });
+  }
+
+  private bestPerIntent(traces: RuleTrace[]): Omit<RankedIntent, 'confidence'>[] {
+    const best = new Map<BuiltinIntent, RuleTrace>();
+
+    for (const trace of traces) {
+      if (trace.score > (best.get(trace.intent)?.score || 0)) {
+        best.set(trace.intent, trace);
+      }
+    }
+
+    return Array.from(best.values()).map(({ intent, score, matched }) => ({
+      intent,
+      kind: 'builtin' as const,
+      score,
+      matched,
+    }));
+  }
+
+  private scorePlugins(query: string, plugins: PluginManager): Omit<RankedIntent, 'confidence'>[] {
+    return plugins.score(query).map(({ plugin, priority, matchedTriggers }) => ({
+      intent: `plugin:${plugin.metadata.name}`,
+      kind: 'plugin' as const,
+      plugin: plugin.metadata.name,
+      score: this.pluginIntentScore(matchedTriggers.length, priority),
+      matched: matchedTriggers,
+    }));
+  }
+
+  /**
+   * Convert plugin trigger matches to the same scale as built-in rule scores
+   */
+  private pluginIntentScore(matchedCount: number, priority: number): number {
+    if (matchedCount === 0) return 0;
+
+    const priorityBonus = Math.min(this.maxPriorityBonus, priority * this.pluginPriorityScale);
+    return matchedCount * this.pluginTriggerWeight + priorityBonus;
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * VortexAI L0 Fixture Knowledge
+ *
+ * Seed snippets, memories and campaigns used by the default knowledge store
+ * @module knowledge-fixtures
+ */
+
+import { InMemoryKnowledgeStore, type KnowledgeData } from './knowledge-store.js';
+
+export const FIXTURE_KNOWLEDGE: KnowledgeData = {
+  snippets: [
+    {
+      id: 'floating-card-1',
+      title: 'Floating Black Card Component',
+      content: `<div className="fixed bottom-4 right-4 bg-black rounded-lg shadow-xl p-4 text-white max-w-sm animate-fade-in">
+  <div className="flex items-center gap-3">
+    <div className="w-8 h-8 bg-blue-500 rounded-full" />
+    <div>
+      <h3 className="font-medium">Notification</h3>
+      <p className="text-sm opacity-75">{message}</p>
+    </div>
+  </div>
+</div>`,
+      language: 'react',
+      tags: ['ui', 'floating', 'notification', 'card'],
+      lastUsed: '2026-01-21T15:20:00.000Z',
+      project: 'dashboard-redesign'
+    },
+    {
+      id: 'social-post-scheduler',
+      title: 'Social Media Post Scheduler',
+      content: `const schedulePost = async (content, platforms, scheduledTime) => {
+  const post = {
+    content,
+    platforms: platforms.split(','),
+    scheduledTime: new Date(scheduledTime),
+    status: 'scheduled',
+    analytics: { impressions: 0, engagement: 0 }
+  };
+  
+  return await socialMediaAPI.schedule(post);
+};`,
+      language: 'javascript',
+      tags: ['social-media', 'scheduler', 'automation'],
+      lastUsed: '2026-01-23T09:05:00.000Z',
+      project: 'vortex-campaign-manager'
+    },
+    {
+      id: 'trend-analyzer',
+      title: 'Trending Topics Analyzer',
+      content: `const analyzeTrends = async (platform, timeframe = '24h') => {
+  const trends = await trendingAPI.getTrends({
+    platform,
+    timeframe,
+    location: 'global'
+  });
+  
+  return trends.map(trend => ({
+    hashtag: trend.name,
+    volume: trend.tweet_volume,
+    growth: trend.growth_rate,
+    relevanceScore: calculateRelevance(trend)
+  }));
+};`,
+      language: 'javascript',
+      tags: ['trends', 'social-media', 'analytics'],
+      lastUsed: '2026-01-23T09:40:00.000Z',
+      project: 'trend-intelligence'
+    }
+  ],
+  memories: [
+    {
+      id: 'campaign-strategy-1',
+      title: 'Viral TikTok Campaign Strategy',
+      content: 'Key elements: Hook in first 3 seconds, trending audio, user-generated content encouragement, cross-platform promotion. Target: Gen Z, 16-24 age group.',
+      type: 'strategy',
+      date: 'today',
+      tags: ['tiktok', 'viral', 'strategy', 'gen-z']
+    },
+    {
+      id: 'content-calendar-1',
+      title: 'Q4 Content Calendar Framework',
+      content: 'Weekly themes: Monday motivation, Tuesday tips, Wednesday wins, Thursday throwback, Friday fun. Holiday content: Halloween, Black Friday, Cyber Monday, Christmas campaigns.',
+      type: 'planning',
+      date: 'yesterday',
+      tags: ['content-calendar', 'q4', 'holidays', 'framework']
+    },
+    {
+      id: 'oauth-implementation-1',
+      title: 'OAuth Integration Best Practices',
+      content: 'Use PKCE for public clients, implement proper state validation, secure token storage, refresh token rotation. Never expose client secrets in frontend.',
+      type: 'reference',
+      date: '3 days ago',
+      tags: ['oauth', 'security', 'authentication', 'best-practices']
+    }
+  ],
+  campaigns: [
+    {
+      id: 'eco-product-launch',
+      title: 'Eco-Friendly Product Launch Campaign',
+      strategy: 'Sustainability-focused messaging, influencer partnerships, user-generated content, educational content series',
+      platforms: ['tiktok', 'instagram', 'twitter', 'linkedin'],
+      budget: '$10000',
+      duration: '2 weeks',
+      kpis: ['brand_awareness', 'engagement_rate', 'conversions']
+    }
+  ]
+};
+
+/**
+ * Create an in-memory knowledge store seeded with the fixture data
+ */
+export function createFixtureKnowledgeStore(): InMemoryKnowledgeStore {
+  return new InMemoryKnowledgeStore(FIXTURE_KNOWLEDGE);
+}
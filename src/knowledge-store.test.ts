@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InMemoryKnowledgeStore, type CodeSnippet } from './knowledge-store.js';
+import { FIXTURE_KNOWLEDGE, createFixtureKnowledgeStore } from './knowledge-fixtures.js';
+import { JsonFileKnowledgeStore } from './node/json-file-store.js';
+import { L0Orchestrator } from './orchestrator.js';
+import { PluginManager } from './plugins.js';
+
+const teamSnippet: CodeSnippet = {
+  id: 'retry-helper',
+  title: 'Exponential Retry Helper',
+  content: 'export const retry = async (fn, attempts = 3) => { /* ... */ };',
+  language: 'typescript',
+  tags: ['retry', 'backoff', 'network'],
+  lastUsed: '2026-01-01T00:00:00.000Z',
+  project: 'platform-core',
+};
+
+describe('InMemoryKnowledgeStore', () => {
+  it('should not share arrays with the seed data', async () => {
+    const store = createFixtureKnowledgeStore();
+    await store.deleteSnippet('floating-card-1');
+
+    expect(FIXTURE_KNOWLEDGE.snippets.some((s) => s.id === 'floating-card-1')).toBe(true);
+    expect(await store.getSnippet('floating-card-1')).toBeUndefined();
+  });
+
+  it('should insert and replace records by id', async () => {
+    const store = new InMemoryKnowledgeStore();
+    await store.saveSnippet(teamSnippet);
+    await store.saveSnippet({ ...teamSnippet, title: 'Retry Helper v2' });
+
+    const snippets = await store.listSnippets();
+    expect(snippets).toHaveLength(1);
+    expect(snippets[0].title).toBe('Retry Helper v2');
+  });
+
+  it('should report whether a delete removed anything', async () => {
+    const store = createFixtureKnowledgeStore();
+    expect(await store.deleteCampaign('eco-product-launch')).toBe(true);
+    expect(await store.deleteCampaign('eco-product-launch')).toBe(false);
+  });
+});
+
+describe('JsonFileKnowledgeStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'l0-knowledge-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return seed data until the file is written', async () => {
+    const store = new JsonFileKnowledgeStore({ path: join(dir, 'knowledge.json'), seed: FIXTURE_KNOWLEDGE });
+    expect(await store.listMemories()).toHaveLength(FIXTURE_KNOWLEDGE.memories.length);
+  });
+
+  it('should persist writes across instances', async () => {
+    const path = join(dir, 'nested', 'knowledge.json');
+    await new JsonFileKnowledgeStore({ path }).saveSnippet(teamSnippet);
+
+    const reopened = new JsonFileKnowledgeStore({ path });
+    expect(await reopened.getSnippet('retry-helper')).toEqual(teamSnippet);
+
+    const onDisk = JSON.parse(await readFile(path, 'utf8'));
+    expect(onDisk.snippets).toHaveLength(1);
+  });
+
+  it('should default list fields missing from hand-written records', async () => {
+    const path = join(dir, 'knowledge.json');
+    await writeFile(
+      path,
+      JSON.stringify({
+        snippets: [{ id: 'hand', title: 'Hand written', content: 'x', language: 'text', lastUsed: '2026-10-19', project: 'demo' }],
+        memories: [{ id: 'note', title: 'Note', content: 'y', type: 'note', date: '2026-10-19' }],
+        campaigns: [{ id: 'spring', title: 'Spring', strategy: 'z', budget: '$1,000', duration: '7 days' }],
+      })
+    );
+    const store = new JsonFileKnowledgeStore({ path });
+
+    expect((await store.getSnippet('hand'))?.tags).toEqual([]);
+    expect((await store.getMemory('note'))?.tags).toEqual([]);
+    expect(await store.getCampaign('spring')).toMatchObject({ platforms: [], kpis: [] });
+    expect((await new L0Orchestrator({ store }).findCode('hand written')).code).toBe('x');
+  });
+});
+
+describe('L0Orchestrator with an injected store', () => {
+  it('should find snippets from the injected store', async () => {
+    const store = new InMemoryKnowledgeStore({ snippets: [teamSnippet] });
+    const orchestrator = new L0Orchestrator({ store });
+
+    const response = await orchestrator.findCode('retry helper');
+    expect(response.type).toBe('snippet');
+    expect(response.code).toBe(teamSnippet.content);
+  });
+
+  it('should not find fixture snippets in an empty store', async () => {
+    const orchestrator = new L0Orchestrator({ store: new InMemoryKnowledgeStore() });
+
+    const response = await orchestrator.findCode('floating card');
+    expect(response.code).toBeUndefined();
+  });
+
+  it('should search memories from the injected store', async () => {
+    const store = new InMemoryKnowledgeStore({
+      memories: [{ id: 'm1', title: 'Postgres Tuning', content: 'Raise work_mem for sorts', type: 'reference', date: 'today', tags: ['postgres'] }],
+    });
+    const orchestrator = new L0Orchestrator({ store });
+
+    const response = await orchestrator.searchMemories('postgres');
+    expect(response.related).toEqual(['Postgres Tuning']);
+  });
+
+  it('should include matching stored campaigns in campaign plans', async () => {
+    const orchestrator = new L0Orchestrator({ store: createFixtureKnowledgeStore() });
+
+    const response = await orchestrator.orchestrateCampaign('eco product launch');
+    const data = response.data as Record<string, unknown>;
+    expect(data.similarCampaigns).toEqual([
+      expect.objectContaining({ id: 'eco-product-launch' }),
+    ]);
+  });
+
+  it('should still accept a plugin manager as the only argument', () => {
+    const plugins = new PluginManager();
+    const orchestrator = new L0Orchestrator(plugins);
+    expect(orchestrator.getPluginManager()).toBe(plugins);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * VortexAI L0 Knowledge Store
+ *
+ * Pluggable storage for code snippets, memories and campaigns
+ * @module knowledge-store
+ */
+
+import type { CampaignPlan } from './campaign-planner.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface CodeSnippet {
+  id: string;
+  title: string;
+  content: string;
+  language: string;
+  tags: string[];
+  lastUsed: string;
+  project: string;
+}
+
+export interface Memory {
+  id: string;
+  title: string;
+  content: string;
+  type: string;
+  date: string;
+  tags: string[];
+}
+
+export interface Campaign {
+  id: string;
+  title: string;
+  strategy: string;
+  platforms: string[];
+  budget: string;
+  duration: string;
+  kpis: string[];
+  /** Budget split, schedule and KPI targets, present on campaigns made by the planner */
+  plan?: CampaignPlan;
+}
+
+export interface KnowledgeData {
+  snippets: CodeSnippet[];
+  memories: Memory[];
+  campaigns: Campaign[];
+}
+
+/**
+ * Storage backend read and written by the orchestrator
+ *
+ * Implementations may be synchronous under the hood, but every method is
+ * async so that file, database or remote backends can be dropped in.
+ */
+export interface KnowledgeStore {
+  listSnippets(): Promise<CodeSnippet[]>;
+  getSnippet(id: string): Promise<CodeSnippet | undefined>;
+  saveSnippet(snippet: CodeSnippet): Promise<void>;
+  deleteSnippet(id: string): Promise<boolean>;
+
+  listMemories(): Promise<Memory[]>;
+  getMemory(id: string): Promise<Memory | undefined>;
+  saveMemory(memory: Memory): Promise<void>;
+  deleteMemory(id: string): Promise<boolean>;
+
+  listCampaigns(): Promise<Campaign[]>;
+  getCampaign(id: string): Promise<Campaign | undefined>;
+  saveCampaign(campaign: Campaign): Promise<void>;
+  deleteCampaign(id: string): Promise<boolean>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Create an empty knowledge data set, optionally merged with seed data
+ *
+ * List fields missing from hand-written records, such as `tags`, default to empty.
+ */
+export function createKnowledgeData(seed: Partial<KnowledgeData> = {}): KnowledgeData {
+  return {
+    snippets: (seed.snippets || []).map((s) => ({ ...s, tags: [...(s.tags || [])] })),
+    memories: (seed.memories || []).map((m) => ({ ...m, tags: [...(m.tags || [])] })),
+    campaigns: (seed.campaigns || []).map((c) => ({
+      ...c,
+      platforms: [...(c.platforms || [])],
+      kpis: [...(c.kpis || [])],
+      ...(c.plan && { plan: structuredClone(c.plan) }),
+    })),
+  };
+}
+
+/**
+ * Insert or replace a record by id
+ */
+export function upsertRecord<T extends { id: string }>(records: T[], record: T): void {
+  const index = records.findIndex((r) => r.id === record.id);
+  if (index === -1) {
+    records.push(record);
+  } else {
+    records[index] = record;
+  }
+}
+
+/**
+ * Remove a record by id
+ *
+ * @returns boolean indicating whether a record was removed
+ */
+export function removeRecord<T extends { id: string }>(records: T[], id: string): boolean {
+  const index = records.findIndex((r) => r.id === id);
+  if (index === -1) return false;
+
+  records.splice(index, 1);
+  return true;
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Knowledge store kept entirely in process memory
+ *
+ * @example
+ * ```typescript
+ * import { InMemoryKnowledgeStore, L0Orchestrator } from 'vortexai-l0';
+ *
+ * const store = new InMemoryKnowledgeStore({ snippets: mySnippets });
+ * const orchestrator = new L0Orchestrator({ store });
+ * ```
+ */
+export class InMemoryKnowledgeStore implements KnowledgeStore {
+  private readonly data: KnowledgeData;
+
+  constructor(seed?: Partial<KnowledgeData>) {
+    this.data = createKnowledgeData(seed);
+  }
+
+  // ==========================================================================
+  // Snippets
+  // ==========================================================================
+
+  async listSnippets(): Promise<CodeSnippet[]> {
+    return [...this.data.snippets];
+  }
+
+  async getSnippet(id: string): Promise<CodeSnippet | undefined> {
+    return this.data.snippets.find((s) => s.id === id);
+  }
+
+  async saveSnippet(snippet: CodeSnippet): Promise<void> {
+    upsertRecord(this.data.snippets, snippet);
+  }
+
+  async deleteSnippet(id: string): Promise<boolean> {
+    return removeRecord(this.data.snippets, id);
+  }
+
+  // ==========================================================================
+  // Memories
+  // ==========================================================================
+
+  async listMemories(): Promise<Memory[]> {
+    return [...this.data.memories];
+  }
+
+  async getMemory(id: string): Promise<Memory | undefined> {
+    return this.data.memories.find((m) => m.id === id);
+  }
+
+  async saveMemory(memory: Memory): Promise<void> {
+    upsertRecord(this.data.memories, memory);
+  }
+
+  async deleteMemory(id: string): Promise<boolean> {
+    return removeRecord(this.data.memories, id);
+  }
+
+  // ==========================================================================
+  // Campaigns
+  // ==========================================================================
+
+  async listCampaigns(): Promise<Campaign[]> {
+    return [...this.data.campaigns];
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+    return this.data.campaigns.find((c) => c.id === id);
+  }
+
+  async saveCampaign(campaign: Campaign): Promise<void> {
+    upsertRecord(this.data.campaigns, campaign);
+  }
+
+  async deleteCampaign(id: string): Promise<boolean> {
+    return removeRecord(this.data.campaigns, id);
+  }
+}
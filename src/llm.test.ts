@@ -0,0 +1,282 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AnthropicProvider,
+  MockLLMProvider,
+  OpenAICompatibleProvider,
+  createLLMProvider,
+  type LLMStreamChunk,
+} from './llm.js';
+import { resolveLLMConfig } from './node/workspace-config.js';
+import { L0Orchestrator, type L0Response } from './orchestrator.js';
+import { createPluginManager } from './plugins.js';
+
+interface RecordedRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Fetch stub returning a JSON body, or an event stream split into awkward chunks
+ */
+function fakeFetch(reply: unknown | string[], requests: RecordedRequest[] = []): typeof fetch {
+  return (async (url: string, init: RequestInit) => {
+    requests.push({ url, headers: init.headers as Record<string, string>, body: JSON.parse(String(init.body)) });
+
+    if (!Array.isArray(reply)) {
+      return new Response(JSON.stringify(reply), { status: 200 });
+    }
+
+    const text = reply.map((event) => `${event}\n\n`).join('');
+    const encoder = new TextEncoder();
+    return new Response(
+      new ReadableStream({
+        start(controller) {
+          for (let i = 0; i < text.length; i += 7) controller.enqueue(encoder.encode(text.slice(i, i + 7)));
+          controller.close();
+        },
+      })
+    );
+  }) as typeof fetch;
+}
+
+async function collect(stream: AsyncIterable<LLMStreamChunk>): Promise<LLMStreamChunk[]> {
+  const chunks: LLMStreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe('OpenAICompatibleProvider', () => {
+  it('should send tools and tool results and parse tool calls', async () => {
+    const requests: RecordedRequest[] = [];
+    const llm = new OpenAICompatibleProvider({
+      apiKey: 'sk-test',
+      baseUrl: 'http://localhost:11434/v1/',
+      fetch: fakeFetch(
+        {
+          model: 'llama3.1',
+          choices: [{ message: { content: null, tool_calls: [{ id: 'c1', function: { name: 'lookup', arguments: '{"q":"eco"}' } }] }, finish_reason: 'tool_calls' }],
+          usage: { prompt_tokens: 12, completion_tokens: 3 },
+        },
+        requests
+      ),
+    });
+
+    const response = await llm.chat({
+      messages: [
+        { role: 'user', content: 'find eco notes' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 'c0', name: 'lookup', arguments: { q: 'x' } }] },
+        { role: 'tool', toolCallId: 'c0', content: '[]' },
+      ],
+      tools: [{ name: 'lookup', description: 'Look things up', parameters: { type: 'object' } }],
+      responseFormat: 'json',
+    });
+
+    expect(response).toEqual({
+      content: '',
+      toolCalls: [{ id: 'c1', name: 'lookup', arguments: { q: 'eco' } }],
+      finishReason: 'tool_calls',
+      model: 'llama3.1',
+      usage: { inputTokens: 12, outputTokens: 3 },
+    });
+    expect(requests[0].url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(requests[0].headers.authorization).toBe('Bearer sk-test');
+    expect(requests[0].body).toMatchObject({
+      response_format: { type: 'json_object' },
+      tools: [{ type: 'function', function: { name: 'lookup' } }],
+      messages: [{}, { tool_calls: [{ id: 'c0', function: { arguments: '{"q":"x"}' } }] }, { role: 'tool', tool_call_id: 'c0' }],
+    });
+  });
+
+  it('should stream text and assemble tool calls from deltas', async () => {
+    const delta = (d: unknown, finish: string | null = null) => `data: ${JSON.stringify({ model: 'gpt-test', choices: [{ delta: d, finish_reason: finish }] })}`;
+    const llm = new OpenAICompatibleProvider({
+      fetch: fakeFetch([
+        delta({ content: 'Hel' }),
+        delta({ content: 'lo' }),
+        delta({ tool_calls: [{ index: 0, id: 'c1', function: { name: 'look', arguments: '{"q":' } }] }),
+        delta({ tool_calls: [{ index: 0, function: { name: 'up', arguments: '"tea"}' } }] }, 'tool_calls'),
+        'data: [DONE]',
+      ]),
+    });
+
+    const chunks = await collect(llm.stream({ messages: [{ role: 'user', content: 'hi' }] }));
+    expect(chunks.filter((c) => c.type === 'text').map((c) => (c as { text: string }).text)).toEqual(['Hel', 'lo']);
+    expect(chunks.at(-1)).toEqual({
+      type: 'done',
+      response: { content: 'Hello', toolCalls: [{ id: 'c1', name: 'lookup', arguments: { q: 'tea' } }], finishReason: 'tool_calls', model: 'gpt-test' },
+    });
+  });
+
+  it('should request a JSON schema when one is given', async () => {
+    const requests: RecordedRequest[] = [];
+    const llm = new OpenAICompatibleProvider({ fetch: fakeFetch({ model: 'm', choices: [{ message: { content: '{}' }, finish_reason: 'stop' }] }, requests) });
+    await llm.chat({ messages: [{ role: 'user', content: 'plan' }], responseFormat: 'json', responseSchema: { name: 'plan', schema: { type: 'object' } } });
+
+    expect(requests[0].body.response_format).toEqual({ type: 'json_schema', json_schema: { name: 'plan', schema: { type: 'object' } } });
+  });
+
+  it('should surface HTTP errors with the status', async () => {
+    const llm = new OpenAICompatibleProvider({ fetch: (async () => new Response('rate limited', { status: 429 })) as typeof fetch });
+    await expect(llm.chat({ messages: [{ role: 'user', content: 'hi' }] })).rejects.toThrow(/\(429\): rate limited/);
+  });
+});
+
+describe('AnthropicProvider', () => {
+  it('should move system prompts out and merge tool results into one user turn', async () => {
+    const requests: RecordedRequest[] = [];
+    const llm = new AnthropicProvider({
+      apiKey: 'ant-key',
+      fetch: fakeFetch(
+        {
+          model: 'claude-test',
+          content: [{ type: 'text', text: 'Checking. ' }, { type: 'tool_use', id: 't1', name: 'lookup', input: { q: 'tea' } }],
+          stop_reason: 'tool_use',
+          usage: { input_tokens: 20, output_tokens: 5 },
+        },
+        requests
+      ),
+    });
+
+    const response = await llm.chat({
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'compare' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 'a', name: 'lookup', arguments: {} }, { id: 'b', name: 'lookup', arguments: {} }] },
+        { role: 'tool', toolCallId: 'a', content: '1' },
+        { role: 'tool', toolCallId: 'b', content: '2' },
+      ],
+      responseFormat: 'json',
+    });
+
+    expect(response).toMatchObject({ content: 'Checking. ', finishReason: 'tool_calls', toolCalls: [{ id: 't1', arguments: { q: 'tea' } }] });
+    expect(requests[0].url).toBe('https://api.anthropic.com/v1/messages');
+    expect(requests[0].headers['x-api-key']).toBe('ant-key');
+    expect(requests[0].body.system).toMatch(/^Be brief\.\n\nRespond with a single JSON object/);
+    expect(requests[0].body.max_tokens).toBe(1024);
+    expect((requests[0].body.messages as unknown[]).slice(2)).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'a', content: '1' },
+          { type: 'tool_result', tool_use_id: 'b', content: '2' },
+        ],
+      },
+    ]);
+  });
+
+  it('should stream text deltas and tool input', async () => {
+    const event = (type: string, body: object) => `event: ${type}\ndata: ${JSON.stringify({ type, ...body })}`;
+    const llm = new AnthropicProvider({
+      apiKey: 'k',
+      fetch: fakeFetch([
+        event('message_start', { message: { model: 'claude-test', usage: { input_tokens: 9 } } }),
+        event('content_block_delta', { index: 0, delta: { type: 'text_delta', text: 'On it' } }),
+        event('content_block_start', { index: 1, content_block: { type: 'tool_use', id: 't1', name: 'lookup', input: {} } }),
+        event('content_block_delta', { index: 1, delta: { type: 'input_json_delta', partial_json: '{"q":"te' } }),
+        event('content_block_delta', { index: 1, delta: { type: 'input_json_delta', partial_json: 'a"}' } }),
+        event('content_block_stop', { index: 1 }),
+        event('message_delta', { delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 4 } }),
+        event('message_stop', {}),
+      ]),
+    });
+
+    const chunks = await collect(llm.stream({ messages: [{ role: 'user', content: 'hi' }] }));
+    expect(chunks.map((c) => c.type)).toEqual(['text', 'tool_call', 'done']);
+    expect(chunks.at(-1)).toEqual({
+      type: 'done',
+      response: {
+        content: 'On it',
+        toolCalls: [{ id: 't1', name: 'lookup', arguments: { q: 'tea' } }],
+        finishReason: 'tool_calls',
+        model: 'claude-test',
+        usage: { inputTokens: 9, outputTokens: 4 },
+      },
+    });
+  });
+});
+
+describe('MockLLMProvider', () => {
+  it('should answer from fixtures in order and fall back deterministically', async () => {
+    const llm = new MockLLMProvider([
+      { match: /launch/i, toolCalls: [{ id: 'c1', name: 'search', arguments: {} }], once: true },
+      { match: 'launch', content: 'Teaser week first.' },
+    ]);
+    const ask = (content: string, responseFormat?: 'json') => llm.chat({ messages: [{ role: 'user', content }], responseFormat });
+
+    expect((await ask('Plan a LAUNCH')).finishReason).toBe('tool_calls');
+    expect((await ask('Plan a launch')).content).toBe('Teaser week first.');
+    expect((await ask('anything')).content).toBe('Mock response to: anything');
+    expect((await ask('anything', 'json')).content).toBe('{}');
+    expect(llm.requests).toHaveLength(4);
+  });
+
+  it('should stream the same response word by word', async () => {
+    const llm = new MockLLMProvider([{ content: 'one two  three' }]);
+    const chunks = await collect(llm.stream({ messages: [{ role: 'user', content: 'count' }] }));
+    expect(chunks.map((c) => (c.type === 'text' ? c.text : c.type))).toEqual(['one', ' two', '  three', 'done']);
+  });
+});
+
+describe('LLM configuration', () => {
+  it('should create providers by name and reject unknown ones', () => {
+    expect(createLLMProvider({ provider: 'mock', model: 'fixture' })).toMatchObject({ name: 'mock', model: 'fixture' });
+    expect(createLLMProvider({ provider: 'openai' }).model).toBe('gpt-4o-mini');
+    expect(() => createLLMProvider({ provider: 'anthropic' })).toThrow(/requires an apiKey/);
+    expect(() => createLLMProvider({ provider: 'llama' as never })).toThrow(/Unknown LLM provider "llama"/);
+  });
+
+  it('should let environment variables override the workspace config', () => {
+    const config = { llm: { provider: 'openai' as const, model: 'gpt-4o', baseUrl: 'http://proxy' } };
+
+    expect(resolveLLMConfig({})).toBeUndefined();
+    expect(resolveLLMConfig(config, { OPENAI_API_KEY: 'sk-env' })).toEqual({ provider: 'openai', model: 'gpt-4o', baseUrl: 'http://proxy', apiKey: 'sk-env' });
+    expect(resolveLLMConfig(config, { VORTEX_LLM_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'ant' })).toEqual({ provider: 'anthropic', apiKey: 'ant' });
+    expect(() => resolveLLMConfig({}, { VORTEX_LLM_PROVIDER: 'nope' })).toThrow(/Unknown LLM provider/);
+  });
+});
+
+describe('L0Orchestrator with an LLM provider', () => {
+  it('should answer general requests through the provider and serve knowledge searches', async () => {
+    const llm = new MockLLMProvider([
+      { match: 'onboarding', toolCalls: [{ id: 'k1', name: 'search_knowledge', arguments: { query: 'react hooks' } }], once: true },
+      { match: 'onboarding', content: 'Pair new hires with the React hooks guide.' },
+    ]);
+    const orchestrator = new L0Orchestrator({ plugins: createPluginManager(true), llm });
+
+    const response = await orchestrator.query('improve onboarding');
+    expect(response.type).toBe('orchestration');
+    expect(response.data).toMatchObject({ answer: 'Pair new hires with the React hooks guide.', model: 'mock/mock', knowledgeLookups: 1 });
+
+    const toolResult = llm.requests[1].messages.find((m) => m.role === 'tool');
+    expect(toolResult?.toolCallId).toBe('k1');
+    expect(JSON.parse(toolResult!.content).length).toBeGreaterThan(0);
+  });
+
+  it('should fall back to the template answer when the provider rejects', async () => {
+    const llm = new OpenAICompatibleProvider({
+      apiKey: 'bad-key',
+      fetch: async () => {
+        throw new Error('connect ECONNREFUSED');
+      },
+    });
+    const events: string[] = [];
+    let response: L0Response | undefined;
+    const orchestrator = new L0Orchestrator({ plugins: createPluginManager(true), llm });
+
+    for await (const event of orchestrator.queryStream('improve onboarding')) {
+      if (event.type === 'step:finished') events.push(`${event.stepId}:${event.status}`);
+      if (event.type === 'final') response = event.response;
+    }
+
+    expect(events).toContain('answer:failed');
+    expect(response?.message).toBe('🧠 L0 analyzing: "improve onboarding"');
+    expect(response?.data).toMatchObject({ planner: 'template', answerError: 'connect ECONNREFUSED' });
+    expect(response?.data).not.toHaveProperty('answer');
+  });
+
+  it('should keep the template answer without a provider', async () => {
+    const response = await new L0Orchestrator(createPluginManager(true)).query('improve onboarding');
+    expect(response.data).toMatchObject({ requestType: 'General Orchestration', complexity: 'Medium' });
+  });
+});
@@ -0,0 +1,704 @@
+/**
+ * VortexAI L0 LLM Providers
+ *
+ * Provider-neutral chat, streaming and tool-call interface with HTTP adapters and a deterministic mock
+ * @module llm
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type LLMRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+  /** Tool calls requested by an assistant message */
+  toolCalls?: LLMToolCall[];
+  /** Call answered by a `tool` message */
+  toolCallId?: string;
+}
+
+/**
+ * A function the model may call, described by a JSON Schema
+ */
+export interface LLMTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LLMChatRequest {
+  messages: LLMMessage[];
+  tools?: LLMTool[];
+  /** Ask for a single JSON object instead of free text */
+  responseFormat?: 'text' | 'json';
+  /** JSON Schema the object must follow when `responseFormat` is `json` */
+  responseSchema?: LLMResponseSchema;
+  temperature?: number;
+  maxTokens?: number;
+  /** Overrides the provider's configured model */
+  model?: string;
+  signal?: AbortSignal;
+}
+
+export type LLMFinishReason = 'stop' | 'length' | 'tool_calls';
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMChatResponse {
+  content: string;
+  toolCalls: LLMToolCall[];
+  finishReason: LLMFinishReason;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export type LLMStreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; toolCall: LLMToolCall }
+  | { type: 'done'; response: LLMChatResponse };
+
+/**
+ * A chat model
+ *
+ * `stream` yields text as it arrives, each tool call once its arguments are
+ * complete, and finally a `done` chunk carrying the assembled response.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>;
+  stream(request: LLMChatRequest): AsyncIterable<LLMStreamChunk>;
+}
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'mock';
+
+/**
+ * Provider selection as stored in the workspace config
+ */
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model?: string;
+  apiKey?: string;
+  /** API root, e.g. a local OpenAI-compatible server such as `http://localhost:11434/v1` */
+  baseUrl?: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Canned responses for the `mock` provider */
+  fixtures?: MockLLMFixture[];
+}
+
+export interface HttpProviderOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Fetch implementation (default: global `fetch`) */
+  fetch?: typeof fetch;
+}
+
+export interface MockLLMFixture {
+  /** Substring (case-insensitive) or pattern tested against the latest user message; omit to match anything */
+  match?: string | RegExp;
+  content?: string;
+  toolCalls?: LLMToolCall[];
+  /** Only answer requests asking for this format (default: text) */
+  responseFormat?: 'text' | 'json';
+  /** Use this fixture for one call only */
+  once?: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'anthropic', 'mock'];
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_DEFAULT_MODEL = 'claude-3-5-haiku-latest';
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 1024;
+const ERROR_BODY_LENGTH = 200;
+const JSON_INSTRUCTION = 'Respond with a single JSON object and nothing else.';
+
+// ============================================================================
+// HTTP Helpers
+// ============================================================================
+
+interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Parse a `text/event-stream` response body
+ */
+async function* readServerSentEvents(response: Response): AsyncGenerator<ServerSentEvent> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+
+  const takeLine = (line: string): ServerSentEvent | undefined => {
+    if (line === '') {
+      const complete = data.length > 0 ? { event, data: data.join('\n') } : undefined;
+      event = undefined;
+      data = [];
+      return complete;
+    }
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    return undefined;
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const complete = takeLine(buffer.slice(0, newline).replace(/\r$/, ''));
+      buffer = buffer.slice(newline + 1);
+      if (complete) yield complete;
+    }
+
+    if (done) {
+      const complete = takeLine(buffer) || takeLine('');
+      if (complete) yield complete;
+      return;
+    }
+  }
+}
+
+async function postJson(
+  fetchImpl: typeof fetch,
+  provider: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetchImpl(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`${provider} request failed (${response.status}): ${text.slice(0, ERROR_BODY_LENGTH)}`);
+  }
+  return response;
+}
+
+/**
+ * System instruction for JSON output on APIs without a native response format
+ */
+function jsonInstruction(schema?: LLMResponseSchema): string {
+  return schema ? `${JSON_INSTRUCTION} It must match this JSON Schema:\n${JSON.stringify(schema.schema)}` : JSON_INSTRUCTION;
+}
+
+function parseToolArguments(raw: string | undefined): Record<string, unknown> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// ============================================================================
+// OpenAI-Compatible Provider
+// ============================================================================
+
+interface OpenAIToolCall {
+  id: string;
+  type?: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface OpenAIMessage {
+  content?: string | null;
+  tool_calls?: OpenAIToolCall[];
+}
+
+interface OpenAICompletion {
+  model: string;
+  choices: Array<{ message: OpenAIMessage; finish_reason: string | null }>;
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+interface OpenAIStreamChunk {
+  model?: string;
+  choices?: Array<{
+    delta: { content?: string | null; tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }> };
+    finish_reason: string | null;
+  }>;
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+}
+
+function toOpenAIFinishReason(reason: string | null | undefined): LLMFinishReason {
+  return reason === 'length' ? 'length' : reason === 'tool_calls' ? 'tool_calls' : 'stop';
+}
+
+/**
+ * Adapter for the OpenAI Chat Completions API and compatible servers
+ *
+ * Works with OpenAI, Azure-style gateways and local servers (Ollama,
+ * LM Studio, vLLM) that expose `/chat/completions`.
+ *
+ * @example
+ * ```typescript
+ * const llm = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' });
+ * const { content } = await llm.chat({ messages: [{ role: 'user', content: 'Hello' }] });
+ * ```
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private readonly options: HttpProviderOptions;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: HttpProviderOptions = {}) {
+    this.options = options;
+    this.model = options.model || OPENAI_DEFAULT_MODEL;
+    this.fetchImpl = options.fetch || fetch;
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const response = await this.post(request, false);
+    const completion = (await response.json()) as OpenAICompletion;
+    const choice = completion.choices[0];
+
+    return {
+      content: choice?.message.content || '',
+      toolCalls: (choice?.message.tool_calls || []).map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments),
+      })),
+      finishReason: toOpenAIFinishReason(choice?.finish_reason),
+      model: completion.model || this.model,
+      ...(completion.usage && {
+        usage: { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens },
+      }),
+    };
+  }
+
+  async *stream(request: LLMChatRequest): AsyncIterable<LLMStreamChunk> {
+    const response = await this.post(request, true);
+    const partialCalls: Array<{ id: string; name: string; arguments: string }> = [];
+    let content = '';
+    let model = this.model;
+    let finishReason: string | null = null;
+    let usage: LLMUsage | undefined;
+
+    for await (const { data } of readServerSentEvents(response)) {
+      if (data === '[DONE]') break;
+
+      const chunk = JSON.parse(data) as OpenAIStreamChunk;
+      model = chunk.model || model;
+      if (chunk.usage) {
+        usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+      }
+
+      for (const choice of chunk.choices || []) {
+        if (choice.delta.content) {
+          content += choice.delta.content;
+          yield { type: 'text', text: choice.delta.content };
+        }
+        for (const delta of choice.delta.tool_calls || []) {
+          const call = (partialCalls[delta.index] ||= { id: '', name: '', arguments: '' });
+          call.id = delta.id || call.id;
+          call.name += delta.function?.name || '';
+          call.arguments += delta.function?.arguments || '';
+        }
+        finishReason = choice.finish_reason || finishReason;
+      }
+    }
+
+    const toolCalls = partialCalls.map((call) => ({ id: call.id, name: call.name, arguments: parseToolArguments(call.arguments) }));
+    for (const toolCall of toolCalls) {
+      yield { type: 'tool_call', toolCall };
+    }
+
+    yield {
+      type: 'done',
+      response: { content, toolCalls, finishReason: toOpenAIFinishReason(finishReason), model, ...(usage && { usage }) },
+    };
+  }
+
+  private post(request: LLMChatRequest, stream: boolean): Promise<Response> {
+    const { apiKey, baseUrl = OPENAI_BASE_URL, headers = {} } = this.options;
+    const maxTokens = request.maxTokens ?? this.options.maxTokens;
+    const temperature = request.temperature ?? this.options.temperature;
+
+    const body = {
+      model: request.model || this.model,
+      messages: request.messages.map((message) => {
+        if (message.role === 'tool') {
+          return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+        }
+        if (message.toolCalls?.length) {
+          return {
+            role: message.role,
+            content: message.content || null,
+            tool_calls: message.toolCalls.map((call) => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+            })),
+          };
+        }
+        return { role: message.role, content: message.content };
+      }),
+      ...(request.tools?.length && {
+        tools: request.tools.map((tool) => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+      }),
+      ...(request.responseFormat === 'json' && {
+        response_format: request.responseSchema
+          ? { type: 'json_schema', json_schema: { name: request.responseSchema.name, schema: request.responseSchema.schema } }
+          : { type: 'json_object' },
+      }),
+      ...(maxTokens !== undefined && { max_tokens: maxTokens }),
+      ...(temperature !== undefined && { temperature }),
+      ...(stream && { stream: true }),
+    };
+
+    return postJson(
+      this.fetchImpl,
+      'OpenAI-compatible',
+      `${baseUrl.replace(/\/$/, '')}/chat/completions`,
+      { ...(apiKey && { authorization: `Bearer ${apiKey}` }), ...headers },
+      body,
+      request.signal
+    );
+  }
+}
+
+// ============================================================================
+// Anthropic Provider
+// ============================================================================
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicResponse {
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  index?: number;
+  message?: { model?: string; usage?: { input_tokens: number; output_tokens?: number } };
+  content_block?: AnthropicContentBlock;
+  delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string | null };
+  usage?: { output_tokens: number };
+  error?: { message: string };
+}
+
+function toAnthropicFinishReason(reason: string | null | undefined): LLMFinishReason {
+  return reason === 'max_tokens' ? 'length' : reason === 'tool_use' ? 'tool_calls' : 'stop';
+}
+
+/**
+ * Convert chat messages to the Messages API shape
+ *
+ * System messages move to the top-level `system` field, and consecutive tool
+ * results are merged into a single user turn as the API requires.
+ */
+function toAnthropicMessages(messages: LLMMessage[]): { system: string; messages: AnthropicMessage[] } {
+  const system: string[] = [];
+  const converted: AnthropicMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      system.push(message.content);
+      continue;
+    }
+
+    if (message.role === 'tool') {
+      const block: AnthropicContentBlock = { type: 'tool_result', tool_use_id: message.toolCallId || '', content: message.content };
+      const previous = converted[converted.length - 1];
+      if (previous?.role === 'user' && Array.isArray(previous.content) && previous.content.every((b) => b.type === 'tool_result')) {
+        previous.content.push(block);
+      } else {
+        converted.push({ role: 'user', content: [block] });
+      }
+      continue;
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      converted.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+          ...message.toolCalls.map((call) => ({ type: 'tool_use' as const, id: call.id, name: call.name, input: call.arguments })),
+        ],
+      });
+      continue;
+    }
+
+    converted.push({ role: message.role, content: message.content });
+  }
+
+  return { system: system.join('\n\n'), messages: converted };
+}
+
+/**
+ * Adapter for the Anthropic Messages API
+ *
+ * @example
+ * ```typescript
+ * const llm = new AnthropicProvider({ apiKey: process.env.ANTHROPIC_API_KEY });
+ * for await (const chunk of llm.stream({ messages: [{ role: 'user', content: 'Plan a launch' }] })) {
+ *   if (chunk.type === 'text') process.stdout.write(chunk.text);
+ * }
+ * ```
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+  private readonly options: HttpProviderOptions;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: HttpProviderOptions = {}) {
+    this.options = options;
+    this.model = options.model || ANTHROPIC_DEFAULT_MODEL;
+    this.fetchImpl = options.fetch || fetch;
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const response = await this.post(request, false);
+    const message = (await response.json()) as AnthropicResponse;
+
+    return {
+      content: message.content
+        .filter((block): block is Extract<AnthropicContentBlock, { type: 'text' }> => block.type === 'text')
+        .map((block) => block.text)
+        .join(''),
+      toolCalls: message.content
+        .filter((block): block is Extract<AnthropicContentBlock, { type: 'tool_use' }> => block.type === 'tool_use')
+        .map((block) => ({ id: block.id, name: block.name, arguments: block.input || {} })),
+      finishReason: toAnthropicFinishReason(message.stop_reason),
+      model: message.model || this.model,
+      ...(message.usage && {
+        usage: { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens },
+      }),
+    };
+  }
+
+  async *stream(request: LLMChatRequest): AsyncIterable<LLMStreamChunk> {
+    const response = await this.post(request, true);
+    const toolBlocks = new Map<number, { id: string; name: string; json: string }>();
+    const toolCalls: LLMToolCall[] = [];
+    let content = '';
+    let model = this.model;
+    let stopReason: string | null | undefined;
+    const usage: LLMUsage = { inputTokens: 0, outputTokens: 0 };
+
+    for await (const { data } of readServerSentEvents(response)) {
+      const event = JSON.parse(data) as AnthropicStreamEvent;
+
+      switch (event.type) {
+        case 'message_start':
+          model = event.message?.model || model;
+          usage.inputTokens = event.message?.usage?.input_tokens || 0;
+          break;
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            toolBlocks.set(event.index!, { id: event.content_block.id, name: event.content_block.name, json: '' });
+          }
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            content += event.delta.text;
+            yield { type: 'text', text: event.delta.text };
+          } else if (event.delta?.type === 'input_json_delta') {
+            const block = toolBlocks.get(event.index!);
+            if (block) block.json += event.delta.partial_json || '';
+          }
+          break;
+        case 'content_block_stop': {
+          const block = toolBlocks.get(event.index!);
+          if (block) {
+            const toolCall = { id: block.id, name: block.name, arguments: parseToolArguments(block.json) };
+            toolCalls.push(toolCall);
+            yield { type: 'tool_call', toolCall };
+          }
+          break;
+        }
+        case 'message_delta':
+          stopReason = event.delta?.stop_reason ?? stopReason;
+          usage.outputTokens = event.usage?.output_tokens ?? usage.outputTokens;
+          break;
+        case 'error':
+          throw new Error(`Anthropic stream error: ${event.error?.message || 'unknown error'}`);
+      }
+    }
+
+    yield { type: 'done', response: { content, toolCalls, finishReason: toAnthropicFinishReason(stopReason), model, usage } };
+  }
+
+  private post(request: LLMChatRequest, stream: boolean): Promise<Response> {
+    const { apiKey, baseUrl = ANTHROPIC_BASE_URL, headers = {} } = this.options;
+    const { system, messages } = toAnthropicMessages(request.messages);
+    const instructions = request.responseFormat === 'json' ? [system, jsonInstruction(request.responseSchema)].filter(Boolean).join('\n\n') : system;
+    const temperature = request.temperature ?? this.options.temperature;
+
+    const body = {
+      model: request.model || this.model,
+      max_tokens: request.maxTokens ?? this.options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      messages,
+      ...(instructions && { system: instructions }),
+      ...(request.tools?.length && {
+        tools: request.tools.map((tool) => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })),
+      }),
+      ...(temperature !== undefined && { temperature }),
+      ...(stream && { stream: true }),
+    };
+
+    return postJson(
+      this.fetchImpl,
+      'Anthropic',
+      `${baseUrl.replace(/\/$/, '')}/v1/messages`,
+      { ...(apiKey && { 'x-api-key': apiKey }), 'anthropic-version': ANTHROPIC_VERSION, ...headers },
+      body,
+      request.signal
+    );
+  }
+}
+
+// ============================================================================
+// Mock Provider
+// ============================================================================
+
+/**
+ * Deterministic offline provider for tests, demos and CI
+ *
+ * Replies come from fixtures matched against the latest user message and
+ * the requested format, in order. Without a matching fixture it echoes the request (or `{}` when JSON
+ * output was asked for). Every request is recorded in `requests`.
+ *
+ * @example
+ * ```typescript
+ * const llm = new MockLLMProvider([{ match: 'launch', content: 'Start with a teaser week.' }]);
+ * const orchestrator = new L0Orchestrator({ llm });
+ * ```
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model: string;
+  readonly requests: LLMChatRequest[] = [];
+  private readonly fixtures: MockLLMFixture[];
+  private readonly used: Set<MockLLMFixture> = new Set();
+
+  constructor(fixtures: MockLLMFixture[] = [], options: { model?: string } = {}) {
+    this.fixtures = fixtures;
+    this.model = options.model || 'mock';
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    this.requests.push(request);
+    const prompt = [...request.messages].reverse().find((m) => m.role === 'user')?.content || '';
+    const fixture = this.fixtures.find((f) => !this.used.has(f) && this.matches(f, request, prompt));
+    if (fixture?.once) this.used.add(fixture);
+
+    const toolCalls = fixture?.toolCalls || [];
+    const content = fixture ? fixture.content || '' : request.responseFormat === 'json' ? '{}' : `Mock response to: ${prompt}`;
+    const words = (text: string) => (text.match(/\S+/g) || []).length;
+
+    return {
+      content,
+      toolCalls,
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
+      model: request.model || this.model,
+      usage: { inputTokens: request.messages.reduce((sum, m) => sum + words(m.content), 0), outputTokens: words(content) },
+    };
+  }
+
+  async *stream(request: LLMChatRequest): AsyncIterable<LLMStreamChunk> {
+    const response = await this.chat(request);
+
+    for (const text of response.content.match(/\s*\S+/g) || []) {
+      yield { type: 'text', text };
+    }
+    for (const toolCall of response.toolCalls) {
+      yield { type: 'tool_call', toolCall };
+    }
+    yield { type: 'done', response };
+  }
+
+  private matches(fixture: MockLLMFixture, request: LLMChatRequest, prompt: string): boolean {
+    if ((fixture.responseFormat || 'text') !== (request.responseFormat || 'text')) return false;
+    if (fixture.match === undefined) return true;
+    if (typeof fixture.match === 'string') return prompt.toLowerCase().includes(fixture.match.toLowerCase());
+    return fixture.match.test(prompt);
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create the provider named in a config
+ *
+ * @throws Error for unknown providers, or Anthropic without an API key
+ */
+export function createLLMProvider(config: LLMConfig, options: Pick<HttpProviderOptions, 'fetch' | 'headers'> = {}): LLMProvider {
+  const { provider, fixtures, ...settings } = config;
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider({ ...settings, ...options });
+    case 'anthropic':
+      if (!settings.apiKey) {
+        throw new Error('The anthropic provider requires an apiKey');
+      }
+      return new AnthropicProvider({ ...settings, ...options });
+    case 'mock':
+      return new MockLLMProvider(fixtures, { model: settings.model });
+    default:
+      throw new Error(`Unknown LLM provider "${provider}". Use one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+}
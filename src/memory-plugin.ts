@@ -7,7 +7,7 @@
  * @module memory-plugin
  */
 
-import type { L0Plugin, PluginContext } from './plugins.js';
+import type { L0Plugin, PluginConfigSchema, PluginContext, PluginHealth } from './plugins.js';
 import type { L0Response } from './orchestrator.js';
 
 // ============================================================================
@@ -31,18 +31,52 @@ function getEnvVar(key: string): string | undefined {
   return undefined;
 }
 
-let pluginConfig: MemoryPluginConfig = {
+const DEFAULT_CONFIG: MemoryPluginConfig = {
   apiUrl: getEnvVar('LANONASIS_API_URL') || 'https://api.lanonasis.com',
   authToken: getEnvVar('LANONASIS_API_KEY'),
   userId: getEnvVar('LANONASIS_USER_ID'),
   timeout: 30000,
 };
 
+/**
+ * Settings accepted through the plugin manager, e.g.
+ * `vortex l0 plugins config memory-services set userId=u-123`
+ */
+const CONFIG_SCHEMA: PluginConfigSchema = {
+  apiUrl: { type: 'string', description: 'Memory service base URL', default: DEFAULT_CONFIG.apiUrl },
+  authToken: { type: 'string', description: 'API key (default: LANONASIS_API_KEY)', secret: true },
+  userId: { type: 'string', description: 'User whose memories and patterns are used (default: LANONASIS_USER_ID)' },
+  timeout: { type: 'number', description: 'Request timeout in milliseconds', default: DEFAULT_CONFIG.timeout },
+};
+
+let pluginConfig: MemoryPluginConfig = { ...DEFAULT_CONFIG };
+// Set through configureMemoryPlugin or memoryAPI.configure; wins over the manager's settings in `init`
+let configured: Partial<MemoryPluginConfig> = {};
+
+/**
+ * Merge settings into the current config
+ *
+ * Passing `undefined` for a setting clears it back to its default.
+ */
+function applyConfig(config: Partial<MemoryPluginConfig>): void {
+  configured = { ...configured, ...config };
+  pluginConfig = { ...pluginConfig, ...config };
+  for (const key of Object.keys(config) as Array<keyof MemoryPluginConfig>) {
+    if (config[key] !== undefined) continue;
+    delete configured[key];
+    pluginConfig = { ...pluginConfig, [key]: DEFAULT_CONFIG[key] };
+  }
+}
+
 /**
  * Configure the memory plugin
+ *
+ * @deprecated Configure the plugin through its plugin manager instead, which
+ * validates settings and calls the plugin's `init`; use `memoryAPI.configure`
+ * for the standalone API. Settings passed here win over the manager's.
  */
 export function configureMemoryPlugin(config: Partial<MemoryPluginConfig>): void {
-  pluginConfig = { ...pluginConfig, ...config };
+  applyConfig(config);
 }
 
 // ============================================================================
@@ -647,6 +681,18 @@ export const memoryServicesPlugin: L0Plugin = {
   ],
   priority: 100, // High priority - core memory operations
   handler: memoryPluginHandler,
+  configSchema: CONFIG_SCHEMA,
+  init: (config) => {
+    // configureMemoryPlugin settings, then the manager's, then the environment defaults
+    pluginConfig = { ...DEFAULT_CONFIG, ...config, ...configured };
+  },
+  healthCheck: async (): Promise<PluginHealth> => {
+    if (!pluginConfig.authToken) {
+      return { healthy: false, message: 'No API key; set authToken or LANONASIS_API_KEY' };
+    }
+    const { error } = await listMemories(1);
+    return error ? { healthy: false, message: error } : { healthy: true, message: `Connected to ${pluginConfig.apiUrl}` };
+  },
 };
 
 // ============================================================================
@@ -654,8 +700,8 @@ export const memoryServicesPlugin: L0Plugin = {
 // ============================================================================
 
 export const memoryAPI = {
-  // Configuration
-  configure: configureMemoryPlugin,
+  // Configuration; `undefined` clears a setting back to its default
+  configure: applyConfig,
 
   // Core CRUD
   search: searchMemories,
@@ -0,0 +1,47 @@
+/**
+ * VortexAI L0 File Trend Provider
+ *
+ * Reads trend snapshots from a CSV or JSON file, e.g. an export from a
+ * scraper or analytics tool
+ * @module node/file-trend-provider
+ */
+
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { parseTrendCsv, parseTrendJson, type TrendProvider, type TrendSnapshot } from '../trends.js';
+
+export interface FileTrendProviderOptions {
+  /** `.csv` file with a header row, or a `.json` file */
+  path: string;
+}
+
+/**
+ * Trend provider backed by a CSV or JSON file
+ *
+ * The file is read on every lookup so updates from another tool are picked
+ * up without restarting.
+ */
+export class FileTrendProvider implements TrendProvider {
+  readonly name: string;
+  readonly path: string;
+
+  constructor(options: FileTrendProviderOptions) {
+    this.path = options.path;
+    this.name = options.path;
+  }
+
+  async fetchSnapshots(): Promise<TrendSnapshot[]> {
+    const text = await readFile(this.path, 'utf8');
+    if (extname(this.path).toLowerCase() === '.csv') {
+      return parseTrendCsv(text, this.path);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error(`${this.path}: not valid JSON (use a .csv extension for CSV files)`);
+    }
+    return parseTrendJson(data, this.path);
+  }
+}
@@ -0,0 +1,36 @@
+// Node-only entrypoint: filesystem-backed implementations of the programmatic APIs
+export { getWorkspaceDir, workspacePath } from './workspace.js';
+export { JsonFileKnowledgeStore, type JsonFileKnowledgeStoreOptions } from './json-file-store.js';
+export { JsonlRunStore, type JsonlRunStoreOptions } from './jsonl-run-store.js';
+export { JsonFileTaskQueueStore, type JsonFileTaskQueueStoreOptions } from './json-file-queue-store.js';
+export { JsonFileSessionStore, type JsonFileSessionStoreOptions } from './json-file-session-store.js';
+export { JsonFileCalendarStore, type JsonFileCalendarStoreOptions } from './json-file-calendar-store.js';
+export { FileTrendProvider, type FileTrendProviderOptions } from './file-trend-provider.js';
+export { createMockTrendServer } from './mock-trend-server.js';
+export {
+  discoverPlugins,
+  loadPlugin,
+  loadPlugins,
+  installPlugin,
+  linkPlugin,
+  uninstallPlugin,
+  parsePluginManifest,
+  PLUGIN_PACKAGE_PREFIX,
+  type PluginSource,
+  type PluginSourceKind,
+  type PluginManifest,
+  type LoadedPlugin,
+  type PluginLoadFailure,
+  type PluginLoadReport,
+  type PluginDiscoveryOptions,
+  type PluginInstallOptions,
+  type NpmRunner,
+} from './plugin-loader.js';
+export {
+  readWorkspaceConfig,
+  writeWorkspaceConfig,
+  resolveLLMConfig,
+  resolveTrendSource,
+  getConfigPath,
+  type WorkspaceConfig,
+} from './workspace-config.js';
@@ -0,0 +1,46 @@
+/**
+ * VortexAI L0 JSON File Calendar Store
+ *
+ * Persists generated content calendars as one JSON file each in the workspace
+ * @module node/json-file-calendar-store
+ */
+
+import type { CalendarStore, ContentCalendar } from '../calendar.js';
+import { JsonRecordDirectory } from './json-record-dir.js';
+import { workspacePath } from './workspace.js';
+
+export const DEFAULT_CALENDARS_DIR = 'calendars';
+
+export interface JsonFileCalendarStoreOptions {
+  /** Directory holding `<id>.json` files (default: `~/.vortex/calendars`) */
+  dir?: string;
+}
+
+/**
+ * Calendar store backed by a directory of JSON files
+ *
+ * Files are named after the calendar id, so `vortex calendar show <id>` maps
+ * straight to `~/.vortex/calendars/<id>.json`.
+ */
+export class JsonFileCalendarStore implements CalendarStore {
+  readonly dir: string;
+  private readonly records: JsonRecordDirectory<ContentCalendar>;
+
+  constructor(options: JsonFileCalendarStoreOptions = {}) {
+    this.dir = options.dir || workspacePath(DEFAULT_CALENDARS_DIR);
+    this.records = new JsonRecordDirectory(this.dir, 'calendar');
+  }
+
+  async get(id: string): Promise<ContentCalendar | undefined> {
+    return this.records.get(id);
+  }
+
+  async save(calendar: ContentCalendar): Promise<void> {
+    await this.records.save(calendar);
+  }
+
+  async list(): Promise<ContentCalendar[]> {
+    const calendars = await this.records.list();
+    return calendars.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * VortexAI L0 JSON File Task Queue Store
+ *
+ * Persists the agent task queue to a JSON file in the workspace
+ * @module node/json-file-queue-store
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { QueuedTask, TaskQueueStore } from '../task-queue.js';
+import { workspacePath } from './workspace.js';
+
+export const DEFAULT_QUEUE_FILE = 'queue.json';
+
+export interface JsonFileTaskQueueStoreOptions {
+  /** File to read and write (default: `~/.vortex/queue.json`) */
+  path?: string;
+}
+
+/**
+ * Task queue store backed by a single JSON file
+ *
+ * Lets `vortex queue add` and `vortex queue process` run as separate
+ * commands. Writes go through a temporary file that is renamed into place.
+ */
+export class JsonFileTaskQueueStore implements TaskQueueStore {
+  readonly path: string;
+
+  constructor(options: JsonFileTaskQueueStoreOptions = {}) {
+    this.path = options.path || workspacePath(DEFAULT_QUEUE_FILE);
+  }
+
+  async load(): Promise<QueuedTask[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    try {
+      return (JSON.parse(raw) as { tasks: QueuedTask[] }).tasks || [];
+    } catch {
+      throw new Error(`Queue file "${this.path}" is not valid JSON`);
+    }
+  }
+
+  async save(tasks: QueuedTask[]): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmpPath = `${this.path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify({ tasks }, null, 2) + '\n', 'utf8');
+    await rename(tmpPath, this.path);
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * VortexAI L0 JSON File Session Store
+ *
+ * Persists conversation sessions as one JSON file each in the workspace
+ * @module node/json-file-session-store
+ */
+
+import type { SessionData, SessionStore } from '../session.js';
+import { JsonRecordDirectory } from './json-record-dir.js';
+import { workspacePath } from './workspace.js';
+
+export const DEFAULT_SESSIONS_DIR = 'sessions';
+
+export interface JsonFileSessionStoreOptions {
+  /** Directory holding `<id>.json` files (default: `~/.vortex/sessions`) */
+  dir?: string;
+}
+
+/**
+ * Session store backed by a directory of JSON files
+ *
+ * One file per session keeps concurrent conversations from rewriting each
+ * other's history.
+ */
+export class JsonFileSessionStore implements SessionStore {
+  readonly dir: string;
+  private readonly records: JsonRecordDirectory<SessionData>;
+
+  constructor(options: JsonFileSessionStoreOptions = {}) {
+    this.dir = options.dir || workspacePath(DEFAULT_SESSIONS_DIR);
+    this.records = new JsonRecordDirectory(this.dir, 'session');
+  }
+
+  async get(id: string): Promise<SessionData | undefined> {
+    return this.records.get(id);
+  }
+
+  async save(session: SessionData): Promise<void> {
+    await this.records.save(session);
+  }
+
+  async list(): Promise<SessionData[]> {
+    const sessions = await this.records.list();
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * VortexAI L0 JSON File Knowledge Store
+ *
+ * Persists snippets, memories and campaigns to a JSON file in the workspace
+ * @module node/json-file-store
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import {
+  createKnowledgeData,
+  removeRecord,
+  upsertRecord,
+  type Campaign,
+  type CodeSnippet,
+  type KnowledgeData,
+  type KnowledgeStore,
+  type Memory,
+} from '../knowledge-store.js';
+import { workspacePath } from './workspace.js';
+
+export const DEFAULT_KNOWLEDGE_FILE = 'knowledge.json';
+
+export interface JsonFileKnowledgeStoreOptions {
+  /** File to read and write (default: `~/.vortex/knowledge.json`) */
+  path?: string;
+  /** Data returned until the file is first written */
+  seed?: Partial<KnowledgeData>;
+}
+
+/**
+ * Knowledge store backed by a single JSON file
+ *
+ * The file is re-read on every call so separate CLI invocations always see
+ * each other's writes. Writes go to a temporary file first and are renamed
+ * into place to avoid truncated files on crash.
+ *
+ * @example
+ * ```typescript
+ * import { JsonFileKnowledgeStore } from 'vortexai-l0/node';
+ *
+ * const store = new JsonFileKnowledgeStore({ path: './team-knowledge.json' });
+ * const orchestrator = new L0Orchestrator({ store });
+ * ```
+ */
+export class JsonFileKnowledgeStore implements KnowledgeStore {
+  readonly path: string;
+  private readonly seed: Partial<KnowledgeData>;
+
+  constructor(options: JsonFileKnowledgeStoreOptions = {}) {
+    this.path = options.path || workspacePath(DEFAULT_KNOWLEDGE_FILE);
+    this.seed = options.seed || {};
+  }
+
+  // ==========================================================================
+  // Snippets
+  // ==========================================================================
+
+  async listSnippets(): Promise<CodeSnippet[]> {
+    return (await this.load()).snippets;
+  }
+
+  async getSnippet(id: string): Promise<CodeSnippet | undefined> {
+    return (await this.load()).snippets.find((s) => s.id === id);
+  }
+
+  async saveSnippet(snippet: CodeSnippet): Promise<void> {
+    await this.update((data) => upsertRecord(data.snippets, snippet));
+  }
+
+  async deleteSnippet(id: string): Promise<boolean> {
+    return this.update((data) => removeRecord(data.snippets, id));
+  }
+
+  // ==========================================================================
+  // Memories
+  // ==========================================================================
+
+  async listMemories(): Promise<Memory[]> {
+    return (await this.load()).memories;
+  }
+
+  async getMemory(id: string): Promise<Memory | undefined> {
+    return (await this.load()).memories.find((m) => m.id === id);
+  }
+
+  async saveMemory(memory: Memory): Promise<void> {
+    await this.update((data) => upsertRecord(data.memories, memory));
+  }
+
+  async deleteMemory(id: string): Promise<boolean> {
+    return this.update((data) => removeRecord(data.memories, id));
+  }
+
+  // ==========================================================================
+  // Campaigns
+  // ==========================================================================
+
+  async listCampaigns(): Promise<Campaign[]> {
+    return (await this.load()).campaigns;
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+    return (await this.load()).campaigns.find((c) => c.id === id);
+  }
+
+  async saveCampaign(campaign: Campaign): Promise<void> {
+    await this.update((data) => upsertRecord(data.campaigns, campaign));
+  }
+
+  async deleteCampaign(id: string): Promise<boolean> {
+    return this.update((data) => removeRecord(data.campaigns, id));
+  }
+
+  // ==========================================================================
+  // File I/O
+  // ==========================================================================
+
+  private async load(): Promise<KnowledgeData> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return createKnowledgeData(this.seed);
+      }
+      throw error;
+    }
+
+    let data: Partial<KnowledgeData>;
+    try {
+      data = JSON.parse(raw) as Partial<KnowledgeData>;
+    } catch {
+      throw new Error(`Knowledge file "${this.path}" is not valid JSON`);
+    }
+    return createKnowledgeData(data);
+  }
+
+  private async update<T>(mutate: (data: KnowledgeData) => T): Promise<T> {
+    const data = await this.load();
+    const result = mutate(data);
+
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmpPath = `${this.path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(data, null, 2) + '\n', 'utf8');
+    await rename(tmpPath, this.path);
+
+    return result;
+  }
+}
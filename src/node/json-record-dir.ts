@@ -0,0 +1,75 @@
+/**
+ * VortexAI L0 JSON Record Directory
+ *
+ * Directory of `<id>.json` files behind the file-backed session and calendar stores
+ * @module node/json-record-dir
+ */
+
+import { mkdir, readdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+const RECORD_ID_PATTERN = /^[\w.-]+$/;
+
+/**
+ * Records kept as one JSON file each, named after the record id
+ *
+ * Writes go to a temporary file that is then renamed, so readers never see
+ * half a record.
+ */
+export class JsonRecordDirectory<T extends { id: string }> {
+  /**
+   * @param dir - Directory holding the files, created on first save
+   * @param kind - What the records are, for error messages, e.g. `session`
+   */
+  constructor(readonly dir: string, private readonly kind: string) {}
+
+  async get(id: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await readFile(this.pathFor(id), 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async save(record: T): Promise<void> {
+    const path = this.pathFor(record.id);
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(record, null, 2) + '\n', 'utf8');
+    await rename(`${path}.tmp`, path);
+  }
+
+  /**
+   * Every readable record, in no particular order
+   */
+  async list(): Promise<T[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: T[] = [];
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      try {
+        records.push(JSON.parse(await readFile(join(this.dir, file), 'utf8')));
+      } catch {
+        // Skip files removed or half-written by another process
+      }
+    }
+    return records;
+  }
+
+  private pathFor(id: string): string {
+    if (!RECORD_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid ${this.kind} id "${id}": use letters, numbers, dots, dashes and underscores`);
+    }
+    return join(this.dir, `${id}.json`);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * VortexAI L0 JSONL Run Store
+ *
+ * Persists workflow run history as an append-only JSON Lines file in the workspace
+ * @module node/jsonl-run-store
+ */
+
+import { appendFile, mkdir, readFile, rename, stat, unlink, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { sortRunRecords, type RunRecord, type RunStore } from '../run-history.js';
+import { workspacePath } from './workspace.js';
+
+export const DEFAULT_RUNS_FILE = 'runs.jsonl';
+
+// Rewrite the log once it holds this many superseded snapshots per run
+const COMPACT_RATIO = 4;
+const COMPACT_MIN_LINES = 200;
+
+export interface JsonlRunStoreOptions {
+  /** File to append to (default: `~/.vortex/runs.jsonl`) */
+  path?: string;
+}
+
+/**
+ * Run store backed by a JSON Lines file
+ *
+ * Every save appends a full snapshot of the run and the latest line for a
+ * run id wins. Appends are cheap and a crash can at worst leave a truncated
+ * final line, which is ignored on read. The file is compacted to one line
+ * per run once superseded snapshots pile up, unless another save appended to
+ * it in the meantime.
+ *
+ * @example
+ * ```typescript
+ * import { JsonlRunStore } from 'vortexai-l0/node';
+ *
+ * const orchestrator = new L0Orchestrator({ runStore: new JsonlRunStore() });
+ * ```
+ */
+export class JsonlRunStore implements RunStore {
+  readonly path: string;
+
+  constructor(options: JsonlRunStoreOptions = {}) {
+    this.path = options.path || workspacePath(DEFAULT_RUNS_FILE);
+  }
+
+  async save(record: RunRecord): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, JSON.stringify(record) + '\n', 'utf8');
+  }
+
+  async get(id: string): Promise<RunRecord | undefined> {
+    return (await this.load()).records.get(id);
+  }
+
+  async list(): Promise<RunRecord[]> {
+    const { records, lines, size } = await this.load();
+
+    if (lines >= COMPACT_MIN_LINES && lines > records.size * COMPACT_RATIO) {
+      await this.compact(records, size);
+    }
+
+    return sortRunRecords(Array.from(records.values()));
+  }
+
+  // ==========================================================================
+  // File I/O
+  // ==========================================================================
+
+  private async load(): Promise<{ records: Map<string, RunRecord>; lines: number; size: number }> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { records: new Map(), lines: 0, size: 0 };
+      }
+      throw error;
+    }
+
+    const records = new Map<string, RunRecord>();
+    const lines = raw.split('\n').filter((line) => line.trim());
+
+    for (const line of lines) {
+      try {
+        const record = JSON.parse(line) as RunRecord;
+        records.set(record.run.id, record);
+      } catch {
+        // Skip lines cut short by a crash mid-write
+      }
+    }
+
+    return { records, lines: lines.length, size: Buffer.byteLength(raw) };
+  }
+
+  /**
+   * Rewrite the file as `records`, read when it was `size` bytes long
+   *
+   * Skipped when the file has grown since, so snapshots appended meanwhile
+   * are not lost; the next `list` tries again.
+   */
+  private async compact(records: Map<string, RunRecord>, size: number): Promise<void> {
+    const tmpPath = `${this.path}.tmp`;
+    const content = Array.from(records.values()).map((r) => JSON.stringify(r) + '\n').join('');
+    await writeFile(tmpPath, content, 'utf8');
+
+    if ((await stat(this.path)).size !== size) {
+      await unlink(tmpPath);
+      return;
+    }
+    await rename(tmpPath, this.path);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * VortexAI L0 Mock Trend Server
+ *
+ * Local HTTP server that answers {@link HttpTrendProvider} requests from
+ * another provider, for development before a real trend service exists
+ * @module node/mock-trend-server
+ */
+
+import { createServer, type Server } from 'http';
+import { resolveTrendQuery, type ResolvedTrendQuery, type TrendProvider } from '../trends.js';
+
+/**
+ * Create a server answering `GET /trends` with `{ "snapshots": [...] }`
+ *
+ * Query parameters are resolved the same way {@link fetchTrends} resolves
+ * them, so the provider sees the windows the client asked for.
+ *
+ * @example
+ * ```typescript
+ * const server = createMockTrendServer(new FileTrendProvider({ path: 'trends.csv' }));
+ * server.listen(4319);
+ * const report = await fetchTrends(new HttpTrendProvider({ baseUrl: 'http://localhost:4319' }), { timeframe: '7d' });
+ * ```
+ */
+export function createMockTrendServer(provider: TrendProvider): Server {
+  return createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (req.method !== 'GET' || url.pathname.replace(/\/+$/, '') !== '/trends') {
+      res.writeHead(404, { 'content-type': 'application/json' }).end(JSON.stringify({ error: 'Not found' }));
+      return;
+    }
+
+    try {
+      const params = url.searchParams;
+      const until = params.get('until');
+      const query: ResolvedTrendQuery = resolveTrendQuery(
+        {
+          platform: params.get('platform') || undefined,
+          timeframe: params.get('timeframe') || undefined,
+          location: params.get('location') || undefined,
+        },
+        until ? new Date(until) : undefined
+      );
+      const snapshots = await provider.fetchSnapshots(query);
+      res.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify({ snapshots }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.writeHead(400, { 'content-type': 'application/json' }).end(JSON.stringify({ error: message }));
+    }
+  });
+}
@@ -0,0 +1,440 @@
+/**
+ * VortexAI L0 Plugin Loader
+ *
+ * Discovers third-party plugins, checks their manifests and exports against
+ * the plugin contract, and installs, links or removes them
+ * @module node/plugin-loader
+ */
+
+import { execFile } from 'child_process';
+import { existsSync } from 'fs';
+import { lstat, mkdir, readdir, readFile, realpath, rm, stat, symlink, unlink, writeFile } from 'fs/promises';
+import { isAbsolute, join, relative, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { checkPluginContract, type L0Plugin, type PluginManager } from '../plugins.js';
+import { getWorkspaceDir, workspacePath } from './workspace.js';
+import type { WorkspaceConfig } from './workspace-config.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export const PLUGIN_PACKAGE_PREFIX = 'vortex-l0-plugin-';
+
+export const PLUGINS_DIR_NAME = 'plugins';
+
+/**
+ * Where a plugin was found
+ *
+ * - `config`: an entry in the workspace config `plugins` list
+ * - `node_modules`: a `vortex-l0-plugin-*` package in the project
+ * - `local`: a directory, link or installed package in `~/.vortex/plugins`
+ */
+export type PluginSourceKind = 'config' | 'node_modules' | 'local';
+
+export interface PluginSource {
+  kind: PluginSourceKind;
+  /** Config entry, package name or directory name */
+  spec: string;
+  /** Plugin package directory */
+  dir: string;
+}
+
+/**
+ * The `package.json` fields a plugin package needs
+ */
+export interface PluginManifest {
+  name: string;
+  version: string;
+  description?: string;
+  /** Module exporting the plugin, relative to the package (default: `index.js`) */
+  main: string;
+}
+
+export interface LoadedPlugin {
+  source: PluginSource;
+  manifest: PluginManifest;
+  plugin: L0Plugin;
+}
+
+export interface PluginLoadFailure {
+  source: PluginSource;
+  error: string;
+}
+
+export interface PluginLoadReport {
+  loaded: LoadedPlugin[];
+  failed: PluginLoadFailure[];
+}
+
+export interface PluginDiscoveryOptions {
+  /** Workspace config whose `plugins` list is read (default: none) */
+  config?: WorkspaceConfig;
+  /** Project directory whose `node_modules` is scanned (default: `process.cwd()`) */
+  cwd?: string;
+  /** Local plugin directory (default: `~/.vortex/plugins`) */
+  pluginsDir?: string;
+}
+
+/**
+ * Runs npm with the given arguments in a directory
+ */
+export type NpmRunner = (args: string[], cwd: string) => Promise<void>;
+
+export interface PluginInstallOptions {
+  /** Local plugin directory (default: `~/.vortex/plugins`) */
+  pluginsDir?: string;
+  /** How npm is invoked (default: the `npm` on PATH) */
+  npm?: NpmRunner;
+}
+
+const DEFAULT_PLUGIN_ENTRY = 'index.js';
+
+// ============================================================================
+// Manifests
+// ============================================================================
+
+/**
+ * Check a plugin's `package.json`
+ *
+ * @param source - Named in error messages, e.g. the manifest path
+ * @throws Error describing the first invalid field
+ */
+export function parsePluginManifest(value: unknown, source: string = 'Plugin manifest'): PluginManifest {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${source} must be a JSON object`);
+  }
+
+  const { name, version, description, main } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new Error(`${source} needs a name`);
+  }
+  if (typeof version !== 'string' || !version.trim()) {
+    throw new Error(`${source} needs a version`);
+  }
+  if (description !== undefined && typeof description !== 'string') {
+    throw new Error(`${source}: description must be a string`);
+  }
+  if (main !== undefined && typeof main !== 'string') {
+    throw new Error(`${source}: main must be a string`);
+  }
+
+  const entry = main || DEFAULT_PLUGIN_ENTRY;
+  if (isAbsolute(entry) || relative('.', entry).startsWith('..')) {
+    throw new Error(`${source}: main must point inside the package`);
+  }
+
+  return { name, version, ...(description !== undefined && { description }), main: entry };
+}
+
+async function readPluginManifest(dir: string): Promise<PluginManifest> {
+  const path = join(dir, 'package.json');
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`No package.json in ${dir}`);
+    }
+    throw error;
+  }
+
+  try {
+    return parsePluginManifest(JSON.parse(raw), path);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`${path} is not valid JSON`);
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Import a plugin package and check its export against the plugin contract
+ *
+ * The plugin is the module's default export, or its `plugin` export.
+ *
+ * @throws Error when the manifest is invalid, the module fails to load or the export is not a plugin
+ */
+export async function loadPlugin(source: PluginSource): Promise<LoadedPlugin> {
+  const manifest = await readPluginManifest(source.dir);
+  const entry = join(source.dir, manifest.main);
+
+  let module: Record<string, unknown>;
+  try {
+    module = await import(pathToFileURL(entry).href);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${manifest.name}: could not import ${manifest.main}: ${message}`);
+  }
+
+  const plugin = module.default ?? module.plugin;
+  const problems = checkPluginContract(plugin);
+  if (problems.length > 0) {
+    throw new Error(`${manifest.name} does not export a valid plugin: ${problems.join('; ')}`);
+  }
+
+  return { source, manifest, plugin: plugin as L0Plugin };
+}
+
+/**
+ * Find plugin packages in the workspace config, the project's `node_modules`
+ * and the local plugin directory, in that order
+ *
+ * Config entries are package names, or paths relative to the workspace
+ * directory. Package names resolve from the local plugin directory first,
+ * then the project. A package found twice is only listed the first time.
+ */
+export async function discoverPlugins(options: PluginDiscoveryOptions = {}): Promise<PluginSource[]> {
+  const cwd = options.cwd || process.cwd();
+  const pluginsDir = options.pluginsDir || workspacePath(PLUGINS_DIR_NAME);
+  const sources: PluginSource[] = [];
+
+  for (const spec of configuredPlugins(options.config)) {
+    sources.push({ kind: 'config', spec, dir: resolveConfiguredPlugin(spec, cwd, pluginsDir) });
+  }
+  for (const name of await prefixedPackages(join(cwd, 'node_modules'))) {
+    sources.push({ kind: 'node_modules', spec: name, dir: join(cwd, 'node_modules', name) });
+  }
+  for (const source of await localPlugins(pluginsDir)) {
+    sources.push(source);
+  }
+
+  const seen = new Set<string>();
+  const unique: PluginSource[] = [];
+  for (const source of sources) {
+    const key = await realpath(source.dir).catch(() => resolve(source.dir));
+    if (!seen.has(key)) {
+      seen.add(key);
+      unique.push(source);
+    }
+  }
+  return unique;
+}
+
+/**
+ * Discover plugins and register each one that loads
+ *
+ * A plugin that fails to load, or whose name is already registered, is
+ * reported rather than thrown so one broken package cannot stop the rest.
+ */
+export async function loadPlugins(manager: PluginManager, options: PluginDiscoveryOptions = {}): Promise<PluginLoadReport> {
+  const report: PluginLoadReport = { loaded: [], failed: [] };
+
+  for (const source of await discoverPlugins(options)) {
+    try {
+      const loaded = await loadPlugin(source);
+      const { name } = loaded.plugin.metadata;
+      if (manager.has(name)) {
+        throw new Error(`Plugin "${name}" is already registered`);
+      }
+      manager.register(loaded.plugin);
+      report.loaded.push(loaded);
+    } catch (error) {
+      report.failed.push({ source, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return report;
+}
+
+function configuredPlugins(config: WorkspaceConfig | undefined): string[] {
+  const plugins = config?.plugins;
+  if (plugins === undefined) return [];
+  if (!Array.isArray(plugins) || !plugins.every((entry) => typeof entry === 'string')) {
+    throw new Error('Config "plugins" must be a list of package names or paths');
+  }
+  return plugins;
+}
+
+function isPathSpec(spec: string): boolean {
+  return spec.startsWith('.') || isAbsolute(spec);
+}
+
+function resolveConfiguredPlugin(spec: string, cwd: string, pluginsDir: string): string {
+  if (isPathSpec(spec)) {
+    return resolve(getWorkspaceDir(), spec);
+  }
+
+  const installed = join(pluginsDir, 'node_modules', spec);
+  return existsSync(installed) ? installed : join(cwd, 'node_modules', spec);
+}
+
+async function listDir(dir: string): Promise<string[]> {
+  try {
+    return await readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * `vortex-l0-plugin-*` and `@scope/vortex-l0-plugin-*` packages in a `node_modules` directory
+ */
+async function prefixedPackages(nodeModules: string): Promise<string[]> {
+  const names: string[] = [];
+  for (const entry of await listDir(nodeModules)) {
+    if (entry.startsWith('@')) {
+      for (const scoped of await listDir(join(nodeModules, entry))) {
+        if (scoped.startsWith(PLUGIN_PACKAGE_PREFIX)) names.push(`${entry}/${scoped}`);
+      }
+    } else if (entry.startsWith(PLUGIN_PACKAGE_PREFIX)) {
+      names.push(entry);
+    }
+  }
+  return names.sort();
+}
+
+async function installedPackages(pluginsDir: string): Promise<Record<string, string>> {
+  try {
+    const manifest = JSON.parse(await readFile(join(pluginsDir, 'package.json'), 'utf8')) as { dependencies?: Record<string, string> };
+    return manifest.dependencies || {};
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Plugin directories and links in the local plugin directory, then packages installed there
+ */
+async function localPlugins(pluginsDir: string): Promise<PluginSource[]> {
+  const sources: PluginSource[] = [];
+
+  for (const entry of (await listDir(pluginsDir)).sort()) {
+    if (entry.startsWith('.') || entry === 'node_modules') continue;
+    const dir = join(pluginsDir, entry);
+    const isDir = await stat(dir).then((stats) => stats.isDirectory(), () => false);
+    if (isDir) sources.push({ kind: 'local', spec: entry, dir });
+  }
+  for (const name of Object.keys(await installedPackages(pluginsDir)).sort()) {
+    sources.push({ kind: 'local', spec: name, dir: join(pluginsDir, 'node_modules', name) });
+  }
+
+  return sources;
+}
+
+// ============================================================================
+// Install, Link & Uninstall
+// ============================================================================
+
+const runNpm: NpmRunner = (args, cwd) =>
+  new Promise((resolvePromise, reject) => {
+    const command = process.platform === 'win32' ? 'npm.cmd' : 'npm';
+    execFile(command, args, { cwd }, (error, _stdout, stderr) => {
+      if (error) {
+        const detail = stderr.trim().split('\n').pop();
+        reject(new Error(`npm ${args.join(' ')} failed${detail ? `: ${detail}` : ''}`));
+      } else {
+        resolvePromise();
+      }
+    });
+  });
+
+/**
+ * Give the plugin directory a package.json so npm installs into it
+ */
+async function preparePluginsDir(pluginsDir: string): Promise<void> {
+  await mkdir(pluginsDir, { recursive: true });
+  const manifestPath = join(pluginsDir, 'package.json');
+  if (!existsSync(manifestPath)) {
+    await writeFile(manifestPath, JSON.stringify({ private: true, dependencies: {} }, null, 2) + '\n', 'utf8');
+  }
+}
+
+/**
+ * Install a plugin package from npm into the local plugin directory
+ *
+ * The package is loaded and checked after install, and removed again if it
+ * is not a valid plugin.
+ *
+ * @param spec - Anything `npm install` accepts, e.g. `vortex-l0-plugin-seo@1.2.0`
+ */
+export async function installPlugin(spec: string, options: PluginInstallOptions = {}): Promise<LoadedPlugin> {
+  const pluginsDir = options.pluginsDir || workspacePath(PLUGINS_DIR_NAME);
+  const npm = options.npm || runNpm;
+  await preparePluginsDir(pluginsDir);
+
+  const before = await installedPackages(pluginsDir);
+  await npm(['install', '--save', spec], pluginsDir);
+  const after = await installedPackages(pluginsDir);
+
+  // The new or changed dependency; a reinstall changes nothing, so fall back to the spec
+  const name = Object.keys(after).find((key) => after[key] !== before[key]) || spec.replace(/(.)@[^/]*$/, '$1');
+  if (!(name in after)) {
+    throw new Error(`Could not tell which package "${spec}" installed`);
+  }
+
+  try {
+    return await loadPlugin({ kind: 'local', spec: name, dir: join(pluginsDir, 'node_modules', name) });
+  } catch (error) {
+    if (!(name in before)) {
+      await npm(['uninstall', '--save', name], pluginsDir);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Link a plugin under development into the local plugin directory
+ *
+ * The directory is checked first, then symlinked so edits are picked up
+ * without reinstalling.
+ */
+export async function linkPlugin(path: string, options: Omit<PluginInstallOptions, 'npm'> = {}): Promise<LoadedPlugin> {
+  const pluginsDir = options.pluginsDir || workspacePath(PLUGINS_DIR_NAME);
+  const dir = resolve(path);
+  const loaded = await loadPlugin({ kind: 'local', spec: path, dir });
+
+  const linkName = loaded.manifest.name.replace(/^@/, '').replace(/\//g, '-');
+  const linkPath = join(pluginsDir, linkName);
+  if (await lstat(linkPath).then(() => true, () => false)) {
+    throw new Error(`${linkPath} already exists. Run "vortex l0 plugins uninstall ${linkName}" first`);
+  }
+
+  await mkdir(pluginsDir, { recursive: true });
+  await symlink(dir, linkPath, process.platform === 'win32' ? 'junction' : 'dir');
+  return { ...loaded, source: { kind: 'local', spec: linkName, dir: linkPath } };
+}
+
+/**
+ * Remove a plugin from the local plugin directory
+ *
+ * Packages installed from npm are uninstalled; links and plugin directories
+ * are removed, leaving a linked plugin's source untouched.
+ *
+ * @param name - Package name or directory name in the plugin directory
+ * @throws Error if no such plugin is in the local plugin directory
+ */
+export async function uninstallPlugin(name: string, options: PluginInstallOptions = {}): Promise<void> {
+  const pluginsDir = options.pluginsDir || workspacePath(PLUGINS_DIR_NAME);
+
+  if (name in (await installedPackages(pluginsDir))) {
+    await (options.npm || runNpm)(['uninstall', '--save', name], pluginsDir);
+    return;
+  }
+
+  if (/^[\w.-]+$/.test(name) && name !== 'node_modules') {
+    const path = join(pluginsDir, name);
+    const entry = await lstat(path).catch(() => undefined);
+    if (entry?.isSymbolicLink()) {
+      await unlink(path);
+      return;
+    }
+    if (entry?.isDirectory()) {
+      await rm(path, { recursive: true, force: true });
+      return;
+    }
+  }
+
+  throw new Error(`Plugin "${name}" is not installed in ${pluginsDir}`);
+}
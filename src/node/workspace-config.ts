@@ -0,0 +1,128 @@
+/**
+ * VortexAI L0 Workspace Config
+ *
+ * Reads and writes `~/.vortex/config.json` and resolves settings that environment variables can override
+ * @module node/workspace-config
+ */
+
+import { readFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { LLM_PROVIDERS, type LLMConfig, type LLMProviderName } from '../llm.js';
+import type { BrandProfile } from '../brand.js';
+import type { PluginState } from '../plugins.js';
+import { workspacePath } from './workspace.js';
+
+export const DEFAULT_CONFIG_FILE = 'config.json';
+
+export interface WorkspaceConfig {
+  llm?: LLMConfig;
+  trends?: {
+    /** CSV or JSON file path, or the URL of a trend service */
+    source?: string;
+  };
+  /** Brand that trends are scored against */
+  brand?: BrandProfile;
+  /** Plugin package names, or paths relative to the workspace directory */
+  plugins?: string[];
+  /** Enabled flags, priority overrides and settings by plugin name */
+  pluginState?: Record<string, PluginState>;
+  [key: string]: unknown;
+}
+
+// Provider-specific variables checked when VORTEX_LLM_API_KEY is unset
+const PROVIDER_API_KEY_VARS: Partial<Record<LLMProviderName, string>> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+};
+
+/**
+ * Resolve the workspace config file path
+ */
+export function getConfigPath(): string {
+  return workspacePath(DEFAULT_CONFIG_FILE);
+}
+
+/**
+ * Read the workspace config
+ *
+ * Synchronous so the CLI can build its runtime at startup. A missing file
+ * yields an empty config.
+ *
+ * @throws Error if the file exists but is not a JSON object
+ */
+export function readWorkspaceConfig(path: string = getConfigPath()): WorkspaceConfig {
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(raw);
+  } catch {
+    throw new Error(`Config file "${path}" is not valid JSON`);
+  }
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(`Config file "${path}" must contain a JSON object`);
+  }
+  return config as WorkspaceConfig;
+}
+
+/**
+ * Write the workspace config, replacing the file atomically
+ */
+export async function writeWorkspaceConfig(config: WorkspaceConfig, path: string = getConfigPath()): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tmpPath = `${path}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(config, null, 2) + '\n', 'utf8');
+  await rename(tmpPath, path);
+}
+
+/**
+ * Work out which LLM provider to use
+ *
+ * `VORTEX_LLM_PROVIDER`, `VORTEX_LLM_MODEL`, `VORTEX_LLM_BASE_URL` and
+ * `VORTEX_LLM_API_KEY` override the `llm` section of the config. API keys
+ * also fall back to `OPENAI_API_KEY` or `ANTHROPIC_API_KEY`.
+ *
+ * @returns The provider config, or undefined when none is configured
+ * @throws Error for an unknown provider name
+ */
+export function resolveLLMConfig(config: WorkspaceConfig, env: Record<string, string | undefined> = process.env): LLMConfig | undefined {
+  const provider = (env.VORTEX_LLM_PROVIDER || config.llm?.provider) as LLMProviderName | undefined;
+  if (!provider) return undefined;
+
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown LLM provider "${provider}". Use one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+
+  // Settings written for a different provider do not carry over
+  const base: Partial<LLMConfig> = config.llm?.provider === provider ? config.llm : {};
+  const keyVar = PROVIDER_API_KEY_VARS[provider];
+  const apiKey = env.VORTEX_LLM_API_KEY || base.apiKey || (keyVar ? env[keyVar] : undefined);
+
+  return {
+    ...base,
+    provider,
+    ...(env.VORTEX_LLM_MODEL && { model: env.VORTEX_LLM_MODEL }),
+    ...(env.VORTEX_LLM_BASE_URL && { baseUrl: env.VORTEX_LLM_BASE_URL }),
+    ...(apiKey && { apiKey }),
+  };
+}
+
+/**
+ * Work out where trend data comes from
+ *
+ * `VORTEX_TRENDS_SOURCE` overrides `trends.source` in the config.
+ *
+ * @returns A file path or URL, or undefined to use sample data
+ */
+export function resolveTrendSource(config: WorkspaceConfig, env: Record<string, string | undefined> = process.env): string | undefined {
+  return env.VORTEX_TRENDS_SOURCE || config.trends?.source || undefined;
+}
@@ -0,0 +1,28 @@
+/**
+ * VortexAI L0 Workspace
+ *
+ * Resolves the local workspace directory (`~/.vortex` by default)
+ * @module node/workspace
+ */
+
+import { homedir } from 'os';
+import { join } from 'path';
+
+export const WORKSPACE_DIR_NAME = '.vortex';
+
+/**
+ * Get the workspace directory
+ *
+ * Honors the `VORTEX_HOME` environment variable so tests and CI can point
+ * the CLI at a throwaway directory.
+ */
+export function getWorkspaceDir(): string {
+  return process.env.VORTEX_HOME || join(homedir(), WORKSPACE_DIR_NAME);
+}
+
+/**
+ * Resolve a path inside the workspace directory
+ */
+export function workspacePath(...segments: string[]): string {
+  return join(getWorkspaceDir(), ...segments);
+}
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { L0Orchestrator, type L0Response } from './orchestrator.js';
+import { L0Orchestrator, type L0Response, type L0StreamEvent } from './orchestrator.js';
+import { MockLLMProvider } from './llm.js';
+import { createPluginManager } from './plugins.js';
 
 describe('L0Orchestrator', () => {
   const orchestrator = new L0Orchestrator();
@@ -54,6 +56,27 @@ describe('L0Orchestrator', () => {
       expect(response.agents).toHaveLength(4);
       expect(response.data).toBeDefined();
     });
+
+    it('should plan for explicit platforms, budget and duration', async () => {
+      const response = await orchestrator.query('social media campaign: brand awareness on TikTok', {
+        entities: { platforms: ['LinkedIn'], budget: { amount: 2500, currency: 'EUR' } },
+        durationDays: 14,
+      });
+
+      expect(response.data).toMatchObject({ keyPlatforms: ['LinkedIn'], recommendedBudget: '2,500 EUR', totalBudget: { amount: 2500, currency: 'EUR' }, estimatedDuration: '14 days' });
+      expect(response.workflowDefinition?.inputs).toMatchObject({ platforms: ['LinkedIn'], durationDays: 14 });
+    });
+  });
+
+  describe('agents option', () => {
+    it('should only assign steps to the listed agents', async () => {
+      const response = await orchestrator.query('create viral campaign', { agents: ['research', 'coordinator'] });
+      expect(new Set(response.assignments?.map((a) => a.agent))).toEqual(new Set(['research', 'coordinator']));
+    });
+
+    it('should reject agents that are not registered', async () => {
+      await expect(orchestrator.query('create viral campaign', { agents: ['nobody'] })).rejects.toThrow('Unknown agent "nobody"');
+    });
   });
 
   describe('findCode', () => {
@@ -99,5 +122,66 @@ describe('L0Orchestrator', () => {
       expect(response.related).toBeDefined();
     });
   });
-});
 
+  describe('queryStream', () => {
+    const collect = async (stream: AsyncIterable<L0StreamEvent>) => {
+      const events: L0StreamEvent[] = [];
+      for await (const event of stream) events.push(event);
+      return events;
+    };
+
+    it('should report the intent and handler step before the final response', async () => {
+      const events = await collect(orchestrator.queryStream('create viral TikTok campaign'));
+
+      expect(events.map((e) => e.type)).toEqual(['intent', 'step:started', 'step:finished', 'final']);
+      expect(events[0]).toMatchObject({ intent: { name: 'campaign' }, handler: 'orchestrateCampaign' });
+      expect(events[2]).toMatchObject({ stepId: 'orchestrateCampaign', status: 'completed' });
+
+      const final = events[3] as Extract<L0StreamEvent, { type: 'final' }>;
+      expect(final.response).toEqual(await orchestrator.query('create viral TikTok campaign'));
+    });
+
+    it('should stream model tokens while answering general requests', async () => {
+      const llm = new MockLLMProvider([{ match: 'onboarding', content: 'Pair each hire with a mentor.' }]);
+      const events = await collect(new L0Orchestrator({ plugins: createPluginManager(true), llm }).queryStream('improve onboarding'));
+
+      const steps = events.filter((e) => e.type === 'step:started').map((e) => (e as { stepId: string }).stepId);
+      const tokens = events.filter((e) => e.type === 'token').map((e) => (e as { text: string }).text);
+      expect(steps).toEqual(['plan', 'answer']);
+      expect(tokens.length).toBeGreaterThan(1);
+      expect(tokens.join('')).toBe('Pair each hire with a mentor.');
+      expect(events.at(-1)).toMatchObject({ type: 'final', response: { data: { answer: 'Pair each hire with a mentor.' } } });
+    });
+
+    it('should report a failed step and rethrow the error', async () => {
+      const failing = new L0Orchestrator({
+        store: { listSnippets: async () => { throw new Error('store offline'); } } as never,
+      });
+      const events: L0StreamEvent[] = [];
+
+      await expect(async () => {
+        for await (const event of failing.queryStream('find react code snippet')) events.push(event);
+      }).rejects.toThrow('store offline');
+      expect(events.at(-1)).toMatchObject({ type: 'step:finished', status: 'failed', error: 'store offline' });
+    });
+
+    it('should not leave the error unhandled when the consumer stops early', async () => {
+      const failing = new L0Orchestrator({
+        store: { listSnippets: async () => { throw new Error('store offline'); } } as never,
+      });
+      const unhandled: unknown[] = [];
+      const onUnhandled = (reason: unknown) => unhandled.push(reason);
+      process.on('unhandledRejection', onUnhandled);
+
+      try {
+        for await (const event of failing.queryStream('find react code snippet')) {
+          if (event.type === 'intent') break;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(unhandled).toEqual([]);
+      } finally {
+        process.off('unhandledRejection', onUnhandled);
+      }
+    });
+  });
+});
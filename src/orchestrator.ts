@@ -5,7 +5,46 @@
  * @module orchestrator
  */
 
-import { pluginManager, PluginManager } from './plugins.js';
+import { pluginManager, PluginManager, type PluginAttribution, type PluginExecuteOptions } from './plugins.js';
+import type { Campaign, CodeSnippet, KnowledgeStore } from './knowledge-store.js';
+import { createFixtureKnowledgeStore } from './knowledge-fixtures.js';
+import { markSnippetUsed } from './snippets.js';
+import { DEFAULT_STOP_WORDS, SearchIndex, type SearchDocument } from './search.js';
+import { HashedNgramEmbedder, VectorIndex, hybridRank, type Embedder, type HybridOptions } from './embeddings.js';
+import {
+  WorkflowEngine,
+  defineWorkflow,
+  workflowLabels,
+  type WorkflowDefinition,
+  type WorkflowRun,
+  type WorkflowRunOptions,
+} from './workflow.js';
+import { InMemoryRunStore, RunHistory, type RunStore } from './run-history.js';
+import { AgentRegistry, createAgentStepHandler, type AgentAssignment } from './agents.js';
+import { TaskQueue, type ProcessQueueOptions, type QueueTaskInput, type TaskQueueOptions } from './task-queue.js';
+import type { LLMChatResponse, LLMMessage, LLMProvider, LLMTool } from './llm.js';
+import { criticalPathMinutes, decomposeTask, decompositionToWorkflow, formatEffort, type DecompositionResult, type DecomposedSubtask } from './decomposition.js';
+import { IntentClassifier, type BuiltinIntent, type IntentClassification, type IntentTrace, type RankedIntent } from './intents.js';
+import { InMemorySessionStore, Session, extractEntities, type SessionEntities, type SessionStore } from './session.js';
+import { formatCount, planCampaign } from './campaign-planner.js';
+import type { BrandProfile } from './brand.js';
+import {
+  ALL_TREND_PLATFORMS,
+  GLOBAL_LOCATION,
+  SampleTrendProvider,
+  extractTrendQuery,
+  fetchTrends,
+  formatGrowth,
+  parseTimeframe,
+  resolveTrendQuery,
+  type ResolvedTrendQuery,
+  type TrendProvider,
+  type TrendQuery,
+  type TrendReport,
+  type TrendStat,
+} from './trends.js';
+
+export type { Campaign, CodeSnippet, KnowledgeStore, Memory } from './knowledge-store.js';
 
 // ============================================================================
 // Type Definitions
@@ -23,58 +62,359 @@ export interface L0Response {
   clipboard?: boolean;
   dashboardUrl?: string;
   workflow?: string[];
+  /** Executable form of `workflow`, runnable with {@link L0Orchestrator.runWorkflow} */
+  workflowDefinition?: WorkflowDefinition;
   agents?: string[];
+  /** Agent each workflow step is delegated to when the workflow runs */
+  assignments?: AgentAssignment[];
+  matches?: L0Match[];
+  intent?: L0ResponseIntent;
+  /** Routing trace, present when the query was made with `explain: true` */
+  explain?: L0RoutingExplanation;
+  /** Conversation state after this turn, present when the query was made with a `session` */
+  session?: L0SessionSummary;
+  /** What each plugin tried for this response did, present when a plugin won routing */
+  attribution?: PluginAttribution[];
 }
 
-export interface L0QueryOptions {
-  project?: string;
-  format?: OutputFormat;
-  [key: string]: unknown;
+/**
+ * Where a session stands after a turn
+ */
+export interface L0SessionSummary {
+  id: string;
+  turns: number;
+  entities: SessionEntities;
 }
 
-interface CodeSnippet {
-  id: string;
-  title: string;
-  content: string;
-  language: string;
-  tags: string[];
-  lastUsed: string;
-  project: string;
+/**
+ * The routing decision that produced a response
+ */
+export interface L0ResponseIntent {
+  /** Built-in intent name, `plugin:<name>`, or `general` when nothing matched */
+  name: string;
+  plugin?: string;
+  score: number;
+  confidence: number;
 }
 
-interface Memory {
+/**
+ * A ranked search hit included with snippet and memory responses
+ */
+export interface L0Match {
   id: string;
   title: string;
-  content: string;
-  type: string;
-  date: string;
-  tags: string[];
+  score: number;
+  keywordScore?: number;
+  semanticScore?: number;
 }
 
-interface Campaign {
-  id: string;
-  title: string;
-  strategy: string;
-  platforms: string[];
-  budget: string;
-  duration: string;
-  kpis: string[];
+/**
+ * Why a query was routed where it was
+ */
+export interface L0RoutingExplanation extends IntentTrace {
+  /** Candidates that cleared the minimum score, best first */
+  candidates: RankedIntent[];
+  winner: {
+    /** Built-in intent name, `plugin:<name>`, or `general` */
+    intent: string;
+    /** Method or plugin that produced the response, e.g. `findCode` or `plugin:memory` */
+    handler: string;
+    reason: string;
+  };
+}
+
+/**
+ * Progress event from {@link L0Orchestrator.queryStream}
+ *
+ * Every stream starts with `intent` and ends with `final`; steps and model
+ * tokens arrive in between as the handler works.
+ */
+export type L0StreamEvent =
+  | { type: 'intent'; intent: L0ResponseIntent; handler: string }
+  | { type: 'step:started'; stepId: string; label: string }
+  | { type: 'token'; stepId: string; text: string }
+  | { type: 'step:finished'; stepId: string; label: string; status: 'completed' | 'failed'; durationMs: number; error?: string }
+  | { type: 'final'; response: L0Response };
+
+type StreamEmit = (event: L0StreamEvent) => void;
+
+/**
+ * Campaign settings, from the request text or given explicitly
+ */
+export interface CampaignParameters extends SessionEntities {
+  durationDays?: number;
+  /** First day as `YYYY-MM-DD` (default: today) */
+  startDate?: string;
+  /** Save the plan to the campaign store (default: when the request says to save it) */
+  save?: boolean;
 }
 
-interface MockDatabase {
-  snippets: CodeSnippet[];
-  memories: Memory[];
-  campaigns: Campaign[];
+/**
+ * Conversation state a handler works with
+ */
+interface TurnContext {
+  entities: SessionEntities;
+  durationDays?: number;
+  save?: boolean;
+  session?: Session;
+}
+
+export interface L0QueryOptions {
+  project?: string;
+  format?: OutputFormat;
+  /** Attach an {@link L0RoutingExplanation} to the response */
+  explain?: boolean;
+  /** Session id; the turn is recorded there, and earlier turns inform routing and answers */
+  session?: string;
+  /** Platforms, budget and product to use instead of those the query mentions */
+  entities?: SessionEntities;
+  /** Campaign length in days */
+  durationDays?: number;
+  /** Save planned campaigns to the campaign store (default: when the query says to save one) */
+  save?: boolean;
+  /** Handle the query as this built-in intent instead of classifying it */
+  intent?: BuiltinIntent;
+  /** Only delegate workflow steps to these registered agents, recorded as `workflowDefinition.agents` */
+  agents?: string[];
+  [key: string]: unknown;
+}
+
+export interface L0OrchestratorOptions {
+  plugins?: PluginManager;
+  /**
+   * How plugins that win routing run (default: `fallback`, trying the
+   * other matching plugins in ranked order when one fails or declines)
+   */
+  pluginExecution?: Pick<PluginExecuteOptions, 'mode' | 'limit'>;
+  store?: KnowledgeStore;
+  /** Embedder for semantic search; `null` disables it and ranks by keywords only */
+  embedder?: Embedder | null;
+  /** Weighting between keyword and semantic scores */
+  hybrid?: HybridOptions;
+  /** Intent classifier used to route queries (default: built-in routing rules) */
+  classifier?: IntentClassifier;
+  /** Agents that workflow steps are delegated to (default: built-in offline agents) */
+  agents?: AgentRegistry;
+  /** Engine that executes workflow definitions (default: delegates every step to `agents`) */
+  workflowEngine?: WorkflowEngine;
+  /** Where workflow runs are recorded (default: in memory) */
+  runStore?: RunStore;
+  /** Concurrency caps, retry policy and storage for the agent task queue */
+  queue?: TaskQueueOptions;
+  /** Chat model used to answer general requests (default: none, answers from templates) */
+  llm?: LLMProvider;
+  /** Where conversation sessions are kept (default: in memory) */
+  sessions?: SessionStore;
+  /** Source of trend snapshots (default: built-in sample data) */
+  trends?: TrendProvider;
+  /** Brand that trends are scored and filtered against (default: none, trends are not scored) */
+  brand?: BrandProfile;
 }
 
 // ============================================================================
 // Constants
 // ============================================================================
 
-const COMMON_STOP_WORDS = ['the', 'and', 'for', 'with', 'from', 'that', 'this', 'nonexistent', 'component'] as const;
-const MIN_KEYWORD_LENGTH = 2;
-const MIN_MATCH_COUNT = 2;
+// Words that express what the user wants done rather than describe the item itself
+const QUERY_STOP_WORDS = ['code', 'snippet', 'snippets', 'component', 'find', 'get', 'show', 'search', 'memory', 'memories', 'notes'] as const;
+const SNIPPET_FIELD_WEIGHTS = { title: 3, tags: 2, content: 1 };
+const MEMORY_FIELD_WEIGHTS = { title: 3, tags: 2, content: 1 };
+const CAMPAIGN_FIELD_WEIGHTS = { title: 3, platforms: 2, strategy: 1 };
+// Fields embedded for semantic search; raw code is left out as it drowns out the description
+const SNIPPET_SEMANTIC_FIELDS = ['title', 'tags'];
+const MEMORY_SEMANTIC_FIELDS = ['title', 'tags', 'content'];
+const CAMPAIGN_SEMANTIC_FIELDS = ['title', 'strategy'];
 const PREVIEW_LENGTH = 100;
+// Tool-call round trips allowed before the model must answer
+const MAX_TOOL_ROUNDS = 3;
+const KNOWLEDGE_RESULTS_PER_KIND = 3;
+// Earlier session turns replayed to the model
+const MAX_HISTORY_TURNS = 6;
+// Campaign requests are only saved when they ask for it
+const SAVE_CAMPAIGN_PATTERN = /\bsave\b/i;
+
+const GENERAL_SYSTEM_PROMPT = [
+  'You are VortexAI L0, a work orchestrator for social media, content and development teams.',
+  'Answer the request with a short, concrete plan or answer.',
+  'Use the search_knowledge tool when stored snippets or notes could help.',
+].join(' ');
+
+const SEARCH_KNOWLEDGE_TOOL: LLMTool = {
+  name: 'search_knowledge',
+  description: 'Search saved memories and code snippets in the L0 knowledge base',
+  parameters: {
+    type: 'object',
+    properties: { query: { type: 'string', description: 'What to look for' } },
+    required: ['query'],
+  },
+};
+const GENERAL_HANDLER = 'orchestrateGeneral';
+const BUILTIN_HANDLERS: Record<BuiltinIntent, string> = {
+  help: 'getHelp',
+  code: 'findCode',
+  memory: 'searchMemories',
+  campaign: 'orchestrateCampaign',
+  content: 'orchestrateContent',
+  trends: 'analyzeTrends',
+};
+
+const HANDLER_LABELS: Record<string, string> = {
+  getHelp: 'Looking up help',
+  findCode: 'Searching code snippets',
+  searchMemories: 'Searching memories',
+  orchestrateCampaign: 'Planning campaign',
+  orchestrateContent: 'Planning content',
+  analyzeTrends: 'Analyzing trends',
+  [GENERAL_HANDLER]: 'Building workflow',
+};
+
+const ignoreEvents: StreamEmit = () => undefined;
+
+// ============================================================================
+// Response Helpers
+// ============================================================================
+
+interface RankedRecord<T> {
+  record: T;
+  score: number;
+  keywordScore?: number;
+  semanticScore?: number;
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
+
+function toMatch({ record, score, keywordScore, semanticScore }: RankedRecord<{ id: string; title: string }>): L0Match {
+  return {
+    id: record.id,
+    title: record.title,
+    score: roundScore(score),
+    ...(keywordScore !== undefined && { keywordScore: roundScore(keywordScore) }),
+    ...(semanticScore !== undefined && { semanticScore: roundScore(semanticScore) }),
+  };
+}
+
+/**
+ * Handler a classification will be sent to, before any plugin declines
+ */
+function plannedHandler(best: RankedIntent | undefined): string {
+  if (best?.kind === 'plugin') return best.intent;
+  if (best?.kind === 'builtin') return BUILTIN_HANDLERS[best.intent as BuiltinIntent];
+  return GENERAL_HANDLER;
+}
+
+function toResponseIntent(best: RankedIntent | undefined): L0ResponseIntent {
+  if (!best) {
+    return { name: 'general', score: 0, confidence: 0 };
+  }
+
+  return {
+    name: best.intent,
+    ...(best.plugin && { plugin: best.plugin }),
+    score: roundScore(best.score),
+    confidence: roundScore(best.confidence),
+  };
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Run one unit of work between `step:started` and `step:finished` events
+ */
+async function runStep<T>(emit: StreamEmit, stepId: string, label: string, work: () => Promise<T>): Promise<T> {
+  const started = Date.now();
+  emit({ type: 'step:started', stepId, label });
+
+  try {
+    const result = await work();
+    emit({ type: 'step:finished', stepId, label, status: 'completed', durationMs: Date.now() - started });
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    emit({ type: 'step:finished', stepId, label, status: 'failed', durationMs: Date.now() - started, error: message });
+    throw error;
+  }
+}
+
+/**
+ * Replay recent session turns as chat messages
+ */
+function toHistory(session: Session): LLMMessage[] {
+  return session.turns.slice(-MAX_HISTORY_TURNS).flatMap((turn): LLMMessage[] => [
+    { role: 'user', content: turn.query },
+    { role: 'assistant', content: turn.answer || turn.message },
+  ]);
+}
+
+/**
+ * Describe in one sentence why the winning handler was chosen
+ */
+function describeRouting(classification: IntentClassification, intent: string, minScore: number): string {
+  const [best, runnerUp] = classification.intents;
+
+  if (!best) {
+    return `No intent or plugin reached the minimum score of ${minScore}; fell back to general orchestration`;
+  }
+  if (intent !== best.intent) {
+    const fallback = intent === 'general' ? 'general orchestration' : intent;
+    return `Plugin "${best.plugin}" won with score ${roundScore(best.score)} but did not answer; fell back to ${fallback}`;
+  }
+
+  const matched = best.matched.length > 0 ? ` (matched: ${best.matched.join(', ')})` : '';
+  const margin = runnerUp
+    ? `ahead of ${runnerUp.intent} at ${roundScore(runnerUp.score)}`
+    : 'with no other candidate above the minimum';
+
+  return `${best.intent} scored ${roundScore(best.score)}${matched} ${margin}; confidence ${formatPercent(best.confidence)}`;
+}
+
+/**
+ * Flatten the searchable fields of a record into one string for embedding
+ */
+function toSemanticText(record: object, fields: string[]): string {
+  const values = record as Record<string, unknown>;
+  return fields
+    .map((field) => values[field])
+    .map((value) => (Array.isArray(value) ? value.join(' ') : typeof value === 'string' ? value : ''))
+    .join(' ');
+}
+
+/**
+ * Platform, location and window of a trend query, e.g. `TikTok, US, last 7 days`
+ */
+function describeTrendScope(query: ResolvedTrendQuery): string {
+  return [
+    query.platform === ALL_TREND_PLATFORMS ? 'all platforms' : query.platform,
+    query.location === GLOBAL_LOCATION ? 'worldwide' : query.location,
+    `last ${parseTimeframe(query.timeframe).label}`,
+  ].join(', ');
+}
+
+/**
+ * What to post about, from the trends' volume and growth
+ */
+function recommendFromTrends(trends: TrendStat[]): string[] {
+  if (trends.length === 0) {
+    return ['Widen the timeframe or location, or check the trend source'];
+  }
+
+  const [top] = trends;
+  const recommendations = [`Lead with ${top.hashtag}: ${formatCount(top.volume)} posts, ${formatGrowth(top.growth)}`];
+  const riser = trends
+    .filter((t) => t !== top && t.growth !== null && t.growth > 0)
+    .sort((a, b) => (b.growth as number) - (a.growth as number))[0];
+  if (riser) {
+    recommendations.push(`Ride ${riser.hashtag}, the fastest riser at ${formatGrowth(riser.growth)}`);
+  }
+  const falling = trends.filter((t) => t.growth !== null && t.growth < 0).map((t) => t.hashtag);
+  if (falling.length > 0) {
+    recommendations.push(`Ease off ${falling.join(', ')}: volume is falling`);
+  }
+  return recommendations;
+}
 
 // ============================================================================
 // L0 Orchestrator Class
@@ -87,119 +427,63 @@ const PREVIEW_LENGTH = 100;
  *
  * @example
  * ```typescript
- * import { L0Orchestrator } from 'vortexai-l0/orchestrator';
+ * import { L0Orchestrator, InMemoryKnowledgeStore } from 'vortexai-l0';
  *
- * const orchestrator = new L0Orchestrator();
+ * const orchestrator = new L0Orchestrator({ store: new InMemoryKnowledgeStore(myData) });
  * const response = await orchestrator.query('create viral TikTok campaign');
  * console.log(response.message);
  * ```
  */
 export class L0Orchestrator {
   private readonly plugins: PluginManager;
+  private readonly pluginExecution: Pick<PluginExecuteOptions, 'mode' | 'limit'>;
+  private readonly store: KnowledgeStore;
+  private readonly embedder: Embedder | null;
+  private readonly hybrid: HybridOptions;
+  private readonly vectorIndexes: Map<string, VectorIndex> = new Map();
+  private readonly classifier: IntentClassifier;
+  private readonly agents: AgentRegistry;
+  private readonly workflowEngine: WorkflowEngine;
+  private readonly runHistory: RunHistory;
+  private readonly taskQueue: TaskQueue;
+  private readonly llm?: LLMProvider;
+  private readonly sessions: SessionStore;
+  private readonly trends: TrendProvider;
+  private readonly brand?: BrandProfile;
 
-  constructor(plugins?: PluginManager) {
-    this.plugins = plugins || pluginManager;
-  }
-
-  private readonly mockDatabase: MockDatabase = {
-    snippets: [
-      {
-        id: 'floating-card-1',
-        title: 'Floating Black Card Component',
-        content: `<div className="fixed bottom-4 right-4 bg-black rounded-lg shadow-xl p-4 text-white max-w-sm animate-fade-in">
-  <div className="flex items-center gap-3">
-    <div className="w-8 h-8 bg-blue-500 rounded-full" />
-    <div>
-      <h3 className="font-medium">Notification</h3>
-      <p className="text-sm opacity-75">{message}</p>
-    </div>
-  </div>
-</div>`,
-        language: 'react',
-        tags: ['ui', 'floating', 'notification', 'card'],
-        lastUsed: '2 days ago',
-        project: 'dashboard-redesign'
-      },
-      {
-        id: 'social-post-scheduler',
-        title: 'Social Media Post Scheduler',
-        content: `const schedulePost = async (content, platforms, scheduledTime) => {
-  const post = {
-    content,
-    platforms: platforms.split(','),
-    scheduledTime: new Date(scheduledTime),
-    status: 'scheduled',
-    analytics: { impressions: 0, engagement: 0 }
-  };
-  
-  return await socialMediaAPI.schedule(post);
-};`,
-        language: 'javascript',
-        tags: ['social-media', 'scheduler', 'automation'],
-        lastUsed: '1 hour ago',
-        project: 'vortex-campaign-manager'
-      },
-      {
-        id: 'trend-analyzer',
-        title: 'Trending Topics Analyzer',
-        content: `const analyzeTrends = async (platform, timeframe = '24h') => {
-  const trends = await trendingAPI.getTrends({
-    platform,
-    timeframe,
-    location: 'global'
-  });
-  
-  return trends.map(trend => ({
-    hashtag: trend.name,
-    volume: trend.tweet_volume,
-    growth: trend.growth_rate,
-    relevanceScore: calculateRelevance(trend)
-  }));
-};`,
-        language: 'javascript',
-        tags: ['trends', 'social-media', 'analytics'],
-        lastUsed: '30 minutes ago',
-        project: 'trend-intelligence'
-      }
-    ],
-    memories: [
-      {
-        id: 'campaign-strategy-1',
-        title: 'Viral TikTok Campaign Strategy',
-        content: 'Key elements: Hook in first 3 seconds, trending audio, user-generated content encouragement, cross-platform promotion. Target: Gen Z, 16-24 age group.',
-        type: 'strategy',
-        date: 'today',
-        tags: ['tiktok', 'viral', 'strategy', 'gen-z']
-      },
-      {
-        id: 'content-calendar-1',
-        title: 'Q4 Content Calendar Framework',
-        content: 'Weekly themes: Monday motivation, Tuesday tips, Wednesday wins, Thursday throwback, Friday fun. Holiday content: Halloween, Black Friday, Cyber Monday, Christmas campaigns.',
-        type: 'planning',
-        date: 'yesterday',
-        tags: ['content-calendar', 'q4', 'holidays', 'framework']
-      },
-      {
-        id: 'oauth-implementation-1',
-        title: 'OAuth Integration Best Practices',
-        content: 'Use PKCE for public clients, implement proper state validation, secure token storage, refresh token rotation. Never expose client secrets in frontend.',
-        type: 'reference',
-        date: '3 days ago',
-        tags: ['oauth', 'security', 'authentication', 'best-practices']
-      }
-    ],
-    campaigns: [
-      {
-        id: 'eco-product-launch',
-        title: 'Eco-Friendly Product Launch Campaign',
-        strategy: 'Sustainability-focused messaging, influencer partnerships, user-generated content, educational content series',
-        platforms: ['tiktok', 'instagram', 'twitter', 'linkedin'],
-        budget: '$10000',
-        duration: '2 weeks',
-        kpis: ['brand_awareness', 'engagement_rate', 'conversions']
-      }
-    ]
-  };
+  /**
+   * @param options - Plugin manager and knowledge store to use
+   * @param options.plugins - Plugin manager (default: shared singleton)
+   * @param options.store - Snippet, memory and campaign storage (default: fixture store)
+   * @param options.embedder - Semantic search embedder (default: offline hashed n-grams)
+   * @param options.hybrid - Keyword/semantic score weighting
+   * @param options.classifier - Intent classifier for query routing
+   * @param options.agents - Agent registry used to delegate workflow steps
+   * @param options.workflowEngine - Engine used by {@link runWorkflow}
+   * @param options.runStore - Storage for workflow run history
+   * @param options.queue - Task queue configuration
+   * @param options.llm - Chat model for general requests
+   * @param options.sessions - Storage for conversation sessions
+   */
+  constructor(options?: PluginManager | L0OrchestratorOptions) {
+    // Handle legacy PluginManager parameter
+    const opts: L0OrchestratorOptions = options instanceof PluginManager ? { plugins: options } : options || {};
+
+    this.plugins = opts.plugins || pluginManager;
+    this.pluginExecution = { mode: 'fallback', ...opts.pluginExecution };
+    this.store = opts.store || createFixtureKnowledgeStore();
+    this.embedder = opts.embedder === undefined ? new HashedNgramEmbedder() : opts.embedder;
+    this.hybrid = opts.hybrid || {};
+    this.classifier = opts.classifier || new IntentClassifier();
+    this.agents = opts.agents || new AgentRegistry();
+    this.workflowEngine = opts.workflowEngine || new WorkflowEngine({ fallbackHandler: createAgentStepHandler(this.agents) });
+    this.runHistory = new RunHistory(this.workflowEngine, opts.runStore || new InMemoryRunStore());
+    this.taskQueue = new TaskQueue(this.agents, opts.queue);
+    this.llm = opts.llm;
+    this.sessions = opts.sessions || new InMemorySessionStore();
+    this.trends = opts.trends || new SampleTrendProvider();
+    this.brand = opts.brand;
+  }
 
   // ==========================================================================
   // Public API Methods
@@ -213,40 +497,189 @@ export class L0Orchestrator {
    * @returns Promise resolving to an L0Response
    */
   async query(query: string, options?: L0QueryOptions): Promise<L0Response> {
-    const lowerQuery = query.toLowerCase();
+    return this.process(query, options, ignoreEvents);
+  }
 
-    // Route query to appropriate handler based on intent detection
-    if (this.isHelpRequest(lowerQuery)) {
-      return this.getHelp(query);
+  /**
+   * Query the orchestrator and receive progress as it happens
+   *
+   * Yields the chosen intent, each step as it starts and finishes, model
+   * tokens as they are generated, and finally the same response
+   * {@link query} would return.
+   *
+   * @example
+   * ```typescript
+   * for await (const event of orchestrator.queryStream('plan our product launch')) {
+   *   if (event.type === 'token') process.stdout.write(event.text);
+   *   if (event.type === 'final') console.log(event.response.workflow);
+   * }
+   * ```
+   */
+  async *queryStream(query: string, options?: L0QueryOptions): AsyncGenerator<L0StreamEvent> {
+    const pending: L0StreamEvent[] = [];
+    let wake: (() => void) | undefined;
+    let settled = false;
+
+    const emit: StreamEmit = (event) => {
+      pending.push(event);
+      wake?.();
+    };
+    const work = this.process(query, options, emit)
+      .then((response) => emit({ type: 'final', response }))
+      .finally(() => {
+        settled = true;
+        wake?.();
+      });
+    // A consumer that stops early never reaches `await work` below
+    work.catch(() => undefined);
+
+    while (pending.length > 0 || !settled) {
+      if (pending.length === 0) {
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = undefined;
+        continue;
+      }
+      yield pending.shift()!;
     }
 
-    if (this.isCodeRequest(lowerQuery)) {
-      return this.findCode(query);
+    // Surfaces any error thrown while processing
+    await work;
+  }
+
+  private async process(query: string, options: L0QueryOptions | undefined, emit: StreamEmit): Promise<L0Response> {
+    this.checkAgents(options?.agents);
+    const session = options?.session ? await this.openSession(options.session) : undefined;
+    const turn: TurnContext = {
+      entities: session ? session.applyQuery(query, options?.entities) : { ...extractEntities(query), ...options?.entities },
+      durationDays: options?.durationDays,
+      save: options?.save,
+      session,
+    };
+    const { classification, routedQuery } = this.classify(query, session, options?.explain, options?.intent);
+    const { best } = classification;
+    emit({ type: 'intent', intent: toResponseIntent(best), handler: plannedHandler(best) });
+
+    const { response, handler, intent, attribution } = await this.route(routedQuery, classification, options, emit, turn);
+    const result: L0Response = { ...response, intent: toResponseIntent(best), ...(attribution && { attribution }) };
+
+    if (response.workflowDefinition) {
+      if (options?.agents) {
+        result.workflowDefinition = { ...response.workflowDefinition, agents: options.agents };
+      }
+      result.assignments = this.agents.assign(response.workflowDefinition.steps, { include: options?.agents });
     }
 
-    if (this.isMemoryRequest(lowerQuery)) {
-      return this.searchMemories(query);
+    if (classification.trace) {
+      result.explain = {
+        ...classification.trace,
+        candidates: classification.intents,
+        winner: {
+          intent,
+          handler,
+          reason: options?.intent
+            ? `${intent} was requested explicitly`
+            : describeRouting(classification, intent, classification.trace.minScore),
+        },
+      };
     }
 
-    if (this.isCampaignRequest(lowerQuery)) {
-      return this.orchestrateCampaign(query);
+    if (session) {
+      const answer = typeof response.data === 'object' && typeof response.data.answer === 'string' ? response.data.answer : undefined;
+      session.addTurn({
+        query,
+        ...(routedQuery !== query && { resolvedQuery: routedQuery }),
+        intent: result.intent!.name,
+        handler,
+        message: response.message,
+        ...(answer && { answer }),
+      });
+      await this.sessions.save(session.toJSON());
+      result.session = { id: session.id, turns: session.turns.length, entities: session.toJSON().entities };
     }
 
-    if (this.isContentRequest(lowerQuery)) {
-      return this.orchestrateContent(query);
+    return result;
+  }
+
+  /**
+   * Classify a query, reading a vague follow-up in light of the previous turn
+   *
+   * "now make it for Instagram" matches nothing on its own, so it is
+   * classified together with the request it follows. A requested intent
+   * wins outright, ahead of whatever the query scored.
+   */
+  private classify(
+    query: string,
+    session: Session | undefined,
+    trace: boolean | undefined,
+    requested: BuiltinIntent | undefined
+  ): { classification: IntentClassification; routedQuery: string } {
+    const classification = this.classifier.classify(query, this.plugins, { trace });
+    if (requested) {
+      const scored = classification.intents.find((c) => c.intent === requested);
+      const best: RankedIntent = { intent: requested, kind: 'builtin', score: scored?.score ?? 0, confidence: 1, matched: scored?.matched ?? [] };
+      return {
+        classification: { ...classification, best, intents: [best, ...classification.intents.filter((c) => c !== scored)] },
+        routedQuery: query,
+      };
     }
+    const followUp = !classification.best && session?.followUpQuery(query);
 
-    if (this.isTrendRequest(lowerQuery)) {
-      return this.analyzeTrends(query);
+    if (followUp) {
+      const expanded = this.classifier.classify(followUp, this.plugins, { trace });
+      if (expanded.best) {
+        return { classification: expanded, routedQuery: followUp };
+      }
     }
 
-    // Try plugins before falling back to general orchestration
-    const pluginResponse = await this.plugins.execute(query, options as Record<string, unknown>);
-    if (pluginResponse) {
-      return pluginResponse;
+    return { classification, routedQuery: query };
+  }
+
+  /**
+   * @throws Error naming any agent that is not registered
+   */
+  private checkAgents(names: string[] | undefined): void {
+    const unknown = names?.filter((name) => !this.agents.get(name)) || [];
+    if (unknown.length > 0) {
+      const available = this.agents.list().map((agent) => agent.name).join(', ');
+      throw new Error(`Unknown agent${unknown.length > 1 ? 's' : ''} ${unknown.map((n) => `"${n}"`).join(', ')}. Available: ${available}`);
     }
+  }
+
+  // ==========================================================================
+  // Sessions
+  // ==========================================================================
+
+  /**
+   * Start a new conversation
+   *
+   * Pass its id as the `session` query option to carry context between turns.
+   */
+  async startSession(id?: string): Promise<Session> {
+    const session = new Session({ id });
+    await this.sessions.save(session.toJSON());
+    return session;
+  }
 
-    return this.orchestrateGeneral(query);
+  /**
+   * Load a conversation by id
+   */
+  async getSession(id: string): Promise<Session | undefined> {
+    const data = await this.sessions.get(id);
+    return data && Session.fromJSON(data);
+  }
+
+  /**
+   * List conversations, most recently active first
+   */
+  async listSessions(): Promise<Session[]> {
+    return (await this.sessions.list()).map((data) => Session.fromJSON(data));
+  }
+
+  /**
+   * Resume a session, starting it if the id is new
+   */
+  private async openSession(id: string): Promise<Session> {
+    return (await this.getSession(id)) || new Session({ id });
   }
 
   /**
@@ -256,32 +689,153 @@ export class L0Orchestrator {
     return this.plugins;
   }
 
-  // ==========================================================================
-  // Intent Detection Helpers
-  // ==========================================================================
+  /**
+   * Get the knowledge store backing snippet, memory and campaign lookups
+   */
+  getKnowledgeStore(): KnowledgeStore {
+    return this.store;
+  }
+
+  /**
+   * Get the chat model used for general requests, if one is configured
+   */
+  getLLMProvider(): LLMProvider | undefined {
+    return this.llm;
+  }
+
+  /**
+   * Get the engine that executes workflow definitions
+   */
+  getWorkflowEngine(): WorkflowEngine {
+    return this.workflowEngine;
+  }
+
+  /**
+   * Get the agents that workflow steps are delegated to
+   */
+  getAgentRegistry(): AgentRegistry {
+    return this.agents;
+  }
 
-  private isHelpRequest(query: string): boolean {
-    return query.startsWith('help') || query.includes('help ') || query.includes('how to');
+  /**
+   * Get the priority queue of agent tasks
+   */
+  getTaskQueue(): TaskQueue {
+    return this.taskQueue;
   }
 
-  private isCodeRequest(query: string): boolean {
-    return query.includes('code') || query.includes('snippet');
+  /**
+   * Queue a task for the best-matching agent
+   *
+   * @returns The task id
+   */
+  queueTask(task: QueueTaskInput): string {
+    return this.taskQueue.queueTask(task);
   }
 
-  private isMemoryRequest(query: string): boolean {
-    return query.includes('memory') || query.includes('notes') || query.includes('meeting');
+  /**
+   * Work through queued tasks until none are left to run
+   */
+  async processQueue(options?: ProcessQueueOptions): Promise<void> {
+    await this.taskQueue.processQueue(options);
   }
 
-  private isCampaignRequest(query: string): boolean {
-    return query.includes('campaign') || query.includes('social media') || query.includes('viral');
+  /**
+   * Get the recorded workflow runs, for listing, resuming or cancelling
+   */
+  getRunHistory(): RunHistory {
+    return this.runHistory;
   }
 
-  private isContentRequest(query: string): boolean {
-    return query.includes('content') && (query.includes('create') || query.includes('strategy'));
+  /**
+   * Execute a workflow definition, such as `response.workflowDefinition`
+   *
+   * The run is recorded in the run store as it progresses.
+   *
+   * @param definition - Workflow to run
+   * @param options - Inputs, progress callback and cancellation signal
+   * @returns The finished run with per-step status and outputs
+   */
+  async runWorkflow(definition: WorkflowDefinition, options?: WorkflowRunOptions): Promise<WorkflowRun> {
+    return this.runHistory.start(definition, options);
   }
 
-  private isTrendRequest(query: string): boolean {
-    return query.includes('trend') || query.includes('hashtag') || query.includes('analytics');
+  /**
+   * Continue a recorded run from its last completed step
+   */
+  async resumeWorkflow(runId: string, options?: Omit<WorkflowRunOptions, 'resume'>): Promise<WorkflowRun> {
+    return this.runHistory.resume(runId, options);
+  }
+
+  // ==========================================================================
+  // Intent Routing
+  // ==========================================================================
+
+  /**
+   * Dispatch a query to the handler for the winning intent
+   *
+   * A winning plugin runs in the configured {@link PluginExecuteOptions.mode},
+   * trying the other matching plugins in ranked order. When none of them
+   * answers, the best built-in candidate or the general answer takes over.
+   *
+   * @returns The response, the intent and handler that produced it, and what each plugin tried did
+   */
+  private async route(
+    query: string,
+    classification: IntentClassification,
+    options: L0QueryOptions | undefined,
+    emit: StreamEmit,
+    turn: TurnContext
+  ): Promise<{ response: L0Response; handler: string; intent: string; attribution?: PluginAttribution[] }> {
+    const { best } = classification;
+    let attribution: PluginAttribution[] | undefined;
+
+    if (best?.kind === 'plugin') {
+      const plugins = classification.intents.filter((c) => c.kind === 'plugin').map((c) => c.plugin!);
+      const run = await runStep(emit, best.intent, `Running ${best.plugin} plugin`, () =>
+        this.plugins.run(query, options as Record<string, unknown>, turn.session?.toJSON(), { ...this.pluginExecution, plugins })
+      );
+      attribution = run.attribution;
+      if (run.response) {
+        const answered = `plugin:${attribution.find((a) => a.status === 'answered')!.plugin}`;
+        return { response: run.response, handler: answered, intent: answered, attribution };
+      }
+    }
+
+    const builtin = classification.intents.find((c) => c.kind === 'builtin');
+    if (builtin) {
+      const intent = builtin.intent as BuiltinIntent;
+      const handler = BUILTIN_HANDLERS[intent];
+      return {
+        response: await runStep(emit, handler, HANDLER_LABELS[handler], () => this.runBuiltinIntent(intent, query, turn)),
+        handler,
+        intent,
+        ...(attribution && { attribution }),
+      };
+    }
+
+    const history = turn.session ? toHistory(turn.session) : [];
+    const response = this.llm
+      ? await this.generalResponse(query, emit, history)
+      : await runStep(emit, GENERAL_HANDLER, HANDLER_LABELS[GENERAL_HANDLER], () => this.generalResponse(query, emit, history));
+    return { response, handler: GENERAL_HANDLER, intent: 'general', ...(attribution && { attribution }) };
+  }
+
+  private runBuiltinIntent(intent: BuiltinIntent, query: string, { entities, durationDays, save }: TurnContext): Promise<L0Response> {
+    switch (intent) {
+      case 'help':
+        return this.getHelp(query);
+      case 'code':
+        return this.findCode(query);
+      case 'memory':
+        return this.searchMemories(query);
+      case 'campaign':
+        return this.orchestrateCampaign(query, { ...entities, durationDays, save });
+      case 'content':
+        return this.orchestrateContent(query, entities);
+      case 'trends':
+        return this.analyzeTrends(query);
+    }
   }
 
   // ==========================================================================
@@ -290,40 +844,74 @@ export class L0Orchestrator {
 
   /**
    * Orchestrate a social media campaign
+   *
+   * Plans the campaign with {@link planCampaign}. The plan is saved to the
+   * knowledge store when `params.save` is set or the request says to save it.
+   *
+   * @param params - Platforms, budget, product, duration and start date (default: those mentioned in the request)
    */
-  async orchestrateCampaign(request: string): Promise<L0Response> {
-    const campaignTypes: { [key: string]: string } = {
-      'viral': 'Viral Campaign Strategy',
-      'product launch': 'Product Launch Campaign',
-      'brand awareness': 'Brand Awareness Campaign',
-      'engagement': 'Engagement-Focused Campaign'
-    };
+  async orchestrateCampaign(request: string, params: CampaignParameters = extractEntities(request)): Promise<L0Response> {
+    const campaign = planCampaign({
+      objective: request,
+      platforms: params.platforms,
+      budget: params.budget,
+      durationDays: params.durationDays,
+      startDate: params.startDate,
+      product: params.product,
+    });
+    const plan = campaign.plan!;
+    const similarCampaigns = (await this.findCampaigns(request)).filter((c) => c.id !== campaign.id);
+    const saved = params.save ?? SAVE_CAMPAIGN_PATTERN.test(request);
+    if (saved) {
+      await this.store.saveCampaign(campaign);
+    }
 
-    const campaignType = Object.keys(campaignTypes).find(type => 
-      request.toLowerCase().includes(type)
-    ) || 'general';
+    const keyPlatforms = campaign.platforms;
+    const impressions = plan.kpiTargets.find((kpi) => kpi.metric === 'impressions')?.target || 0;
+
+    const workflowDefinition = defineWorkflow(
+      'campaign',
+      plan.type,
+      [
+        { id: 'research', label: '📊 Market Research & Competitor Analysis', handler: 'research', inputs: { request: '{{input.request}}' }, outputs: ['insights'] },
+        { id: 'strategy', label: '🎨 Creative Strategy & Content Planning', handler: 'creative', inputs: { insights: '{{research.insights}}' }, outputs: ['contentPlan'], dependencies: ['research'] },
+        { id: 'content', label: '📱 Platform-Specific Content Creation', handler: 'content', inputs: { plan: '{{strategy.contentPlan}}', platforms: '{{input.platforms}}' }, outputs: ['posts'], dependencies: ['strategy'] },
+        { id: 'schedule', label: '⏰ Scheduling & Automation Setup', handler: 'scheduling', inputs: { posts: '{{content.posts}}' }, outputs: ['schedule'], dependencies: ['content'] },
+        // Tracking only needs the research baseline, so it runs alongside content production
+        { id: 'tracking', label: '📈 Analytics & Performance Tracking', handler: 'analytics', inputs: { baseline: '{{research.insights}}' }, outputs: ['dashboard'], dependencies: ['research'] },
+      ],
+      { request, platforms: keyPlatforms, durationDays: plan.durationDays, campaignId: campaign.id }
+    );
 
     return {
-      message: `🎯 Orchestrating ${campaignTypes[campaignType] || 'Social Media Campaign'}`,
+      message: `🎯 Orchestrating ${campaign.title}`,
       type: 'campaign',
-      workflow: [
-        '📊 Market Research & Competitor Analysis',
-        '🎨 Creative Strategy & Content Planning',
-        '📱 Platform-Specific Content Creation',
-        '⏰ Scheduling & Automation Setup',
-        '📈 Analytics & Performance Tracking'
-      ],
+      workflow: workflowLabels(workflowDefinition),
+      workflowDefinition,
       agents: [
         'Research Agent: Analyzing market trends and competitor strategies',
         'Creative Agent: Developing content themes and visual concepts',
-        'Platform Agent: Optimizing for TikTok, Instagram, Twitter algorithms',
+        `Platform Agent: Optimizing for ${keyPlatforms.join(', ')} algorithms`,
         'Analytics Agent: Setting up tracking and KPI dashboards'
       ],
       data: {
-        estimatedDuration: '2-3 weeks',
-        recommendedBudget: '$5,000 - $15,000',
-        expectedReach: '100K - 500K impressions',
-        keyPlatforms: ['TikTok', 'Instagram', 'Twitter']
+        campaignId: campaign.id,
+        saved,
+        estimatedDuration: campaign.duration,
+        recommendedBudget: campaign.budget,
+        totalBudget: plan.totalBudget,
+        expectedReach: `${formatCount(impressions)} impressions`,
+        keyPlatforms,
+        ...(plan.product && { product: plan.product }),
+        startDate: plan.startDate,
+        endDate: plan.endDate,
+        budgetSplit: plan.budgetSplit,
+        formats: plan.formats,
+        kpiTargets: plan.kpiTargets,
+        schedule: plan.schedule,
+        ...(similarCampaigns.length > 0 && {
+          similarCampaigns: similarCampaigns.map((c) => ({ id: c.id, title: c.title, budget: c.budget, duration: c.duration })),
+        }),
       },
       related: ['content calendar', 'hashtag research', 'influencer outreach']
     };
@@ -331,18 +919,29 @@ export class L0Orchestrator {
 
   /**
    * Orchestrate content creation workflow
+   *
+   * @param entities - Platforms and product to write for (default: those mentioned in the request)
    */
-  async orchestrateContent(request: string): Promise<L0Response> {
+  async orchestrateContent(request: string, entities: SessionEntities = extractEntities(request)): Promise<L0Response> {
+    const workflowDefinition = defineWorkflow(
+      'content',
+      'Content Creation Workflow',
+      [
+        { id: 'research', label: '🔍 Topic Research & Trend Analysis', handler: 'research', inputs: { request: '{{input.request}}' }, outputs: ['topics'] },
+        { id: 'outline', label: '📋 Content Outline & Structure Planning', handler: 'planning', inputs: { topics: '{{research.topics}}' }, outputs: ['outline'], dependencies: ['research'] },
+        // Drafting and visuals both work from the outline in parallel
+        { id: 'draft', label: '✍️  Draft Creation with SEO Optimization', handler: 'seo', inputs: { outline: '{{outline.outline}}' }, outputs: ['draft'], dependencies: ['outline'] },
+        { id: 'visuals', label: '🎨 Visual Content & Graphics Creation', handler: 'design', inputs: { outline: '{{outline.outline}}' }, outputs: ['assets'], dependencies: ['outline'] },
+        { id: 'review', label: '📊 Review, Edit, and Performance Optimization', handler: 'review', inputs: { draft: '{{draft.draft}}', assets: '{{visuals.assets}}' }, outputs: ['finalContent'], dependencies: ['draft', 'visuals'] },
+      ],
+      { request }
+    );
+
     return {
-      message: `📝 Orchestrating Content Creation Workflow`,
+      message: `📝 Orchestrating Content Creation Workflow${entities.product ? ` for ${entities.product}` : ''}`,
       type: 'orchestration',
-      workflow: [
-        '🔍 Topic Research & Trend Analysis',
-        '📋 Content Outline & Structure Planning',
-        '✍️  Draft Creation with SEO Optimization',
-        '🎨 Visual Content & Graphics Creation',
-        '📊 Review, Edit, and Performance Optimization'
-      ],
+      workflow: workflowLabels(workflowDefinition),
+      workflowDefinition,
       agents: [
         'Research Agent: Identifying trending topics and keywords',
         'Content Agent: Creating outlines and drafts',
@@ -352,7 +951,9 @@ export class L0Orchestrator {
       data: {
         contentTypes: ['Blog Posts', 'Social Media Posts', 'Video Scripts', 'Email Campaigns'],
         timeframe: '1-2 weeks per content piece',
-        deliverables: 'High-quality, SEO-optimized content ready for publication'
+        deliverables: 'High-quality, SEO-optimized content ready for publication',
+        ...(entities.platforms && { platforms: entities.platforms }),
+        ...(entities.product && { product: entities.product }),
       },
       related: ['content calendar', 'keyword research', 'brand guidelines']
     };
@@ -360,33 +961,70 @@ export class L0Orchestrator {
 
   /**
    * Analyze trending topics and hashtags
+   *
+   * Volume and growth come from the configured {@link TrendProvider}, over
+   * the requested window compared with the one before it. With a brand
+   * profile, hashtags are ranked by relevance and off-brand or unsafe ones
+   * are listed in `filteredTrends` instead. When the provider cannot be
+   * reached the response says so and carries the error in `trendsError`.
+   *
+   * @param params - Platform, timeframe and location (default: those mentioned in the request)
    */
-  async analyzeTrends(request: string): Promise<L0Response> {
-    const mockTrends = [
-      { hashtag: '#EcoFriendly', volume: '2.3M', growth: '+45%' },
-      { hashtag: '#SustainableLiving', volume: '1.8M', growth: '+32%' },
-      { hashtag: '#GreenTech', volume: '856K', growth: '+28%' }
-    ];
+  async analyzeTrends(request: string, params: TrendQuery = extractTrendQuery(request)): Promise<L0Response> {
+    let report: TrendReport;
+    try {
+      report = await fetchTrends(this.trends, params, { brand: this.brand });
+    } catch (error) {
+      // Throws again for unknown platforms and timeframes, which are not an outage
+      const query = resolveTrendQuery(params);
+      const trendsError = error instanceof Error ? error.message : String(error);
+      return {
+        message: `📈 Trends unavailable for ${describeTrendScope(query)}: ${trendsError}`,
+        type: 'orchestration',
+        data: { source: this.trends.name, timeframe: query.timeframe, location: query.location, trendsError },
+        related: ['trend sources', 'hashtag strategy', 'content calendar'],
+      };
+    }
+
+    const { query, provider, trends, filtered } = report;
+    const window = parseTimeframe(query.timeframe).label;
+    const scope = describeTrendScope(query);
+
+    const workflowDefinition = defineWorkflow(
+      'trends',
+      'Trend Analysis',
+      [
+        { id: 'collect', label: '📊 Data Collection from Multiple Platforms', handler: 'data', inputs: { request: '{{input.request}}' }, outputs: ['snapshots'] },
+        { id: 'volume', label: '🧮 Trend Volume & Growth Analysis', handler: 'analytics', inputs: { snapshots: '{{collect.snapshots}}' }, outputs: ['trends'], dependencies: ['collect'] },
+        { id: 'relevance', label: '🎯 Relevance Scoring for Your Brand', handler: 'analytics', inputs: { snapshots: '{{collect.snapshots}}' }, outputs: ['scores'], dependencies: ['collect'] },
+        { id: 'recommend', label: '📝 Actionable Recommendations Generation', handler: 'reporting', inputs: { trends: '{{volume.trends}}', scores: '{{relevance.scores}}' }, outputs: ['recommendations'], dependencies: ['volume', 'relevance'] },
+      ],
+      { request, platform: query.platform, timeframe: query.timeframe, location: query.location }
+    );
 
     return {
-      message: `📈 Real-time Trend Analysis Complete`,
+      message: trends.length > 0 ? `📈 Trend Analysis Complete: ${scope}` : `📈 No trend data for ${scope}`,
       type: 'orchestration',
       data: {
-        trendingHashtags: mockTrends,
-        analysisTime: 'Last 24 hours',
-        platforms: ['TikTok', 'Instagram', 'Twitter'],
-        recommendations: [
-          'Focus on sustainability themes',
-          'User-generated content opportunities',
-          'Partner with eco-influencers'
-        ]
+        trendingHashtags: trends.map((trend) => ({
+          hashtag: trend.hashtag,
+          volume: formatCount(trend.volume),
+          growth: formatGrowth(trend.growth),
+          posts: trend.volume,
+          growthRate: trend.growth,
+          platforms: trend.platforms,
+          ...(trend.relevanceScore !== undefined && { relevanceScore: trend.relevanceScore, rationale: trend.rationale }),
+        })),
+        analysisTime: `Last ${window}`,
+        timeframe: query.timeframe,
+        location: query.location,
+        platforms: query.platform === ALL_TREND_PLATFORMS ? Array.from(new Set(trends.flatMap((t) => t.platforms))) : [query.platform],
+        source: provider,
+        ...(filtered && { brand: this.brand!.name || 'your brand', filteredTrends: filtered }),
+        recommendations: recommendFromTrends(trends),
       },
-      workflow: [
-        '📊 Data Collection from Multiple Platforms',
-        '🧮 Trend Volume & Growth Analysis',
-        '🎯 Relevance Scoring for Your Brand',
-        '📝 Actionable Recommendations Generation'
-      ],
+      workflow: workflowLabels(workflowDefinition),
+      workflowDefinition,
       related: ['hashtag strategy', 'content calendar', 'influencer research']
     };
   }
@@ -398,19 +1036,15 @@ export class L0Orchestrator {
    * @returns Promise resolving to code snippet or no-match response
    */
   async findCode(description: string): Promise<L0Response> {
-    const filteredKeywords = this.extractKeywords(description);
-
-    if (this.shouldReturnNoMatches(description, filteredKeywords)) {
-      return this.createNoMatchResponse(description, 'snippet');
-    }
-
-    const matches = this.findMatchingSnippets(filteredKeywords);
+    const matches = await this.rank('snippets', await this.store.listSnippets(), description, SNIPPET_FIELD_WEIGHTS, SNIPPET_SEMANTIC_FIELDS);
 
     if (matches.length === 0) {
       return this.createNoMatchResponse(description, 'snippet');
     }
 
-    return this.createCodeResponse(matches);
+    const response = this.createCodeResponse(matches);
+    await markSnippetUsed(this.store, matches[0].record);
+    return response;
   }
 
   /**
@@ -420,15 +1054,7 @@ export class L0Orchestrator {
    * @returns Promise resolving to memory search results
    */
   async searchMemories(query: string): Promise<L0Response> {
-    const keywords = query.toLowerCase().split(' ');
-    const matches = this.mockDatabase.memories.filter((memory) =>
-      keywords.some(
-        (keyword) =>
-          memory.title.toLowerCase().includes(keyword) ||
-          memory.content.toLowerCase().includes(keyword) ||
-          memory.tags.some((tag) => tag.includes(keyword))
-      )
-    );
+    const matches = await this.rank('memories', await this.store.listMemories(), query, MEMORY_FIELD_WEIGHTS, MEMORY_SEMANTIC_FIELDS);
 
     if (matches.length === 0) {
       return {
@@ -438,49 +1064,186 @@ export class L0Orchestrator {
       };
     }
 
-    const results = matches.map((m) => `${m.title}: ${m.content.substring(0, PREVIEW_LENGTH)}...`).join('\n\n');
+    const results = matches
+      .map(({ record: m }) => `${m.title}: ${m.content.substring(0, PREVIEW_LENGTH)}...`)
+      .join('\n\n');
 
     return {
       message: `Found ${matches.length} relevant memories:`,
       data: results,
       type: 'memory',
       dashboardUrl: `/memories?q=${encodeURIComponent(query)}`,
-      related: matches.slice(0, 3).map((m) => m.title),
+      related: matches.slice(0, 3).map(({ record }) => record.title),
+      matches: matches.map(toMatch),
     };
   }
 
   // ==========================================================================
-  // Code Search Helpers
+  // Search Helpers
   // ==========================================================================
 
-  private extractKeywords(description: string): string[] {
-    const keywords = description.toLowerCase().split(' ').filter((k) => k.length > MIN_KEYWORD_LENGTH);
-    return keywords.filter((k) => !COMMON_STOP_WORDS.includes(k as any));
+  /**
+   * Rank records against a query using keyword and, when enabled, semantic scores
+   *
+   * The BM25 index is rebuilt per call so results always reflect the current
+   * store contents. Vector indexes persist per collection and only re-embed
+   * records whose text changed.
+   */
+  private async rank<T extends { id: string }>(
+    collection: string,
+    records: T[],
+    query: string,
+    fields: Record<string, number>,
+    semanticFields: string[]
+  ): Promise<RankedRecord<T>[]> {
+    const index = new SearchIndex({ fields, stopWords: QUERY_STOP_WORDS });
+    const byId = new Map(records.map((r) => [r.id, r]));
+
+    for (const record of records) {
+      index.add(record.id, record as unknown as SearchDocument);
+    }
+
+    const keywordResults = index.search(query);
+    if (!this.embedder) {
+      return keywordResults.map((result) => ({ record: byId.get(result.id)!, score: result.score }));
+    }
+
+    const vectors = this.getVectorIndex(collection);
+    await vectors.sync(records.map((r) => ({ id: r.id, text: toSemanticText(r, semanticFields) })));
+    const semanticResults = await vectors.search(this.toSemanticQuery(query));
+
+    return hybridRank(keywordResults, semanticResults, this.hybrid).map((result) => ({
+      record: byId.get(result.id)!,
+      score: result.score,
+      keywordScore: result.keywordScore,
+      semanticScore: result.semanticScore,
+    }));
   }
 
-  private shouldReturnNoMatches(description: string, keywords: string[]): boolean {
-    return description.toLowerCase().includes('nonexistent') || keywords.length === 0;
+  private getVectorIndex(collection: string): VectorIndex {
+    let index = this.vectorIndexes.get(collection);
+    if (!index) {
+      index = new VectorIndex(this.embedder!);
+      this.vectorIndexes.set(collection, index);
+    }
+    return index;
   }
 
-  private findMatchingSnippets(keywords: string[]): CodeSnippet[] {
-    return this.mockDatabase.snippets.filter((snippet) => {
-      const titleLower = snippet.title.toLowerCase();
-      const contentLower = snippet.content.toLowerCase();
-      const allTags = snippet.tags.join(' ').toLowerCase();
+  /**
+   * Strip intent and stop words so they do not dominate query embeddings
+   */
+  private toSemanticQuery(query: string): string {
+    const ignored = new Set<string>([...DEFAULT_STOP_WORDS, ...QUERY_STOP_WORDS]);
+    return query
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 1 && !ignored.has(word))
+      .join(' ');
+  }
 
-      // Single keyword matching title is acceptable
-      const titleMatch = keywords.some((kw) => titleLower.includes(kw));
-      if (titleMatch && keywords.length === 1) {
-        return true;
+  // ==========================================================================
+  // Campaign Lookup Helpers
+  // ==========================================================================
+
+  /**
+   * Find stored campaigns relevant to a request, best match first
+   */
+  private async findCampaigns(request: string): Promise<Campaign[]> {
+    const matches = await this.rank('campaigns', await this.store.listCampaigns(), request, CAMPAIGN_FIELD_WEIGHTS, CAMPAIGN_SEMANTIC_FIELDS);
+    return matches.map(({ record }) => record);
+  }
+
+  // ==========================================================================
+  // LLM Helpers
+  // ==========================================================================
+
+  /**
+   * Ask the configured model to answer a request, relaying its text and serving its knowledge searches
+   */
+  private async answerWithLLM(
+    request: string,
+    history: LLMMessage[],
+    onToken: (text: string) => void
+  ): Promise<{ answer: string; toolCalls: number }> {
+    const messages: LLMMessage[] = [
+      { role: 'system', content: GENERAL_SYSTEM_PROMPT },
+      ...history,
+      { role: 'user', content: request },
+    ];
+    let toolCalls = 0;
+
+    // The last round withholds tools, so the model has to answer and the loop ends
+    for (let round = 0; ; round++) {
+      const tools = round < MAX_TOOL_ROUNDS ? [SEARCH_KNOWLEDGE_TOOL] : undefined;
+      let response: LLMChatResponse | undefined;
+      for await (const chunk of this.llm!.stream({ messages, tools })) {
+        if (chunk.type === 'text') onToken(chunk.text);
+        if (chunk.type === 'done') response = chunk.response;
+      }
+      if (!response) {
+        throw new Error(`${this.llm!.name} stream ended without a response`);
       }
 
-      // For multiple keywords, require at least MIN_MATCH_COUNT matches
-      const matchCount = keywords.filter(
-        (keyword) => titleLower.includes(keyword) || allTags.includes(keyword) || contentLower.includes(keyword)
-      ).length;
+      if (response.toolCalls.length === 0 || !tools) {
+        return { answer: response.content.trim(), toolCalls };
+      }
 
-      return matchCount >= Math.min(MIN_MATCH_COUNT, keywords.length);
-    });
+      messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+      for (const call of response.toolCalls) {
+        toolCalls++;
+        const result = call.name === SEARCH_KNOWLEDGE_TOOL.name
+          ? await this.searchKnowledge(String(call.arguments.query || request))
+          : { error: `Unknown tool "${call.name}"` };
+        messages.push({ role: 'tool', toolCallId: call.id, content: JSON.stringify(result) });
+      }
+    }
+  }
+
+  /**
+   * Ask the configured model for a plan, treating any failure as a rejected plan
+   */
+  private async decompose(request: string, history: LLMMessage[]): Promise<DecompositionResult> {
+    const roles = new Set(this.agents.list().flatMap((agent) => agent.capabilities.strengths));
+    roles.delete('*');
+
+    try {
+      return await decomposeTask(this.llm!, request, { roles: Array.from(roles), history });
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * One line per agent listing the subtasks it will take
+   */
+  private describeDelegation(subtasks: DecomposedSubtask[]): string[] {
+    const byAgent = new Map<string, string[]>();
+    for (const task of subtasks) {
+      const agent = this.agents.selectBestAgent({ type: task.role })?.name || 'unassigned';
+      byAgent.set(agent, [...(byAgent.get(agent) || []), task.title]);
+    }
+
+    return Array.from(byAgent, ([agent, titles]) => `${agent.charAt(0).toUpperCase()}${agent.slice(1)} Agent: ${titles.join('; ')}`);
+  }
+
+  private async searchKnowledge(query: string): Promise<Array<{ kind: string; title: string; preview: string }>> {
+    const [memories, snippets] = await Promise.all([
+      this.rank('memories', await this.store.listMemories(), query, MEMORY_FIELD_WEIGHTS, MEMORY_SEMANTIC_FIELDS),
+      this.rank('snippets', await this.store.listSnippets(), query, SNIPPET_FIELD_WEIGHTS, SNIPPET_SEMANTIC_FIELDS),
+    ]);
+
+    return [
+      ...memories.slice(0, KNOWLEDGE_RESULTS_PER_KIND).map(({ record }) => ({
+        kind: 'memory',
+        title: record.title,
+        preview: record.content.substring(0, PREVIEW_LENGTH),
+      })),
+      ...snippets.slice(0, KNOWLEDGE_RESULTS_PER_KIND).map(({ record }) => ({
+        kind: 'snippet',
+        title: record.title,
+        preview: `${record.language}: ${record.tags.join(', ')}`,
+      })),
+    ];
   }
 
   private createNoMatchResponse(query: string, type: L0ResponseType): L0Response {
@@ -491,8 +1254,8 @@ export class L0Orchestrator {
     };
   }
 
-  private createCodeResponse(matches: CodeSnippet[]): L0Response {
-    const bestMatch = matches[0];
+  private createCodeResponse(matches: RankedRecord<CodeSnippet>[]): L0Response {
+    const { record: bestMatch, score } = matches[0];
 
     return {
       message: `Found ${matches.length} matching snippet${matches.length > 1 ? 's' : ''}:`,
@@ -503,15 +1266,16 @@ export class L0Orchestrator {
         lastUsed: bestMatch.lastUsed,
         project: bestMatch.project,
         tags: bestMatch.tags,
+        score: roundScore(score),
       },
       type: 'snippet',
       clipboard: true,
       dashboardUrl: `/memories/${bestMatch.id}`,
-      related: matches.slice(1, 3).map((m) => m.title),
+      related: matches.slice(1, 3).map(({ record }) => record.title),
+      matches: matches.map(toMatch),
     };
   }
 
-
   /**
    * Get help and guidance on a topic
    */
@@ -546,28 +1310,99 @@ export class L0Orchestrator {
    * General orchestration for unspecified requests
    */
   async orchestrateGeneral(request: string): Promise<L0Response> {
+    return this.generalResponse(request, ignoreEvents, []);
+  }
+
+  /**
+   * Answer and plan a general request, reporting model work as steps
+   */
+  private async generalResponse(request: string, emit: StreamEmit, history: LLMMessage[]): Promise<L0Response> {
+    const workflowDefinition = defineWorkflow(
+      'general',
+      'General Orchestration',
+      [
+        { id: 'analyze', label: '🔍 Request Analysis & Intent Detection', handler: 'planning', inputs: { request: '{{input.request}}' }, outputs: ['tasks'] },
+        { id: 'delegate', label: '🤖 Agent Selection & Task Delegation', handler: 'coordination', inputs: { tasks: '{{analyze.tasks}}' }, outputs: ['assignments'], dependencies: ['analyze'] },
+        { id: 'execute', label: '⚡ Parallel Execution & Coordination', handler: 'coordination', inputs: { assignments: '{{delegate.assignments}}' }, outputs: ['results'], dependencies: ['delegate'] },
+        { id: 'aggregate', label: '📊 Results Aggregation & Optimization', handler: 'analytics', inputs: { results: '{{execute.results}}' }, outputs: ['summary'], dependencies: ['execute'] },
+        { id: 'quality', label: '✅ Quality Check & Delivery', handler: 'review', inputs: { summary: '{{aggregate.summary}}' }, outputs: ['deliverable'], dependencies: ['aggregate'] },
+      ],
+      { request }
+    );
+
+    const agents = [
+      'Orchestrator Agent: Managing workflow coordination',
+      'Specialist Agents: Executing domain-specific tasks',
+      'Quality Agent: Ensuring output standards',
+      'Analytics Agent: Tracking performance metrics'
+    ];
+
+    if (!this.llm) {
+      return {
+        message: `🧠 L0 analyzing: "${request}"`,
+        type: 'orchestration',
+        workflow: workflowLabels(workflowDefinition),
+        workflowDefinition,
+        agents,
+        data: {
+          requestType: 'General Orchestration',
+          complexity: 'Medium',
+          estimatedTime: '15-30 minutes'
+        },
+        related: ['Use more specific keywords for better orchestration', 'Try: "create social campaign" or "analyze trends"']
+      };
+    }
+
+    const plan = await runStep(emit, 'plan', 'Planning subtasks', () => this.decompose(request, history));
+    const model: Record<string, unknown> = { model: `${this.llm.name}/${this.llm.model}` };
+    try {
+      const { answer, toolCalls } = await runStep(emit, 'answer', 'Writing answer', () =>
+        this.answerWithLLM(request, history, (text) => emit({ type: 'token', stepId: 'answer', text }))
+      );
+      Object.assign(model, { answer, ...(toolCalls > 0 && { knowledgeLookups: toolCalls }) });
+    } catch (error) {
+      // A failing provider leaves the template answer rather than failing the query
+      model.answerError = error instanceof Error ? error.message : String(error);
+    }
+
+    if (!plan.ok) {
+      return {
+        message: `🧠 L0 analyzing: "${request}"`,
+        type: 'orchestration',
+        workflow: workflowLabels(workflowDefinition),
+        workflowDefinition,
+        agents,
+        data: {
+          requestType: 'General Orchestration',
+          complexity: 'Medium',
+          estimatedTime: '15-30 minutes',
+          planner: 'template',
+          plannerError: plan.error,
+          ...model,
+        },
+        related: ['Use more specific keywords for better orchestration', 'Try: "create social campaign" or "analyze trends"']
+      };
+    }
+
+    const { summary, complexity, subtasks } = plan.decomposition;
+    const plannedWorkflow = decompositionToWorkflow(plan.decomposition, request);
+
     return {
-      message: `🧠 L0 analyzing: "${request}"`,
+      message: `🧠 L0 plan: ${summary}`,
       type: 'orchestration',
-      workflow: [
-        '🔍 Request Analysis & Intent Detection',
-        '🤖 Agent Selection & Task Delegation',
-        '⚡ Parallel Execution & Coordination',
-        '📊 Results Aggregation & Optimization',
-        '✅ Quality Check & Delivery'
-      ],
-      agents: [
-        'Orchestrator Agent: Managing workflow coordination',
-        'Specialist Agents: Executing domain-specific tasks',
-        'Quality Agent: Ensuring output standards',
-        'Analytics Agent: Tracking performance metrics'
-      ],
+      workflow: workflowLabels(plannedWorkflow),
+      workflowDefinition: plannedWorkflow,
+      agents: this.describeDelegation(subtasks),
       data: {
-        requestType: 'General Orchestration',
-        complexity: 'Medium',
-        estimatedTime: '15-30 minutes'
+        requestType: summary,
+        complexity,
+        estimatedTime: formatEffort(criticalPathMinutes(subtasks)),
+        totalEffort: formatEffort(subtasks.reduce((sum, t) => sum + t.effortMinutes, 0)),
+        planner: 'model',
+        subtasks,
+        ...model,
       },
-      related: ['Use more specific keywords for better orchestration', 'Try: "create social campaign" or "analyze trends"']
+      related: ['Execute this plan with --run', 'Try: "create social campaign" or "analyze trends"']
     };
   }
 }
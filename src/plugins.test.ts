@@ -1,4 +1,7 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import {
   PluginManager,
   L0Plugin,
@@ -6,7 +9,14 @@ import {
   analyticsPlugin,
   collaborationPlugin,
   createPluginManager,
+  checkPluginContract,
+  parsePluginState,
+  parsePluginConfigValue,
+  resolvePluginConfig,
+  decline,
 } from './plugins.js';
+import { configureMemoryPlugin, memoryServicesPlugin } from './memory-plugin.js';
+import { discoverPlugins, installPlugin, linkPlugin, loadPlugins, parsePluginManifest, uninstallPlugin } from './node/plugin-loader.js';
 
 describe('PluginManager', () => {
   let manager: PluginManager;
@@ -142,6 +152,70 @@ describe('PluginManager', () => {
     });
   });
 
+  describe('trigger matching', () => {
+    const register = (name: string, triggers: L0Plugin['triggers']) =>
+      manager.register({
+        metadata: { name, version: '1.0.0', description: name, keywords: ['invoice', 'billing'] },
+        triggers,
+        handler: async () => ({ message: name, type: 'orchestration' }),
+      });
+
+    it('should match string triggers on whole words and their inflections', () => {
+      register('ci', ['ci', 'test', 'code review']);
+
+      expect(manager.findMatching('set up CI for the repo')).toHaveLength(1);
+      expect(manager.findMatching('testing the release')).toHaveLength(1);
+      expect(manager.findMatching('Code-review this PR')).toHaveLength(1);
+      expect(manager.findMatching('a specific social post')).toHaveLength(0);
+      expect(manager.findMatching('the latest review of our code')).toHaveLength(0);
+    });
+
+    it('should score regex and predicate triggers', () => {
+      register('tickets', [/\b[A-Z]+-\d+\b/, { predicate: (query) => query.endsWith('?'), weight: 2, label: 'question' }]);
+
+      const [match] = manager.score('what about JIRA-123?');
+      expect(match.score).toBe('JIRA-123'.length + 2);
+      expect(match.matchedTriggers).toEqual(['/\\b[A-Z]+-\\d+\\b/', 'question']);
+      expect(manager.score('jira-123')).toEqual([]);
+    });
+
+    it('should treat throwing predicates as no match', () => {
+      register('fragile', ['deploy', { predicate: () => { throw new Error('boom'); } }]);
+
+      expect(manager.score('deploy now')[0].matchedTriggers).toEqual(['deploy']);
+    });
+
+    it('should rule a plugin out when a negative trigger matches', () => {
+      register('deploys', ['deploy', { pattern: 'rollback', negative: true }]);
+
+      expect(manager.findMatching('deploy the app')).toHaveLength(1);
+      expect(manager.findMatching('deploy a rollback')).toHaveLength(0);
+      const [trace] = manager.explainScores('deploy a rollback');
+      expect(trace).toMatchObject({ score: 0, vetoedBy: '!rollback' });
+      expect(trace.triggers[1]).toEqual({ trigger: '!rollback', matched: true, points: 0, negative: true });
+    });
+
+    it('should score by keyword similarity when semantic matching is on', () => {
+      manager = new PluginManager({ semantic: true });
+      register('billing', ['charge']);
+
+      const [match] = manager.score('send the invoices');
+      expect(match.score).toBeGreaterThan(0);
+      expect(match.matchedTriggers[0]).toMatch(/^~keywords/);
+      expect(manager.score('plan a sprint')).toEqual([]);
+
+      const custom = new PluginManager({ semantic: { similarity: () => 0.5, weight: 4 } });
+      custom.register({ metadata: { name: 'any', version: '1.0.0', description: 'Any', keywords: ['x'] }, triggers: ['never'], handler: async () => ({ message: '', type: 'context' }) });
+      expect(custom.score('anything')[0].score).toBe(2);
+    });
+
+    it('should list triggers by readable name', () => {
+      register('mixed', ['deploy', /ship(ping)?/i, { pattern: 'rollback', negative: true }, { predicate: () => true }]);
+
+      expect(manager.listDetailed()[0].triggers).toEqual(['deploy', '/ship(ping)?/i', '!rollback', 'predicate']);
+    });
+  });
+
   describe('execute', () => {
     it('should execute matching plugin handler', async () => {
       manager.register({
@@ -162,6 +236,71 @@ describe('PluginManager', () => {
       const result = await manager.execute('no matching plugins');
       expect(result).toBeNull();
     });
+
+    describe('fallback and fan-out', () => {
+      const register = (name: string, priority: number, handler: L0Plugin['handler']) =>
+        manager.register({ metadata: { name, version: '1.0.0', description: name }, triggers: ['ship'], priority, handler });
+
+      beforeEach(() => {
+        register('broken', 30, async () => {
+          throw new Error('backend down');
+        });
+        register('picky', 20, async () => decline('not my kind of ship'));
+        register('steady', 10, async () => ({ message: 'Shipped', type: 'orchestration', workflow: ['Build', 'Release'], agents: ['builder'], related: ['changelog'] }));
+        register('notes', 5, async () => ({ message: 'Noted', type: 'context', agents: ['builder', 'writer'], related: ['changelog', 'notes'], data: { count: 2 } }));
+      });
+
+      it('should keep throwing from the best match by default', async () => {
+        await expect(manager.execute('ship it')).rejects.toThrow('backend down');
+      });
+
+      it('should fall back to the next-ranked plugin on error or decline', async () => {
+        const result = await manager.execute('ship it', undefined, undefined, { mode: 'fallback' });
+
+        expect(result?.message).toBe('Shipped');
+        expect(result?.workflowDefinition?.id).toBe('plugin:steady');
+        expect(result?.attribution?.map((a) => [a.plugin, a.status, a.reason])).toEqual([
+          ['broken', 'failed', 'backend down'],
+          ['picky', 'declined', 'not my kind of ship'],
+          ['steady', 'answered', undefined],
+        ]);
+      });
+
+      it('should report every failure when no plugin answers', async () => {
+        manager.unregister('steady');
+        manager.unregister('notes');
+
+        await expect(manager.execute('ship it', undefined, undefined, { mode: 'fallback' })).rejects.toThrow(
+          'No plugin could answer: broken failed (backend down), picky declined (not my kind of ship)'
+        );
+        manager.unregister('broken');
+        expect(await manager.execute('ship it', undefined, undefined, { mode: 'fallback' })).toBeNull();
+      });
+
+      it('should run the top plugins in parallel and merge their responses', async () => {
+        const result = await manager.execute('ship it', undefined, undefined, { mode: 'fanout', limit: 4 });
+
+        expect(result?.message).toBe('[steady] Shipped\n\n[notes] Noted');
+        expect(result?.type).toBe('orchestration');
+        expect(result?.workflow).toEqual(['Build', 'Release']);
+        expect(result?.workflowDefinition?.steps.map((s) => [s.id, s.dependencies])).toEqual([
+          ['steady:step-1', undefined],
+          ['steady:step-2', ['steady:step-1']],
+        ]);
+        expect(result?.agents).toEqual(['builder', 'writer']);
+        expect(result?.related).toEqual(['changelog', 'notes']);
+        expect(result?.data).toEqual({ notes: { count: 2 } });
+        expect(result?.attribution?.map((a) => a.status)).toEqual(['failed', 'declined', 'answered', 'answered']);
+        expect(result?.attribution?.[3]).toEqual({ plugin: 'notes', status: 'answered', durationMs: expect.any(Number) });
+      });
+
+      it('should only fan out to the top matches', async () => {
+        const result = await manager.execute('ship it', undefined, undefined, { mode: 'fanout', limit: 3 });
+
+        expect(result?.message).toBe('Shipped');
+        expect(result?.attribution?.map((a) => a.plugin)).toEqual(['broken', 'picky', 'steady']);
+      });
+    });
   });
 
   describe('list', () => {
@@ -263,3 +402,268 @@ describe('createPluginManager', () => {
     expect(manager.count).toBe(0);
   });
 });
+
+describe('plugin state', () => {
+  it('should apply saved state as plugins register', async () => {
+    const manager = createPluginManager({
+      state: {
+        analytics: { enabled: false },
+        collaboration: { priority: 50, settings: { timezone: 'UTC' } },
+      },
+    });
+
+    expect(manager.list().map((p) => p.name)).toEqual(['dev-tools', 'collaboration']);
+    expect(manager.getPriority('collaboration')).toBe(50);
+    expect(manager.score('team review')[0]).toMatchObject({ priority: 50, score: 60 });
+
+    const handler = vi.fn(async () => ({ message: 'ok', type: 'orchestration' as const }));
+    manager.register({ metadata: { name: 'team-sync', version: '1.0.0', description: 'Sync' }, triggers: ['sync'], handler });
+    manager.setSettings('team-sync', { channel: '#team' });
+    await manager.execute('sync notes');
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ settings: { channel: '#team' } }));
+  });
+
+  it('should only keep state that differs from the defaults', () => {
+    const manager = createPluginManager({ state: { 'not-installed': { enabled: false } } });
+
+    manager.setEnabled('analytics', false);
+    manager.setPriority('dev-tools', 1);
+    expect(manager.getState()).toEqual({
+      'not-installed': { enabled: false },
+      analytics: { enabled: false },
+      'dev-tools': { priority: 1 },
+    });
+
+    manager.setEnabled('analytics', true);
+    manager.setPriority('dev-tools', undefined);
+    expect(manager.getState()).toEqual({ 'not-installed': { enabled: false } });
+    expect(manager.getPriority('dev-tools')).toBe(10);
+    expect(manager.setPriority('missing', 1)).toBe(false);
+  });
+
+  it('should validate saved state', () => {
+    expect(parsePluginState({ analytics: { enabled: false } })).toEqual({ analytics: { enabled: false } });
+    expect(() => parsePluginState({ analytics: { enabled: 'no' } }, 'config.json')).toThrow('config.json: "analytics".enabled must be true or false');
+    expect(() => parsePluginState([])).toThrow('must be an object keyed by plugin name');
+  });
+});
+
+describe('plugin lifecycle', () => {
+  function lifecyclePlugin(events: string[]): L0Plugin {
+    return {
+      metadata: { name: 'crm', version: '1.0.0', description: 'CRM sync' },
+      triggers: ['crm'],
+      configSchema: {
+        region: { type: 'string', enum: ['eu', 'us'], default: 'eu' },
+        batchSize: { type: 'number', default: 50 },
+        apiKey: { type: 'string', required: true, secret: true },
+      },
+      init: async (config) => {
+        events.push(`init ${config.region} ${config.batchSize}`);
+      },
+      dispose: () => {
+        events.push('dispose');
+      },
+      healthCheck: () => ({ healthy: true, message: 'ok' }),
+      onEnable: () => {
+        events.push('enable');
+      },
+      onDisable: () => {
+        events.push('disable');
+      },
+      handler: async (ctx) => ({ message: `synced to ${ctx.settings?.region}`, type: 'orchestration' }),
+    };
+  }
+
+  it('should initialize with validated config before the first query and re-initialize on change', async () => {
+    const events: string[] = [];
+    const manager = new PluginManager({ state: { crm: { settings: { apiKey: 'k-1' } } } });
+    manager.register(lifecyclePlugin(events));
+
+    expect((await manager.execute('crm sync'))?.message).toBe('synced to eu');
+    await manager.execute('crm sync');
+    expect(events).toEqual(['init eu 50']);
+
+    await manager.configure('crm', { apiKey: 'k-1', region: 'us' });
+    expect(events).toEqual(['init eu 50', 'init us 50']);
+    expect(manager.getConfig('crm')).toEqual({ apiKey: 'k-1', region: 'us', batchSize: 50 });
+
+    await manager.dispose();
+    await manager.dispose();
+    expect(events.slice(2)).toEqual(['dispose']);
+  });
+
+  it('should reject settings that do not match the schema', async () => {
+    const manager = new PluginManager();
+    manager.register(lifecyclePlugin([]));
+
+    expect(() => manager.setSettings('crm', { apiKey: 'k', region: 'asia' })).toThrow('setting "region" must be one of: eu, us');
+    expect(() => manager.setSettings('crm', { apiKey: 'k', colour: 'red' })).toThrow('Plugin "crm" has no setting "colour"');
+    await expect(manager.execute('crm sync')).rejects.toThrow('Plugin "crm" needs setting "apiKey"');
+    expect(await manager.initialize()).toEqual({ crm: 'Plugin "crm" needs setting "apiKey"' });
+    expect(await manager.checkHealth('crm')).toEqual([{ plugin: 'crm', enabled: true, healthy: false, message: 'Plugin "crm" needs setting "apiKey"' }]);
+  });
+
+  it('should run enable and disable hooks only when the state changes', async () => {
+    const events: string[] = [];
+    const manager = new PluginManager();
+    manager.register(lifecyclePlugin(events));
+
+    await manager.enable('crm');
+    await manager.disable('crm');
+    await manager.disable('crm');
+    await manager.enable('crm');
+    expect(events).toEqual(['disable', 'enable']);
+    expect(await manager.disable('missing')).toBe(false);
+  });
+
+  it('should parse command-line values by schema type', () => {
+    const plugin = lifecyclePlugin([]);
+    expect(parsePluginConfigValue(plugin, 'batchSize', '100')).toBe(100);
+    expect(() => parsePluginConfigValue(plugin, 'batchSize', 'lots')).toThrow('must be a number, got "lots"');
+    expect(parsePluginConfigValue({ metadata: plugin.metadata }, 'anything', '42')).toBe('42');
+    expect(resolvePluginConfig({ metadata: plugin.metadata }, { free: 'form' })).toEqual({ free: 'form' });
+  });
+
+  it('should configure the memory plugin through its schema', async () => {
+    const manager = new PluginManager({ state: { 'memory-services': { settings: { timeout: 5000 } } } });
+    manager.register(memoryServicesPlugin);
+
+    expect(checkPluginContract(memoryServicesPlugin)).toEqual([]);
+    expect(manager.getConfig('memory-services')).toMatchObject({ timeout: 5000, apiUrl: expect.any(String) });
+    expect(() => manager.setSettings('memory-services', { timeout: 'soon' })).toThrow('setting "timeout" must be a number');
+  });
+
+  it('should let configureMemoryPlugin settings win when the manager initializes the memory plugin', async () => {
+    const fetch = vi.fn(async (_url: string, _init: RequestInit) => new Response(JSON.stringify([]), { status: 200 }));
+    vi.stubGlobal('fetch', fetch);
+    configureMemoryPlugin({ authToken: 'tok-123', apiUrl: 'http://memory.test' });
+    const manager = new PluginManager({
+      state: { 'memory-services': { settings: { timeout: 5000, apiUrl: 'http://saved.test' } } },
+    });
+    manager.register(memoryServicesPlugin);
+
+    try {
+      expect(await manager.checkHealth('memory-services')).toEqual([
+        { plugin: 'memory-services', enabled: true, healthy: true, message: 'Connected to http://memory.test' },
+      ]);
+      const [url, init] = fetch.mock.calls[0];
+      expect(url).toMatch(/^http:\/\/memory\.test\//);
+      expect(init.headers).toMatchObject({ Authorization: 'Bearer tok-123' });
+    } finally {
+      configureMemoryPlugin({ authToken: undefined, apiUrl: undefined });
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe('checkPluginContract', () => {
+  it('should accept the built-in plugins', () => {
+    expect(checkPluginContract(devToolsPlugin)).toEqual([]);
+  });
+
+  it('should list every broken part of the contract', () => {
+    expect(checkPluginContract({ metadata: { name: 'x', version: '1.0.0', description: 'X' }, triggers: ['ok', 3], priority: 'high' })).toEqual([
+      'triggers[1] must be a string, a regular expression or a trigger object',
+      'handler must be a function',
+      'priority must be a number',
+    ]);
+    expect(checkPluginContract(null)).toEqual(['plugin must be an object with metadata, triggers and handler']);
+    expect(checkPluginContract({ ...devToolsPlugin, init: 'later', configSchema: { since: { type: 'date' } } })).toEqual([
+      'init must be a function',
+      'configSchema.since.type must be one of: string, number, boolean',
+    ]);
+  });
+
+  it('should check regex, predicate and negative triggers', () => {
+    const triggers = [/deploy/, { predicate: () => true }, { pattern: '', negative: 'yes', weight: 'high' }];
+    expect(checkPluginContract({ ...devToolsPlugin, triggers })).toEqual([
+      'triggers[2] needs a pattern (string or regular expression) or a predicate function',
+      'triggers[2].negative must be true or false',
+      'triggers[2].weight must be a number',
+    ]);
+  });
+});
+
+describe('plugin loader', () => {
+  const PLUGIN_SOURCE = (name: string, trigger: string) => `export default {
+  metadata: { name: '${name}', version: '1.0.0', description: 'Test plugin' },
+  triggers: ['${trigger}'],
+  handler: async () => ({ message: '${name} ran', type: 'orchestration' }),
+};
+`;
+  let root: string;
+
+  async function writePackage(dir: string, manifest: Record<string, unknown>, source?: string): Promise<string> {
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, 'package.json'), JSON.stringify({ type: 'module', ...manifest }));
+    if (source !== undefined) await writeFile(join(dir, 'index.js'), source);
+    return dir;
+  }
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'vortex-plugins-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should validate manifests', () => {
+    expect(parsePluginManifest({ name: 'p', version: '1.0.0' })).toEqual({ name: 'p', version: '1.0.0', main: 'index.js' });
+    expect(() => parsePluginManifest({ name: 'p' }, 'p/package.json')).toThrow('p/package.json needs a version');
+    expect(() => parsePluginManifest({ name: 'p', version: '1', main: '../outside.js' })).toThrow('main must point inside the package');
+  });
+
+  it('should load plugins from the config, node_modules and the local plugin directory', async () => {
+    const cwd = join(root, 'project');
+    const pluginsDir = join(root, 'plugins');
+    await writePackage(join(cwd, 'node_modules', 'vortex-l0-plugin-seo'), { name: 'vortex-l0-plugin-seo', version: '1.0.0' }, PLUGIN_SOURCE('seo', 'keyword research'));
+    await writePackage(join(cwd, 'node_modules', 'unrelated'), { name: 'unrelated', version: '1.0.0' }, 'export default 1;');
+    await writePackage(join(pluginsDir, 'podcast'), { name: 'podcast-plugin', version: '1.0.0' }, PLUGIN_SOURCE('podcast', 'podcast'));
+    await writePackage(join(root, 'shared', 'crm'), { name: 'crm-plugin', version: '1.0.0' }, PLUGIN_SOURCE('crm', 'crm'));
+    await writePackage(join(pluginsDir, 'broken'), { name: 'broken-plugin', version: '1.0.0' }, 'export default { triggers: [] };');
+
+    const manager = new PluginManager();
+    const report = await loadPlugins(manager, { cwd, pluginsDir, config: { plugins: [join(root, 'shared', 'crm'), 'vortex-l0-plugin-seo'] } });
+
+    expect(report.loaded.map((p) => [p.source.kind, p.plugin.metadata.name])).toEqual([
+      ['config', 'crm'],
+      ['config', 'seo'],
+      ['local', 'podcast'],
+    ]);
+    expect(report.failed).toHaveLength(1);
+    expect(report.failed[0].error).toContain('broken-plugin does not export a valid plugin: metadata must include name, version, and description');
+    expect((await manager.execute('plan a podcast'))?.message).toBe('podcast ran');
+  });
+
+  it('should link, install and uninstall plugins in the local plugin directory', async () => {
+    const pluginsDir = join(root, 'plugins');
+    const source = await writePackage(join(root, 'dev', 'newsletter'), { name: '@acme/newsletter', version: '0.1.0' }, PLUGIN_SOURCE('newsletter', 'newsletter'));
+
+    const linked = await linkPlugin(source, { pluginsDir });
+    expect(linked.source.spec).toBe('acme-newsletter');
+    await expect(linkPlugin(source, { pluginsDir })).rejects.toThrow('already exists');
+
+    // Stands in for npm: records the dependency and unpacks the package
+    const npm = async ([command, , name]: string[], cwd: string) => {
+      const manifestPath = join(cwd, 'package.json');
+      const dependencies: Record<string, string> = command === 'install' ? { 'vortex-l0-plugin-ads': '^2.0.0' } : {};
+      await writeFile(manifestPath, JSON.stringify({ private: true, dependencies }));
+      if (command === 'install') {
+        await writePackage(join(cwd, 'node_modules', name), { name, version: '2.0.0' }, PLUGIN_SOURCE('ads', 'ad spend'));
+      } else {
+        await rm(join(cwd, 'node_modules', name), { recursive: true });
+      }
+    };
+    const installed = await installPlugin('vortex-l0-plugin-ads', { pluginsDir, npm });
+    expect(installed.plugin.metadata.name).toBe('ads');
+    expect((await discoverPlugins({ cwd: root, pluginsDir })).map((s) => s.spec)).toEqual(['acme-newsletter', 'vortex-l0-plugin-ads']);
+
+    await uninstallPlugin('vortex-l0-plugin-ads', { pluginsDir, npm });
+    await uninstallPlugin('acme-newsletter', { pluginsDir });
+    expect(await discoverPlugins({ cwd: root, pluginsDir })).toEqual([]);
+    expect(await readdir(source)).toContain('index.js');
+    await expect(uninstallPlugin('missing', { pluginsDir })).rejects.toThrow('Plugin "missing" is not installed');
+  });
+});
@@ -6,6 +6,10 @@
  */
 
 import { L0Response, L0ResponseType } from './orchestrator.js';
+import type { SessionData } from './session.js';
+import { defineWorkflow, sequentialWorkflow, workflowLabels, type WorkflowDefinition } from './workflow.js';
+import { stem } from './search.js';
+import { cosineSimilarity, HashedNgramEmbedder } from './embeddings.js';
 
 // ============================================================================
 // Type Definitions
@@ -22,6 +26,10 @@ export interface PluginMetadata {
 export interface PluginContext {
   query: string;
   options?: Record<string, unknown>;
+  /** Config of the plugin handling the query, with schema defaults applied */
+  settings?: Record<string, unknown>;
+  /** Conversation the query belongs to, with earlier turns and resolved entities */
+  session?: Readonly<SessionData>;
 }
 
 export interface PluginResult {
@@ -30,13 +38,164 @@ export interface PluginResult {
   error?: string;
 }
 
-export type PluginHandler = (context: PluginContext) => Promise<L0Response>;
+/**
+ * Returned by a handler that cannot serve a query, so fallback execution
+ * moves on to the next-ranked plugin
+ */
+export interface PluginDecline {
+  decline: true;
+  reason?: string;
+}
+
+export type PluginHandler = (context: PluginContext) => Promise<L0Response | PluginDecline>;
+
+/**
+ * How {@link PluginManager.execute} runs matching plugins
+ *
+ * - `first`: only the best match
+ * - `fallback`: the best match, then the next-ranked one on error or decline
+ * - `fanout`: the top matches in parallel, with their responses merged
+ */
+export type PluginExecutionMode = 'first' | 'fallback' | 'fanout';
+
+export interface PluginExecuteOptions {
+  /** Default: `first` */
+  mode?: PluginExecutionMode;
+  /** Most plugins to run in `fanout` mode (default: 3) */
+  limit?: number;
+  /** Plugins to try in this order instead of the trigger ranking; unknown and disabled names are skipped */
+  plugins?: string[];
+}
+
+/**
+ * What one plugin did for a fallback or fan-out response
+ */
+export interface PluginAttribution {
+  plugin: string;
+  status: 'answered' | 'declined' | 'failed';
+  /** Decline reason or error message */
+  reason?: string;
+  durationMs: number;
+}
+
+/**
+ * Outcome of {@link PluginManager.run}
+ */
+export interface PluginRun {
+  /** Null when no plugin answered */
+  response: L0Response | null;
+  attribution: PluginAttribution[];
+}
+
+/**
+ * A trigger with options
+ *
+ * Give either a `pattern` or a `predicate`.
+ */
+export interface TriggerSpec {
+  /** Phrase matched on whole words, or a regular expression tested against the raw query */
+  pattern?: string | RegExp;
+  /** Custom test; return true to match, or a number of points. Errors count as no match */
+  predicate?: (query: string) => boolean | number;
+  /** A match rules the plugin out instead of adding points */
+  negative?: boolean;
+  /** Points for a match (default: the phrase or matched text length, or 5 for predicates) */
+  weight?: number;
+  /** Name shown in traces and listings */
+  label?: string;
+}
+
+/**
+ * What makes a plugin handle a query
+ *
+ * - a string is a phrase matched on whole words, so `ci` matches "set up CI"
+ *   but not "specific", and `test` matches "testing" but not "latest"
+ * - a regular expression is tested against the raw query
+ * - a {@link TriggerSpec} adds negative triggers, predicates and weights
+ */
+export type PluginTrigger = string | RegExp | TriggerSpec;
+
+export type PluginConfigValue = string | number | boolean;
+
+/**
+ * One setting a plugin accepts
+ */
+export interface PluginConfigField {
+  type: 'string' | 'number' | 'boolean';
+  description?: string;
+  default?: PluginConfigValue;
+  /** Initialization fails while a required setting without a default is unset */
+  required?: boolean;
+  /** Allowed values */
+  enum?: PluginConfigValue[];
+  /** Masked when the CLI shows the config, e.g. API keys */
+  secret?: boolean;
+}
+
+/**
+ * Settings a plugin accepts, by name
+ */
+export type PluginConfigSchema = Record<string, PluginConfigField>;
+
+export interface PluginHealth {
+  healthy: boolean;
+  message?: string;
+}
 
 export interface L0Plugin {
   metadata: PluginMetadata;
-  triggers: string[];
+  triggers: PluginTrigger[];
   handler: PluginHandler;
   priority?: number;
+  /** Settings the plugin accepts; saved settings are validated against it */
+  configSchema?: PluginConfigSchema;
+  /** Called with the plugin's config before its first query, and again when the config changes */
+  init?: (config: Record<string, unknown>) => void | Promise<void>;
+  /** Release connections, timers and other resources opened by `init` */
+  dispose?: () => void | Promise<void>;
+  /** Report whether the plugin can serve queries, e.g. whether its backend is reachable */
+  healthCheck?: () => PluginHealth | Promise<PluginHealth>;
+  onEnable?: () => void | Promise<void>;
+  onDisable?: () => void | Promise<void>;
+}
+
+/**
+ * Result of a plugin's health check
+ */
+export interface PluginHealthReport extends PluginHealth {
+  plugin: string;
+  enabled: boolean;
+}
+
+export interface PluginMatch {
+  plugin: L0Plugin;
+  score: number;
+  /** Priority in effect, including any override */
+  priority: number;
+  matchedTriggers: string[];
+}
+
+export interface TriggerTrace {
+  /** Trigger label, see {@link describeTrigger} */
+  trigger: string;
+  matched: boolean;
+  points: number;
+  /** A matched negative trigger rules the plugin out */
+  negative?: boolean;
+}
+
+/**
+ * How a single plugin scored against a query, including non-matching and disabled plugins
+ */
+export interface PluginScoreTrace {
+  plugin: string;
+  enabled: boolean;
+  priority: number;
+  /** Sum of matched trigger points plus priority; 0 when nothing matched, a negative trigger matched, or disabled */
+  score: number;
+  triggers: TriggerTrace[];
+  /** Negative trigger that ruled the plugin out */
+  vetoedBy?: string;
 }
 
 export interface PluginRegistration {
@@ -45,6 +204,20 @@ export interface PluginRegistration {
   registeredAt: Date;
 }
 
+/**
+ * Per-plugin choices that outlive the process, e.g. stored in the workspace config
+ *
+ * Only choices that differ from the plugin's defaults are kept.
+ */
+export interface PluginState {
+  /** Only stored as `false`; plugins are enabled by default */
+  enabled?: boolean;
+  /** Replaces the plugin's own priority */
+  priority?: number;
+  /** Passed to the plugin's handler as `context.settings` */
+  settings?: Record<string, unknown>;
+}
+
 // ============================================================================
 // Plugin Manager Class
 // ============================================================================
@@ -66,6 +239,26 @@ export interface PluginRegistration {
  */
 export class PluginManager {
   private plugins: Map<string, PluginRegistration> = new Map();
+  private state: Map<string, PluginState>;
+  // Pending or finished `init` calls, by plugin name
+  private initialized: Map<string, Promise<void>> = new Map();
+  private readonly semantic?: Required<SemanticMatchOptions>;
+
+  /**
+   * @param options.state - Saved state by plugin name, applied as plugins register
+   * @param options.semantic - Also score queries by similarity to plugin keywords
+   */
+  constructor(options: Pick<PluginManagerOptions, 'state' | 'semantic'> = {}) {
+    this.state = new Map(Object.entries(structuredClone(options.state || {})));
+    if (options.semantic) {
+      const semantic = options.semantic === true ? {} : options.semantic;
+      this.semantic = {
+        similarity: semantic.similarity || ngramKeywordSimilarity(),
+        threshold: semantic.threshold ?? DEFAULT_SEMANTIC_THRESHOLD,
+        weight: semantic.weight ?? DEFAULT_SEMANTIC_WEIGHT,
+      };
+    }
+  }
 
   // ==========================================================================
   // Plugin Registration
@@ -91,7 +284,7 @@ export class PluginManager {
 
     this.plugins.set(name, {
       plugin,
-      enabled: true,
+      enabled: this.state.get(name)?.enabled ?? true,
       registeredAt: new Date(),
     });
 
@@ -101,15 +294,48 @@ export class PluginManager {
   /**
    * Unregister a plugin by name
    *
+   * Call {@link dispose} first to release anything the plugin opened.
+   *
    * @param name - Plugin name to remove
    * @returns boolean indicating success
    */
   unregister(name: string): boolean {
+    this.initialized.delete(name);
     return this.plugins.delete(name);
   }
 
   /**
-   * Enable or disable a plugin
+   * Enable a plugin and run its `onEnable` hook
+   *
+   * @returns false if the plugin is not registered
+   */
+  async enable(name: string): Promise<boolean> {
+    return this.toggle(name, true);
+  }
+
+  /**
+   * Disable a plugin and run its `onDisable` hook
+   *
+   * @returns false if the plugin is not registered
+   */
+  async disable(name: string): Promise<boolean> {
+    return this.toggle(name, false);
+  }
+
+  private async toggle(name: string, enabled: boolean): Promise<boolean> {
+    const registration = this.plugins.get(name);
+    if (!registration) return false;
+
+    const changed = registration.enabled !== enabled;
+    this.setEnabled(name, enabled);
+    if (changed) {
+      await (enabled ? registration.plugin.onEnable?.() : registration.plugin.onDisable?.());
+    }
+    return true;
+  }
+
+  /**
+   * Enable or disable a plugin without running its hooks
    *
    * @param name - Plugin name
    * @param enabled - Enable state
@@ -119,61 +345,459 @@ export class PluginManager {
     if (!registration) return false;
 
     registration.enabled = enabled;
+    this.updateState(name, { enabled: enabled ? undefined : false });
+    return true;
+  }
+
+  /**
+   * Override a plugin's priority
+   *
+   * @param name - Plugin name
+   * @param priority - New priority, or undefined to restore the plugin's own
+   */
+  setPriority(name: string, priority: number | undefined): boolean {
+    if (!this.plugins.has(name)) return false;
+
+    this.updateState(name, { priority });
+    return true;
+  }
+
+  /**
+   * Priority in effect for a plugin, including any override
+   */
+  getPriority(name: string): number {
+    return this.state.get(name)?.priority ?? this.plugins.get(name)?.plugin.priority ?? 0;
+  }
+
+  /**
+   * Replace a plugin's saved settings
+   *
+   * Settings are checked against the plugin's `configSchema`. Use
+   * {@link configure} to also re-initialize a plugin that is running.
+   *
+   * @param name - Plugin name
+   * @param settings - New settings; an empty object clears them
+   * @throws Error if the settings do not match the plugin's schema
+   */
+  setSettings(name: string, settings: Record<string, unknown>): boolean {
+    const registration = this.plugins.get(name);
+    if (!registration) return false;
+
+    resolvePluginConfig(registration.plugin, settings);
+    this.updateState(name, { settings: Object.keys(settings).length > 0 ? structuredClone(settings) : undefined });
+    return true;
+  }
+
+  /**
+   * Replace a plugin's settings and re-run `init` if it was initialized
+   *
+   * @throws Error if the settings do not match the plugin's schema, or `init` fails
+   */
+  async configure(name: string, settings: Record<string, unknown>): Promise<boolean> {
+    if (!this.setSettings(name, settings)) return false;
+
+    if (this.initialized.has(name)) {
+      this.initialized.delete(name);
+      await this.ensureInitialized(this.plugins.get(name)!.plugin);
+    }
     return true;
   }
 
+  /**
+   * Config a plugin runs with: its saved settings plus schema defaults
+   *
+   * @throws Error if the saved settings no longer match the plugin's schema
+   */
+  getConfig(name: string): Record<string, unknown> {
+    const registration = this.plugins.get(name);
+    if (!registration) return {};
+
+    return resolvePluginConfig(registration.plugin, this.state.get(name)?.settings || {});
+  }
+
+  /**
+   * Get a plugin's saved settings
+   */
+  getSettings(name: string): Record<string, unknown> {
+    return structuredClone(this.state.get(name)?.settings || {});
+  }
+
+  /**
+   * Snapshot of the saved state to persist, by plugin name
+   *
+   * Includes state for plugins that are not registered right now, so saving
+   * does not forget choices made for a plugin that failed to load.
+   */
+  getState(): Record<string, PluginState> {
+    return structuredClone(Object.fromEntries(this.state));
+  }
+
+  private updateState(name: string, changes: PluginState): void {
+    const next: PluginState = { ...this.state.get(name), ...changes };
+    for (const key of Object.keys(next) as (keyof PluginState)[]) {
+      if (next[key] === undefined) delete next[key];
+    }
+
+    if (Object.keys(next).length > 0) {
+      this.state.set(name, next);
+    } else {
+      this.state.delete(name);
+    }
+  }
+
   // ==========================================================================
   // Plugin Discovery & Execution
   // ==========================================================================
 
   /**
-   * Find plugins that match a query
+   * Score every enabled plugin against a query
    *
    * @param query - User query to match against plugin triggers
-   * @returns Array of matching plugins sorted by priority
+   * @returns Matching plugins with scores and matched triggers, best first
    */
-  findMatching(query: string): L0Plugin[] {
-    const lowerQuery = query.toLowerCase();
-    const matches: { plugin: L0Plugin; score: number }[] = [];
+  score(query: string): PluginMatch[] {
+    const matches: PluginMatch[] = [];
+
+    const words = phraseWords(query);
 
     for (const [, registration] of this.plugins) {
       if (!registration.enabled) continue;
 
       const { plugin } = registration;
-      let score = 0;
+      const triggers = this.scoreTriggers(plugin, query, words);
+      if (triggers.some(t => t.negative && t.matched)) continue;
 
-      for (const trigger of plugin.triggers) {
-        if (lowerQuery.includes(trigger.toLowerCase())) {
-          score += trigger.length;
-        }
-      }
+      const matchedTriggers = triggers.filter(t => t.matched).map(t => t.trigger);
+      const score = triggers.reduce((sum, t) => sum + t.points, 0);
 
       if (score > 0) {
-        matches.push({ plugin, score: score + (plugin.priority || 0) });
+        const priority = this.getPriority(plugin.metadata.name);
+        matches.push({ plugin, score: score + priority, priority, matchedTriggers });
       }
     }
 
-    return matches
-      .sort((a, b) => b.score - a.score)
-      .map(m => m.plugin);
+    return matches.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Explain how every registered plugin scores against a query
+   *
+   * Unlike {@link score}, this includes plugins that did not match and
+   * disabled plugins, with a per-trigger breakdown.
+   */
+  explainScores(query: string): PluginScoreTrace[] {
+    const words = phraseWords(query);
+
+    return Array.from(this.plugins.values()).map(({ plugin, enabled }) => {
+      const triggers = this.scoreTriggers(plugin, query, words);
+      const points = triggers.reduce((sum, t) => sum + t.points, 0);
+      const priority = this.getPriority(plugin.metadata.name);
+      const veto = triggers.find(t => t.negative && t.matched);
+
+      return {
+        plugin: plugin.metadata.name,
+        enabled,
+        priority,
+        score: enabled && !veto && points > 0 ? points + priority : 0,
+        triggers,
+        ...(veto && { vetoedBy: veto.trigger }),
+      };
+    });
+  }
+
+  private scoreTriggers(plugin: L0Plugin, query: string, words: string[]): TriggerTrace[] {
+    const traces: TriggerTrace[] = plugin.triggers.map(trigger => {
+      const spec = typeof trigger === 'string' || trigger instanceof RegExp ? { pattern: trigger } : trigger;
+      const points = matchTrigger(spec, query, words);
+      const matched = points > 0;
+
+      return {
+        trigger: describeTrigger(trigger),
+        matched,
+        points: matched && !spec.negative ? points : 0,
+        ...(spec.negative && { negative: true }),
+      };
+    });
+
+    const keywords = plugin.metadata.keywords || [];
+    if (this.semantic && keywords.length > 0) {
+      const similarity = this.semantic.similarity(query, keywords);
+      const matched = similarity >= this.semantic.threshold;
+      traces.push({
+        trigger: `~keywords (${Math.round(similarity * 100) / 100})`,
+        matched,
+        points: matched ? Math.round(similarity * this.semantic.weight * 100) / 100 : 0,
+      });
+    }
+
+    return traces;
+  }
+
+  /**
+   * Find plugins that match a query
+   *
+   * @param query - User query to match against plugin triggers
+   * @returns Array of matching plugins sorted by priority
+   */
+  findMatching(query: string): L0Plugin[] {
+    return this.score(query).map(m => m.plugin);
   }
 
   /**
    * Execute the best matching plugin for a query
    *
+   * In `fallback` and `fanout` modes the response lists what each plugin
+   * did under `attribution`.
+   *
    * @param query - User query
    * @param options - Execution options
-   * @returns Plugin response or null if no match
+   * @param session - Conversation the query belongs to
+   * @param execution - Which matching plugins to run, see {@link PluginExecutionMode}
+   * @returns Plugin response, or null if nothing matched or every plugin declined
+   * @throws Error when no plugin answered and at least one failed
    */
-  async execute(query: string, options?: Record<string, unknown>): Promise<L0Response | null> {
-    const matches = this.findMatching(query);
+  async execute(
+    query: string,
+    options?: Record<string, unknown>,
+    session?: SessionData,
+    execution: PluginExecuteOptions = {}
+  ): Promise<L0Response | null> {
+    if (!execution.mode || execution.mode === 'first') {
+      const [plugin] = this.candidates(query, execution.plugins);
+      return plugin ? this.respond(plugin, await plugin.handler(await this.context(plugin, query, options, session))) : null;
+    }
+
+    const { response, attribution } = await this.run(query, options, session, execution);
+    return response ? { ...response, attribution } : unanswered(attribution);
+  }
+
+  /**
+   * Run matching plugins and report what each did, without throwing
+   *
+   * `first` runs only the best match; `fallback` stops at the first plugin
+   * that answers; `fanout` runs the top `limit` in parallel and merges the answers.
+   *
+   * @param query - User query
+   * @param options - Execution options
+   * @param session - Conversation the query belongs to
+   * @param execution - Which matching plugins to run (default: `fallback`)
+   */
+  async run(
+    query: string,
+    options?: Record<string, unknown>,
+    session?: SessionData,
+    execution: PluginExecuteOptions = {}
+  ): Promise<PluginRun> {
+    const candidates = this.candidates(query, execution.plugins);
+    const mode = execution.mode || 'fallback';
+
+    if (mode === 'fanout') {
+      const limit = Math.max(execution.limit ?? DEFAULT_FANOUT_LIMIT, 1);
+      const outcomes = await Promise.all(candidates.slice(0, limit).map(plugin => this.attempt(plugin, query, options, session)));
+      const answers = outcomes.flatMap(o => (o.response ? [{ plugin: o.attribution.plugin, response: o.response }] : []));
+      return {
+        response: answers.length > 0 ? mergeResponses(answers) : null,
+        attribution: outcomes.map(o => o.attribution),
+      };
+    }
+
+    const attribution: PluginAttribution[] = [];
+    for (const plugin of mode === 'first' ? candidates.slice(0, 1) : candidates) {
+      const outcome = await this.attempt(plugin, query, options, session);
+      attribution.push(outcome.attribution);
+      if (outcome.response) {
+        return { response: outcome.response, attribution };
+      }
+    }
+    return { response: null, attribution };
+  }
 
-    if (matches.length === 0) {
+  /**
+   * Execute a specific plugin by name, bypassing trigger matching
+   *
+   * @param name - Plugin name
+   * @param query - User query
+   * @param options - Execution options
+   * @param session - Conversation the query belongs to
+   * @returns Plugin response or null if the plugin is missing or disabled
+   */
+  async executePlugin(name: string, query: string, options?: Record<string, unknown>, session?: SessionData): Promise<L0Response | null> {
+    const registration = this.plugins.get(name);
+    if (!registration?.enabled) {
       return null;
     }
 
-    const context: PluginContext = { query, options };
-    return matches[0].handler(context);
+    const { plugin } = registration;
+    return this.respond(plugin, await plugin.handler(await this.context(plugin, query, options, session)));
+  }
+
+  /**
+   * Plugins to try for a query: the named ones in order, or the trigger ranking
+   */
+  private candidates(query: string, names?: string[]): L0Plugin[] {
+    if (!names) {
+      return this.score(query).map(m => m.plugin);
+    }
+    return names.flatMap(name => {
+      const registration = this.plugins.get(name);
+      return registration?.enabled ? [registration.plugin] : [];
+    });
+  }
+
+  /**
+   * Run one plugin, catching errors and declines
+   */
+  private async attempt(
+    plugin: L0Plugin,
+    query: string,
+    options?: Record<string, unknown>,
+    session?: SessionData
+  ): Promise<{ attribution: PluginAttribution; response: L0Response | null }> {
+    const name = plugin.metadata.name;
+    const started = Date.now();
+    const elapsed = () => Date.now() - started;
+
+    try {
+      const result = await plugin.handler(await this.context(plugin, query, options, session));
+      const response = this.respond(plugin, result);
+      const reason = isDecline(result) ? result.reason : undefined;
+      return {
+        attribution: { plugin: name, status: response ? 'answered' : 'declined', ...(reason && { reason }), durationMs: elapsed() },
+        response,
+      };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return { attribution: { plugin: name, status: 'failed', reason, durationMs: elapsed() }, response: null };
+    }
+  }
+
+  /**
+   * The handler's response with an executable workflow, or null when the plugin declined
+   */
+  private respond(plugin: L0Plugin, result: L0Response | PluginDecline | null | undefined): L0Response | null {
+    if (!result || isDecline(result)) {
+      return null;
+    }
+    return this.withWorkflowDefinition(plugin, result);
+  }
+
+  /**
+   * Initialize the plugin if needed and build its handler context
+   */
+  private async context(plugin: L0Plugin, query: string, options?: Record<string, unknown>, session?: SessionData): Promise<PluginContext> {
+    await this.ensureInitialized(plugin);
+
+    const settings = this.getConfig(plugin.metadata.name);
+    return { query, options, ...(Object.keys(settings).length > 0 && { settings }), ...(session && { session }) };
+  }
+
+  /**
+   * Give plain string workflows an executable, sequential definition
+   */
+  private withWorkflowDefinition(plugin: L0Plugin, response: L0Response): L0Response {
+    if (!response?.workflow?.length || response.workflowDefinition) {
+      return response;
+    }
+
+    return {
+      ...response,
+      workflowDefinition: sequentialWorkflow(`plugin:${plugin.metadata.name}`, plugin.metadata.description, response.workflow),
+    };
+  }
+
+  // ==========================================================================
+  // Lifecycle
+  // ==========================================================================
+
+  /**
+   * Run `init` for every enabled plugin that has not been initialized
+   *
+   * Plugins are otherwise initialized on their first query; calling this at
+   * startup surfaces config problems early.
+   *
+   * @returns Initialization errors by plugin name
+   */
+  async initialize(): Promise<Record<string, string>> {
+    const errors: Record<string, string> = {};
+
+    for (const { plugin, enabled } of this.plugins.values()) {
+      if (!enabled) continue;
+      try {
+        await this.ensureInitialized(plugin);
+      } catch (error) {
+        errors[plugin.metadata.name] = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Run `dispose` for initialized plugins, all of them or one by name
+   *
+   * A disposed plugin is initialized again on its next query.
+   */
+  async dispose(name?: string): Promise<void> {
+    const names = name === undefined ? Array.from(this.initialized.keys()) : [name];
+
+    for (const pluginName of names) {
+      const pending = this.initialized.get(pluginName);
+      if (!pending) continue;
+
+      this.initialized.delete(pluginName);
+      // A plugin whose init failed has nothing to release
+      if (await pending.then(() => true, () => false)) {
+        await this.plugins.get(pluginName)?.plugin.dispose?.();
+      }
+    }
+  }
+
+  /**
+   * Run health checks, for all plugins or one by name
+   *
+   * Plugins without a `healthCheck` are reported healthy. A check that
+   * throws, or a plugin that fails to initialize, is reported unhealthy.
+   */
+  async checkHealth(name?: string): Promise<PluginHealthReport[]> {
+    const registrations = Array.from(this.plugins.values()).filter(r => name === undefined || r.plugin.metadata.name === name);
+
+    return Promise.all(
+      registrations.map(async ({ plugin, enabled }): Promise<PluginHealthReport> => {
+        const report = { plugin: plugin.metadata.name, enabled };
+        if (!plugin.healthCheck) {
+          return { ...report, healthy: true, message: 'No health check' };
+        }
+        try {
+          await this.ensureInitialized(plugin);
+          return { ...report, ...(await plugin.healthCheck()) };
+        } catch (error) {
+          return { ...report, healthy: false, message: error instanceof Error ? error.message : String(error) };
+        }
+      })
+    );
+  }
+
+  /**
+   * Run `init` once per plugin; a failed init is retried on the next call
+   */
+  private async ensureInitialized(plugin: L0Plugin): Promise<void> {
+    const { name } = plugin.metadata;
+    let pending = this.initialized.get(name);
+
+    if (!pending) {
+      pending = (async () => {
+        const config = this.getConfig(name);
+        await plugin.init?.(config);
+      })();
+      this.initialized.set(name, pending);
+    }
+
+    try {
+      await pending;
+    } catch (error) {
+      if (this.initialized.get(name) === pending) this.initialized.delete(name);
+      throw error;
+    }
   }
 
   // ==========================================================================
@@ -192,11 +816,12 @@ export class PluginManager {
   /**
    * Get detailed info about all plugins
    */
-  listDetailed(): Array<PluginMetadata & { enabled: boolean; triggers: string[] }> {
+  listDetailed(): Array<PluginMetadata & { enabled: boolean; priority: number; triggers: string[] }> {
     return Array.from(this.plugins.values()).map(r => ({
       ...r.plugin.metadata,
       enabled: r.enabled,
-      triggers: r.plugin.triggers,
+      priority: this.getPriority(r.plugin.metadata.name),
+      triggers: r.plugin.triggers.map(describeTrigger),
     }));
   }
 
@@ -233,20 +858,10 @@ export class PluginManager {
   // ==========================================================================
 
   private validatePlugin(plugin: L0Plugin): boolean {
-    const { metadata, triggers, handler } = plugin;
-
-    if (!metadata?.name || !metadata?.version || !metadata?.description) {
-      console.error('Plugin validation failed: metadata must include name, version, and description');
-      return false;
-    }
-
-    if (!Array.isArray(triggers) || triggers.length === 0) {
-      console.error('Plugin validation failed: triggers must be a non-empty array');
-      return false;
-    }
+    const [problem] = checkPluginContract(plugin);
 
-    if (typeof handler !== 'function') {
-      console.error('Plugin validation failed: handler must be a function');
+    if (problem) {
+      console.error(`Plugin validation failed: ${problem}`);
       return false;
     }
 
@@ -264,7 +879,7 @@ export class PluginManager {
     const data = Array.from(this.plugins.entries()).map(([name, reg]) => ({
       name,
       metadata: reg.plugin.metadata,
-      triggers: reg.plugin.triggers,
+      triggers: reg.plugin.triggers.map(describeTrigger),
       enabled: reg.enabled,
       registeredAt: reg.registeredAt.toISOString(),
     }));
@@ -273,6 +888,431 @@ export class PluginManager {
   }
 }
 
+// ============================================================================
+// Fallback and Fan-out
+// ============================================================================
+
+const DEFAULT_FANOUT_LIMIT = 3;
+
+function isDecline(result: unknown): result is PluginDecline {
+  return !!result && typeof result === 'object' && (result as PluginDecline).decline === true;
+}
+
+/**
+ * Decline a query from a handler, so fallback execution tries the next plugin
+ *
+ * @example
+ * ```typescript
+ * handler: async ({ settings }) => settings?.apiKey ? lookup() : decline('No API key configured')
+ * ```
+ */
+export function decline(reason?: string): PluginDecline {
+  return { decline: true, ...(reason && { reason }) };
+}
+
+/**
+ * Null when every plugin declined, otherwise an error naming each failure
+ */
+function unanswered(attribution: PluginAttribution[]): null {
+  const failed = attribution.filter(a => a.status === 'failed');
+  if (failed.length === 0) {
+    return null;
+  }
+  throw new Error(`No plugin could answer: ${attribution.map(a => `${a.plugin} ${a.status}${a.reason ? ` (${a.reason})` : ''}`).join(', ')}`);
+}
+
+function unique<T>(items: T[]): T[] {
+  return Array.from(new Set(items));
+}
+
+/**
+ * Run the answering plugins' workflows side by side, with step ids prefixed by plugin name
+ */
+function mergeWorkflows(parts: Array<{ plugin: string; definition: WorkflowDefinition }>): WorkflowDefinition {
+  const prefix = (plugin: string, id: string) => `${plugin}:${id}`;
+
+  return defineWorkflow(
+    `fanout:${parts.map(p => p.plugin).join('+')}`,
+    parts.map(p => p.definition.name).join(' + '),
+    parts.flatMap(({ plugin, definition }) =>
+      definition.steps.map(step => ({
+        ...step,
+        id: prefix(plugin, step.id),
+        ...(step.dependencies && { dependencies: step.dependencies.map(id => prefix(plugin, id)) }),
+      }))
+    )
+  );
+}
+
+/**
+ * Combine fan-out responses into one, headed by each plugin's name
+ *
+ * Workflows run side by side; agents and related items are de-duplicated;
+ * `data` is keyed by plugin. The first answer sets the response type.
+ */
+function mergeResponses(answers: Array<{ plugin: string; response: L0Response }>): L0Response {
+  const [first] = answers;
+  if (answers.length === 1) {
+    return first.response;
+  }
+
+  const responses = answers.map(a => a.response);
+  const definitions = answers.flatMap(({ plugin, response }) =>
+    response.workflowDefinition ? [{ plugin, definition: response.workflowDefinition }] : []
+  );
+  const workflowDefinition = definitions.length > 0 ? mergeWorkflows(definitions) : undefined;
+  const data = Object.fromEntries(answers.filter(a => a.response.data !== undefined).map(a => [a.plugin, a.response.data]));
+  const assignments = answers.flatMap(({ plugin, response }) =>
+    (response.assignments || []).map(assignment => ({ ...assignment, stepId: `${plugin}:${assignment.stepId}` }))
+  );
+  const agents = unique(responses.flatMap(r => r.agents || []));
+  const related = unique(responses.flatMap(r => r.related || []));
+  const matches = responses.flatMap(r => r.matches || []);
+  const code = responses.filter(r => r.code).map(r => r.code).join('\n\n');
+  const dashboardUrl = responses.find(r => r.dashboardUrl)?.dashboardUrl;
+
+  return {
+    message: answers.map(({ plugin, response }) => `[${plugin}] ${response.message}`).join('\n\n'),
+    type: first.response.type,
+    ...(code && { code }),
+    ...(Object.keys(data).length > 0 && { data }),
+    ...(related.length > 0 && { related }),
+    ...(responses.some(r => r.clipboard) && { clipboard: true }),
+    ...(dashboardUrl && { dashboardUrl }),
+    ...(workflowDefinition && { workflow: workflowLabels(workflowDefinition), workflowDefinition }),
+    ...(agents.length > 0 && { agents }),
+    ...(assignments.length > 0 && { assignments }),
+    ...(matches.length > 0 && { matches }),
+  };
+}
+
+// ============================================================================
+// Trigger Matching
+// ============================================================================
+
+const DEFAULT_PREDICATE_POINTS = 5;
+const DEFAULT_SEMANTIC_THRESHOLD = 0.35;
+// Points for a perfect keyword match, about the same as a long phrase trigger
+const DEFAULT_SEMANTIC_WEIGHT = 10;
+
+/**
+ * Scoring by similarity between the query and a plugin's `metadata.keywords`
+ */
+export interface SemanticMatchOptions {
+  /** Similarity of a query to a list of keywords, 0-1 (default: best hashed n-gram cosine) */
+  similarity?: (query: string, keywords: string[]) => number;
+  /** Lowest similarity that counts as a match (default: 0.35) */
+  threshold?: number;
+  /** Points for a similarity of 1 (default: 10) */
+  weight?: number;
+}
+
+/**
+ * Lower-cased words of a query or phrase
+ */
+function phraseWords(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * A query word matches a trigger word when it is the same word or an
+ * inflection of it, so `test` matches "testing" but `planning` does not match "plans"
+ */
+function sameWord(word: string, triggerWord: string): boolean {
+  return word === triggerWord || (word.startsWith(triggerWord) && stem(word) === stem(triggerWord));
+}
+
+function containsPhrase(words: string[], phrase: string[]): boolean {
+  if (phrase.length === 0) return false;
+
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((word, j) => sameWord(words[i + j], word))) return true;
+  }
+  return false;
+}
+
+/**
+ * Points a trigger earns for a query, 0 when it does not match
+ */
+function matchTrigger(spec: TriggerSpec, query: string, words: string[]): number {
+  const { pattern, predicate, weight } = spec;
+
+  if (typeof pattern === 'string') {
+    return containsPhrase(words, phraseWords(pattern)) ? weight ?? pattern.length : 0;
+  }
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    const match = pattern.exec(query);
+    return match ? weight ?? Math.max(match[0].length, 1) : 0;
+  }
+  if (predicate) {
+    let result: boolean | number;
+    try {
+      result = predicate(query);
+    } catch {
+      return 0;
+    }
+    if (typeof result === 'number') return Math.max(result, 0);
+    return result ? weight ?? DEFAULT_PREDICATE_POINTS : 0;
+  }
+  return 0;
+}
+
+/**
+ * Check whether a query mentions a phrase as whole words, e.g. for routing inside a handler
+ *
+ * @example
+ * ```typescript
+ * mentions('set up CI for the repo', 'ci'); // true
+ * mentions('a specific request', 'ci'); // false
+ * ```
+ */
+export function mentions(query: string, phrase: string): boolean {
+  return containsPhrase(phraseWords(query), phraseWords(phrase));
+}
+
+/**
+ * Readable name of a trigger: the phrase, `/regex/flags`, or the spec's label, with `!` for negative triggers
+ */
+export function describeTrigger(trigger: PluginTrigger): string {
+  if (typeof trigger === 'string') return trigger;
+  if (trigger instanceof RegExp) return String(trigger);
+
+  const name = trigger.label || (trigger.pattern !== undefined ? describeTrigger(trigger.pattern) : 'predicate');
+  return trigger.negative ? `!${name}` : name;
+}
+
+/**
+ * Similarity of a query to its closest keyword using {@link HashedNgramEmbedder}, which works offline
+ */
+export function ngramKeywordSimilarity(embedder: HashedNgramEmbedder = new HashedNgramEmbedder()): (query: string, keywords: string[]) => number {
+  const keywordVectors = new Map<string, number[]>();
+
+  return (query, keywords) => {
+    const queryVector = embedder.embedText(query);
+    return keywords.reduce((best, keyword) => {
+      let vector = keywordVectors.get(keyword);
+      if (!vector) {
+        vector = embedder.embedText(keyword);
+        keywordVectors.set(keyword, vector);
+      }
+      return Math.max(best, cosineSimilarity(queryVector, vector));
+    }, 0);
+  };
+}
+
+// ============================================================================
+// Plugin Config
+// ============================================================================
+
+/**
+ * Check settings against a plugin's `configSchema` and fill in defaults
+ *
+ * Plugins without a schema accept any settings as they are.
+ *
+ * @throws Error naming the plugin and the first bad setting
+ */
+export function resolvePluginConfig(plugin: Pick<L0Plugin, 'metadata' | 'configSchema'>, settings: Record<string, unknown>): Record<string, unknown> {
+  const { configSchema: schema, metadata } = plugin;
+  if (!schema) return structuredClone(settings);
+
+  const known = Object.keys(schema);
+  const config: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(settings)) {
+    const field = schema[key];
+    if (!field) {
+      throw new Error(`Plugin "${metadata.name}" has no setting "${key}". Settings: ${known.join(', ') || 'none'}`);
+    }
+    if (typeof value !== field.type || (field.type === 'number' && !Number.isFinite(value))) {
+      throw new Error(`Plugin "${metadata.name}" setting "${key}" must be a ${field.type}`);
+    }
+    if (field.enum && !field.enum.includes(value as PluginConfigValue)) {
+      throw new Error(`Plugin "${metadata.name}" setting "${key}" must be one of: ${field.enum.join(', ')}`);
+    }
+    config[key] = value;
+  }
+
+  for (const [key, field] of Object.entries(schema)) {
+    if (config[key] !== undefined) continue;
+    if (field.default !== undefined) {
+      config[key] = field.default;
+    } else if (field.required) {
+      throw new Error(`Plugin "${metadata.name}" needs setting "${key}"`);
+    }
+  }
+
+  return config;
+}
+
+const BOOLEAN_WORDS: Record<string, boolean> = { true: true, yes: true, on: true, '1': true, false: false, no: false, off: false, '0': false };
+
+/**
+ * Turn a setting typed on the command line into the type its schema declares
+ *
+ * Without a schema, or for string settings, the text is kept as is.
+ *
+ * @throws Error for unknown settings or text that is not a valid number or boolean
+ */
+export function parsePluginConfigValue(plugin: Pick<L0Plugin, 'metadata' | 'configSchema'>, key: string, text: string): PluginConfigValue {
+  if (!plugin.configSchema) return text;
+  const field = plugin.configSchema[key];
+  if (!field) {
+    throw new Error(`Plugin "${plugin.metadata.name}" has no setting "${key}". Settings: ${Object.keys(plugin.configSchema).join(', ') || 'none'}`);
+  }
+
+  if (field.type === 'number') {
+    const value = Number(text);
+    if (!text.trim() || !Number.isFinite(value)) {
+      throw new Error(`Plugin "${plugin.metadata.name}" setting "${key}" must be a number, got "${text}"`);
+    }
+    return value;
+  }
+  if (field.type === 'boolean') {
+    const value = BOOLEAN_WORDS[text.toLowerCase()];
+    if (value === undefined) {
+      throw new Error(`Plugin "${plugin.metadata.name}" setting "${key}" must be true or false, got "${text}"`);
+    }
+    return value;
+  }
+  return text;
+}
+
+/**
+ * Check saved plugin state read from storage
+ *
+ * @param source - Named in error messages, e.g. the config file path
+ * @throws Error describing the first invalid entry
+ */
+export function parsePluginState(value: unknown, source: string = 'Plugin state'): Record<string, PluginState> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${source} must be an object keyed by plugin name`);
+  }
+
+  for (const [name, entry] of Object.entries(value)) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new Error(`${source}: "${name}" must be an object`);
+    }
+    const { enabled, priority, settings } = entry as Record<string, unknown>;
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      throw new Error(`${source}: "${name}".enabled must be true or false`);
+    }
+    if (priority !== undefined && (typeof priority !== 'number' || !Number.isFinite(priority))) {
+      throw new Error(`${source}: "${name}".priority must be a number`);
+    }
+    if (settings !== undefined && (!settings || typeof settings !== 'object' || Array.isArray(settings))) {
+      throw new Error(`${source}: "${name}".settings must be an object`);
+    }
+  }
+
+  return value as Record<string, PluginState>;
+}
+
+// ============================================================================
+// Contract Check
+// ============================================================================
+
+const LIFECYCLE_HOOKS = ['init', 'dispose', 'healthCheck', 'onEnable', 'onDisable'] as const;
+
+const CONFIG_FIELD_TYPES = ['string', 'number', 'boolean'];
+
+function checkTrigger(trigger: unknown, index: number): string[] {
+  const where = `triggers[${index}]`;
+  if (typeof trigger === 'string') {
+    return trigger.trim() ? [] : [`${where} must not be empty`];
+  }
+  if (trigger instanceof RegExp) return [];
+  if (!trigger || typeof trigger !== 'object' || Array.isArray(trigger)) {
+    return [`${where} must be a string, a regular expression or a trigger object`];
+  }
+
+  const { pattern, predicate, negative, weight } = trigger as Record<string, unknown>;
+  const problems: string[] = [];
+  const hasPattern = (typeof pattern === 'string' && pattern.trim() !== '') || pattern instanceof RegExp;
+  if (!hasPattern && typeof predicate !== 'function') {
+    problems.push(`${where} needs a pattern (string or regular expression) or a predicate function`);
+  }
+  if (negative !== undefined && typeof negative !== 'boolean') {
+    problems.push(`${where}.negative must be true or false`);
+  }
+  if (weight !== undefined && (typeof weight !== 'number' || !Number.isFinite(weight))) {
+    problems.push(`${where}.weight must be a number`);
+  }
+  return problems;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Check that a value, e.g. the export of a third-party module, is an {@link L0Plugin}
+ *
+ * @returns Problems found, empty when the value honours the contract
+ */
+export function checkPluginContract(value: unknown): string[] {
+  if (!value || typeof value !== 'object') {
+    return ['plugin must be an object with metadata, triggers and handler'];
+  }
+
+  const { metadata, triggers, handler, priority } = value as Record<string, unknown>;
+  const problems: string[] = [];
+  const meta = (metadata && typeof metadata === 'object' ? metadata : {}) as Record<string, unknown>;
+
+  if (!meta.name || !meta.version || !meta.description) {
+    problems.push('metadata must include name, version, and description');
+  } else if ([meta.name, meta.version, meta.description].some((field) => typeof field !== 'string')) {
+    problems.push('metadata name, version and description must be strings');
+  }
+  if (meta.author !== undefined && typeof meta.author !== 'string') {
+    problems.push('metadata.author must be a string');
+  }
+  if (meta.keywords !== undefined && !isStringList(meta.keywords)) {
+    problems.push('metadata.keywords must be a list of strings');
+  }
+  if (!Array.isArray(triggers) || triggers.length === 0) {
+    problems.push('triggers must be a non-empty array');
+  } else {
+    triggers.forEach((trigger, index) => problems.push(...checkTrigger(trigger, index)));
+  }
+  if (typeof handler !== 'function') {
+    problems.push('handler must be a function');
+  }
+  if (priority !== undefined && (typeof priority !== 'number' || !Number.isFinite(priority))) {
+    problems.push('priority must be a number');
+  }
+  for (const hook of LIFECYCLE_HOOKS) {
+    const fn = (value as Record<string, unknown>)[hook];
+    if (fn !== undefined && typeof fn !== 'function') {
+      problems.push(`${hook} must be a function`);
+    }
+  }
+  problems.push(...checkConfigSchema((value as Record<string, unknown>).configSchema));
+
+  return problems;
+}
+
+function checkConfigSchema(schema: unknown): string[] {
+  if (schema === undefined) return [];
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return ['configSchema must be an object keyed by setting name'];
+  }
+
+  const problems: string[] = [];
+  for (const [key, field] of Object.entries(schema)) {
+    const { type, default: fallback, enum: allowed } = (field && typeof field === 'object' ? field : {}) as Record<string, unknown>;
+    if (typeof type !== 'string' || !CONFIG_FIELD_TYPES.includes(type)) {
+      problems.push(`configSchema.${key}.type must be one of: ${CONFIG_FIELD_TYPES.join(', ')}`);
+    } else if (fallback !== undefined && typeof fallback !== type) {
+      problems.push(`configSchema.${key}.default must be a ${type}`);
+    }
+    if (allowed !== undefined && !Array.isArray(allowed)) {
+      problems.push(`configSchema.${key}.enum must be a list`);
+    }
+  }
+  return problems;
+}
+
 // ============================================================================
 // Built-in Plugins
 // ============================================================================
@@ -292,19 +1332,20 @@ export const devToolsPlugin: L0Plugin = {
   triggers: ['debug', 'test', 'deploy', 'ci', 'cd', 'build', 'lint', 'refactor'],
   priority: 10,
   handler: async (ctx: PluginContext): Promise<L0Response> => {
-    const lowerQuery = ctx.query.toLowerCase();
+    if (mentions(ctx.query, 'debug')) {
+      const workflowDefinition = sequentialWorkflow('dev-tools:debug', 'Development Debugging', [
+        { label: '📋 Reproduce the issue with minimal test case', handler: 'testing' },
+        { label: '🔍 Analyze stack traces and error logs', handler: 'debug' },
+        { label: '🎯 Identify root cause vs symptoms', handler: 'debug' },
+        { label: '🛠️  Implement targeted fix', handler: 'code' },
+        { label: '✅ Verify fix with regression tests', handler: 'testing' },
+      ]);
 
-    if (lowerQuery.includes('debug')) {
       return {
         message: '🔧 Development Debugging Workflow',
         type: 'orchestration',
-        workflow: [
-          '📋 Reproduce the issue with minimal test case',
-          '🔍 Analyze stack traces and error logs',
-          '🎯 Identify root cause vs symptoms',
-          '🛠️  Implement targeted fix',
-          '✅ Verify fix with regression tests',
-        ],
+        workflow: workflowLabels(workflowDefinition),
+        workflowDefinition,
         agents: [
           'Debug Agent: Analyzing error patterns and stack traces',
           'Test Agent: Creating reproduction cases',
@@ -317,17 +1358,20 @@ export const devToolsPlugin: L0Plugin = {
       };
     }
 
-    if (lowerQuery.includes('test')) {
+    if (mentions(ctx.query, 'test')) {
+      const workflowDefinition = defineWorkflow('dev-tools:test', 'Testing Strategy', [
+        { id: 'coverage', label: '📊 Analyze code coverage gaps', handler: 'testing', outputs: ['gaps'] },
+        { id: 'critical-paths', label: '🎯 Identify critical paths for testing', handler: 'planning', outputs: ['paths'], dependencies: ['coverage'] },
+        { id: 'unit', label: '✍️  Write unit tests for core logic', handler: 'testing', inputs: { paths: '{{critical-paths.paths}}' }, dependencies: ['critical-paths'] },
+        { id: 'integration', label: '🔗 Add integration tests for workflows', handler: 'testing', inputs: { paths: '{{critical-paths.paths}}' }, dependencies: ['critical-paths'] },
+        { id: 'automation', label: '🚀 Set up CI/CD test automation', handler: 'build', dependencies: ['unit', 'integration'] },
+      ]);
+
       return {
         message: '🧪 Testing Strategy Workflow',
         type: 'orchestration',
-        workflow: [
-          '📊 Analyze code coverage gaps',
-          '🎯 Identify critical paths for testing',
-          '✍️  Write unit tests for core logic',
-          '🔗 Add integration tests for workflows',
-          '🚀 Set up CI/CD test automation',
-        ],
+        workflow: workflowLabels(workflowDefinition),
+        workflowDefinition,
         agents: [
           'Test Agent: Generating test cases',
           'Coverage Agent: Analyzing test coverage',
@@ -336,18 +1380,22 @@ export const devToolsPlugin: L0Plugin = {
       };
     }
 
-    if (lowerQuery.includes('deploy') || lowerQuery.includes('ci') || lowerQuery.includes('cd')) {
+    if (mentions(ctx.query, 'deploy') || mentions(ctx.query, 'ci') || mentions(ctx.query, 'cd')) {
+      const workflowDefinition = defineWorkflow('dev-tools:deploy', 'Deployment Pipeline', [
+        { id: 'checklist', label: '📋 Review deployment checklist', handler: 'review' },
+        // Tests and the security scan are independent gates before packaging
+        { id: 'tests', label: '🧪 Run pre-deployment tests', handler: 'testing', dependencies: ['checklist'] },
+        { id: 'security', label: '🔒 Security scan and vulnerability check', handler: 'security', dependencies: ['checklist'] },
+        { id: 'package', label: '📦 Build and package artifacts', handler: 'build', outputs: ['artifact'], dependencies: ['tests', 'security'] },
+        { id: 'deploy', label: '🚀 Deploy to target environment', handler: 'deploy', inputs: { artifact: '{{package.artifact}}' }, dependencies: ['package'] },
+        { id: 'verify', label: '✅ Post-deployment verification', handler: 'monitoring', dependencies: ['deploy'] },
+      ]);
+
       return {
         message: '🚀 Deployment Pipeline Workflow',
         type: 'orchestration',
-        workflow: [
-          '📋 Review deployment checklist',
-          '🧪 Run pre-deployment tests',
-          '🔒 Security scan and vulnerability check',
-          '📦 Build and package artifacts',
-          '🚀 Deploy to target environment',
-          '✅ Post-deployment verification',
-        ],
+        workflow: workflowLabels(workflowDefinition),
+        workflowDefinition,
         agents: [
           'Build Agent: Compiling and packaging',
           'Security Agent: Running vulnerability scans',
@@ -357,15 +1405,18 @@ export const devToolsPlugin: L0Plugin = {
       };
     }
 
+    const workflowDefinition = sequentialWorkflow('dev-tools:general', 'Development Workflow', [
+      { label: '🔍 Analyze development request', handler: 'planning' },
+      { label: '📋 Create task breakdown', handler: 'planning' },
+      { label: '⚡ Execute development tasks', handler: 'code' },
+      { label: '✅ Validate and test changes', handler: 'testing' },
+    ]);
+
     return {
       message: '🛠️  Development Workflow Orchestration',
       type: 'orchestration',
-      workflow: [
-        '🔍 Analyze development request',
-        '📋 Create task breakdown',
-        '⚡ Execute development tasks',
-        '✅ Validate and test changes',
-      ],
+      workflow: workflowLabels(workflowDefinition),
+      workflowDefinition,
       agents: ['Dev Agent: Coordinating development tasks'],
     };
   },
@@ -386,19 +1437,20 @@ export const analyticsPlugin: L0Plugin = {
   triggers: ['report', 'analytics', 'metrics', 'kpi', 'dashboard', 'insights', 'performance report'],
   priority: 10,
   handler: async (ctx: PluginContext): Promise<L0Response> => {
-    const lowerQuery = ctx.query.toLowerCase();
+    if (mentions(ctx.query, 'kpi') || mentions(ctx.query, 'metric')) {
+      const workflowDefinition = defineWorkflow('analytics:kpi', 'KPI & Metrics Analysis', [
+        { id: 'define', label: '📈 Define key performance indicators', handler: 'planning', outputs: ['kpis'] },
+        { id: 'collect', label: '📊 Collect data from relevant sources', handler: 'data', inputs: { kpis: '{{define.kpis}}' }, outputs: ['dataset'], dependencies: ['define'] },
+        { id: 'calculate', label: '🧮 Calculate metrics and benchmarks', handler: 'analytics', inputs: { dataset: '{{collect.dataset}}' }, outputs: ['metrics'], dependencies: ['collect'] },
+        { id: 'anomalies', label: '📉 Identify trends and anomalies', handler: 'analytics', inputs: { dataset: '{{collect.dataset}}' }, outputs: ['anomalies'], dependencies: ['collect'] },
+        { id: 'insights', label: '📝 Generate actionable insights', handler: 'reporting', dependencies: ['calculate', 'anomalies'] },
+      ]);
 
-    if (lowerQuery.includes('kpi') || lowerQuery.includes('metrics')) {
       return {
         message: '📊 KPI & Metrics Analysis Workflow',
         type: 'orchestration',
-        workflow: [
-          '📈 Define key performance indicators',
-          '📊 Collect data from relevant sources',
-          '🧮 Calculate metrics and benchmarks',
-          '📉 Identify trends and anomalies',
-          '📝 Generate actionable insights',
-        ],
+        workflow: workflowLabels(workflowDefinition),
+        workflowDefinition,
         agents: [
           'Data Agent: Aggregating metrics data',
           'Analysis Agent: Processing and calculating KPIs',
@@ -411,16 +1463,19 @@ export const analyticsPlugin: L0Plugin = {
       };
     }
 
+    const workflowDefinition = sequentialWorkflow('analytics:report', 'Analytics & Reporting', [
+      { label: '🔍 Define report objectives and scope', handler: 'planning' },
+      { label: '📊 Gather and validate data sources', handler: 'data' },
+      { label: '📈 Analyze trends and patterns', handler: 'analytics' },
+      { label: '📝 Create visualizations and summaries', handler: 'reporting' },
+      { label: '🎯 Derive actionable recommendations', handler: 'reporting' },
+    ]);
+
     return {
       message: '📈 Analytics & Reporting Workflow',
       type: 'orchestration',
-      workflow: [
-        '🔍 Define report objectives and scope',
-        '📊 Gather and validate data sources',
-        '📈 Analyze trends and patterns',
-        '📝 Create visualizations and summaries',
-        '🎯 Derive actionable recommendations',
-      ],
+      workflow: workflowLabels(workflowDefinition),
+      workflowDefinition,
       agents: [
         'Data Agent: Collecting and cleaning data',
         'Analytics Agent: Running statistical analysis',
@@ -445,19 +1500,20 @@ export const collaborationPlugin: L0Plugin = {
   triggers: ['meeting', 'standup', 'review', 'sprint', 'retrospective', 'planning', 'team', 'collaborate'],
   priority: 5,
   handler: async (ctx: PluginContext): Promise<L0Response> => {
-    const lowerQuery = ctx.query.toLowerCase();
+    if (mentions(ctx.query, 'standup') || mentions(ctx.query, 'daily')) {
+      const workflowDefinition = sequentialWorkflow('collaboration:standup', 'Daily Standup', [
+        { label: '📋 Gather team availability and blockers', handler: 'coordination' },
+        { label: '✅ Review yesterday\'s completed tasks', handler: 'coordination' },
+        { label: '🎯 Outline today\'s priorities', handler: 'planning' },
+        { label: '🚧 Identify and escalate blockers', handler: 'coordination' },
+        { label: '📝 Document action items', handler: 'reporting' },
+      ]);
 
-    if (lowerQuery.includes('standup') || lowerQuery.includes('daily')) {
       return {
         message: '🤝 Daily Standup Facilitation',
         type: 'orchestration',
-        workflow: [
-          '📋 Gather team availability and blockers',
-          '✅ Review yesterday\'s completed tasks',
-          '🎯 Outline today\'s priorities',
-          '🚧 Identify and escalate blockers',
-          '📝 Document action items',
-        ],
+        workflow: workflowLabels(workflowDefinition),
+        workflowDefinition,
         agents: [
           'Coordination Agent: Facilitating standup flow',
           'Tracking Agent: Recording updates and blockers',
@@ -469,17 +1525,20 @@ export const collaborationPlugin: L0Plugin = {
       };
     }
 
-    if (lowerQuery.includes('retrospective') || lowerQuery.includes('retro')) {
+    if (mentions(ctx.query, 'retrospective') || mentions(ctx.query, 'retro')) {
+      const workflowDefinition = sequentialWorkflow('collaboration:retro', 'Sprint Retrospective', [
+        { label: '✅ What went well this sprint?', handler: 'coordination' },
+        { label: '❌ What didn\'t go well?', handler: 'coordination' },
+        { label: '💡 What can we improve?', handler: 'analytics' },
+        { label: '🎯 Define action items', handler: 'planning' },
+        { label: '📝 Document and track improvements', handler: 'reporting' },
+      ]);
+
       return {
         message: '🔄 Sprint Retrospective Workflow',
         type: 'orchestration',
-        workflow: [
-          '✅ What went well this sprint?',
-          '❌ What didn\'t go well?',
-          '💡 What can we improve?',
-          '🎯 Define action items',
-          '📝 Document and track improvements',
-        ],
+        workflow: workflowLabels(workflowDefinition),
+        workflowDefinition,
         agents: [
           'Facilitation Agent: Guiding retrospective discussion',
           'Analysis Agent: Identifying patterns and themes',
@@ -488,15 +1547,18 @@ export const collaborationPlugin: L0Plugin = {
       };
     }
 
+    const workflowDefinition = sequentialWorkflow('collaboration:general', 'Team Collaboration', [
+      { label: '📋 Define collaboration objectives', handler: 'planning' },
+      { label: '👥 Coordinate team members', handler: 'coordination' },
+      { label: '📝 Document decisions and action items', handler: 'reporting' },
+      { label: '✅ Follow up on commitments', handler: 'coordination' },
+    ]);
+
     return {
       message: '🤝 Team Collaboration Workflow',
       type: 'orchestration',
-      workflow: [
-        '📋 Define collaboration objectives',
-        '👥 Coordinate team members',
-        '📝 Document decisions and action items',
-        '✅ Follow up on commitments',
-      ],
+      workflow: workflowLabels(workflowDefinition),
+      workflowDefinition,
       agents: ['Collaboration Agent: Coordinating team activities'],
     };
   },
@@ -509,6 +1571,10 @@ export const collaborationPlugin: L0Plugin = {
 export interface PluginManagerOptions {
   includeBuiltins?: boolean;
   includeMemoryServices?: boolean;
+  /** Saved enabled flags, priority overrides and settings by plugin name */
+  state?: Record<string, PluginState>;
+  /** Also score queries by similarity to plugin keywords; `true` uses the offline defaults */
+  semantic?: SemanticMatchOptions | boolean;
 }
 
 /**
@@ -517,14 +1583,16 @@ export interface PluginManagerOptions {
  * @param options - Configuration options
  * @param options.includeBuiltins - Include dev, analytics, collaboration plugins (default: true)
  * @param options.includeMemoryServices - Include LanOnasis memory services plugin (default: false)
+ * @param options.state - Saved plugin state, applied to plugins as they register
+ * @param options.semantic - Score queries by similarity to plugin keywords (default: off)
  */
 export function createPluginManager(options: PluginManagerOptions | boolean = true): PluginManager {
-  const manager = new PluginManager();
-
   // Handle legacy boolean parameter
   const opts: PluginManagerOptions =
     typeof options === 'boolean' ? { includeBuiltins: options } : options;
 
+  const manager = new PluginManager({ state: opts.state, semantic: opts.semantic });
+
   if (opts.includeBuiltins !== false) {
     manager.register(devToolsPlugin);
     manager.register(analyticsPlugin);
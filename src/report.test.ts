@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { renderReport } from './report.js';
+import { L0Orchestrator } from './orchestrator.js';
+import { createPluginManager } from './plugins.js';
+
+describe('renderReport', () => {
+  it('should render a campaign with assignments and details', async () => {
+    const orchestrator = new L0Orchestrator({ plugins: createPluginManager(true) });
+    const response = await orchestrator.query('create viral TikTok campaign', { durationDays: 10 });
+    const report = renderReport(response, 'create viral TikTok campaign');
+
+    expect(report).toMatch(/^# 🎯 Orchestrating Viral Campaign Strategy\n\n> create viral TikTok campaign\n/);
+    expect(report).toContain('Routed to **campaign**');
+    expect(report).toContain('1. 📊 Market Research & Competitor Analysis — _research agent_');
+    expect(report).toContain('- **Estimated duration:** 10 days');
+    expect(report).toContain('- **Key platforms:** TikTok');
+    expect(report).toContain('## Related\n\n- content calendar');
+  });
+
+  it('should render nested campaign plan data as nested lists', async () => {
+    const orchestrator = new L0Orchestrator({ plugins: createPluginManager(true) });
+    const request = 'plan a TikTok campaign for eco sneakers with a $3000 budget';
+    const report = renderReport(await orchestrator.query(request, { durationDays: 14, startDate: '2026-10-19' }), request);
+
+    expect(report).toContain('- **Total budget:**\n  - **Amount:** 3000\n  - **Currency:** USD');
+    expect(report).toContain('- **Budget split:**\n  - TikTok — amount: 3000; share: 1');
+    expect(report).toContain('- **Formats:**\n  - TikTok — formats: Short video, Duet or Stitch, LIVE session; posts per week: 5');
+    expect(report).toContain('- **Kpi targets:**\n  - impressions — target: 300000; unit: count');
+    expect(report).toContain('- **Schedule:**\n  - 2026-10-19 — day: 1; platform: TikTok; format: Short video; phase: awareness');
+    expect(report).not.toContain('{"');
+  });
+
+  it('should name objects in lists and include answers and code', () => {
+    const report = renderReport(
+      {
+        message: 'Done',
+        type: 'orchestration',
+        code: 'const x = 1;',
+        data: { answer: 'Use a buddy system.', trendingHashtags: [{ hashtag: '#Eco', volume: '1M' }] },
+      },
+      'help'
+    );
+
+    expect(report).toContain('## Answer\n\nUse a buddy system.');
+    expect(report).toContain('- **Trending hashtags:**\n  - #Eco — volume: 1M');
+    expect(report).not.toContain('**Answer:**');
+    expect(report).toContain('```\nconst x = 1;\n```');
+    expect(report).not.toContain('## Workflow');
+  });
+});
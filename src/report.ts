@@ -0,0 +1,141 @@
+/**
+ * VortexAI L0 Reports
+ *
+ * Renders orchestrator responses as Markdown for sharing outside the terminal
+ * @module report
+ */
+
+import type { L0Response } from './orchestrator.js';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function humanize(key: string): string {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNested(value: unknown): boolean {
+  return isRecord(value) || (Array.isArray(value) && value.some((item) => typeof item === 'object' && item !== null));
+}
+
+/**
+ * Key holding an object's short name in a list, e.g. a campaign title or a hashtag
+ */
+function labelKey(item: Record<string, unknown>): string | undefined {
+  return ['title', 'name', 'hashtag'].find((key) => typeof item[key] === 'string') ??
+    Object.keys(item).find((key) => typeof item[key] === 'string');
+}
+
+function formatValue(value: unknown): string {
+  return Array.isArray(value) ? value.map(String).join(', ') : String(value);
+}
+
+/**
+ * Bullet for one list item: its name, then its plain fields, with nested
+ * fields as sub-bullets
+ */
+function itemLines(item: unknown, depth: number): string[] {
+  const indent = '  '.repeat(depth);
+  if (!isRecord(item)) return [`${indent}- ${formatValue(item)}`];
+
+  const label = labelKey(item);
+  const fields = Object.entries(item).filter(([key, value]) => key !== label && value !== undefined);
+  const plain = fields
+    .filter(([, value]) => !isNested(value))
+    .map(([key, value]) => `${humanize(key).toLowerCase()}: ${formatValue(value)}`)
+    .join('; ');
+  const summary = label && plain ? `${item[label]} — ${plain}` : label ? String(item[label]) : plain;
+
+  return [
+    `${indent}- ${summary}`,
+    ...fields.filter(([, value]) => isNested(value)).flatMap(([key, value]) => detailLines(key, value, depth + 1)),
+  ];
+}
+
+/**
+ * `- **Key:** value` bullet, with objects as nested key/value bullets and
+ * lists of objects as one sub-bullet per item
+ */
+function detailLines(key: string, value: unknown, depth = 0): string[] {
+  const heading = `${'  '.repeat(depth)}- **${humanize(key)}:**`;
+  if (isRecord(value)) {
+    return [
+      heading,
+      ...Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .flatMap(([k, v]) => detailLines(k, v, depth + 1)),
+    ];
+  }
+  if (isNested(value)) {
+    return [heading, ...(value as unknown[]).flatMap((item) => itemLines(item, depth + 1))];
+  }
+  return [`${heading} ${formatValue(value)}`];
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Render a response as a Markdown report
+ *
+ * Sections appear only when the response has content for them: the model
+ * answer, the workflow with each step's agent, agent delegation, details
+ * from `data` and related suggestions.
+ *
+ * @example
+ * ```typescript
+ * const response = await orchestrator.query('create viral TikTok campaign');
+ * await writeFile('campaign.md', renderReport(response, 'create viral TikTok campaign'));
+ * ```
+ */
+export function renderReport(response: L0Response, request: string): string {
+  const lines = [`# ${response.message}`, '', `> ${request}`, ''];
+  const data = typeof response.data === 'object' ? response.data : undefined;
+
+  if (response.intent) {
+    const { name, confidence } = response.intent;
+    lines.push(`Routed to **${name}**${name === 'general' ? '' : ` (${Math.round(confidence * 100)}% confidence)`}.`, '');
+  }
+
+  if (typeof data?.answer === 'string' && data.answer) {
+    lines.push('## Answer', '', data.answer, '');
+  }
+
+  if (response.workflow?.length) {
+    lines.push('## Workflow', '');
+    response.workflow.forEach((step, index) => {
+      const agent = response.assignments?.[index]?.agent;
+      lines.push(`${index + 1}. ${step}${agent ? ` — _${agent} agent_` : ''}`);
+    });
+    lines.push('');
+  }
+
+  if (response.agents?.length) {
+    lines.push('## Agents', '', ...response.agents.map((agent) => `- ${agent}`), '');
+  }
+
+  const details = Object.entries(data || {}).filter(([key, value]) => key !== 'answer' && value !== undefined);
+  if (details.length > 0 || typeof response.data === 'string') {
+    lines.push('## Details', '');
+    if (typeof response.data === 'string') lines.push(response.data);
+    details.forEach(([key, value]) => lines.push(...detailLines(key, value)));
+    lines.push('');
+  }
+
+  if (response.code) {
+    lines.push('## Code', '', '```', response.code, '```', '');
+  }
+
+  if (response.related?.length) {
+    lines.push('## Related', '', ...response.related.map((item) => `- ${item}`), '');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFile, mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InMemoryRunStore, RunHistory, type RunRecord } from './run-history.js';
+import { JsonlRunStore } from './node/jsonl-run-store.js';
+import { WorkflowEngine, defineWorkflow } from './workflow.js';
+
+const workflow = defineWorkflow(
+  'pipeline',
+  'Pipeline',
+  [
+    { id: 'fetch', label: 'Fetch', handler: 'fetch', outputs: ['rows'] },
+    { id: 'transform', label: 'Transform', handler: 'transform', inputs: { rows: '{{fetch.rows}}' }, dependencies: ['fetch'] },
+    { id: 'publish', label: 'Publish', handler: 'publish', dependencies: ['transform'] },
+  ],
+  { source: 'crm' }
+);
+
+describe('RunHistory', () => {
+  let calls: string[];
+  let failTransform: boolean;
+  let engine: WorkflowEngine;
+  let history: RunHistory;
+
+  beforeEach(() => {
+    calls = [];
+    failTransform = true;
+    engine = new WorkflowEngine({
+      handlers: {
+        fetch: async () => {
+          calls.push('fetch');
+          return { rows: 3 };
+        },
+        transform: async ({ inputs }) => {
+          calls.push('transform');
+          if (failTransform) throw new Error('upstream timeout');
+          return { rows: inputs.rows };
+        },
+        publish: async () => {
+          calls.push('publish');
+          return {};
+        },
+      },
+    });
+    history = new RunHistory(engine, new InMemoryRunStore());
+  });
+
+  it('should let a run that threw be resumed', async () => {
+    let runId = '';
+    await expect(
+      history.start(workflow, {
+        onEvent: (event) => {
+          if (event.type === 'workflow:started') runId = event.runId;
+          if (event.type === 'step:started') throw new Error('listener crashed');
+        },
+      })
+    ).rejects.toThrow('listener crashed');
+
+    failTransform = false;
+    const resumed = await history.resume(runId);
+    expect(resumed.status).toBe('completed');
+  });
+
+  it('should keep saving after a failed write and report it once the run finishes', async () => {
+    const store = new InMemoryRunStore();
+    let failures = 1;
+    history = new RunHistory(engine, {
+      save: async (record) => {
+        if (failures-- > 0) throw new Error('disk full');
+        await store.save(record);
+      },
+      get: (id) => store.get(id),
+      list: () => store.list(),
+    });
+    failTransform = false;
+
+    await expect(history.start(workflow)).rejects.toThrow('disk full');
+    const [record] = await store.list();
+    expect(record.run.status).toBe('completed');
+    expect(calls).toEqual(['fetch', 'transform', 'publish']);
+  });
+
+  it('should record inputs, per-step outputs, timings and errors', async () => {
+    const run = await history.start(workflow);
+    const record = await history.get(run.id);
+
+    expect(record?.run.status).toBe('failed');
+    expect(record?.run.inputs).toEqual({ source: 'crm' });
+    expect(record?.run.steps.fetch).toMatchObject({ status: 'completed', outputs: { rows: 3 } });
+    expect(record?.run.steps.fetch.durationMs).toBeGreaterThanOrEqual(0);
+    expect(record?.run.steps.transform).toMatchObject({ status: 'failed', error: 'upstream timeout' });
+    expect(record?.run.steps.publish.status).toBe('skipped');
+    expect(record?.definition.id).toBe('pipeline');
+  });
+
+  it('should resume from the last completed step', async () => {
+    const first = await history.start(workflow);
+    failTransform = false;
+    calls = [];
+
+    const resumed = await history.resume(first.id);
+    expect(calls).toEqual(['transform', 'publish']);
+    expect(resumed.id).toBe(first.id);
+    expect(resumed.status).toBe('completed');
+    expect(resumed.resumedAt).toBeDefined();
+    expect((await history.get(first.id))?.run.steps.transform.outputs).toEqual({ rows: 3 });
+  });
+
+  it('should resume a run interrupted mid-way', async () => {
+    const store = new InMemoryRunStore();
+    const record: RunRecord = {
+      run: {
+        id: 'run-crashed',
+        workflowId: 'pipeline',
+        name: 'Pipeline',
+        status: 'running',
+        inputs: { source: 'crm' },
+        steps: {
+          fetch: { status: 'completed', outputs: { rows: 7 } },
+          transform: { status: 'running' },
+          publish: { status: 'pending' },
+        },
+        startedAt: '2026-01-01T00:00:00.000Z',
+      },
+      definition: workflow,
+      updatedAt: '2026-01-01T00:00:01.000Z',
+    };
+    await store.save(record);
+    failTransform = false;
+
+    const run = await new RunHistory(engine, store).resume('run-crashed');
+    expect(calls).toEqual(['transform', 'publish']);
+    expect(run.steps.transform.outputs).toEqual({ rows: 7 });
+  });
+
+  it('should refuse to resume completed or unknown runs', async () => {
+    failTransform = false;
+    const run = await history.start(workflow);
+
+    await expect(history.resume(run.id)).rejects.toThrow(/already completed/);
+    await expect(history.resume('missing')).rejects.toThrow(/not found/);
+  });
+
+  it('should cancel a stored run and stop an active one', async () => {
+    engine.registerHandler('fetch', async ({ runId }) => {
+      await history.cancel(runId);
+      return { rows: 1 };
+    });
+
+    const run = await history.start(workflow);
+    const record = await history.get(run.id);
+
+    expect(run.status).toBe('cancelled');
+    expect(calls).not.toContain('transform');
+    expect(record?.run.status).toBe('cancelled');
+  });
+});
+
+describe('JsonlRunStore', () => {
+  let dir: string;
+  let store: JsonlRunStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vortex-runs-'));
+    store = new JsonlRunStore({ path: join(dir, 'runs.jsonl') });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return the latest snapshot per run and skip truncated lines', async () => {
+    const history = new RunHistory(new WorkflowEngine(), store);
+    const run = await history.start(workflow);
+    await appendFile(store.path, '{"run":{"id":"broken"', 'utf8');
+
+    const lines = (await readFile(store.path, 'utf8')).trim().split('\n');
+    expect(lines.length).toBeGreaterThan(2);
+
+    const records = await store.list();
+    expect(records).toHaveLength(1);
+    expect(records[0].run).toMatchObject({ id: run.id, status: 'completed' });
+  });
+
+  it('should compact superseded snapshots into one line per run', async () => {
+    const history = new RunHistory(new WorkflowEngine({ fallbackHandler: async () => ({}) }), store);
+    const run = await history.start(workflow);
+    const [record] = await store.list();
+    for (let i = 0; i < 200; i++) await store.save(record);
+
+    expect(await store.list()).toHaveLength(1);
+    expect((await readFile(store.path, 'utf8')).trim().split('\n')).toHaveLength(1);
+    expect((await store.get(run.id))?.run.status).toBe('completed');
+  });
+
+  it('should return undefined for unknown runs and an empty list without a file', async () => {
+    expect(await store.get('missing')).toBeUndefined();
+    expect(await store.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * VortexAI L0 Run History
+ *
+ * Records workflow runs as they progress so they can be inspected, resumed or cancelled
+ * @module run-history
+ */
+
+import type {
+  StepState,
+  WorkflowDefinition,
+  WorkflowEngine,
+  WorkflowEvent,
+  WorkflowRun,
+  WorkflowRunOptions,
+} from './workflow.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A stored run together with the definition needed to resume it
+ */
+export interface RunRecord {
+  run: WorkflowRun;
+  definition: WorkflowDefinition;
+  updatedAt: string;
+}
+
+/**
+ * Storage backend for workflow runs
+ */
+export interface RunStore {
+  save(record: RunRecord): Promise<void>;
+  get(id: string): Promise<RunRecord | undefined>;
+  /** Every stored run, most recently updated first */
+  list(): Promise<RunRecord[]>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function cloneRecord(record: RunRecord): RunRecord {
+  return JSON.parse(JSON.stringify(record)) as RunRecord;
+}
+
+/**
+ * Sort records so the most recently updated come first
+ */
+export function sortRunRecords(records: RunRecord[]): RunRecord[] {
+  return records.sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+}
+
+/**
+ * Apply a progress event to a run snapshot
+ */
+function applyEvent(run: WorkflowRun, event: WorkflowEvent): WorkflowRun {
+  if (event.type === 'workflow:started' || event.type === 'workflow:finished') {
+    return event.run;
+  }
+
+  const state: StepState = { ...run.steps[event.stepId] };
+  switch (event.type) {
+    case 'step:started':
+      state.status = 'running';
+      state.startedAt = event.timestamp;
+      break;
+    case 'step:completed':
+      Object.assign(state, { status: 'completed', outputs: event.outputs, finishedAt: event.timestamp, durationMs: event.durationMs });
+      break;
+    case 'step:failed':
+      Object.assign(state, { status: 'failed', error: event.error, finishedAt: event.timestamp, durationMs: event.durationMs });
+      break;
+    case 'step:skipped':
+      Object.assign(state, { status: 'skipped', error: event.reason });
+      break;
+  }
+
+  return { ...run, steps: { ...run.steps, [event.stepId]: state } };
+}
+
+// ============================================================================
+// In-Memory Run Store
+// ============================================================================
+
+/**
+ * Run store that keeps records in memory for the lifetime of the process
+ */
+export class InMemoryRunStore implements RunStore {
+  private readonly records: Map<string, RunRecord> = new Map();
+
+  async save(record: RunRecord): Promise<void> {
+    this.records.set(record.run.id, cloneRecord(record));
+  }
+
+  async get(id: string): Promise<RunRecord | undefined> {
+    const record = this.records.get(id);
+    return record && cloneRecord(record);
+  }
+
+  async list(): Promise<RunRecord[]> {
+    return sortRunRecords(Array.from(this.records.values()).map(cloneRecord));
+  }
+}
+
+// ============================================================================
+// Run History Class
+// ============================================================================
+
+/**
+ * Runs workflows through an engine while persisting every step to a run store
+ *
+ * A snapshot is saved after each progress event, so a run interrupted by a
+ * crash keeps its completed steps and can be resumed from there. Cancelling
+ * a run from another process is noticed at the next step boundary.
+ *
+ * @example
+ * ```typescript
+ * import { RunHistory, InMemoryRunStore, WorkflowEngine } from 'vortexai-l0';
+ *
+ * const history = new RunHistory(new WorkflowEngine(), new InMemoryRunStore());
+ * const run = await history.start(response.workflowDefinition!);
+ * if (run.status === 'failed') await history.resume(run.id);
+ * ```
+ */
+export class RunHistory {
+  private readonly active: Map<string, AbortController> = new Map();
+
+  constructor(
+    private readonly engine: WorkflowEngine,
+    private readonly store: RunStore
+  ) {}
+
+  getStore(): RunStore {
+    return this.store;
+  }
+
+  async list(): Promise<RunRecord[]> {
+    return this.store.list();
+  }
+
+  async get(id: string): Promise<RunRecord | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Run a workflow and record it
+   *
+   * @throws the first store error, once the run has finished
+   */
+  async start(definition: WorkflowDefinition, options: WorkflowRunOptions = {}): Promise<WorkflowRun> {
+    return this.execute(definition, options);
+  }
+
+  /**
+   * Continue a stored run from its last completed step
+   *
+   * @throws Error if the run does not exist or already completed, or the first
+   * store error once the run has finished
+   */
+  async resume(id: string, options: Omit<WorkflowRunOptions, 'resume'> = {}): Promise<WorkflowRun> {
+    const record = await this.store.get(id);
+    if (!record) {
+      throw new Error(`Run "${id}" not found`);
+    }
+    if (record.run.status === 'completed') {
+      throw new Error(`Run "${id}" already completed`);
+    }
+    if (this.active.has(id)) {
+      throw new Error(`Run "${id}" is already running`);
+    }
+
+    return this.execute(record.definition, { ...options, resume: record.run });
+  }
+
+  /**
+   * Cancel a run
+   *
+   * Runs active in this process stop scheduling new steps immediately; runs
+   * in another process stop at their next step boundary.
+   *
+   * @returns The updated record, or undefined if the run does not exist
+   */
+  async cancel(id: string): Promise<RunRecord | undefined> {
+    this.active.get(id)?.abort();
+
+    const record = await this.store.get(id);
+    if (!record || ['completed', 'failed', 'cancelled'].includes(record.run.status)) {
+      return record;
+    }
+
+    const steps = Object.fromEntries(
+      Object.entries(record.run.steps).map(([stepId, state]) => [
+        stepId,
+        ['pending', 'running'].includes(state.status) ? { ...state, status: 'cancelled' as const } : state,
+      ])
+    );
+    const now = new Date().toISOString();
+    const cancelled: RunRecord = {
+      ...record,
+      run: { ...record.run, status: 'cancelled', steps, finishedAt: now },
+      updatedAt: now,
+    };
+
+    await this.store.save(cancelled);
+    return cancelled;
+  }
+
+  private async execute(definition: WorkflowDefinition, options: WorkflowRunOptions): Promise<WorkflowRun> {
+    const controller = new AbortController();
+    options.signal?.addEventListener('abort', () => controller.abort());
+    if (options.signal?.aborted) controller.abort();
+
+    let snapshot: WorkflowRun | undefined;
+    let runId: string | undefined;
+    let saving: Promise<void> = Promise.resolve();
+    // First failed write; later snapshots are still saved
+    let saveError: unknown;
+
+    // Start and finish snapshots always win; in between, a cancellation saved by another process stops the run
+    const persist = (run: WorkflowRun, checkCancelled: boolean) => {
+      saving = saving
+        .then(async () => {
+          if (checkCancelled) {
+            const stored = await this.store.get(run.id);
+            if (stored?.run.status === 'cancelled') {
+              controller.abort();
+              return;
+            }
+          }
+          await this.store.save({ run, definition, updatedAt: new Date().toISOString() });
+        })
+        .catch((error) => {
+          saveError ??= error;
+        });
+    };
+
+    let run: WorkflowRun;
+    try {
+      run = await this.engine.run(definition, {
+        ...options,
+        signal: controller.signal,
+        onEvent: (event) => {
+          if (event.type === 'workflow:started') {
+            runId = event.runId;
+            this.active.set(event.runId, controller);
+            snapshot = event.run;
+          } else if (snapshot) {
+            snapshot = applyEvent(snapshot, event);
+          }
+
+          if (snapshot) {
+            persist(snapshot, event.type !== 'workflow:started' && event.type !== 'workflow:finished');
+          }
+          options.onEvent?.(event);
+        },
+      });
+    } finally {
+      if (runId) this.active.delete(runId);
+      await saving;
+    }
+
+    if (saveError) throw saveError;
+    return run;
+  }
+}
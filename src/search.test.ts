@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { SearchIndex, stem, tokenize } from './search.js';
+import { L0Orchestrator } from './orchestrator.js';
+import { createFixtureKnowledgeStore } from './knowledge-fixtures.js';
+
+describe('stem', () => {
+  it('should map inflected forms to the same stem', () => {
+    expect(stem('trending')).toBe(stem('trends'));
+    expect(stem('trend')).toBe(stem('trends'));
+    expect(stem('scheduler')).toBe(stem('scheduling'));
+    expect(stem('schedule')).toBe(stem('scheduling'));
+    expect(stem('notifications')).toBe(stem('notification'));
+  });
+
+  it('should leave short words and "ss" endings alone', () => {
+    expect(stem('ui')).toBe('ui');
+    expect(stem('class')).toBe('class');
+  });
+});
+
+describe('tokenize', () => {
+  it('should drop stop words and punctuation', () => {
+    expect(tokenize('The best of the OAuth flows!')).toEqual(['best', 'oauth', 'flow']);
+  });
+});
+
+describe('SearchIndex', () => {
+  const createIndex = () => {
+    const index = new SearchIndex({ fields: { title: 3, tags: 2, content: 1 } });
+    index.add('title-hit', { title: 'Deploy Pipeline', tags: ['ci'], content: 'steps' });
+    index.add('content-hit', { title: 'Release Notes', tags: ['docs'], content: 'how we deploy every friday' });
+    index.add('unrelated', { title: 'Color Palette', tags: ['design'], content: 'brand colors' });
+    return index;
+  };
+
+  it('should rank title matches above content matches', () => {
+    const results = createIndex().search('deploy');
+    expect(results.map((r) => r.id)).toEqual(['title-hit', 'content-hit']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('should report matched terms', () => {
+    const [result] = createIndex().search('deploying pipelines');
+    expect(result.matchedTerms).toEqual(['deploy', 'pipelin']);
+  });
+
+  it('should ignore stop words so common words match nothing', () => {
+    expect(createIndex().search('the')).toEqual([]);
+  });
+
+  it('should support removing documents', () => {
+    const index = createIndex();
+    expect(index.remove('title-hit')).toBe(true);
+    expect(index.search('deploy').map((r) => r.id)).toEqual(['content-hit']);
+    expect(index.size).toBe(2);
+  });
+
+  it('should apply limit and minScore', () => {
+    const index = createIndex();
+    expect(index.search('deploy', { limit: 1 })).toHaveLength(1);
+    expect(index.search('deploy', { minScore: 1000 })).toEqual([]);
+  });
+});
+
+describe('ranked orchestrator search', () => {
+  it('should pick the best scoring snippet and list runners-up as related', async () => {
+    const orchestrator = new L0Orchestrator({ store: createFixtureKnowledgeStore() });
+    const response = await orchestrator.findCode('trending analyzer social media');
+
+    expect((response.data as Record<string, unknown>).title).toBe('Trending Topics Analyzer');
+    expect(response.related).toEqual(['Social Media Post Scheduler']);
+    expect(response.matches?.[0].score).toBeGreaterThan(response.matches![1].score);
+  });
+
+  it('should not match every memory on common words', async () => {
+    const orchestrator = new L0Orchestrator({ store: createFixtureKnowledgeStore() });
+    const response = await orchestrator.searchMemories('the');
+
+    expect(response.matches).toBeUndefined();
+    expect(response.message).toContain('No memories found');
+  });
+
+  it('should return memories with scores in ranked order', async () => {
+    const orchestrator = new L0Orchestrator({ store: createFixtureKnowledgeStore() });
+    const response = await orchestrator.searchMemories('content calendar holidays');
+
+    expect(response.matches?.[0].id).toBe('content-calendar-1');
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * VortexAI L0 Full-Text Search
+ *
+ * Inverted index with BM25 ranking, light stemming and per-field weights
+ * @module search
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type SearchDocument = Record<string, string | string[]>;
+
+export interface SearchIndexOptions {
+  /** Weight applied to each indexed field; fields not listed are ignored */
+  fields: Record<string, number>;
+  /** Extra words to ignore in documents and queries */
+  stopWords?: Iterable<string>;
+  /** BM25 term-frequency saturation (default: 1.2) */
+  k1?: number;
+  /** BM25 length normalization (default: 0.75) */
+  b?: number;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  /** Drop results scoring below this value (default: 0, i.e. any match) */
+  minScore?: number;
+}
+
+export interface SearchResult {
+  id: string;
+  score: number;
+  /** Stemmed query terms that matched the document */
+  matchedTerms: string[];
+}
+
+interface FieldPosting {
+  termFrequency: number;
+}
+
+interface IndexedDocument {
+  fieldLengths: Record<string, number>;
+  terms: Set<string>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_STOP_WORDS: ReadonlySet<string> = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'me', 'my', 'of', 'on', 'or', 'our', 'that', 'the', 'this', 'to', 'was', 'what', 'with', 'you', 'your',
+]);
+
+const DEFAULT_K1 = 1.2;
+const DEFAULT_B = 0.75;
+const MIN_STEM_LENGTH = 3;
+
+// Ordered longest-first; only the first matching suffix is stripped
+const SUFFIX_RULES: Array<[string, string]> = [
+  ['ational', 'ate'],
+  ['ization', 'ize'],
+  ['ations', 'ate'],
+  ['ation', 'ate'],
+  ['fulness', ''],
+  ['ness', ''],
+  ['ments', ''],
+  ['ment', ''],
+  ['ingly', ''],
+  ['ings', ''],
+  ['ing', ''],
+  ['edly', ''],
+  ['ies', 'y'],
+  ['ers', ''],
+  ['er', ''],
+  ['ed', ''],
+  ['ly', ''],
+  ['es', ''],
+  ['s', ''],
+];
+
+// ============================================================================
+// Text Processing
+// ============================================================================
+
+/**
+ * Reduce a word to a stem so that inflected forms match each other
+ *
+ * A deliberately small suffix stripper: "trending", "trends" and "trend" all
+ * become "trend"; "scheduler", "scheduling" and "schedule" become "schedul".
+ */
+export function stem(word: string): string {
+  let result = word.toLowerCase();
+  if (result.length <= MIN_STEM_LENGTH) return result;
+
+  for (const [suffix, replacement] of SUFFIX_RULES) {
+    if (!result.endsWith(suffix)) continue;
+
+    const base = result.slice(0, -suffix.length);
+    if (base.length < MIN_STEM_LENGTH) break;
+    // Keep "ss" endings such as "class" and "access" intact
+    if (suffix === 's' && base.endsWith('s')) break;
+    // Only strip "es" after sibilants ("boxes", "matches"), otherwise strip "s"
+    if (suffix === 'es' && !/(s|x|z|ch|sh)$/.test(base)) {
+      result = result.slice(0, -1);
+      break;
+    }
+
+    result = base + replacement;
+    break;
+  }
+
+  // Normalize trailing "e" and doubled consonants left by suffix removal
+  if (result.length > MIN_STEM_LENGTH && result.endsWith('e')) {
+    result = result.slice(0, -1);
+  }
+  if (/([^aeiouslz])\1$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+}
+
+/**
+ * Split text into lowercase stemmed terms, dropping stop words
+ */
+export function tokenize(text: string, stopWords: ReadonlySet<string> = DEFAULT_STOP_WORDS): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !stopWords.has(word))
+    .map(stem);
+}
+
+// ============================================================================
+// Search Index Class
+// ============================================================================
+
+/**
+ * In-memory inverted index ranked with BM25
+ *
+ * Each field is scored separately with its own average length and then
+ * combined using the configured field weights.
+ *
+ * @example
+ * ```typescript
+ * import { SearchIndex } from 'vortexai-l0';
+ *
+ * const index = new SearchIndex({ fields: { title: 3, tags: 2, content: 1 } });
+ * index.add('a', { title: 'Floating Card', tags: ['ui'], content: '<div />' });
+ * const [best] = index.search('floating');
+ * ```
+ */
+export class SearchIndex {
+  private readonly fields: Record<string, number>;
+  private readonly stopWords: ReadonlySet<string>;
+  private readonly k1: number;
+  private readonly b: number;
+
+  private readonly documents: Map<string, IndexedDocument> = new Map();
+  // term -> field -> document id -> posting
+  private readonly postings: Map<string, Map<string, Map<string, FieldPosting>>> = new Map();
+  private readonly totalFieldLengths: Record<string, number> = {};
+
+  constructor(options: SearchIndexOptions) {
+    this.fields = options.fields;
+    this.stopWords = new Set([...DEFAULT_STOP_WORDS, ...(options.stopWords || [])]);
+    this.k1 = options.k1 ?? DEFAULT_K1;
+    this.b = options.b ?? DEFAULT_B;
+
+    for (const field of Object.keys(this.fields)) {
+      this.totalFieldLengths[field] = 0;
+    }
+  }
+
+  // ==========================================================================
+  // Indexing
+  // ==========================================================================
+
+  /**
+   * Add or replace a document
+   */
+  add(id: string, document: SearchDocument): void {
+    if (this.documents.has(id)) {
+      this.remove(id);
+    }
+
+    const indexed: IndexedDocument = { fieldLengths: {}, terms: new Set() };
+
+    for (const field of Object.keys(this.fields)) {
+      const value = document[field];
+      const text = Array.isArray(value) ? value.join(' ') : value || '';
+      const terms = tokenize(text, this.stopWords);
+
+      indexed.fieldLengths[field] = terms.length;
+      this.totalFieldLengths[field] += terms.length;
+
+      for (const term of terms) {
+        indexed.terms.add(term);
+        const byField = this.postings.get(term) || new Map<string, Map<string, FieldPosting>>();
+        const byDoc = byField.get(field) || new Map<string, FieldPosting>();
+        const posting = byDoc.get(id) || { termFrequency: 0 };
+
+        posting.termFrequency += 1;
+        byDoc.set(id, posting);
+        byField.set(field, byDoc);
+        this.postings.set(term, byField);
+      }
+    }
+
+    this.documents.set(id, indexed);
+  }
+
+  /**
+   * Remove a document
+   *
+   * @returns boolean indicating whether the document was indexed
+   */
+  remove(id: string): boolean {
+    const indexed = this.documents.get(id);
+    if (!indexed) return false;
+
+    for (const term of indexed.terms) {
+      const byField = this.postings.get(term);
+      if (!byField) continue;
+
+      for (const [field, byDoc] of byField) {
+        byDoc.delete(id);
+        if (byDoc.size === 0) byField.delete(field);
+      }
+      if (byField.size === 0) this.postings.delete(term);
+    }
+
+    for (const [field, length] of Object.entries(indexed.fieldLengths)) {
+      this.totalFieldLengths[field] -= length;
+    }
+
+    this.documents.delete(id);
+    return true;
+  }
+
+  /**
+   * Number of indexed documents
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  // ==========================================================================
+  // Querying
+  // ==========================================================================
+
+  /**
+   * Rank documents against a free-text query
+   *
+   * @param query - Free-text query; it is tokenized and stemmed like the documents
+   * @returns Matching documents sorted by descending score
+   */
+  search(query: string, options: SearchOptions = {}): SearchResult[] {
+    const queryTerms = Array.from(new Set(tokenize(query, this.stopWords)));
+    const scores: Map<string, { score: number; matchedTerms: string[] }> = new Map();
+    const documentCount = this.documents.size;
+
+    for (const term of queryTerms) {
+      const byField = this.postings.get(term);
+      if (!byField) continue;
+
+      const matchingDocs = new Set<string>();
+      for (const byDoc of byField.values()) {
+        for (const id of byDoc.keys()) matchingDocs.add(id);
+      }
+
+      const idf = Math.log(1 + (documentCount - matchingDocs.size + 0.5) / (matchingDocs.size + 0.5));
+
+      for (const id of matchingDocs) {
+        const termScore = idf * this.weightedTermFrequency(id, byField);
+        const entry = scores.get(id) || { score: 0, matchedTerms: [] };
+        entry.score += termScore;
+        entry.matchedTerms.push(term);
+        scores.set(id, entry);
+      }
+    }
+
+    const minScore = options.minScore ?? 0;
+    const results = Array.from(scores.entries())
+      .map(([id, { score, matchedTerms }]) => ({ id, score, matchedTerms }))
+      .filter((r) => r.score > minScore)
+      .sort((a, b) => b.score - a.score);
+
+    return options.limit ? results.slice(0, options.limit) : results;
+  }
+
+  private weightedTermFrequency(id: string, byField: Map<string, Map<string, FieldPosting>>): number {
+    const indexed = this.documents.get(id)!;
+    let total = 0;
+
+    for (const [field, byDoc] of byField) {
+      const posting = byDoc.get(id);
+      if (!posting) continue;
+
+      const averageLength = this.totalFieldLengths[field] / this.documents.size || 1;
+      const lengthNorm = 1 - this.b + this.b * (indexed.fieldLengths[field] / averageLength);
+      const tf = posting.termFrequency;
+
+      total += this.fields[field] * ((tf * (this.k1 + 1)) / (tf + this.k1 * lengthNorm));
+    }
+
+    return total;
+  }
+}
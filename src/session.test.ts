@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InMemorySessionStore, Session, extractEntities, formatBudget, normalizePlatform, parseBudget } from './session.js';
+import { JsonFileSessionStore } from './node/json-file-session-store.js';
+import { MockLLMProvider } from './llm.js';
+import { L0Orchestrator } from './orchestrator.js';
+import { createPluginManager, type PluginContext } from './plugins.js';
+
+describe('extractEntities', () => {
+  it('should find platforms, budget and product', () => {
+    expect(extractEntities('launch campaign for eco water bottles on TikTok and IG with $5k')).toEqual({
+      platforms: ['TikTok', 'Instagram'],
+      budget: { amount: 5000, currency: 'USD' },
+      product: 'eco water bottles',
+    });
+  });
+
+  it.each([
+    ['budget of 2,500', { amount: 2500, currency: 'USD' }],
+    ['spend 1.5k euros', { amount: 1500, currency: 'EUR' }],
+    ['£300 total', { amount: 300, currency: 'GBP' }],
+  ])('should parse "%s"', (text, budget) => {
+    expect(extractEntities(text).budget).toEqual(budget);
+  });
+
+  it('should not mistake platforms or pronouns for a product', () => {
+    expect(extractEntities('now make it for Instagram')).toEqual({ platforms: ['Instagram'] });
+    expect(extractEntities('do the same for it')).toEqual({});
+  });
+
+  it.each([
+    ['plan a campaign for next quarter', undefined],
+    ['run ads for 2 weeks', undefined],
+    ['campaign for developers', undefined],
+    ['awareness campaign for gen z promoting our new app to students', 'new app'],
+    ['promote the new app to students', 'new app'],
+    ['campaign for eco bottles for young professionals', 'eco bottles'],
+  ])('should read the product in "%s" as %s', (text, product) => {
+    expect(extractEntities(text).product).toBe(product);
+  });
+
+  it('should only count Threads as a platform in platform context', () => {
+    expect(extractEntities('write threads about our launch').platforms).toBeUndefined();
+    expect(extractEntities('post on Threads').platforms).toEqual(['Threads']);
+    expect(extractEntities('TikTok, Instagram and Threads').platforms).toEqual(['TikTok', 'Instagram', 'Threads']);
+    expect(extractEntities('Threads and LinkedIn teasers').platforms).toEqual(['Threads', 'LinkedIn']);
+  });
+
+  it('should parse explicit budgets and platform names', () => {
+    expect(parseBudget('5000')).toEqual({ amount: 5000, currency: 'USD' });
+    expect(parseBudget('2.5k EUR')).toEqual({ amount: 2500, currency: 'EUR' });
+    expect(parseBudget('lots')).toBeUndefined();
+    expect([normalizePlatform(' IG '), normalizePlatform('myspace')]).toEqual(['Instagram', undefined]);
+  });
+
+  it('should format budgets', () => {
+    expect(formatBudget({ amount: 5000, currency: 'USD' })).toBe('$5,000');
+    expect(formatBudget({ amount: 1500, currency: 'EUR' })).toBe('1,500 EUR');
+  });
+});
+
+describe('Session', () => {
+  it('should keep earlier entities until a later turn replaces them', () => {
+    const session = new Session({ id: 'demo' });
+    session.applyQuery('TikTok campaign for eco bottles with $5k');
+    session.applyQuery('now make it for Instagram');
+
+    expect(session.entities).toEqual({
+      platforms: ['Instagram'],
+      budget: { amount: 5000, currency: 'USD' },
+      product: 'eco bottles',
+    });
+  });
+
+  it('should expand follow-ups with the previous request', () => {
+    const session = new Session();
+    expect(session.followUpQuery('now make it for Instagram')).toBeUndefined();
+
+    session.addTurn({ query: 'create viral TikTok campaign', intent: 'campaign', handler: 'orchestrateCampaign', message: 'ok' });
+    expect(session.followUpQuery('now make it for Instagram')).toBe('create viral TikTok campaign now make it for Instagram');
+    expect(session.followUpQuery('find react code')).toBeUndefined();
+  });
+
+  it('should round-trip through JSON', () => {
+    const session = new Session({ id: 'demo' });
+    session.applyQuery('campaign on LinkedIn');
+    session.addTurn({ query: 'campaign on LinkedIn', intent: 'campaign', handler: 'orchestrateCampaign', message: 'ok' });
+
+    const restored = Session.fromJSON(JSON.parse(JSON.stringify(session)));
+    expect(restored.toJSON()).toEqual(session.toJSON());
+    expect(restored.lastTurn?.entities).toEqual({ platforms: ['LinkedIn'] });
+  });
+});
+
+describe('L0Orchestrator sessions', () => {
+  it('should carry a campaign into a follow-up turn', async () => {
+    const orchestrator = new L0Orchestrator({ plugins: createPluginManager(true) });
+    const { id } = await orchestrator.startSession();
+
+    await orchestrator.query('create viral TikTok campaign for eco bottles with $5k', { session: id });
+    const response = await orchestrator.query('now make it for Instagram', { session: id });
+
+    expect(response.type).toBe('campaign');
+    expect(response.message).toBe('🎯 Orchestrating Viral Campaign Strategy for eco bottles');
+    expect(response.data).toMatchObject({ keyPlatforms: ['Instagram'], recommendedBudget: '$5,000', product: 'eco bottles' });
+    expect(response.session).toEqual({
+      id,
+      turns: 2,
+      entities: { platforms: ['Instagram'], budget: { amount: 5000, currency: 'USD' }, product: 'eco bottles' },
+    });
+
+    const session = await orchestrator.getSession(id);
+    expect(session?.lastTurn).toMatchObject({
+      query: 'now make it for Instagram',
+      resolvedQuery: 'create viral TikTok campaign for eco bottles with $5k now make it for Instagram',
+      intent: 'campaign',
+    });
+  });
+
+  it('should leave sessionless queries stateless', async () => {
+    const orchestrator = new L0Orchestrator({ plugins: createPluginManager(true) });
+    await orchestrator.query('create viral TikTok campaign');
+    const response = await orchestrator.query('now make it for Instagram');
+
+    expect(response.type).toBe('orchestration');
+    expect(response.session).toBeUndefined();
+    expect(await orchestrator.listSessions()).toEqual([]);
+  });
+
+  it('should share the session with plugins', async () => {
+    const plugins = createPluginManager(true);
+    const contexts: PluginContext[] = [];
+    plugins.register({
+      metadata: { name: 'echo', version: '1.0.0', description: 'Echoes' },
+      triggers: ['echo'],
+      handler: async (context) => {
+        contexts.push(context);
+        return { message: 'echoed', type: 'context' };
+      },
+    });
+    const orchestrator = new L0Orchestrator({ plugins });
+
+    await orchestrator.query('echo our LinkedIn plans', { session: 'chat' });
+    await orchestrator.query('echo again', { session: 'chat' });
+
+    expect(contexts[0].session).toMatchObject({ id: 'chat', turns: [], entities: { platforms: ['LinkedIn'] } });
+    expect(contexts[1].session?.turns.map((t) => t.query)).toEqual(['echo our LinkedIn plans']);
+  });
+
+  it('should replay earlier turns to the model', async () => {
+    const llm = new MockLLMProvider([{ content: 'Sure.' }]);
+    const orchestrator = new L0Orchestrator({ plugins: createPluginManager(true), llm });
+
+    await orchestrator.query('summarize our onboarding goals', { session: 'chat' });
+    await orchestrator.query('shorten that', { session: 'chat' });
+
+    const answer = llm.requests.filter((r) => r.responseFormat !== 'json').pop()!;
+    expect(answer.messages.slice(1).map((m) => [m.role, m.content])).toEqual([
+      ['user', 'summarize our onboarding goals'],
+      ['assistant', 'Sure.'],
+      ['user', 'shorten that'],
+    ]);
+  });
+});
+
+describe('session stores', () => {
+  it('should copy sessions in memory', async () => {
+    const store = new InMemorySessionStore();
+    const data = new Session({ id: 'a' }).toJSON();
+    await store.save(data);
+    data.turns.push({ query: 'x', intent: 'general', handler: 'orchestrateGeneral', message: 'x', entities: {}, timestamp: '' });
+
+    expect((await store.get('a'))?.turns).toEqual([]);
+  });
+
+  it('should persist sessions as JSON files', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'vortex-sessions-'));
+    try {
+      const orchestrator = new L0Orchestrator({ plugins: createPluginManager(true), sessions: new JsonFileSessionStore({ dir }) });
+      await orchestrator.query('create TikTok campaign', { session: 'launch' });
+
+      const resumed = new L0Orchestrator({ plugins: createPluginManager(true), sessions: new JsonFileSessionStore({ dir }) });
+      const response = await resumed.query('now make it for Instagram', { session: 'launch' });
+
+      expect(response.session?.turns).toBe(2);
+      expect((await resumed.listSessions()).map((s) => s.id)).toEqual(['launch']);
+      await expect(new JsonFileSessionStore({ dir }).get('../escape')).rejects.toThrow('Invalid session id');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * VortexAI L0 Sessions
+ *
+ * Multi-turn conversation state: prior turns and entities resolved across them
+ * @module session
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface SessionBudget {
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Facts mentioned during a conversation that later turns can rely on
+ */
+export interface SessionEntities {
+  platforms?: string[];
+  budget?: SessionBudget;
+  product?: string;
+}
+
+export interface SessionTurn {
+  query: string;
+  /** The query actually routed, when a follow-up was expanded with the previous turn */
+  resolvedQuery?: string;
+  /** Intent name from the response, e.g. `campaign` or `plugin:memory` */
+  intent: string;
+  handler: string;
+  message: string;
+  /** Model answer for general requests */
+  answer?: string;
+  /** Entities in effect for this turn */
+  entities: SessionEntities;
+  timestamp: string;
+}
+
+export interface SessionData {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  turns: SessionTurn[];
+  entities: SessionEntities;
+}
+
+/**
+ * Persists sessions between processes
+ */
+export interface SessionStore {
+  get(id: string): Promise<SessionData | undefined>;
+  save(session: SessionData): Promise<void>;
+  /** All sessions, most recently updated first */
+  list(): Promise<SessionData[]>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_TURNS = 50;
+
+const PLATFORM_ALIASES: Record<string, string> = {
+  tiktok: 'TikTok',
+  instagram: 'Instagram',
+  insta: 'Instagram',
+  ig: 'Instagram',
+  twitter: 'Twitter',
+  linkedin: 'LinkedIn',
+  youtube: 'YouTube',
+  facebook: 'Facebook',
+  pinterest: 'Pinterest',
+  threads: 'Threads',
+  snapchat: 'Snapchat',
+  reddit: 'Reddit',
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = { $: 'USD', '€': 'EUR', '£': 'GBP' };
+const CURRENCY_CODES: Record<string, string> = { usd: 'USD', dollars: 'USD', eur: 'EUR', euros: 'EUR', gbp: 'GBP', pounds: 'GBP' };
+const MULTIPLIERS: Record<string, number> = { k: 1_000, m: 1_000_000 };
+
+const PLATFORM_PATTERN = new RegExp(`\\b(${Object.keys(PLATFORM_ALIASES).join('|')})\\b`, 'gi');
+const BUDGET_PATTERNS = [
+  /([$€£])\s?(\d[\d,]*(?:\.\d+)?)\s*([km])?\b/i,
+  /\b(\d[\d,]*(?:\.\d+)?)\s*([km])?\s*(usd|dollars|eur|euros|gbp|pounds)\b/i,
+  /\bbudget\s*(?:of|is|:)?\s*(\d[\d,]*(?:\.\d+)?)\s*([km])?\b/i,
+];
+const BARE_AMOUNT_PATTERN = /^\s*(\d[\d,]*(?:\.\d+)?)\s*([km])?\s*$/i;
+// Platform names that are also everyday words, counted only when the text treats them as a platform
+const AMBIGUOUS_PLATFORMS = new Set(['threads']);
+const PLATFORM_NAMES = Object.keys(PLATFORM_ALIASES).filter((alias) => !AMBIGUOUS_PLATFORMS.has(alias)).join('|');
+// "on Threads", "TikTok and Threads", "Threads, Instagram", "the Threads app"
+const PLATFORM_CONTEXT_BEFORE = new RegExp(`(?:\\b(?:on|across|via)|\\b(?:${PLATFORM_NAMES})\\s*(?:,|and|or|&|\\+))\\s*$`, 'i');
+const PLATFORM_CONTEXT_AFTER = new RegExp(`^(?:\\s*(?:,|and|or|&|\\+)\\s*(?:${PLATFORM_NAMES})\\b|\\s+app\\b)`, 'i');
+const PRODUCT_PATTERN =
+  /\b(?:for|promoting|promote)\s+(?:an?\s+|our\s+|my\s+|the\s+)?([a-z0-9][a-z0-9 '-]{1,40}?)(?=\s+(?:on|with|in|across|using|at|by|under|targeting|budget|to|for|among|promoting)\b|[,.!?;]|$)/gi;
+// Captures that name something other than a product
+const NOT_PRODUCTS = new Set(['it', 'this', 'that', 'them', 'us', 'me', 'campaign', 'content', 'everyone']);
+const TIME_PHRASE_PATTERN =
+  /^(?:(?:next|this|last|coming)\s+)?(?:\d+\s+)?(?:days?|weeks?|weekends?|months?|quarters?|years?|q[1-4]|now|today|tomorrow|tonight|holidays)$/i;
+const NUMBER_PATTERN = /^[\d,.]+\s*[km%]?$/i;
+const AUDIENCE_PATTERN =
+  /^(?:young\s+|new\s+|local\s+|small\s+)?(?:developers|engineers|students|millennials|gen[ -]?z|gen[ -]?alpha|teens|teenagers|parents|moms|dads|kids|families|women|men|seniors|beginners|professionals|creators|marketers|businesses|customers|users|followers|fans)$/i;
+// Phrases that only make sense relative to an earlier turn
+const FOLLOW_UP_PATTERN = /^(now|also|and|then|instead|same|but|what about|how about)\b|\b(it|that|this|them|same|instead|again)\b/i;
+
+// ============================================================================
+// Entity Extraction
+// ============================================================================
+
+function parseAmount(digits: string, multiplier?: string): number {
+  return parseFloat(digits.replace(/,/g, '')) * (multiplier ? MULTIPLIERS[multiplier.toLowerCase()] : 1);
+}
+
+function extractBudget(text: string): SessionBudget | undefined {
+  const [symbol, code, bare] = BUDGET_PATTERNS.map((pattern) => text.match(pattern));
+
+  if (symbol) return { amount: parseAmount(symbol[2], symbol[3]), currency: CURRENCY_SYMBOLS[symbol[1]] };
+  if (code) return { amount: parseAmount(code[1], code[2]), currency: CURRENCY_CODES[code[3].toLowerCase()] };
+  if (bare) return { amount: parseAmount(bare[1], bare[2]), currency: 'USD' };
+  return undefined;
+}
+
+/**
+ * Parse a budget such as `$5k`, `2500 EUR` or a bare `5000` (taken as USD)
+ *
+ * @returns The budget, or undefined if the text is not an amount
+ */
+export function parseBudget(text: string): SessionBudget | undefined {
+  const bare = text.match(BARE_AMOUNT_PATTERN);
+  return bare ? { amount: parseAmount(bare[1], bare[2]), currency: 'USD' } : extractBudget(text);
+}
+
+/**
+ * Canonical name for a platform, e.g. `ig` → `Instagram`
+ *
+ * @returns The platform, or undefined if it is not one L0 knows
+ */
+export function normalizePlatform(name: string): string | undefined {
+  return PLATFORM_ALIASES[name.trim().toLowerCase()];
+}
+
+function isPlatformMention(text: string, match: RegExpMatchArray): boolean {
+  if (!AMBIGUOUS_PLATFORMS.has(match[1].toLowerCase())) return true;
+
+  const before = text.slice(0, match.index);
+  const after = text.slice(match.index! + match[0].length);
+  return PLATFORM_CONTEXT_BEFORE.test(before) || PLATFORM_CONTEXT_AFTER.test(after);
+}
+
+function isProduct(candidate: string): boolean {
+  const lower = candidate.toLowerCase();
+  const isPlatform = lower.split(/\s+/).every((word) => PLATFORM_ALIASES[word] || word === 'and');
+  return !isPlatform && !NOT_PRODUCTS.has(lower) && ![TIME_PHRASE_PATTERN, NUMBER_PATTERN, AUDIENCE_PATTERN].some((pattern) => pattern.test(lower));
+}
+
+/**
+ * First phrase after "for" or "promoting" that names a product rather than
+ * a platform, a pronoun, a time, an amount or an audience
+ */
+function extractProduct(text: string): string | undefined {
+  for (const match of text.matchAll(PRODUCT_PATTERN)) {
+    const candidate = match[1].trim();
+    if (isProduct(candidate)) return candidate;
+  }
+  return undefined;
+}
+
+/**
+ * Pull platforms, a budget and a product out of free text
+ *
+ * @example
+ * ```typescript
+ * extractEntities('launch campaign for eco water bottles on TikTok with $5k');
+ * // { platforms: ['TikTok'], budget: { amount: 5000, currency: 'USD' }, product: 'eco water bottles' }
+ * ```
+ */
+export function extractEntities(text: string): SessionEntities {
+  const mentions = Array.from(text.matchAll(PLATFORM_PATTERN)).filter((match) => isPlatformMention(text, match));
+  const platforms = Array.from(new Set(mentions.map((match) => PLATFORM_ALIASES[match[1].toLowerCase()])));
+  const budget = extractBudget(text);
+  const product = extractProduct(text);
+
+  return {
+    ...(platforms.length > 0 && { platforms }),
+    ...(budget && { budget }),
+    ...(product && { product }),
+  };
+}
+
+/**
+ * Format a budget for display, e.g. `$5,000` or `2,500 EUR`
+ */
+export function formatBudget({ amount, currency }: SessionBudget): string {
+  const value = amount.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  return currency === 'USD' ? `$${value}` : `${value} ${currency}`;
+}
+
+function createSessionId(): string {
+  return `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// ============================================================================
+// Session Class
+// ============================================================================
+
+/**
+ * A conversation with the orchestrator
+ *
+ * Entities mentioned in a turn stay in effect until a later turn mentions a
+ * replacement, so "now make it for Instagram" keeps the product and budget
+ * from earlier turns and swaps only the platform.
+ *
+ * @example
+ * ```typescript
+ * const session = await orchestrator.startSession();
+ * await orchestrator.query('create viral TikTok campaign for eco bottles', { session: session.id });
+ * await orchestrator.query('now make it for Instagram', { session: session.id });
+ * ```
+ */
+export class Session {
+  readonly id: string;
+  readonly createdAt: string;
+  updatedAt: string;
+  readonly turns: SessionTurn[];
+  entities: SessionEntities;
+
+  constructor(data: Partial<SessionData> = {}) {
+    const now = new Date().toISOString();
+    this.id = data.id || createSessionId();
+    this.createdAt = data.createdAt || now;
+    this.updatedAt = data.updatedAt || this.createdAt;
+    this.turns = data.turns ? [...data.turns] : [];
+    this.entities = { ...data.entities };
+  }
+
+  static fromJSON(data: SessionData): Session {
+    return new Session(data);
+  }
+
+  get lastTurn(): SessionTurn | undefined {
+    return this.turns[this.turns.length - 1];
+  }
+
+  /**
+   * Merge entities mentioned in a query into the session
+   *
+   * @param overrides - Entities given explicitly, e.g. from command-line options; these win over the query
+   * @returns The entities now in effect
+   */
+  applyQuery(query: string, overrides: SessionEntities = {}): SessionEntities {
+    this.entities = { ...this.entities, ...extractEntities(query), ...overrides };
+    return this.entities;
+  }
+
+  /**
+   * Expand a follow-up with the previous turn's request
+   *
+   * @returns The combined query, or undefined if the query does not read as a follow-up
+   */
+  followUpQuery(query: string): string | undefined {
+    const previous = this.lastTurn;
+    if (!previous || !FOLLOW_UP_PATTERN.test(query)) return undefined;
+    return `${previous.resolvedQuery || previous.query} ${query}`;
+  }
+
+  addTurn(turn: Omit<SessionTurn, 'entities' | 'timestamp'>): SessionTurn {
+    const recorded: SessionTurn = { ...turn, entities: { ...this.entities }, timestamp: new Date().toISOString() };
+    this.turns.push(recorded);
+    this.turns.splice(0, Math.max(0, this.turns.length - MAX_TURNS));
+    this.updatedAt = recorded.timestamp;
+    return recorded;
+  }
+
+  toJSON(): SessionData {
+    return {
+      id: this.id,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+      turns: this.turns.map((turn) => ({ ...turn })),
+      entities: { ...this.entities },
+    };
+  }
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Session store that lives for the lifetime of the process
+ */
+export class InMemorySessionStore implements SessionStore {
+  private readonly sessions: Map<string, SessionData> = new Map();
+
+  async get(id: string): Promise<SessionData | undefined> {
+    const session = this.sessions.get(id);
+    return session && structuredClone(session);
+  }
+
+  async save(session: SessionData): Promise<void> {
+    this.sessions.set(session.id, structuredClone(session));
+  }
+
+  async list(): Promise<SessionData[]> {
+    return Array.from(this.sessions.values(), (s) => structuredClone(s)).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+}
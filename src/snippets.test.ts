@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { createSnippet, createSnippetId, detectLanguage, formatLastUsed, inferTags, inferTitle } from './snippets.js';
+import { createFixtureKnowledgeStore } from './knowledge-fixtures.js';
+import { L0Orchestrator } from './orchestrator.js';
+
+describe('detectLanguage', () => {
+  it('should prefer the file extension', () => {
+    expect(detectLanguage('print("hi")', 'hello.ts')).toBe('typescript');
+    expect(detectLanguage('', 'Card.tsx')).toBe('react');
+  });
+
+  it('should fall back to content heuristics', () => {
+    expect(detectLanguage('def greet(name):\n    return name')).toBe('python');
+    expect(detectLanguage('SELECT id FROM users')).toBe('sql');
+    expect(detectLanguage('<div className="card" />')).toBe('react');
+    expect(detectLanguage('const x = 1;')).toBe('javascript');
+  });
+
+  it('should return text for unrecognised content', () => {
+    expect(detectLanguage('just some notes')).toBe('text');
+  });
+});
+
+describe('metadata inference', () => {
+  it('should derive titles from file names', () => {
+    expect(inferTitle('', 'src/useDebouncedValue.ts')).toBe('Use Debounced Value');
+    expect(inferTitle('', 'retry-helper.js')).toBe('Retry Helper');
+  });
+
+  it('should derive titles from the first line of content', () => {
+    expect(inferTitle('\n// Exponential retry\nconst retry = 1;')).toBe('Exponential retry');
+  });
+
+  it('should infer tags from title and language', () => {
+    expect(inferTags('Floating Notification Component', 'react')).toEqual(['react', 'floating', 'notification']);
+  });
+
+  it('should generate unique ids', () => {
+    expect(createSnippetId('Retry Helper', ['retry-helper', 'retry-helper-2'])).toBe('retry-helper-3');
+  });
+
+  it('should fill in every field of a new snippet', () => {
+    const snippet = createSnippet({ content: 'const a = 1;', filename: 'const-a.js', project: 'demo' });
+    expect(snippet).toMatchObject({ id: 'const-a', title: 'Const A', language: 'javascript', project: 'demo' });
+    expect(Number.isNaN(Date.parse(snippet.lastUsed))).toBe(false);
+  });
+});
+
+describe('formatLastUsed', () => {
+  const now = new Date('2026-03-10T12:00:00.000Z');
+
+  it('should format timestamps relative to now', () => {
+    expect(formatLastUsed('2026-03-08T12:00:00.000Z', now)).toBe('2 days ago');
+    expect(formatLastUsed('2026-03-10T11:59:30.000Z', now)).toBe('just now');
+  });
+
+  it('should pass through legacy free-text values', () => {
+    expect(formatLastUsed('yesterday', now)).toBe('yesterday');
+  });
+});
+
+describe('snippet usage tracking', () => {
+  it('should update lastUsed when findCode retrieves a snippet', async () => {
+    const store = createFixtureKnowledgeStore();
+    const orchestrator = new L0Orchestrator({ store });
+    const before = (await store.getSnippet('floating-card-1'))!.lastUsed;
+
+    const response = await orchestrator.findCode('floating card');
+    const after = (await store.getSnippet('floating-card-1'))!.lastUsed;
+
+    expect((response.data as Record<string, unknown>).lastUsed).toBe(before);
+    expect(Date.parse(after)).toBeGreaterThan(Date.parse(before));
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * VortexAI L0 Snippet Library Helpers
+ *
+ * Metadata inference and usage tracking for stored code snippets
+ * @module snippets
+ */
+
+import type { CodeSnippet, KnowledgeStore } from './knowledge-store.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface SnippetInput {
+  content: string;
+  title?: string;
+  filename?: string;
+  language?: string;
+  tags?: string[];
+  project?: string;
+  id?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'react',
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  jsx: 'react',
+  py: 'python',
+  rb: 'ruby',
+  go: 'go',
+  rs: 'rust',
+  java: 'java',
+  kt: 'kotlin',
+  swift: 'swift',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  sql: 'sql',
+  css: 'css',
+  scss: 'scss',
+  html: 'html',
+  json: 'json',
+  yml: 'yaml',
+  yaml: 'yaml',
+  md: 'markdown',
+};
+
+const CONTENT_LANGUAGE_PATTERNS: Array<[RegExp, string]> = [
+  [/className=|from ['"]react['"]|useState\(|<\/?[A-Z]\w*[\s>]/, 'react'],
+  [/^#!.*\b(ba|z)?sh\b/m, 'shell'],
+  [/^\s*(def|class) \w+.*:\s*$|^\s*import \w+$|^\s*from \w+ import /m, 'python'],
+  [/^\s*(SELECT|INSERT|UPDATE|DELETE|CREATE TABLE)\b/im, 'sql'],
+  [/^\s*package \w+|func \w+\(.*\)\s*[\w*]*\s*\{/m, 'go'],
+  [/\bfn \w+\(|\blet mut\b|impl \w+/, 'rust'],
+  [/\binterface \w+ \{|:\s*(string|number|boolean)\b|\btype \w+ =/, 'typescript'],
+  [/\b(const|let|var|function)\b|=>/, 'javascript'],
+];
+
+const TAG_STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'from', 'that', 'this', 'into', 'using', 'component', 'snippet']);
+const MAX_INFERRED_TAGS = 6;
+const MIN_TAG_LENGTH = 3;
+const DEFAULT_LANGUAGE = 'text';
+const DEFAULT_PROJECT = 'default';
+
+// ============================================================================
+// Inference Helpers
+// ============================================================================
+
+/**
+ * Detect the language of a snippet from its filename, falling back to content heuristics
+ */
+export function detectLanguage(content: string, filename?: string): string {
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  if (extension && extension !== filename?.toLowerCase() && EXTENSION_LANGUAGES[extension]) {
+    return EXTENSION_LANGUAGES[extension];
+  }
+
+  const match = CONTENT_LANGUAGE_PATTERNS.find(([pattern]) => pattern.test(content));
+  return match ? match[1] : DEFAULT_LANGUAGE;
+}
+
+/**
+ * Derive a human readable title from a filename or the first line of content
+ */
+export function inferTitle(content: string, filename?: string): string {
+  if (filename) {
+    const base = filename.split(/[\\/]/).pop() || filename;
+    const stem = base.replace(/\.[^.]+$/, '');
+    return stem
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .split(/[-_\s]+/)
+      .filter(Boolean)
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+
+  const firstLine = content.split('\n').find((line) => line.trim().length > 0) || 'Untitled Snippet';
+  return firstLine.replace(/^[\s/#*-]+/, '').trim().substring(0, 60);
+}
+
+/**
+ * Infer tags from the title and language
+ */
+export function inferTags(title: string, language: string): string[] {
+  const words = title
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length >= MIN_TAG_LENGTH && !TAG_STOP_WORDS.has(word));
+
+  return Array.from(new Set([language, ...words]))
+    .filter((tag) => tag !== DEFAULT_LANGUAGE)
+    .slice(0, MAX_INFERRED_TAGS);
+}
+
+/**
+ * Turn a title into a URL-safe snippet id that does not collide with existing ids
+ */
+export function createSnippetId(title: string, existingIds: string[] = []): string {
+  const base = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'snippet';
+
+  let id = base;
+  for (let suffix = 2; existingIds.includes(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+/**
+ * Build a complete snippet record, filling in any metadata that was not supplied
+ *
+ * @param input - Snippet content plus optional metadata overrides
+ * @param existingIds - Ids already in the store, used to keep generated ids unique
+ */
+export function createSnippet(input: SnippetInput, existingIds: string[] = []): CodeSnippet {
+  const language = input.language || detectLanguage(input.content, input.filename);
+  const title = input.title || inferTitle(input.content, input.filename);
+
+  return {
+    id: input.id || createSnippetId(title, existingIds),
+    title,
+    content: input.content,
+    language,
+    tags: input.tags?.length ? input.tags : inferTags(title, language),
+    lastUsed: new Date().toISOString(),
+    project: input.project || DEFAULT_PROJECT,
+  };
+}
+
+// ============================================================================
+// Usage Tracking
+// ============================================================================
+
+/**
+ * Record that a snippet was retrieved by updating its `lastUsed` timestamp
+ *
+ * @returns The updated snippet
+ */
+export async function markSnippetUsed(store: KnowledgeStore, snippet: CodeSnippet): Promise<CodeSnippet> {
+  const updated = { ...snippet, lastUsed: new Date().toISOString() };
+  await store.saveSnippet(updated);
+  return updated;
+}
+
+/**
+ * Format a `lastUsed` timestamp relative to now, e.g. "2 days ago"
+ *
+ * Values that are not parseable dates (legacy free-text entries) are returned unchanged.
+ */
+export function formatLastUsed(lastUsed: string, now: Date = new Date()): string {
+  const time = Date.parse(lastUsed);
+  if (Number.isNaN(time)) return lastUsed;
+
+  const seconds = Math.max(0, Math.round((now.getTime() - time) / 1000));
+  const units: Array<[string, number]> = [
+    ['year', 365 * 24 * 3600],
+    ['month', 30 * 24 * 3600],
+    ['week', 7 * 24 * 3600],
+    ['day', 24 * 3600],
+    ['hour', 3600],
+    ['minute', 60],
+  ];
+
+  for (const [unit, size] of units) {
+    const count = Math.floor(seconds / size);
+    if (count >= 1) {
+      return `${count} ${unit}${count > 1 ? 's' : ''} ago`;
+    }
+  }
+  return 'just now';
+}
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AgentRegistry, LocalAgent, type AgentTask } from './agents.js';
+import { TaskQueue, backoffDelay, type QueuedTask, type TaskQueueEvent } from './task-queue.js';
+import { JsonFileTaskQueueStore } from './node/json-file-queue-store.js';
+import { L0Orchestrator } from './orchestrator.js';
+import { createPluginManager } from './plugins.js';
+
+const agent = (name: string, strengths: string[], run: (task: AgentTask, signal?: AbortSignal) => Promise<Record<string, unknown>>) =>
+  new LocalAgent({ name, capabilities: { strengths, weaknesses: [], costPerToken: 0, speedRating: 5 }, run });
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe('TaskQueue', () => {
+  it('should run higher-priority tasks first', async () => {
+    const order: string[] = [];
+    const registry = new AgentRegistry([agent('worker', ['*'], async (t) => (order.push(t.payload.name as string), {}))]);
+    const queue = new TaskQueue(registry, { defaultConcurrency: 1 });
+
+    queue.queueTask({ type: 'research', payload: { name: 'low' }, priority: 1 });
+    queue.queueTask({ type: 'research', payload: { name: 'high' }, priority: 9 });
+    queue.queueTask({ type: 'research', payload: { name: 'mid-a' }, priority: 5 });
+    queue.queueTask({ type: 'research', payload: { name: 'mid-b' }, priority: 5 });
+    await queue.processQueue();
+
+    expect(order).toEqual(['high', 'mid-a', 'mid-b', 'low']);
+    expect(queue.list('completed')).toHaveLength(4);
+  });
+
+  it('should respect per-agent concurrency caps', async () => {
+    const active: Record<string, number> = { slow: 0, fast: 0 };
+    const peak: Record<string, number> = { slow: 0, fast: 0 };
+    const tracked = (name: string) => async () => {
+      peak[name] = Math.max(peak[name], ++active[name]);
+      await tick();
+      active[name]--;
+      return {};
+    };
+    const registry = new AgentRegistry([agent('slow', ['research'], tracked('slow')), agent('fast', ['analytics'], tracked('fast'))]);
+    const queue = new TaskQueue(registry, { concurrency: { slow: 1 }, defaultConcurrency: 3 });
+
+    for (let i = 0; i < 4; i++) {
+      queue.queueTask({ type: 'research' });
+      queue.queueTask({ type: 'analytics' });
+    }
+    await queue.processQueue();
+
+    expect(peak).toEqual({ slow: 1, fast: 3 });
+  });
+
+  it('should retry with backoff and dead-letter after the last attempt', async () => {
+    let calls = 0;
+    const events: TaskQueueEvent['type'][] = [];
+    const registry = new AgentRegistry([
+      agent('flaky', ['*'], async (t) => {
+        calls++;
+        if (t.payload.fail === 'always' || calls < 2) throw new Error('rate limited');
+        return { ok: true };
+      }),
+    ]);
+    const queue = new TaskQueue(registry, { backoff: { initialMs: 1 }, onEvent: (e) => events.push(e.type) });
+
+    const recovered = queue.queueTask({ type: 'research', priority: 1 });
+    await queue.processQueue();
+    expect(queue.get(recovered)).toMatchObject({ status: 'completed', attempts: 2, result: { ok: true } });
+    expect(queue.get(recovered)?.error).toBeUndefined();
+
+    const doomed = queue.queueTask({ type: 'research', payload: { fail: 'always' }, maxAttempts: 2 });
+    await queue.processQueue();
+    expect(queue.deadLetters().map((t) => t.id)).toEqual([doomed]);
+    expect(queue.get(doomed)).toMatchObject({ attempts: 2, error: 'rate limited' });
+    expect(events.filter((e) => e === 'task:retrying')).toHaveLength(2);
+
+    expect(queue.retryDeadLetter(doomed)).toBe(true);
+    expect(queue.get(doomed)).toMatchObject({ status: 'queued', attempts: 0 });
+  });
+
+  it('should grow the backoff delay exponentially up to the cap', () => {
+    expect([1, 2, 3].map((n) => backoffDelay(n, { initialMs: 100 }))).toEqual([100, 200, 400]);
+    expect(backoffDelay(10, { initialMs: 100, maxMs: 1000 })).toBe(1000);
+  });
+
+  it('should dead-letter tasks no agent can take', async () => {
+    const queue = new TaskQueue(new AgentRegistry([agent('writer', ['content'], async () => ({}))]));
+    const id = queue.queueTask({ type: 'deploy' });
+    await queue.processQueue();
+
+    expect(queue.get(id)).toMatchObject({ status: 'dead', attempts: 0, error: 'No agent can handle "deploy" tasks' });
+  });
+
+  it('should cancel queued and running tasks', async () => {
+    let aborted = false;
+    const registry = new AgentRegistry([
+      agent('worker', ['*'], (_task, signal) => {
+        return new Promise((resolve) => {
+          signal?.addEventListener('abort', () => {
+            aborted = true;
+            resolve({ late: true });
+          });
+        });
+      }),
+    ]);
+    const queue = new TaskQueue(registry, {
+      defaultConcurrency: 1,
+      onEvent: (e) => {
+        if (e.type === 'task:started') setTimeout(() => queue.cancel(e.task.id), 1);
+      },
+    });
+
+    const running = queue.queueTask({ type: 'research', priority: 2 });
+    const waiting = queue.queueTask({ type: 'research', priority: 1 });
+    expect(queue.cancel(waiting)).toBe(true);
+    await queue.processQueue();
+
+    expect(aborted).toBe(true);
+    expect(queue.get(running)).toMatchObject({ status: 'cancelled' });
+    expect(queue.get(running)?.result).toBeUndefined();
+    expect(queue.get(waiting)?.attempts).toBe(0);
+    expect(queue.cancel(running)).toBe(false);
+  });
+});
+
+describe('TaskQueue persistence', () => {
+  it('should keep saving after a failed write and report it on flush', async () => {
+    const saved: QueuedTask[][] = [];
+    let failures = 1;
+    const store = {
+      load: async () => [],
+      save: async (tasks: QueuedTask[]) => {
+        if (failures-- > 0) throw new Error('disk full');
+        saved.push(tasks);
+      },
+    };
+    const queue = new TaskQueue(new AgentRegistry(), { store });
+
+    queue.queueTask({ type: 'research' });
+    queue.queueTask({ type: 'analytics' });
+
+    await expect(queue.flush()).rejects.toThrow('disk full');
+    expect(saved.at(-1)?.map((t) => t.type)).toEqual(['research', 'analytics']);
+    await expect(queue.flush()).resolves.toBeUndefined();
+  });
+});
+
+describe('JsonFileTaskQueueStore', () => {
+  it('should share tasks between queues and requeue interrupted work', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'vortex-queue-'));
+    try {
+      const store = new JsonFileTaskQueueStore({ path: join(dir, 'queue.json') });
+      const producer = new TaskQueue(new AgentRegistry(), { store });
+      const id = producer.queueTask({ type: 'research', payload: { topic: 'eco' } });
+      await producer.flush();
+
+      const tasks = await store.load();
+      await store.save(tasks.map((t) => ({ ...t, status: 'running' as const, attempts: 1 })));
+
+      const consumer = new TaskQueue(new AgentRegistry(), { store });
+      await consumer.restore();
+      expect(consumer.get(id)?.status).toBe('queued');
+
+      await consumer.processQueue();
+      expect((await store.load())[0]).toMatchObject({ id, status: 'completed', attempts: 2, agent: 'research' });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('L0Orchestrator task queue', () => {
+  it('should queue and process tasks through the agent registry', async () => {
+    const orchestrator = new L0Orchestrator(createPluginManager(true));
+    const id = orchestrator.queueTask({ type: 'analytics', payload: { label: 'Weekly KPIs' } });
+    await orchestrator.processQueue();
+
+    expect(orchestrator.getTaskQueue().get(id)).toMatchObject({
+      status: 'completed',
+      agent: 'analytics',
+      result: { summary: 'analytics: Weekly KPIs completed' },
+    });
+  });
+});
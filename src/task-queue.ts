@@ -0,0 +1,442 @@
+/**
+ * VortexAI L0 Task Queue
+ *
+ * Priority queue for agent tasks with per-agent concurrency caps, retries and dead-lettering
+ * @module task-queue
+ */
+
+import type { AgentRegistry, AgentTask } from './agents.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type QueuedTaskStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'dead';
+
+export interface QueuedTask {
+  id: string;
+  type: string;
+  payload: Record<string, unknown>;
+  /** Higher runs first; equal priorities run in the order queued */
+  priority: number;
+  status: QueuedTaskStatus;
+  attempts: number;
+  maxAttempts: number;
+  enqueuedAt: string;
+  updatedAt: string;
+  /** Earliest time the next attempt may start, set while backing off */
+  nextAttemptAt?: string;
+  /** Agent that ran the latest attempt */
+  agent?: string;
+  error?: string;
+  result?: Record<string, unknown>;
+}
+
+export interface QueueTaskInput {
+  type: string;
+  payload?: Record<string, unknown>;
+  priority?: number;
+  /** Attempts before the task is dead-lettered (default: queue's `maxAttempts`) */
+  maxAttempts?: number;
+}
+
+export type TaskQueueEvent =
+  | { type: 'task:started'; task: QueuedTask }
+  | { type: 'task:completed'; task: QueuedTask }
+  | { type: 'task:retrying'; task: QueuedTask; delayMs: number }
+  | { type: 'task:dead'; task: QueuedTask }
+  | { type: 'task:cancelled'; task: QueuedTask };
+
+/**
+ * Persists queued tasks between processes
+ */
+export interface TaskQueueStore {
+  load(): Promise<QueuedTask[]>;
+  save(tasks: QueuedTask[]): Promise<void>;
+}
+
+export interface BackoffOptions {
+  /** Delay before the first retry (default: 500ms) */
+  initialMs?: number;
+  /** Multiplier applied per further attempt (default: 2) */
+  factor?: number;
+  /** Upper bound on any single delay (default: 30s) */
+  maxMs?: number;
+}
+
+export interface TaskQueueOptions {
+  /** Maximum tasks running at once per agent name */
+  concurrency?: Record<string, number>;
+  /** Cap for agents not listed in `concurrency` (default: 2) */
+  defaultConcurrency?: number;
+  /** Attempts before a task is dead-lettered (default: 3) */
+  maxAttempts?: number;
+  backoff?: BackoffOptions;
+  store?: TaskQueueStore;
+  onEvent?: (event: TaskQueueEvent) => void;
+}
+
+export interface ProcessQueueOptions {
+  /** Progress listener for this call, in addition to the queue's `onEvent` */
+  onEvent?: (event: TaskQueueEvent) => void;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BACKOFF: Required<BackoffOptions> = { initialMs: 500, factor: 2, maxMs: 30_000 };
+const TERMINAL_STATUSES: QueuedTaskStatus[] = ['completed', 'cancelled', 'dead'];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Delay before the next attempt, growing exponentially with each failure
+ */
+export function backoffDelay(attempts: number, options: BackoffOptions = {}): number {
+  const { initialMs, factor, maxMs } = { ...DEFAULT_BACKOFF, ...options };
+  return Math.min(maxMs, initialMs * Math.pow(factor, Math.max(0, attempts - 1)));
+}
+
+function createTaskId(): string {
+  return `task-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function byPriority(a: QueuedTask, b: QueuedTask): number {
+  return b.priority - a.priority || Date.parse(a.enqueuedAt) - Date.parse(b.enqueuedAt);
+}
+
+// ============================================================================
+// Task Queue Class
+// ============================================================================
+
+/**
+ * Queues agent tasks and works through them by priority
+ *
+ * Each task goes to the best agent in the registry. When that agent is at
+ * its concurrency cap the task waits, and lower-priority tasks for other
+ * agents may run first. Failed attempts are retried with exponential
+ * backoff; tasks out of attempts, or that no agent can take, are moved to
+ * the dead-letter list.
+ *
+ * @example
+ * ```typescript
+ * import { TaskQueue, AgentRegistry } from 'vortexai-l0';
+ *
+ * const queue = new TaskQueue(new AgentRegistry(), { concurrency: { research: 1 } });
+ * queue.queueTask({ type: 'research', payload: { topic: 'eco packaging' }, priority: 5 });
+ * queue.queueTask({ type: 'analytics', priority: 1 });
+ * await queue.processQueue();
+ * ```
+ */
+export class TaskQueue {
+  private readonly tasks: Map<string, QueuedTask> = new Map();
+  private readonly running: Map<string, { controller: AbortController; promise: Promise<void> }> = new Map();
+  private readonly concurrency: Record<string, number>;
+  private readonly defaultConcurrency: number;
+  private readonly maxAttempts: number;
+  private readonly backoff: BackoffOptions;
+  private readonly store?: TaskQueueStore;
+  private readonly listeners: Set<(event: TaskQueueEvent) => void> = new Set();
+  private saving: Promise<void> = Promise.resolve();
+  // First failed write since the last flush; later writes still go ahead
+  private saveError?: Error;
+
+  constructor(
+    private readonly agents: AgentRegistry,
+    options: TaskQueueOptions = {}
+  ) {
+    this.concurrency = options.concurrency || {};
+    this.defaultConcurrency = options.defaultConcurrency ?? DEFAULT_CONCURRENCY;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.backoff = options.backoff || {};
+    this.store = options.store;
+    if (options.onEvent) this.listeners.add(options.onEvent);
+  }
+
+  // ==========================================================================
+  // Persistence
+  // ==========================================================================
+
+  /**
+   * Load tasks from the store
+   *
+   * Tasks left `running` by a process that exited are queued again.
+   */
+  async restore(): Promise<void> {
+    if (!this.store) return;
+
+    for (const task of await this.store.load()) {
+      if (this.running.has(task.id)) continue;
+      this.tasks.set(task.id, task.status === 'running' ? { ...task, status: 'queued' } : task);
+    }
+  }
+
+  /**
+   * Wait for pending writes to the store
+   *
+   * @throws The first write error since the last flush
+   */
+  async flush(): Promise<void> {
+    await this.saving;
+    const error = this.saveError;
+    if (error) {
+      this.saveError = undefined;
+      throw error;
+    }
+  }
+
+  private persist(): void {
+    if (!this.store) return;
+    const snapshot = Array.from(this.tasks.values()).map((t) => ({ ...t }));
+    this.saving = this.saving
+      .then(() => this.store!.save(snapshot))
+      .catch((error) => {
+        this.saveError ??= error instanceof Error ? error : new Error(errorMessage(error));
+      });
+  }
+
+  // ==========================================================================
+  // Queue Management
+  // ==========================================================================
+
+  /**
+   * Add a task to the queue
+   *
+   * @returns The new task id
+   */
+  queueTask(input: QueueTaskInput): string {
+    const now = new Date().toISOString();
+    const task: QueuedTask = {
+      id: createTaskId(),
+      type: input.type,
+      payload: input.payload || {},
+      priority: input.priority ?? 0,
+      status: 'queued',
+      attempts: 0,
+      maxAttempts: input.maxAttempts ?? this.maxAttempts,
+      enqueuedAt: now,
+      updatedAt: now,
+    };
+
+    this.tasks.set(task.id, task);
+    this.persist();
+    return task.id;
+  }
+
+  /**
+   * Cancel a queued or running task
+   *
+   * Running tasks receive an abort signal; their result is discarded.
+   *
+   * @returns boolean indicating whether the task was cancelled
+   */
+  cancel(id: string): boolean {
+    const task = this.tasks.get(id);
+    if (!task || TERMINAL_STATUSES.includes(task.status)) return false;
+
+    this.running.get(id)?.controller.abort();
+    this.update(task, { status: 'cancelled' });
+    this.emit({ type: 'task:cancelled', task });
+    return true;
+  }
+
+  /**
+   * Move a dead-lettered task back into the queue with fresh attempts
+   */
+  retryDeadLetter(id: string): boolean {
+    const task = this.tasks.get(id);
+    if (task?.status !== 'dead') return false;
+
+    this.update(task, { status: 'queued', attempts: 0, error: undefined, nextAttemptAt: undefined });
+    return true;
+  }
+
+  /**
+   * Remove finished tasks
+   *
+   * @returns Number of tasks removed
+   */
+  clear(statuses: QueuedTaskStatus[] = ['completed', 'cancelled']): number {
+    let removed = 0;
+    for (const [id, task] of this.tasks) {
+      if (statuses.includes(task.status) && !this.running.has(id)) {
+        this.tasks.delete(id);
+        removed++;
+      }
+    }
+    this.persist();
+    return removed;
+  }
+
+  get(id: string): QueuedTask | undefined {
+    return this.tasks.get(id);
+  }
+
+  /**
+   * Tasks in priority order, optionally filtered by status
+   */
+  list(status?: QueuedTaskStatus): QueuedTask[] {
+    return Array.from(this.tasks.values())
+      .filter((t) => !status || t.status === status)
+      .sort(byPriority);
+  }
+
+  /**
+   * Tasks that ran out of attempts or could not be assigned
+   */
+  deadLetters(): QueuedTask[] {
+    return this.list('dead');
+  }
+
+  // ==========================================================================
+  // Processing
+  // ==========================================================================
+
+  /**
+   * Run queued tasks until every task has completed, been cancelled or dead-lettered
+   */
+  async processQueue(options: ProcessQueueOptions = {}): Promise<void> {
+    if (options.onEvent) this.listeners.add(options.onEvent);
+    try {
+      await this.drain();
+    } finally {
+      if (options.onEvent) this.listeners.delete(options.onEvent);
+    }
+  }
+
+  private async drain(): Promise<void> {
+    while (true) {
+      await this.syncFromStore();
+      this.dispatch();
+
+      const waiting = this.list('queued');
+      if (this.running.size === 0 && waiting.length === 0) break;
+
+      const wakeAt = Math.min(...waiting.map((t) => (t.nextAttemptAt ? Date.parse(t.nextAttemptAt) : Infinity)));
+      const timers: Array<Promise<void>> = Number.isFinite(wakeAt)
+        ? [new Promise((resolve) => setTimeout(resolve, Math.max(0, wakeAt - Date.now())))]
+        : [];
+
+      if (this.running.size === 0 && timers.length === 0) break;
+      await Promise.race([...Array.from(this.running.values()).map((r) => r.promise), ...timers]);
+    }
+
+    await this.flush();
+  }
+
+  /**
+   * Start every eligible task that has a free agent slot
+   */
+  private dispatch(): void {
+    const now = Date.now();
+    const busy = new Map<string, number>();
+    for (const id of this.running.keys()) {
+      const agent = this.tasks.get(id)?.agent;
+      if (agent) busy.set(agent, (busy.get(agent) || 0) + 1);
+    }
+
+    for (const task of this.list('queued')) {
+      if (task.nextAttemptAt && Date.parse(task.nextAttemptAt) > now) continue;
+
+      const agent = this.agents.selectBestAgent(task);
+      if (!agent) {
+        this.update(task, { status: 'dead', error: `No agent can handle "${task.type}" tasks` });
+        this.emit({ type: 'task:dead', task });
+        continue;
+      }
+
+      const inUse = busy.get(agent.name) || 0;
+      if (inUse >= (this.concurrency[agent.name] ?? this.defaultConcurrency)) continue;
+
+      busy.set(agent.name, inUse + 1);
+      this.start(task, agent.name);
+    }
+  }
+
+  private start(task: QueuedTask, agentName: string): void {
+    const controller = new AbortController();
+    this.update(task, { status: 'running', agent: agentName, attempts: task.attempts + 1, nextAttemptAt: undefined });
+    this.emit({ type: 'task:started', task });
+
+    const agentTask: AgentTask = {
+      id: task.id,
+      type: task.type,
+      payload: task.payload,
+      priority: task.priority,
+      timestamp: new Date(task.enqueuedAt),
+    };
+
+    const promise = this.agents
+      .get(agentName)!
+      .execute(agentTask, controller.signal)
+      .then(
+        (result) => this.settle(task, { result }),
+        (error) => this.settle(task, { error: errorMessage(error) })
+      )
+      .finally(() => this.running.delete(task.id));
+
+    this.running.set(task.id, { controller, promise });
+  }
+
+  private settle(task: QueuedTask, outcome: { result?: Record<string, unknown>; error?: string }): void {
+    if (task.status === 'cancelled') return;
+
+    if (outcome.error === undefined) {
+      this.update(task, { status: 'completed', result: outcome.result, error: undefined });
+      this.emit({ type: 'task:completed', task });
+      return;
+    }
+
+    if (task.attempts >= task.maxAttempts) {
+      this.update(task, { status: 'dead', error: outcome.error });
+      this.emit({ type: 'task:dead', task });
+      return;
+    }
+
+    const delayMs = backoffDelay(task.attempts, this.backoff);
+    this.update(task, {
+      status: 'queued',
+      error: outcome.error,
+      nextAttemptAt: new Date(Date.now() + delayMs).toISOString(),
+    });
+    this.emit({ type: 'task:retrying', task, delayMs });
+  }
+
+  /**
+   * Pick up tasks queued and cancellations made by another process
+   */
+  private async syncFromStore(): Promise<void> {
+    if (!this.store) return;
+
+    await this.flush();
+    for (const stored of await this.store.load()) {
+      const task = this.tasks.get(stored.id);
+      if (!task && stored.status === 'queued') {
+        this.tasks.set(stored.id, stored);
+      } else if (task && stored.status === 'cancelled' && !TERMINAL_STATUSES.includes(task.status)) {
+        this.cancel(task.id);
+      }
+    }
+  }
+
+  private emit(event: TaskQueueEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  private update(task: QueuedTask, changes: Partial<QueuedTask>): void {
+    Object.assign(task, changes, { updatedAt: new Date().toISOString() });
+    for (const key of Object.keys(changes) as Array<keyof QueuedTask>) {
+      if (changes[key] === undefined) delete task[key];
+    }
+    this.persist();
+  }
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+import {
+  HttpTrendProvider,
+  StaticTrendProvider,
+  computeTrends,
+  extractTrendQuery,
+  fetchTrends,
+  formatGrowth,
+  parseTimeframe,
+  parseTrendCsv,
+  resolveTrendQuery,
+  type TrendProvider,
+  type TrendSnapshot,
+} from './trends.js';
+import { FileTrendProvider } from './node/file-trend-provider.js';
+import { createMockTrendServer } from './node/mock-trend-server.js';
+import { L0Orchestrator } from './orchestrator.js';
+import { createPluginManager } from './plugins.js';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+function snapshot(hashtag: string, platform: string, volume: number, hoursAgo: number, location?: string): TrendSnapshot {
+  return { hashtag, platform, volume, capturedAt: new Date(now.getTime() - hoursAgo * 3_600_000).toISOString(), ...(location && { location }) };
+}
+
+const snapshots = [
+  snapshot('#EcoFriendly', 'TikTok', 600, 2, 'US'),
+  snapshot('#EcoFriendly', 'Instagram', 400, 20, 'GB'),
+  snapshot('#EcoFriendly', 'TikTok', 800, 30, 'US'),
+  snapshot('#GreenTech', 'TikTok', 300, 5, 'US'),
+  snapshot('#GreenTech', 'TikTok', 400, 40, 'US'),
+  snapshot('#NewDrop', 'Instagram', 50, 1),
+  snapshot('#Stale', 'TikTok', 900, 47),
+  snapshot('#TooOld', 'TikTok', 999, 49),
+];
+
+describe('computeTrends', () => {
+  it('should sum volume per window and measure growth against the previous one', () => {
+    const trends = computeTrends(snapshots, resolveTrendQuery({}, now));
+
+    expect(trends.map((t) => [t.hashtag, t.volume, t.previousVolume, t.growth])).toEqual([
+      ['#EcoFriendly', 1000, 800, 0.25],
+      ['#GreenTech', 300, 400, -0.25],
+      ['#NewDrop', 50, 0, null],
+    ]);
+    expect(trends[0].platforms).toEqual(['TikTok', 'Instagram']);
+  });
+
+  it('should filter by platform and location', () => {
+    const tiktokUs = computeTrends(snapshots, resolveTrendQuery({ platform: 'tiktok', location: 'us' }, now));
+    expect(tiktokUs.map((t) => [t.hashtag, t.volume])).toEqual([
+      ['#EcoFriendly', 600],
+      ['#GreenTech', 300],
+    ]);
+  });
+
+  it('should not add per-location volume to a worldwide snapshot in global queries', () => {
+    const mixed = [
+      snapshot('#EcoFriendly', 'TikTok', 1000, 2),
+      snapshot('#EcoFriendly', 'TikTok', 600, 2, 'US'),
+      snapshot('#EcoFriendly', 'TikTok', 300, 3, 'GB'),
+      snapshot('#EcoFriendly', 'TikTok', 500, 30, 'US'),
+      snapshot('#EcoFriendly', 'TikTok', 200, 30, 'GB'),
+    ];
+
+    const [global] = computeTrends(mixed, resolveTrendQuery({}, now));
+    expect([global.volume, global.previousVolume]).toEqual([1000, 700]);
+
+    const [us] = computeTrends(mixed, resolveTrendQuery({ location: 'US' }, now));
+    expect([us.volume, us.previousVolume]).toEqual([600, 500]);
+  });
+
+  it('should widen both windows with the timeframe', () => {
+    const [eco] = computeTrends(snapshots, resolveTrendQuery({ timeframe: '2d' }, now));
+    expect([eco.volume, eco.previousVolume]).toEqual([1800, 0]);
+  });
+});
+
+describe('trend queries', () => {
+  it('should resolve defaults and windows', () => {
+    expect(resolveTrendQuery({ location: 'us' }, now)).toEqual({
+      platform: 'all',
+      timeframe: '24h',
+      location: 'US',
+      since: '2026-10-18T12:00:00.000Z',
+      until: '2026-10-19T12:00:00.000Z',
+      previousSince: '2026-10-17T12:00:00.000Z',
+    });
+  });
+
+  it('should reject unknown platforms and timeframes', () => {
+    expect(() => resolveTrendQuery({ platform: 'myspace' })).toThrow('Unknown platform "myspace"');
+    expect(() => parseTimeframe('soon')).toThrow('Unknown timeframe "soon"');
+    expect(parseTimeframe('1w')).toEqual({ ms: 604_800_000, label: '1 week' });
+  });
+
+  it('should read platform and timeframe from request text', () => {
+    expect(extractTrendQuery('TikTok trends this week')).toEqual({ platform: 'TikTok', timeframe: '7d' });
+    expect(extractTrendQuery('trending hashtags in the last 12 hours on TikTok and Instagram')).toEqual({ timeframe: '12h' });
+    expect(extractTrendQuery('analyze trending hashtags')).toEqual({});
+    expect(extractTrendQuery('show trends over the last 0 days')).toEqual({});
+  });
+
+  it('should format growth', () => {
+    expect([formatGrowth(0.454), formatGrowth(-0.2), formatGrowth(0), formatGrowth(null)]).toEqual(['+45%', '-20%', '0%', 'new']);
+  });
+});
+
+describe('trend providers', () => {
+  it('should parse CSV exports', () => {
+    const csv = 'Hashtag,Platform,Location,Volume,CapturedAt\r\nEcoFriendly,tiktok,us,"1200",2026-10-19T10:00:00Z\r\n"#Green, Tech",IG,global,3,2026-10-19\r\n';
+
+    expect(parseTrendCsv(csv, 'trends.csv')).toEqual([
+      { hashtag: '#EcoFriendly', platform: 'TikTok', location: 'US', volume: 1200, capturedAt: '2026-10-19T10:00:00.000Z' },
+      { hashtag: '#Green, Tech', platform: 'Instagram', volume: 3, capturedAt: '2026-10-19T00:00:00.000Z' },
+    ]);
+    expect(() => parseTrendCsv('hashtag,platform,volume,capturedAt\n#A,TikTok,lots,2026-10-19', 'trends.csv')).toThrow(
+      'trends.csv: record 1 needs a volume of zero or more'
+    );
+  });
+
+  it('should read CSV and JSON files', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'vortex-trends-'));
+    try {
+      const csvPath = join(dir, 'trends.csv');
+      const jsonPath = join(dir, 'trends.json');
+      await writeFile(csvPath, 'hashtag,platform,volume,capturedAt\n#A,TikTok,10,2026-10-19T11:00:00Z\n');
+      await writeFile(jsonPath, JSON.stringify({ snapshots: [snapshot('#B', 'Twitter', 5, 1)] }));
+
+      const fromCsv = await fetchTrends(new FileTrendProvider({ path: csvPath }), {}, { now });
+      const fromJson = await fetchTrends(new FileTrendProvider({ path: jsonPath }), { platform: 'twitter' }, { now });
+
+      expect(fromCsv.trends.map((t) => [t.hashtag, t.volume])).toEqual([['#A', 10]]);
+      expect(fromJson).toMatchObject({ provider: jsonPath, trends: [{ hashtag: '#B', volume: 5 }] });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should count the limit after brand filtering', async () => {
+    const report = await fetchTrends(new StaticTrendProvider(snapshots), {}, { now, limit: 1, brand: { keywords: ['green'] } });
+
+    expect(report.trends.map((t) => t.hashtag)).toEqual(['#GreenTech']);
+    expect(report.filtered?.map((t) => t.hashtag)).toEqual(['#EcoFriendly', '#NewDrop']);
+  });
+
+  it('should fetch snapshots from the local mock server', async () => {
+    const server = createMockTrendServer(new StaticTrendProvider(snapshots));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const provider = new HttpTrendProvider({ baseUrl: `http://127.0.0.1:${port}/` });
+      const report = await fetchTrends(provider, { platform: 'TikTok', timeframe: '24h' }, { now });
+
+      expect(report.provider).toBe(`http://127.0.0.1:${port}/trends`);
+      expect(report.trends.map((t) => t.hashtag)).toEqual(['#EcoFriendly', '#GreenTech']);
+      await expect(fetchTrends(new HttpTrendProvider({ baseUrl: `http://127.0.0.1:${port}/missing` }))).rejects.toThrow(
+        'Trend request failed (404)'
+      );
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
+describe('L0Orchestrator trend analysis', () => {
+  it('should report computed volume and growth', async () => {
+    // Shift the snapshots so they end when the orchestrator asks
+    const trends: TrendProvider = {
+      name: 'fixture',
+      fetchSnapshots: async (query) =>
+        snapshots.map((s) => ({ ...s, capturedAt: new Date(Date.parse(s.capturedAt) + Date.parse(query.until) - now.getTime()).toISOString() })),
+    };
+    const orchestrator = new L0Orchestrator({ plugins: createPluginManager(true), trends });
+    const response = await orchestrator.analyzeTrends('trends', { platform: 'TikTok', timeframe: '24h', location: 'US' });
+
+    expect(response.workflowDefinition?.inputs).toMatchObject({ platform: 'TikTok', timeframe: '24h', location: 'US' });
+    expect(response.data).toMatchObject({
+      trendingHashtags: [
+        { hashtag: '#EcoFriendly', volume: '600', growth: '-25%', posts: 600, growthRate: -0.25, platforms: ['TikTok'] },
+        { hashtag: '#GreenTech', volume: '300', growth: '-25%', posts: 300, growthRate: -0.25, platforms: ['TikTok'] },
+      ],
+      analysisTime: 'Last 24 hours',
+      location: 'US',
+      platforms: ['TikTok'],
+      source: 'fixture',
+    });
+  });
+
+  it('should compute the sample data when no provider is configured', async () => {
+    const orchestrator = new L0Orchestrator({ plugins: createPluginManager(true) });
+    const response = await orchestrator.query('analyze TikTok trending hashtags this week');
+    const data = response.data as Record<string, any>;
+
+    expect(response.message).toBe('📈 Trend Analysis Complete: TikTok, worldwide, last 7 days');
+    expect(data.trendingHashtags[0]).toMatchObject({ hashtag: '#EcoFriendly', growth: '+45%', platforms: ['TikTok'] });
+    expect(data.trendingHashtags.at(-1)).toMatchObject({ hashtag: '#ZeroWaste', growth: '-7%' });
+    expect(data.recommendations).toEqual([
+      expect.stringMatching(/^Lead with #EcoFriendly: \d+K posts, \+45%$/),
+      'Ride #SustainableLiving, the fastest riser at +32%',
+      'Ease off #ZeroWaste: volume is falling',
+    ]);
+  });
+
+  it('should say trends are unavailable when the provider fails', async () => {
+    const trends = new HttpTrendProvider({ baseUrl: 'http://127.0.0.1:9', fetch: async () => Promise.reject(new Error('connect ECONNREFUSED')) });
+    const orchestrator = new L0Orchestrator({ plugins: createPluginManager(true), trends });
+    const response = await orchestrator.query('analyze TikTok trending hashtags this week');
+
+    expect(response.message).toBe('📈 Trends unavailable for TikTok, worldwide, last 7 days: connect ECONNREFUSED');
+    expect(response.data).toEqual({ source: 'http://127.0.0.1:9/trends', timeframe: '7d', location: 'global', trendsError: 'connect ECONNREFUSED' });
+    await expect(orchestrator.analyzeTrends('trends', { platform: 'myspace' })).rejects.toThrow('Unknown platform "myspace"');
+  });
+});
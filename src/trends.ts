@@ -0,0 +1,488 @@
+/**
+ * VortexAI L0 Trend Data
+ *
+ * Trend providers return hashtag volume snapshots for a platform, timeframe
+ * and location; volume and growth are computed from those snapshots
+ * @module trends
+ */
+
+import { extractEntities, normalizePlatform } from './session.js';
+import { rankForBrand, type BrandProfile, type FilteredTrend } from './brand.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * What to look up trends for
+ */
+export interface TrendQuery {
+  /** Canonical platform name, or `all` (default: all) */
+  platform?: string;
+  /** Window such as `24h`, `7d` or `4w` (default: 24h) */
+  timeframe?: string;
+  /** Location code such as `US`, or `global` (default: global) */
+  location?: string;
+}
+
+/**
+ * A trend query with defaults applied and the windows it covers
+ */
+export interface ResolvedTrendQuery {
+  platform: string;
+  timeframe: string;
+  location: string;
+  /** Start of the current window (exclusive), ISO timestamp */
+  since: string;
+  /** End of the current window (inclusive), ISO timestamp */
+  until: string;
+  /** Start of the previous window growth is measured against, ISO timestamp */
+  previousSince: string;
+}
+
+/**
+ * Posts using a hashtag since the previous snapshot
+ */
+export interface TrendSnapshot {
+  hashtag: string;
+  platform: string;
+  /** Omitted for worldwide counts */
+  location?: string;
+  volume: number;
+  /** ISO timestamp */
+  capturedAt: string;
+}
+
+/**
+ * Source of trend snapshots
+ *
+ * Providers may return more than the query asks for; {@link computeTrends}
+ * filters by platform, location and window.
+ */
+export interface TrendProvider {
+  readonly name: string;
+  fetchSnapshots(query: ResolvedTrendQuery): Promise<TrendSnapshot[]>;
+}
+
+export interface TrendStat {
+  hashtag: string;
+  platforms: string[];
+  /** Posts in the current window */
+  volume: number;
+  /** Posts in the window before it */
+  previousVolume: number;
+  /** Change from the previous window as a fraction, or null when it had no posts */
+  growth: number | null;
+}
+
+export interface TrendReport {
+  query: ResolvedTrendQuery;
+  provider: string;
+  /** With a brand, the trends kept, most relevant first */
+  trends: (TrendStat & { relevanceScore?: number; rationale?: string })[];
+  /** Trends dropped as off-brand or unsafe, present with a brand */
+  filtered?: FilteredTrend[];
+}
+
+export interface FetchTrendsOptions {
+  /** End of the current window (default: now) */
+  now?: Date;
+  /** Most trends to return, counted after brand filtering (default: 10) */
+  limit?: number;
+  /** Score trends against this brand and drop off-brand and unsafe ones */
+  brand?: BrandProfile;
+}
+
+export interface HttpTrendProviderOptions {
+  /** Server root; snapshots are fetched from `<baseUrl>/trends` */
+  baseUrl: string;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Fetch implementation (default: global `fetch`) */
+  fetch?: typeof fetch;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_TREND_TIMEFRAME = '24h';
+export const ALL_TREND_PLATFORMS = 'all';
+export const GLOBAL_LOCATION = 'global';
+
+const DEFAULT_TREND_LIMIT = 10;
+const HOUR_MS = 60 * 60 * 1000;
+const TIMEFRAME_PATTERN = /^(\d+)\s*(h|d|w)$/i;
+const TIMEFRAME_UNITS: Record<string, { ms: number; name: string }> = {
+  h: { ms: HOUR_MS, name: 'hour' },
+  d: { ms: 24 * HOUR_MS, name: 'day' },
+  w: { ms: 7 * 24 * HOUR_MS, name: 'week' },
+};
+const ERROR_BODY_LENGTH = 200;
+// Counts start at 1, so "the last 0 days" falls back to the default timeframe
+const TIMEFRAME_TEXT_PATTERN = /\b(?:last|past)?\s*([1-9]\d*)\s*(h|hours?|d|days?|w|weeks?)\b/i;
+const TIMEFRAME_PHRASES: [RegExp, string][] = [
+  [/\b(today|daily)\b/i, '24h'],
+  [/\b(this|last|past) week\b|\bweekly\b/i, '7d'],
+  [/\b(this|last|past) month\b|\bmonthly\b/i, '30d'],
+];
+
+// Sample data: daily posts today and the day-over-day growth that produced them
+const SAMPLE_HASHTAGS = [
+  { hashtag: '#EcoFriendly', daily: 330_000, growth: 0.055 },
+  { hashtag: '#SustainableLiving', daily: 260_000, growth: 0.04 },
+  { hashtag: '#GreenTech', daily: 120_000, growth: 0.035 },
+  { hashtag: '#ZeroWaste', daily: 90_000, growth: -0.01 },
+];
+const SAMPLE_PLATFORM_SHARES: Record<string, number> = { TikTok: 0.45, Instagram: 0.35, Twitter: 0.2 };
+const SAMPLE_LOCATION_SHARES: Record<string, number> = { US: 0.5, GB: 0.3, DE: 0.2 };
+const SAMPLE_DAYS = 60;
+
+// ============================================================================
+// Query Helpers
+// ============================================================================
+
+/**
+ * Length of a timeframe such as `24h`, `7d` or `4w`
+ *
+ * @throws Error for anything else
+ */
+export function parseTimeframe(timeframe: string): { ms: number; label: string } {
+  const match = timeframe.trim().match(TIMEFRAME_PATTERN);
+  if (!match || Number(match[1]) < 1) {
+    throw new Error(`Unknown timeframe "${timeframe}": use hours, days or weeks such as 24h, 7d or 4w`);
+  }
+
+  const count = Number(match[1]);
+  const unit = TIMEFRAME_UNITS[match[2].toLowerCase()];
+  return { ms: count * unit.ms, label: `${count} ${unit.name}${count === 1 ? '' : 's'}` };
+}
+
+/**
+ * Apply defaults and work out the current and previous windows
+ *
+ * @throws Error for an unknown platform or timeframe
+ */
+export function resolveTrendQuery(query: TrendQuery = {}, now: Date = new Date()): ResolvedTrendQuery {
+  const requested = query.platform?.trim() || ALL_TREND_PLATFORMS;
+  const platform = requested.toLowerCase() === ALL_TREND_PLATFORMS ? ALL_TREND_PLATFORMS : normalizePlatform(requested);
+  if (!platform) {
+    throw new Error(`Unknown platform "${requested}"`);
+  }
+
+  const timeframe = query.timeframe?.trim() || DEFAULT_TREND_TIMEFRAME;
+  const { ms } = parseTimeframe(timeframe);
+  const location = query.location?.trim() || GLOBAL_LOCATION;
+
+  return {
+    platform,
+    timeframe,
+    location: location.toLowerCase() === GLOBAL_LOCATION ? GLOBAL_LOCATION : location.toUpperCase(),
+    since: new Date(now.getTime() - ms).toISOString(),
+    until: now.toISOString(),
+    previousSince: new Date(now.getTime() - 2 * ms).toISOString(),
+  };
+}
+
+/**
+ * Platform and timeframe mentioned in a request
+ *
+ * A platform is only taken when exactly one is named, e.g.
+ * "TikTok trends this week" → `{ platform: 'TikTok', timeframe: '7d' }`.
+ */
+export function extractTrendQuery(text: string): TrendQuery {
+  const platforms = extractEntities(text).platforms || [];
+  const match = text.match(TIMEFRAME_TEXT_PATTERN);
+  const timeframe = match ? `${match[1]}${match[2][0].toLowerCase()}` : TIMEFRAME_PHRASES.find(([pattern]) => pattern.test(text))?.[1];
+
+  return {
+    ...(platforms.length === 1 && { platform: platforms[0] }),
+    ...(timeframe && { timeframe }),
+  };
+}
+
+/**
+ * Growth as a signed percentage, e.g. `+45%`, or `new` when there is no baseline
+ */
+export function formatGrowth(growth: number | null): string {
+  if (growth === null) return 'new';
+  const percent = Math.round(growth * 100);
+  return `${percent > 0 ? '+' : ''}${percent}%`;
+}
+
+// ============================================================================
+// Computation
+// ============================================================================
+
+/**
+ * Volume and growth per hashtag
+ *
+ * Volume is the sum of snapshots in the current window; growth compares it
+ * with the window of the same length just before. Hashtags without posts in
+ * the current window are left out. Results are sorted by volume.
+ *
+ * For a global query, worldwide snapshots (those without a location) stand
+ * for the whole platform, so per-location snapshots of the same hashtag,
+ * platform and window are only summed when there is no worldwide one.
+ */
+export function computeTrends(snapshots: TrendSnapshot[], query: ResolvedTrendQuery): TrendStat[] {
+  const until = Date.parse(query.until);
+  const since = Date.parse(query.since);
+  const previousSince = Date.parse(query.previousSince);
+  const stats = new Map<string, TrendStat>();
+
+  const inWindow = snapshots.filter((snapshot) => {
+    if (query.platform !== ALL_TREND_PLATFORMS && snapshot.platform !== query.platform) return false;
+    if (query.location !== GLOBAL_LOCATION && snapshot.location?.toUpperCase() !== query.location) return false;
+    const time = Date.parse(snapshot.capturedAt);
+    return time > previousSince && time <= until;
+  });
+  const seriesOf = (snapshot: TrendSnapshot) =>
+    `${snapshot.hashtag.toLowerCase()}|${snapshot.platform}|${Date.parse(snapshot.capturedAt) > since}`;
+  const worldwide = new Set(inWindow.filter((snapshot) => !snapshot.location).map(seriesOf));
+
+  for (const snapshot of inWindow) {
+    if (snapshot.location && worldwide.has(seriesOf(snapshot))) continue;
+
+    const key = snapshot.hashtag.toLowerCase();
+    const stat = stats.get(key) || { hashtag: snapshot.hashtag, platforms: [], volume: 0, previousVolume: 0, growth: null };
+    if (Date.parse(snapshot.capturedAt) > since) {
+      stat.volume += snapshot.volume;
+      if (!stat.platforms.includes(snapshot.platform)) stat.platforms.push(snapshot.platform);
+    } else {
+      stat.previousVolume += snapshot.volume;
+    }
+    stats.set(key, stat);
+  }
+
+  return Array.from(stats.values())
+    .filter((stat) => stat.volume > 0)
+    .map((stat) => ({ ...stat, growth: stat.previousVolume > 0 ? (stat.volume - stat.previousVolume) / stat.previousVolume : null }))
+    .sort((a, b) => b.volume - a.volume || a.hashtag.localeCompare(b.hashtag));
+}
+
+/**
+ * Look up trends from a provider
+ *
+ * With a brand, trends are ranked by relevance and filtered before the limit
+ * is applied, so up to `limit` on-brand trends come back.
+ *
+ * @example
+ * ```typescript
+ * const report = await fetchTrends(new HttpTrendProvider({ baseUrl: 'http://localhost:4319' }), { platform: 'TikTok', timeframe: '7d' });
+ * report.trends.forEach((t) => console.log(t.hashtag, formatCount(t.volume), formatGrowth(t.growth)));
+ * ```
+ */
+export async function fetchTrends(provider: TrendProvider, query: TrendQuery = {}, options: FetchTrendsOptions = {}): Promise<TrendReport> {
+  const resolved = resolveTrendQuery(query, options.now);
+  const snapshots = await provider.fetchSnapshots(resolved);
+  const trends = computeTrends(snapshots, resolved);
+  const limit = options.limit ?? DEFAULT_TREND_LIMIT;
+
+  if (!options.brand) {
+    return { query: resolved, provider: provider.name, trends: trends.slice(0, limit) };
+  }
+  const { ranked, filtered } = rankForBrand(trends, options.brand);
+  return { query: resolved, provider: provider.name, trends: ranked.slice(0, limit), filtered };
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function fieldOf(record: Record<string, unknown>, name: string): unknown {
+  const key = Object.keys(record).find((k) => k.trim().toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : record[key];
+}
+
+/**
+ * Validate raw records as snapshots
+ *
+ * Field names are matched case-insensitively, volumes may be numeric strings,
+ * known platform aliases are normalized and hashtags gain a leading `#`.
+ *
+ * @param source - Named in error messages, e.g. a file path
+ * @throws Error naming the first invalid record
+ */
+export function parseTrendSnapshots(records: unknown[], source: string): TrendSnapshot[] {
+  return records.map((record, index) => {
+    const fail = (problem: string): never => {
+      throw new Error(`${source}: record ${index + 1} ${problem}`);
+    };
+    if (!record || typeof record !== 'object') fail('is not an object');
+
+    const fields = record as Record<string, unknown>;
+    const hashtag = String(fieldOf(fields, 'hashtag') ?? '').trim();
+    const platform = String(fieldOf(fields, 'platform') ?? '').trim();
+    const location = String(fieldOf(fields, 'location') ?? '').trim();
+    const rawVolume = fieldOf(fields, 'volume');
+    const volume = typeof rawVolume === 'string' && rawVolume.trim() ? Number(rawVolume) : rawVolume;
+    const capturedAt = Date.parse(String(fieldOf(fields, 'capturedAt') ?? ''));
+
+    if (!hashtag) fail('has no hashtag');
+    if (!platform) fail('has no platform');
+    if (typeof volume !== 'number' || !Number.isFinite(volume) || volume < 0) fail('needs a volume of zero or more');
+    if (Number.isNaN(capturedAt)) fail('needs a capturedAt date');
+
+    return {
+      hashtag: hashtag.startsWith('#') ? hashtag : `#${hashtag}`,
+      platform: normalizePlatform(platform) || platform,
+      ...(location && location.toLowerCase() !== GLOBAL_LOCATION && { location: location.toUpperCase() }),
+      volume: volume as number,
+      capturedAt: new Date(capturedAt).toISOString(),
+    };
+  });
+}
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim()));
+}
+
+/**
+ * Parse snapshots from CSV with a header row
+ *
+ * Columns: `hashtag`, `platform`, `volume`, `capturedAt` and optionally `location`.
+ */
+export function parseTrendCsv(text: string, source: string): TrendSnapshot[] {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return [];
+  return parseTrendSnapshots(
+    rows.map((row) => Object.fromEntries(header.map((column, i) => [column, row[i]]))),
+    source
+  );
+}
+
+/**
+ * Parse snapshots from JSON: a list of snapshots or `{ "snapshots": [...] }`
+ */
+export function parseTrendJson(data: unknown, source: string): TrendSnapshot[] {
+  const records = Array.isArray(data) ? data : (data as { snapshots?: unknown } | null)?.snapshots;
+  if (!Array.isArray(records)) {
+    throw new Error(`${source}: expected a list of snapshots or { "snapshots": [...] }`);
+  }
+  return parseTrendSnapshots(records, source);
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * Provider over a fixed list of snapshots
+ */
+export class StaticTrendProvider implements TrendProvider {
+  constructor(
+    private readonly snapshots: TrendSnapshot[],
+    readonly name: string = 'static'
+  ) {}
+
+  async fetchSnapshots(): Promise<TrendSnapshot[]> {
+    return this.snapshots;
+  }
+}
+
+/**
+ * Provider that fetches snapshots from an HTTP endpoint
+ *
+ * Sends `GET <baseUrl>/trends?platform=&timeframe=&location=&since=&until=`
+ * and accepts the same JSON as {@link parseTrendJson}. Works against a local
+ * mock server during development and a real trend service later.
+ */
+export class HttpTrendProvider implements TrendProvider {
+  readonly name: string;
+  private readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: HttpTrendProviderOptions) {
+    this.url = `${options.baseUrl.replace(/\/+$/, '')}/trends`;
+    this.name = this.url;
+    this.headers = options.headers || {};
+    this.fetchImpl = options.fetch || fetch;
+  }
+
+  async fetchSnapshots(query: ResolvedTrendQuery): Promise<TrendSnapshot[]> {
+    const params = new URLSearchParams({
+      platform: query.platform,
+      timeframe: query.timeframe,
+      location: query.location,
+      since: query.previousSince,
+      until: query.until,
+    });
+    const response = await this.fetchImpl(`${this.url}?${params}`, { headers: { accept: 'application/json', ...this.headers } });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`Trend request failed (${response.status}): ${text.slice(0, ERROR_BODY_LENGTH)}`);
+    }
+    return parseTrendJson(await response.json(), this.url);
+  }
+}
+
+/**
+ * Daily sample snapshots ending at `until`, for demos and offline use
+ */
+export function sampleTrendSnapshots(until: Date = new Date()): TrendSnapshot[] {
+  const snapshots: TrendSnapshot[] = [];
+  for (let day = 0; day < SAMPLE_DAYS; day++) {
+    const capturedAt = new Date(until.getTime() - day * TIMEFRAME_UNITS.d.ms).toISOString();
+    for (const { hashtag, daily, growth } of SAMPLE_HASHTAGS) {
+      const volume = daily / Math.pow(1 + growth, day);
+      for (const [platform, platformShare] of Object.entries(SAMPLE_PLATFORM_SHARES)) {
+        for (const [location, locationShare] of Object.entries(SAMPLE_LOCATION_SHARES)) {
+          snapshots.push({ hashtag, platform, location, volume: Math.round(volume * platformShare * locationShare), capturedAt });
+        }
+      }
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * Provider of {@link sampleTrendSnapshots} that always end at the queried time
+ */
+export class SampleTrendProvider implements TrendProvider {
+  readonly name = 'sample data';
+
+  async fetchSnapshots(query: ResolvedTrendQuery): Promise<TrendSnapshot[]> {
+    return sampleTrendSnapshots(new Date(query.until));
+  }
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  WorkflowEngine,
+  defineWorkflow,
+  resolveStepInputs,
+  sequentialWorkflow,
+  workflowLabels,
+  type WorkflowEvent,
+} from './workflow.js';
+import { L0Orchestrator } from './orchestrator.js';
+import { createPluginManager } from './plugins.js';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const diamond = () =>
+  defineWorkflow(
+    'diamond',
+    'Diamond',
+    [
+      { id: 'start', label: 'Start', handler: 'echo', inputs: { topic: '{{input.topic}}' }, outputs: ['topic'] },
+      { id: 'left', label: 'Left', handler: 'slow', dependencies: ['start'] },
+      { id: 'right', label: 'Right', handler: 'slow', dependencies: ['start'] },
+      { id: 'join', label: 'Join', handler: 'echo', inputs: { topic: 'joined {{start.topic}}' }, dependencies: ['left', 'right'] },
+    ],
+    { topic: 'launch' }
+  );
+
+describe('defineWorkflow', () => {
+  it('should reject duplicate ids, unknown dependencies and cycles', () => {
+    expect(() => defineWorkflow('w', 'W', [
+      { id: 'a', label: 'A', handler: 'x' },
+      { id: 'a', label: 'A', handler: 'x' },
+    ])).toThrow(/duplicate step id/);
+
+    expect(() => defineWorkflow('w', 'W', [
+      { id: 'a', label: 'A', handler: 'x', dependencies: ['missing'] },
+    ])).toThrow(/unknown step "missing"/);
+
+    expect(() => defineWorkflow('w', 'W', [
+      { id: 'a', label: 'A', handler: 'x', dependencies: ['b'] },
+      { id: 'b', label: 'B', handler: 'x', dependencies: ['a'] },
+    ])).toThrow(/cycle involving: a, b/);
+  });
+
+  it('should chain sequential steps', () => {
+    const workflow = sequentialWorkflow('seq', 'Seq', ['One', { label: 'Two', handler: 'custom' }]);
+    expect(workflow.steps[1]).toEqual({ id: 'step-2', label: 'Two', handler: 'custom', dependencies: ['step-1'] });
+    expect(workflowLabels(workflow)).toEqual(['One', 'Two']);
+  });
+});
+
+describe('resolveStepInputs', () => {
+  it('should resolve whole references to raw values and interpolate the rest', () => {
+    const resolved = resolveStepInputs(
+      { items: '{{research.items}}', title: 'Plan for {{input.product}}', count: 3 },
+      { product: 'EcoBottle' },
+      { research: { items: ['a', 'b'] } }
+    );
+    expect(resolved).toEqual({ items: ['a', 'b'], title: 'Plan for EcoBottle', count: 3 });
+  });
+});
+
+describe('WorkflowEngine', () => {
+  const createEngine = (log: string[] = []) =>
+    new WorkflowEngine({
+      handlers: {
+        echo: async ({ inputs }) => ({ topic: inputs.topic }),
+        slow: async ({ step }) => {
+          log.push(`start:${step.id}`);
+          await delay(10);
+          log.push(`end:${step.id}`);
+          return {};
+        },
+      },
+    });
+
+  it('should run independent branches in parallel and pass outputs downstream', async () => {
+    const log: string[] = [];
+    const run = await createEngine(log).run(diamond());
+
+    expect(run.status).toBe('completed');
+    expect(log.slice(0, 2)).toEqual(['start:left', 'start:right']);
+    expect(run.steps.join.outputs).toEqual({ topic: 'joined launch' });
+  });
+
+  it('should respect maxConcurrency', async () => {
+    const log: string[] = [];
+    await createEngine(log).run(diamond(), { maxConcurrency: 1 });
+    expect(log).toEqual(['start:left', 'end:left', 'start:right', 'end:right']);
+  });
+
+  it('should skip dependents of a failed step and keep other branches running', async () => {
+    const engine = createEngine();
+    engine.registerHandler('slow', async ({ step }) => {
+      if (step.id === 'left') throw new Error('boom');
+      return {};
+    });
+
+    const run = await engine.run(diamond());
+    expect(run.status).toBe('failed');
+    expect(run.steps.left).toMatchObject({ status: 'failed', error: 'boom' });
+    expect(run.steps.right.status).toBe('completed');
+    expect(run.steps.join.status).toBe('skipped');
+  });
+
+  it('should fail steps without a handler when no fallback is configured', async () => {
+    const engine = new WorkflowEngine({ fallbackHandler: null });
+    const run = await engine.run(sequentialWorkflow('w', 'W', ['Only']));
+    expect(run.steps['step-1'].error).toMatch(/No handler registered for "task"/);
+  });
+
+  it('should stop scheduling steps once cancelled', async () => {
+    const controller = new AbortController();
+    const engine = createEngine();
+    engine.registerHandler('echo', async ({ step }) => {
+      if (step.id === 'start') controller.abort();
+      return {};
+    });
+
+    const run = await engine.run(diamond(), { signal: controller.signal });
+    expect(run.status).toBe('cancelled');
+    expect(run.steps.start.status).toBe('completed');
+    expect(run.steps.join.status).toBe('cancelled');
+  });
+
+  it('should stream progress events ending with the finished run', async () => {
+    const events: WorkflowEvent[] = [];
+    for await (const event of createEngine().stream(diamond())) {
+      events.push(event);
+    }
+
+    expect(events[0].type).toBe('workflow:started');
+    expect(events.filter((e) => e.type === 'step:completed')).toHaveLength(4);
+    const last = events[events.length - 1];
+    expect(last.type === 'workflow:finished' && last.run.status).toBe('completed');
+  });
+});
+
+describe('L0Orchestrator workflows', () => {
+  const orchestrator = new L0Orchestrator(createPluginManager(true));
+
+  it('should return executable definitions matching the display strings', async () => {
+    const response = await orchestrator.orchestrateCampaign('viral campaign');
+    expect(response.workflowDefinition).toBeDefined();
+    expect(workflowLabels(response.workflowDefinition!)).toEqual(response.workflow);
+
+    const run = await orchestrator.runWorkflow(response.workflowDefinition!);
+    expect(run.status).toBe('completed');
+    expect(run.inputs.request).toBe('viral campaign');
+  });
+
+  it('should give plugin workflows an executable definition', async () => {
+    const response = await orchestrator.query('deploy to production');
+    expect(response.workflowDefinition?.id).toBe('dev-tools:deploy');
+  });
+
+  it('should build a sequential definition for string-only plugin workflows', async () => {
+    const manager = createPluginManager(false);
+    manager.register({
+      metadata: { name: 'legacy', version: '1.0.0', description: 'Legacy workflow' },
+      triggers: ['legacy'],
+      handler: async () => ({ message: 'ok', type: 'orchestration', workflow: ['First', 'Second'] }),
+    });
+
+    const response = await manager.execute('legacy task');
+    expect(response?.workflowDefinition?.steps.map((s) => s.dependencies)).toEqual([undefined, ['step-1']]);
+  });
+});
@@ -0,0 +1,543 @@
+/**
+ * VortexAI L0 Workflow Engine
+ *
+ * Typed workflow definitions executed as a dependency graph with parallel branches
+ * @module workflow
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type StepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'cancelled';
+export type WorkflowStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * One unit of work in a workflow
+ *
+ * String input values may reference workflow inputs or upstream outputs with
+ * `{{input.<name>}}` and `{{<stepId>.<output>}}`. A value that is exactly one
+ * reference resolves to the raw value; otherwise references are interpolated.
+ */
+export interface WorkflowStep {
+  id: string;
+  /** Human-readable label, shown in `L0Response.workflow` */
+  label: string;
+  /** Name of the step handler that performs the work */
+  handler: string;
+  inputs?: Record<string, unknown>;
+  /** Output keys the handler is expected to produce */
+  outputs?: string[];
+  /** Ids of steps that must complete before this one starts */
+  dependencies?: string[];
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  steps: WorkflowStep[];
+  /** Default workflow inputs, overridable per run */
+  inputs?: Record<string, unknown>;
+  /** Agents the steps may be delegated to (default: any registered agent) */
+  agents?: string[];
+}
+
+export interface StepContext {
+  runId: string;
+  step: WorkflowStep;
+  /** Step inputs with references resolved */
+  inputs: Record<string, unknown>;
+  /** Outputs of completed dependencies, keyed by step id */
+  dependencies: Record<string, Record<string, unknown>>;
+  /** Agents the workflow restricts delegation to, from `WorkflowDefinition.agents` */
+  agents?: string[];
+  signal?: AbortSignal;
+}
+
+export type StepHandler = (context: StepContext) => Promise<Record<string, unknown>>;
+
+export interface StepState {
+  status: StepStatus;
+  outputs?: Record<string, unknown>;
+  error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+}
+
+export interface WorkflowRun {
+  id: string;
+  workflowId: string;
+  name: string;
+  status: WorkflowStatus;
+  inputs: Record<string, unknown>;
+  steps: Record<string, StepState>;
+  startedAt: string;
+  finishedAt?: string;
+  /** Set when the run was continued with `resume` */
+  resumedAt?: string;
+}
+
+interface EventBase {
+  runId: string;
+  timestamp: string;
+}
+
+export type WorkflowEvent =
+  | (EventBase & { type: 'workflow:started'; workflowId: string; run: WorkflowRun; resumedSteps?: string[] })
+  | (EventBase & { type: 'step:started'; stepId: string })
+  | (EventBase & { type: 'step:completed'; stepId: string; outputs: Record<string, unknown>; durationMs: number })
+  | (EventBase & { type: 'step:failed'; stepId: string; error: string; durationMs: number })
+  | (EventBase & { type: 'step:skipped'; stepId: string; reason: string })
+  | (EventBase & { type: 'workflow:finished'; status: WorkflowStatus; run: WorkflowRun });
+
+type EmittedEvent = WorkflowEvent extends infer E ? (E extends WorkflowEvent ? Omit<E, 'timestamp'> : never) : never;
+type Emit = (event: EmittedEvent) => void;
+
+export interface WorkflowRunOptions {
+  /** Overrides for the definition's default inputs */
+  inputs?: Record<string, unknown>;
+  /** Explicit run id (default: generated) */
+  runId?: string;
+  /** Maximum steps running at once (default: unlimited) */
+  maxConcurrency?: number;
+  /** Called for every progress event, in order */
+  onEvent?: (event: WorkflowEvent) => void;
+  /** Stops scheduling new steps; steps not yet started are marked cancelled */
+  signal?: AbortSignal;
+  /**
+   * Continue an earlier run of the same workflow
+   *
+   * Completed steps keep their outputs and are not run again; every other
+   * step runs as normal. The run keeps its id and inputs.
+   */
+  resume?: WorkflowRun;
+}
+
+export interface WorkflowEngineOptions {
+  handlers?: Record<string, StepHandler>;
+  /** Used for steps whose handler is not registered (default: {@link simulatedStepHandler}) */
+  fallbackHandler?: StepHandler | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const REFERENCE_PATTERN = /\{\{\s*([\w-]+)\.([\w-]+)\s*\}\}/g;
+const SINGLE_REFERENCE_PATTERN = /^\{\{\s*([\w-]+)\.([\w-]+)\s*\}\}$/;
+
+// ============================================================================
+// Definition Helpers
+// ============================================================================
+
+/**
+ * Check a workflow definition and throw on duplicate ids, unknown dependencies or cycles
+ */
+export function validateWorkflow(definition: WorkflowDefinition): void {
+  const ids = new Set<string>();
+
+  for (const step of definition.steps) {
+    if (ids.has(step.id)) {
+      throw new Error(`Workflow "${definition.id}" has duplicate step id "${step.id}"`);
+    }
+    ids.add(step.id);
+  }
+
+  for (const step of definition.steps) {
+    for (const dependency of step.dependencies || []) {
+      if (!ids.has(dependency)) {
+        throw new Error(`Step "${step.id}" depends on unknown step "${dependency}"`);
+      }
+    }
+  }
+
+  // Kahn's algorithm: any step left unvisited is part of a cycle
+  const remaining = new Map(definition.steps.map((s) => [s.id, new Set(s.dependencies || [])]));
+  let progressed = true;
+  while (remaining.size > 0 && progressed) {
+    progressed = false;
+    for (const [id, deps] of remaining) {
+      if ([...deps].every((d) => !remaining.has(d))) {
+        remaining.delete(id);
+        progressed = true;
+      }
+    }
+  }
+
+  if (remaining.size > 0) {
+    throw new Error(`Workflow "${definition.id}" has a dependency cycle involving: ${[...remaining.keys()].join(', ')}`);
+  }
+}
+
+/**
+ * Build and validate a workflow definition
+ *
+ * @example
+ * ```typescript
+ * const workflow = defineWorkflow('launch', 'Product Launch', [
+ *   { id: 'research', label: 'Research', handler: 'research', outputs: ['insights'] },
+ *   { id: 'copy', label: 'Write copy', handler: 'content', dependencies: ['research'],
+ *     inputs: { brief: '{{research.insights}}' } },
+ * ]);
+ * ```
+ */
+export function defineWorkflow(
+  id: string,
+  name: string,
+  steps: WorkflowStep[],
+  inputs?: Record<string, unknown>
+): WorkflowDefinition {
+  const definition: WorkflowDefinition = { id, name, steps, ...(inputs && { inputs }) };
+  validateWorkflow(definition);
+  return definition;
+}
+
+/**
+ * Display strings for a workflow, in definition order
+ */
+export function workflowLabels(definition: WorkflowDefinition): string[] {
+  return definition.steps.map((step) => step.label);
+}
+
+/**
+ * Build a linear workflow where each step depends on the one before it
+ *
+ * Steps are given as labels, or as `{ label, handler }` pairs; plain labels
+ * use `defaultHandler`. Also used to give plain string workflows from
+ * third-party plugins an executable definition.
+ */
+export function sequentialWorkflow(
+  id: string,
+  name: string,
+  steps: Array<string | { label: string; handler: string }>,
+  defaultHandler = 'task'
+): WorkflowDefinition {
+  return defineWorkflow(
+    id,
+    name,
+    steps.map((step, i) => ({
+      id: `step-${i + 1}`,
+      ...(typeof step === 'string' ? { label: step, handler: defaultHandler } : step),
+      ...(i > 0 && { dependencies: [`step-${i}`] }),
+    }))
+  );
+}
+
+function resolveReference(
+  source: string,
+  name: string,
+  inputs: Record<string, unknown>,
+  outputs: Record<string, Record<string, unknown>>
+): unknown {
+  return source === 'input' ? inputs[name] : outputs[source]?.[name];
+}
+
+/**
+ * Replace `{{input.x}}` and `{{step.output}}` references in step inputs
+ */
+export function resolveStepInputs(
+  stepInputs: Record<string, unknown> | undefined,
+  workflowInputs: Record<string, unknown>,
+  outputs: Record<string, Record<string, unknown>>
+): Record<string, unknown> {
+  const resolved: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(stepInputs || {})) {
+    if (typeof value !== 'string') {
+      resolved[key] = value;
+      continue;
+    }
+
+    const single = value.match(SINGLE_REFERENCE_PATTERN);
+    resolved[key] = single
+      ? resolveReference(single[1], single[2], workflowInputs, outputs)
+      : value.replace(REFERENCE_PATTERN, (_, source: string, name: string) =>
+          String(resolveReference(source, name, workflowInputs, outputs) ?? '')
+        );
+  }
+
+  return resolved;
+}
+
+/**
+ * Handler used when no real handler is registered
+ *
+ * Reports the step as done and fills each declared output with a short
+ * description, so that built-in workflows can run end to end offline.
+ */
+export const simulatedStepHandler: StepHandler = async ({ step, inputs }) => {
+  const outputs: Record<string, unknown> = { summary: `${step.label.replace(/^\W+/u, '').trim()} completed` };
+  for (const name of step.outputs || []) {
+    outputs[name] = inputs[name] ?? `${step.id}:${name}`;
+  }
+  return outputs;
+};
+
+/**
+ * Copy a run so later progress does not change the copy
+ */
+export function snapshotRun(run: WorkflowRun): WorkflowRun {
+  return {
+    ...run,
+    inputs: { ...run.inputs },
+    steps: Object.fromEntries(Object.entries(run.steps).map(([id, state]) => [id, { ...state }])),
+  };
+}
+
+function createRunId(): string {
+  return `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// ============================================================================
+// Workflow Engine Class
+// ============================================================================
+
+/**
+ * Runs workflow definitions as a DAG
+ *
+ * Steps start as soon as all their dependencies have completed, so
+ * independent branches run in parallel. When a step fails, steps that depend
+ * on it are skipped while unrelated branches keep running.
+ *
+ * @example
+ * ```typescript
+ * import { WorkflowEngine } from 'vortexai-l0';
+ *
+ * const engine = new WorkflowEngine();
+ * engine.registerHandler('research', async ({ inputs }) => ({ insights: await research(inputs.topic) }));
+ *
+ * for await (const event of engine.stream(workflow)) {
+ *   console.log(event.type);
+ * }
+ * ```
+ */
+export class WorkflowEngine {
+  private readonly handlers: Map<string, StepHandler>;
+  private readonly fallbackHandler: StepHandler | null;
+
+  constructor(options: WorkflowEngineOptions = {}) {
+    this.handlers = new Map(Object.entries(options.handlers || {}));
+    this.fallbackHandler = options.fallbackHandler === undefined ? simulatedStepHandler : options.fallbackHandler;
+  }
+
+  // ==========================================================================
+  // Handler Registry
+  // ==========================================================================
+
+  registerHandler(name: string, handler: StepHandler): void {
+    this.handlers.set(name, handler);
+  }
+
+  unregisterHandler(name: string): boolean {
+    return this.handlers.delete(name);
+  }
+
+  hasHandler(name: string): boolean {
+    return this.handlers.has(name);
+  }
+
+  // ==========================================================================
+  // Execution
+  // ==========================================================================
+
+  /**
+   * Run a workflow to completion
+   *
+   * @returns The finished run; check `status` rather than expecting a rejection
+   */
+  async run(definition: WorkflowDefinition, options: WorkflowRunOptions = {}): Promise<WorkflowRun> {
+    validateWorkflow(definition);
+
+    const previous = options.resume;
+    if (previous && previous.workflowId !== definition.id) {
+      throw new Error(`Run "${previous.id}" belongs to workflow "${previous.workflowId}", not "${definition.id}"`);
+    }
+
+    const resumedSteps = definition.steps
+      .filter((s) => previous?.steps[s.id]?.status === 'completed')
+      .map((s) => s.id);
+
+    const run: WorkflowRun = {
+      id: previous?.id || options.runId || createRunId(),
+      workflowId: definition.id,
+      name: definition.name,
+      status: 'running',
+      inputs: previous ? { ...previous.inputs } : { ...definition.inputs, ...options.inputs },
+      steps: Object.fromEntries(
+        definition.steps.map((s) => [
+          s.id,
+          resumedSteps.includes(s.id) ? { ...previous!.steps[s.id] } : { status: 'pending' as StepStatus },
+        ])
+      ),
+      startedAt: previous?.startedAt || new Date().toISOString(),
+      ...(previous && { resumedAt: new Date().toISOString() }),
+    };
+
+    const emit: Emit = (event) => options.onEvent?.({ ...event, timestamp: new Date().toISOString() } as WorkflowEvent);
+    const maxConcurrency = options.maxConcurrency ?? Infinity;
+    const running = new Map<string, Promise<void>>();
+
+    emit({
+      type: 'workflow:started',
+      runId: run.id,
+      workflowId: definition.id,
+      run: snapshotRun(run),
+      ...(previous && { resumedSteps }),
+    });
+
+    while (true) {
+      this.skipBlockedSteps(definition, run, emit);
+
+      if (options.signal?.aborted) {
+        await Promise.all(running.values());
+        break;
+      }
+
+      const ready = definition.steps.filter(
+        (step) =>
+          run.steps[step.id].status === 'pending' &&
+          (step.dependencies || []).every((d) => run.steps[d].status === 'completed')
+      );
+
+      for (const step of ready.slice(0, Math.max(0, maxConcurrency - running.size))) {
+        const task = this.runStep(definition, step, run, emit, options.signal).finally(() => running.delete(step.id));
+        running.set(step.id, task);
+      }
+
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
+
+    for (const state of Object.values(run.steps)) {
+      if (state.status === 'pending') state.status = 'cancelled';
+    }
+
+    const states = Object.values(run.steps);
+    run.status = states.some((s) => s.status === 'failed')
+      ? 'failed'
+      : states.some((s) => s.status === 'cancelled')
+        ? 'cancelled'
+        : 'completed';
+    run.finishedAt = new Date().toISOString();
+
+    emit({ type: 'workflow:finished', runId: run.id, status: run.status, run });
+    return run;
+  }
+
+  /**
+   * Run a workflow and yield progress events as they happen
+   *
+   * The final event is always `workflow:finished`, carrying the complete run.
+   */
+  async *stream(
+    definition: WorkflowDefinition,
+    options: Omit<WorkflowRunOptions, 'onEvent'> = {}
+  ): AsyncGenerator<WorkflowEvent> {
+    const queue: WorkflowEvent[] = [];
+    let notify: (() => void) | undefined;
+    let done = false;
+    let failure: unknown;
+
+    this.run(definition, {
+      ...options,
+      onEvent: (event) => {
+        queue.push(event);
+        notify?.();
+      },
+    })
+      .catch((error) => {
+        failure = error;
+      })
+      .finally(() => {
+        done = true;
+        notify?.();
+      });
+
+    while (true) {
+      if (queue.length > 0) {
+        yield queue.shift()!;
+        continue;
+      }
+      if (failure) throw failure;
+      if (done) return;
+      await new Promise<void>((resolve) => (notify = resolve));
+      notify = undefined;
+    }
+  }
+
+  private async runStep(
+    definition: WorkflowDefinition,
+    step: WorkflowStep,
+    run: WorkflowRun,
+    emit: Emit,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const state = run.steps[step.id];
+    const started = Date.now();
+    state.status = 'running';
+    state.startedAt = new Date(started).toISOString();
+    emit({ type: 'step:started', runId: run.id, stepId: step.id });
+
+    const completedOutputs: Record<string, Record<string, unknown>> = {};
+    for (const [id, s] of Object.entries(run.steps)) {
+      if (s.status === 'completed') completedOutputs[id] = s.outputs || {};
+    }
+
+    try {
+      const handler = this.handlers.get(step.handler) || this.fallbackHandler;
+      if (!handler) {
+        throw new Error(`No handler registered for "${step.handler}"`);
+      }
+
+      const outputs = await handler({
+        runId: run.id,
+        step,
+        inputs: resolveStepInputs(step.inputs, run.inputs, completedOutputs),
+        dependencies: Object.fromEntries((step.dependencies || []).map((d) => [d, completedOutputs[d]])),
+        agents: definition.agents,
+        signal,
+      });
+
+      state.status = 'completed';
+      state.outputs = outputs;
+      state.finishedAt = new Date().toISOString();
+      state.durationMs = Date.now() - started;
+      emit({ type: 'step:completed', runId: run.id, stepId: step.id, outputs, durationMs: state.durationMs });
+    } catch (error) {
+      state.status = 'failed';
+      state.error = errorMessage(error);
+      state.finishedAt = new Date().toISOString();
+      state.durationMs = Date.now() - started;
+      emit({ type: 'step:failed', runId: run.id, stepId: step.id, error: state.error, durationMs: state.durationMs });
+    }
+  }
+
+  /**
+   * Mark pending steps whose dependencies failed or were skipped
+   */
+  private skipBlockedSteps(
+    definition: WorkflowDefinition,
+    run: WorkflowRun,
+    emit: Emit
+  ): void {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const step of definition.steps) {
+        if (run.steps[step.id].status !== 'pending') continue;
+
+        const blocker = (step.dependencies || []).find((d) => ['failed', 'skipped'].includes(run.steps[d].status));
+        if (blocker) {
+          run.steps[step.id].status = 'skipped';
+          emit({ type: 'step:skipped', runId: run.id, stepId: step.id, reason: `Dependency "${blocker}" did not complete` });
+          changed = true;
+        }
+      }
+    }
+  }
+}